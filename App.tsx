@@ -9,15 +9,19 @@ import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
 import DayTimelineScreen from './src/screens/DayTimelineScreen';
 import TasksScreen from './src/screens/TasksScreen';
 import SettingsScreen from './src/screens/SettingsScreen';
+import RecoveryScreen from './src/screens/RecoveryScreen';
 import { Dimensions } from './src/constants/dimensions';
 import { useDatabase } from './src/hooks/useDatabase';
 import { useCarryOver } from './src/hooks/useCarryOver';
 import { useNotifications } from './src/hooks/useNotifications';
 import ErrorBoundary from './src/components/common/ErrorBoundary';
+import UndoToast from './src/components/common/UndoToast';
+import SaveErrorBanner from './src/components/common/SaveErrorBanner';
+import { navigationRef, flushPendingNavigation, type RootTabParamList } from './src/navigation/navigationRef';
 import { ThemeProvider, useTheme } from './src/theme/ThemeContext';
 import type { ThemeColors } from './src/constants/colors';
 
-const Tab = createBottomTabNavigator();
+const Tab = createBottomTabNavigator<RootTabParamList>();
 
 function TabIcon({ label, focused, colors }: { label: string; focused: boolean; colors: ThemeColors }) {
   const styles = useStyles(colors);
@@ -40,25 +44,25 @@ function TabIcon({ label, focused, colors }: { label: string; focused: boolean;
 function AppContent() {
   const colors = useTheme();
   const styles = useStyles(colors);
-  const { isReady, error } = useDatabase();
+  const { isReady, error, retry, resetDatabase } = useDatabase();
   useCarryOver();
-  useNotifications();
+  useNotifications(isReady);
+
+  if (error) {
+    return <RecoveryScreen error={error} onRetry={retry} onReset={resetDatabase} />;
+  }
 
   if (!isReady) {
     return (
-      <View style={styles.loading} accessibilityRole="alert">
-        {error ? (
-          <Text style={styles.errorText}>Failed to load database: {error.message}</Text>
-        ) : (
-          <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading application" />
-        )}
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={colors.primary} accessibilityLabel="Loading application" />
       </View>
     );
   }
 
   return (
     <ErrorBoundary>
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} onReady={flushPendingNavigation}>
       <Tab.Navigator
         screenOptions={({ route }) => ({
           tabBarIcon: ({ focused }) => <TabIcon label={route.name} focused={focused} colors={colors} />,
@@ -85,6 +89,8 @@ function AppContent() {
           options={{ tabBarAccessibilityLabel: 'Settings tab' }}
         />
       </Tab.Navigator>
+      <UndoToast />
+      <SaveErrorBanner />
     </NavigationContainer>
     </ErrorBoundary>
   );
@@ -154,11 +160,5 @@ function useStyles(colors: ThemeColors) {
       alignItems: 'center',
       backgroundColor: colors.background,
     },
-    errorText: {
-      color: colors.error,
-      fontSize: Dimensions.fontMD,
-      textAlign: 'center',
-      padding: Dimensions.screenPadding,
-    },
   }), [colors]);
 }
@@ -0,0 +1,234 @@
+import {
+  BACKUP_FORMAT,
+  createBackupDocument,
+  parseBackupDocument,
+  mergeBackupData,
+} from '../services/backupService';
+import type { BackupData, TrashedRows } from '../db/backupDb';
+import { CURRENT_VERSION } from '../db/schema';
+import type { Task, TimeBlock, Template } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Pay rent',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-06',
+    scheduledTime: null,
+    estimatedMinutes: 30,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: null,
+    title: 'Deep work',
+    startTime: '2026-01-05T14:00:00.000Z',
+    endTime: '2026-01-05T15:00:00.000Z',
+    color: '#4F46E5',
+    type: 'focus',
+    ...overrides,
+  };
+}
+
+function makeTemplate(overrides: Partial<Template> = {}): Template {
+  return {
+    id: 'tpl-1',
+    name: 'Workday',
+    icon: '*',
+    blocks: [],
+    createdAt: '2026-01-01T08:00:00.000Z',
+    updatedAt: '2026-01-01T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeData(overrides: Partial<BackupData> = {}): BackupData {
+  return {
+    tasks: [],
+    occurrences: [],
+    timeBlocks: [],
+    templates: [],
+    dayPlans: [],
+    settings: {},
+    ...overrides,
+  };
+}
+
+describe('createBackupDocument', () => {
+  it('tags the data with the format and current schema version', () => {
+    const doc = createBackupDocument(makeData({ tasks: [makeTask()] }), new Date('2026-02-01T00:00:00.000Z'));
+
+    expect(doc.format).toBe(BACKUP_FORMAT);
+    expect(doc.version).toBe(CURRENT_VERSION);
+    expect(doc.exportedAt).toBe('2026-02-01T00:00:00.000Z');
+    expect(doc.tasks).toHaveLength(1);
+  });
+});
+
+describe('parseBackupDocument', () => {
+  it('round-trips an exported document', () => {
+    const data = makeData({
+      tasks: [makeTask({ subtasks: [{ id: 's1', title: 'Find checkbook', completed: false, parentTaskId: 'task-1' }] })],
+      timeBlocks: [makeBlock()],
+      templates: [makeTemplate()],
+      dayPlans: [{ date: '2026-01-06', wakeTime: '06:30', sleepTime: null, taskIds: ['task-1'], timeBlockIds: [] }],
+      settings: { theme: 'dark' },
+    });
+    const doc = parseBackupDocument(JSON.stringify(createBackupDocument(data)));
+
+    expect(doc).toMatchObject(data);
+  });
+
+  it('rejects input that is not a backup', () => {
+    expect(() => parseBackupDocument('not json')).toThrow('not valid JSON');
+    expect(() => parseBackupDocument('{"tasks": []}')).toThrow('not a DayDeck backup');
+  });
+
+  it('rejects backups from a newer schema', () => {
+    const doc = { ...createBackupDocument(makeData()), version: CURRENT_VERSION + 1 };
+    expect(() => parseBackupDocument(JSON.stringify(doc))).toThrow('newer version');
+  });
+
+  it('names the row that fails validation', () => {
+    const doc = createBackupDocument(makeData({ timeBlocks: [makeBlock(), makeBlock({ startTime: 5 as never })] }));
+    expect(() => parseBackupDocument(JSON.stringify(doc))).toThrow('time block #2 has no valid startTime');
+  });
+
+  it('migrates an archive from the first schema version', () => {
+    const legacyTask: Partial<Task> = makeTask({
+      status: 'done',
+      completedAt: '2026-01-06T09:00:00.000Z',
+      recurrence: { frequency: 'daily', interval: 1 },
+    });
+    delete legacyTask.carriedOverFrom;
+    delete legacyTask.scheduledTime;
+    delete legacyTask.seriesId;
+    const legacy = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      exportedAt: '2026-01-07T00:00:00.000Z',
+      tasks: [legacyTask],
+      timeBlocks: [],
+      dayPlans: [],
+    };
+    const doc = parseBackupDocument(JSON.stringify(legacy));
+
+    expect(doc.version).toBe(CURRENT_VERSION);
+    expect(doc.settings).toEqual({});
+    expect(doc.templates).toEqual([]);
+    expect(doc.tasks[0]).toMatchObject({
+      status: 'todo',
+      completedAt: null,
+      carriedOverFrom: null,
+      scheduledTime: null,
+      seriesId: 'task-1',
+    });
+    expect(doc.occurrences).toEqual([
+      { taskId: 'task-1', date: '2026-01-06', status: 'done', completedAt: '2026-01-06T09:00:00.000Z', skipped: false },
+    ]);
+  });
+});
+
+describe('mergeBackupData', () => {
+  const NO_TRASH: TrashedRows = { tasks: {}, timeBlocks: {}, templates: {} };
+
+  it('keeps whichever task was updated last', () => {
+    const local = makeData({
+      tasks: [
+        makeTask({ id: 'a', title: 'Local A', updatedAt: '2026-01-05T10:00:00.000Z' }),
+        makeTask({ id: 'b', title: 'Local B', updatedAt: '2026-01-05T10:00:00.000Z' }),
+      ],
+    });
+    const incoming = makeData({
+      tasks: [
+        makeTask({ id: 'a', title: 'Backup A', updatedAt: '2026-01-05T09:00:00.000Z' }),
+        makeTask({ id: 'b', title: 'Backup B', updatedAt: '2026-01-05T11:00:00.000Z' }),
+        makeTask({ id: 'c', title: 'Backup C' }),
+      ],
+    });
+
+    const merged = mergeBackupData(local, incoming, NO_TRASH);
+    expect(merged.tasks.map((t) => t.title)).toEqual(['Backup B', 'Backup C']);
+  });
+
+  it('brings occurrence states along only with tasks that win', () => {
+    const local = makeData({ tasks: [makeTask({ id: 'a', updatedAt: '2026-01-06T00:00:00.000Z' })] });
+    const occurrence = (taskId: string) => ({
+      taskId,
+      date: '2026-01-06',
+      status: 'done' as const,
+      completedAt: null,
+      skipped: false,
+    });
+    const incoming = makeData({
+      tasks: [makeTask({ id: 'a' }), makeTask({ id: 'b' })],
+      occurrences: [occurrence('a'), occurrence('b')],
+    });
+
+    const merged = mergeBackupData(local, incoming, NO_TRASH);
+    expect(merged.occurrences.map((o) => o.taskId)).toEqual(['b']);
+  });
+
+  it('only adds blocks, day plans and settings missing locally', () => {
+    const local = makeData({
+      timeBlocks: [makeBlock({ id: 'b1' })],
+      dayPlans: [{ date: '2026-01-06', wakeTime: null, sleepTime: null, taskIds: [], timeBlockIds: [] }],
+      settings: { theme: 'dark' },
+      templates: [makeTemplate({ updatedAt: '2026-01-02T00:00:00.000Z' })],
+    });
+    const incoming = makeData({
+      timeBlocks: [makeBlock({ id: 'b1', title: 'Changed' }), makeBlock({ id: 'b2' })],
+      dayPlans: [
+        { date: '2026-01-06', wakeTime: '05:00', sleepTime: null, taskIds: [], timeBlockIds: [] },
+        { date: '2026-01-07', wakeTime: '06:00', sleepTime: null, taskIds: [], timeBlockIds: [] },
+      ],
+      settings: { theme: 'light', dayStartHour: '6' },
+      templates: [makeTemplate()],
+    });
+    const merged = mergeBackupData(local, incoming, NO_TRASH);
+
+    expect(merged.timeBlocks.map((b) => b.id)).toEqual(['b2']);
+    expect(merged.dayPlans.map((p) => p.date)).toEqual(['2026-01-07']);
+    expect(merged.settings).toEqual({ dayStartHour: '6' });
+    expect(merged.templates).toEqual([]);
+  });
+
+  it('keeps trashed rows trashed unless the backup changed them after the deletion', () => {
+    const trashed: TrashedRows = {
+      tasks: { a: '2026-01-06T00:00:00.000Z', b: '2026-01-06T00:00:00.000Z' },
+      timeBlocks: { b1: '2026-01-06T00:00:00.000Z' },
+      templates: { 'tpl-1': '2026-01-06T00:00:00.000Z' },
+    };
+    const incoming = makeData({
+      tasks: [
+        makeTask({ id: 'a', updatedAt: '2026-01-05T00:00:00.000Z' }),
+        makeTask({ id: 'b', updatedAt: '2026-01-07T00:00:00.000Z' }),
+      ],
+      timeBlocks: [
+        makeBlock({ id: 'b1' }),
+        makeBlock({ id: 'linked-a', taskId: 'a' }),
+        makeBlock({ id: 'linked-b', taskId: 'b' }),
+      ],
+      templates: [makeTemplate({ updatedAt: '2026-01-05T00:00:00.000Z' })],
+    });
+    const merged = mergeBackupData(makeData(), incoming, trashed);
+
+    expect(merged.tasks.map((t) => t.id)).toEqual(['b']);
+    expect(merged.timeBlocks.map((b) => b.id)).toEqual(['linked-b']);
+    expect(merged.templates).toEqual([]);
+  });
+});
@@ -24,6 +24,7 @@ function makeTask(overrides: Partial<Task> = {}): Task {
     updatedAt: '2026-01-04T08:00:00.000Z',
     completedAt: null,
     carriedOverFrom: null,
+    seriesId: null,
     ...overrides,
   };
 }
@@ -59,6 +60,17 @@ describe('getCarryOverCandidates', () => {
     expect(getCarryOverCandidates(tasks, today)).toHaveLength(0);
   });
 
+  it('excludes recurring series masters', () => {
+    const tasks = [
+      makeTask({
+        scheduledDate: '2026-01-01',
+        status: 'todo',
+        recurrence: { frequency: 'daily', interval: 1 },
+      }),
+    ];
+    expect(getCarryOverCandidates(tasks, today)).toHaveLength(0);
+  });
+
   it('handles multiple candidates from different past dates', () => {
     const tasks = [
       makeTask({ id: 't1', scheduledDate: '2026-01-03', status: 'todo' }),
@@ -0,0 +1,69 @@
+import { layoutColumns, getColumnFrame } from '../utils/columnLayout';
+
+function item(id: string, start: number, end: number) {
+  return { id, start, end };
+}
+
+describe('layoutColumns', () => {
+  it('gives items that overlap nothing the full width', () => {
+    const slots = layoutColumns([item('a', 0, 60), item('b', 60, 120)]);
+    expect(slots.get('a')).toEqual({ column: 0, columns: 1, span: 1, cluster: 0 });
+    expect(slots.get('b')).toEqual({ column: 0, columns: 1, span: 1, cluster: 1 });
+  });
+
+  it('puts overlapping items side by side', () => {
+    const slots = layoutColumns([item('b', 30, 90), item('a', 0, 60)]);
+    expect(slots.get('a')).toEqual({ column: 0, columns: 2, span: 1, cluster: 0 });
+    expect(slots.get('b')).toEqual({ column: 1, columns: 2, span: 1, cluster: 0 });
+  });
+
+  it('reuses a column once the item in it has ended', () => {
+    const slots = layoutColumns([
+      item('long', 0, 120),
+      item('first', 0, 60),
+      item('second', 60, 120),
+    ]);
+    expect(slots.get('long')).toMatchObject({ column: 0, columns: 2 });
+    expect(slots.get('first')).toMatchObject({ column: 1, columns: 2 });
+    expect(slots.get('second')).toMatchObject({ column: 1, columns: 2 });
+  });
+
+  it('shares a cluster across a chain of overlaps', () => {
+    // a overlaps b, b overlaps c, but a and c do not overlap
+    const slots = layoutColumns([item('a', 0, 60), item('b', 30, 90), item('c', 60, 120)]);
+    expect(slots.get('a')).toMatchObject({ column: 0, columns: 2, cluster: 0 });
+    expect(slots.get('b')).toMatchObject({ column: 1, columns: 2, cluster: 0 });
+    expect(slots.get('c')).toMatchObject({ column: 0, columns: 2, cluster: 0 });
+  });
+
+  it('widens an item into the free columns to its right', () => {
+    const slots = layoutColumns([
+      item('a', 0, 60),
+      item('b', 0, 30),
+      item('c', 0, 30),
+      item('d', 30, 60),
+    ]);
+    // a, b and c need three columns; d starts in b's column once b ends
+    expect(slots.get('d')).toEqual({ column: 1, columns: 3, span: 2, cluster: 0 });
+    expect(slots.get('c')).toMatchObject({ column: 2, span: 1 });
+  });
+
+  it('returns an empty layout for no items', () => {
+    expect(layoutColumns([]).size).toBe(0);
+  });
+});
+
+describe('getColumnFrame', () => {
+  it('splits the lane between columns, with a gap between neighbours', () => {
+    const slot = { columns: 3, span: 1, cluster: 0 };
+    expect(getColumnFrame({ ...slot, column: 0 }, 60, 300, 4)).toEqual({ left: 60, width: 96 });
+    expect(getColumnFrame({ ...slot, column: 2 }, 60, 300, 4)).toEqual({ left: 260, width: 100 });
+  });
+
+  it('covers the columns an item spans', () => {
+    expect(getColumnFrame({ column: 1, columns: 3, span: 2, cluster: 0 }, 0, 300, 4)).toEqual({
+      left: 100,
+      width: 200,
+    });
+  });
+});
@@ -106,6 +106,15 @@ describe('detectConflicts', () => {
     });
     expect(detectConflicts([block], [event])).toEqual([]);
   });
+
+  it('ignores all-day events', () => {
+    const event = makeEvent({
+      startTime: '2026-01-05T00:00:00.000Z',
+      endTime: '2026-01-06T00:00:00.000Z',
+      allDay: true,
+    });
+    expect(detectConflicts([makeBlock()], [event])).toEqual([]);
+  });
 });
 
 describe('hasConflict', () => {
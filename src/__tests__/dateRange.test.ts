@@ -0,0 +1,52 @@
+import { getRangeAround, extendRange, getUnloadedRanges, getRangeBounds } from '../utils/dateRange';
+
+describe('getRangeAround', () => {
+  it('reaches the given number of days either side', () => {
+    expect(getRangeAround('2026-03-01', 2)).toEqual({ startDate: '2026-02-27', endDate: '2026-03-03' });
+  });
+});
+
+describe('extendRange', () => {
+  it('returns the range when nothing is loaded', () => {
+    const range = { startDate: '2026-01-01', endDate: '2026-01-10' };
+    expect(extendRange(null, range)).toEqual(range);
+  });
+
+  it('covers the gap between disjoint ranges', () => {
+    expect(
+      extendRange(
+        { startDate: '2026-01-01', endDate: '2026-01-10' },
+        { startDate: '2026-02-01', endDate: '2026-02-05' },
+      ),
+    ).toEqual({ startDate: '2026-01-01', endDate: '2026-02-05' });
+  });
+});
+
+describe('getUnloadedRanges', () => {
+  const loaded = { startDate: '2026-01-10', endDate: '2026-01-20' };
+
+  it('returns nothing for a range already loaded', () => {
+    expect(getUnloadedRanges(loaded, { startDate: '2026-01-12', endDate: '2026-01-15' })).toEqual([]);
+  });
+
+  it('returns the days on either side of what is loaded', () => {
+    expect(getUnloadedRanges(loaded, { startDate: '2026-01-05', endDate: '2026-01-25' })).toEqual([
+      { startDate: '2026-01-05', endDate: '2026-01-09' },
+      { startDate: '2026-01-21', endDate: '2026-01-25' },
+    ]);
+  });
+
+  it('fills the gap up to a range far ahead', () => {
+    expect(getUnloadedRanges(loaded, { startDate: '2026-03-01', endDate: '2026-03-05' })).toEqual([
+      { startDate: '2026-01-21', endDate: '2026-03-05' },
+    ]);
+  });
+});
+
+describe('getRangeBounds', () => {
+  it('runs from local midnight to the midnight after the last day', () => {
+    const { start, end } = getRangeBounds({ startDate: '2026-01-05', endDate: '2026-01-06' });
+    expect(start).toBe(new Date(2026, 0, 5).toISOString());
+    expect(end).toBe(new Date(2026, 0, 7).toISOString());
+  });
+});
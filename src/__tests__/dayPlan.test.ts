@@ -0,0 +1,74 @@
+import { getDayHours, orderTasksForDay, moveTaskInOrder } from '../utils/dayPlan';
+import type { DayPlan, Task, TaskStatus } from '../types';
+
+function makePlan(overrides: Partial<DayPlan> = {}): DayPlan {
+  return {
+    date: '2026-01-05',
+    wakeTime: null,
+    sleepTime: null,
+    taskIds: [],
+    timeBlockIds: [],
+    ...overrides,
+  };
+}
+
+function makeTask(id: string, sortOrder: number, status: TaskStatus = 'todo'): Task {
+  return {
+    id,
+    title: id,
+    description: '',
+    status,
+    priority: 'medium',
+    scheduledDate: '2026-01-05',
+    scheduledTime: null,
+    estimatedMinutes: null,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+  };
+}
+
+describe('getDayHours', () => {
+  it('uses the configured hours for days without a plan', () => {
+    expect(getDayHours(undefined, 7, 23)).toEqual({ startHour: 7, endHour: 23 });
+    expect(getDayHours(makePlan(), 7, 23)).toEqual({ startHour: 7, endHour: 23 });
+  });
+
+  it('bounds the day by its wake and sleep times', () => {
+    const plan = makePlan({ wakeTime: '05:30', sleepTime: '21:30' });
+    expect(getDayHours(plan, 7, 23)).toEqual({ startHour: 5, endHour: 22 });
+  });
+
+  it('caps a sleep time past midnight at the end of the day', () => {
+    const plan = makePlan({ wakeTime: '09:00', sleepTime: '01:00' });
+    expect(getDayHours(plan, 7, 23)).toEqual({ startHour: 9, endHour: 24 });
+  });
+});
+
+describe('orderTasksForDay', () => {
+  it('puts planned tasks first in plan order, then the rest by sortOrder', () => {
+    const tasks = [makeTask('a', 1), makeTask('b', 2), makeTask('c', 3), makeTask('d', 0)];
+    const ordered = orderTasksForDay(tasks, ['c', 'a']);
+    expect(ordered.map((t) => t.id)).toEqual(['c', 'a', 'd', 'b']);
+  });
+});
+
+describe('moveTaskInOrder', () => {
+  const tasks = [makeTask('a', 0), makeTask('b', 1, 'done'), makeTask('c', 2), makeTask('d', 3)];
+
+  it('swaps with the nearest task of the same status', () => {
+    expect(moveTaskInOrder(tasks, 'c', -1)).toEqual(['c', 'b', 'a', 'd']);
+    expect(moveTaskInOrder(tasks, 'c', 1)).toEqual(['a', 'b', 'd', 'c']);
+  });
+
+  it('returns null at the edge of its section', () => {
+    expect(moveTaskInOrder(tasks, 'a', -1)).toBeNull();
+    expect(moveTaskInOrder(tasks, 'b', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { coversDate, getDaySegment, getCoveredDates } from '../utils/daySegments';
+
+/** Local time on a date, as an ISO string */
+function at(date: string, time: string): string {
+  return new Date(`${date}T${time}:00`).toISOString();
+}
+
+describe('coversDate', () => {
+  it('covers every day an item runs into', () => {
+    const start = at('2026-03-02', '23:00');
+    const end = at('2026-03-03', '01:00');
+    expect(coversDate(start, end, '2026-03-01')).toBe(false);
+    expect(coversDate(start, end, '2026-03-02')).toBe(true);
+    expect(coversDate(start, end, '2026-03-03')).toBe(true);
+  });
+
+  it('does not reach the next day when ending at midnight', () => {
+    const end = at('2026-03-03', '00:00');
+    expect(coversDate(at('2026-03-02', '22:00'), end, '2026-03-03')).toBe(false);
+  });
+
+  it('puts an item with no length on the day it falls on', () => {
+    const point = at('2026-03-03', '00:00');
+    expect(coversDate(point, point, '2026-03-02')).toBe(false);
+    expect(coversDate(point, point, '2026-03-03')).toBe(true);
+  });
+});
+
+describe('getDaySegment', () => {
+  const start = at('2026-03-02', '23:00');
+  const end = at('2026-03-03', '01:30');
+
+  it('clips an item that crosses midnight to each day', () => {
+    expect(getDaySegment(start, end, '2026-03-02')).toEqual({
+      startMinutes: 23 * 60,
+      endMinutes: 24 * 60,
+      clippedStart: false,
+      clippedEnd: true,
+    });
+    expect(getDaySegment(start, end, '2026-03-03')).toEqual({
+      startMinutes: 0,
+      endMinutes: 90,
+      clippedStart: true,
+      clippedEnd: false,
+    });
+  });
+
+  it('covers the whole of a day in the middle of a longer item', () => {
+    const segment = getDaySegment(start, at('2026-03-05', '09:00'), '2026-03-04');
+    expect(segment).toEqual({
+      startMinutes: 0,
+      endMinutes: 24 * 60,
+      clippedStart: true,
+      clippedEnd: true,
+    });
+  });
+
+  it('leaves an item within the day as it is', () => {
+    const date = '2026-03-02';
+    const segment = getDaySegment(at(date, '09:15'), at(date, '10:00'), date);
+    expect(segment).toEqual({
+      startMinutes: 555,
+      endMinutes: 600,
+      clippedStart: false,
+      clippedEnd: false,
+    });
+  });
+
+  it('returns null for a day the item does not cover', () => {
+    expect(getDaySegment(start, end, '2026-03-04')).toBeNull();
+  });
+});
+
+describe('getCoveredDates', () => {
+  it('lists each day from start to end', () => {
+    expect(getCoveredDates(at('2026-03-02', '23:00'), at('2026-03-04', '01:00'))).toEqual([
+      '2026-03-02',
+      '2026-03-03',
+      '2026-03-04',
+    ]);
+  });
+
+  it('treats the end as exclusive, as all-day events end at the next midnight', () => {
+    const dates = getCoveredDates(at('2026-03-02', '00:00'), at('2026-03-03', '00:00'));
+    expect(dates).toEqual(['2026-03-02']);
+  });
+});
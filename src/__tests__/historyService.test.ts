@@ -0,0 +1,58 @@
+import { diffHistoryStates } from '../services/historyService';
+import type { HistoryState } from '../services/historyService';
+import type { TimeBlock } from '../types';
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: null,
+    title: 'Block',
+    startTime: '2026-01-05T09:00:00.000Z',
+    endTime: '2026-01-05T10:00:00.000Z',
+    color: '#4F46E5',
+    type: 'task',
+    ...overrides,
+  };
+}
+
+function makeState(overrides: Partial<HistoryState> = {}): HistoryState {
+  return { tasks: [], occurrences: {}, timeBlocks: [], templates: [], ...overrides };
+}
+
+describe('diffHistoryStates', () => {
+  it('returns null when nothing changed', () => {
+    const block = makeBlock();
+    expect(diffHistoryStates(makeState({ timeBlocks: [block] }), makeState({ timeBlocks: [block] }))).toBeNull();
+  });
+
+  it('ignores entities that were only reordered', () => {
+    const a = makeBlock({ id: 'a' });
+    const b = makeBlock({ id: 'b' });
+    expect(diffHistoryStates(makeState({ timeBlocks: [a, b] }), makeState({ timeBlocks: [b, a] }))).toBeNull();
+  });
+
+  it('records additions, updates and deletions with null for a missing side', () => {
+    const kept = makeBlock({ id: 'kept' });
+    const moved = makeBlock({ id: 'moved' });
+    const movedAfter = { ...moved, startTime: '2026-01-05T11:00:00.000Z' };
+    const removed = makeBlock({ id: 'removed' });
+    const added = makeBlock({ id: 'added' });
+
+    const change = diffHistoryStates(
+      makeState({ timeBlocks: [kept, moved, removed] }),
+      makeState({ timeBlocks: [kept, movedAfter, added] }),
+    );
+
+    expect(change?.before.timeBlocks).toEqual({ moved, removed, added: null });
+    expect(change?.after.timeBlocks).toEqual({ moved: movedAfter, removed: null, added });
+    expect(change?.before.tasks).toEqual({});
+  });
+
+  it('diffs occurrences by occurrence id', () => {
+    const occurrence = { taskId: 't1', date: '2026-01-05', status: 'done' as const, completedAt: null, skipped: false };
+    const change = diffHistoryStates(makeState(), makeState({ occurrences: { 't1::2026-01-05': occurrence } }));
+
+    expect(change?.before.occurrences).toEqual({ 't1::2026-01-05': null });
+    expect(change?.after.occurrences).toEqual({ 't1::2026-01-05': occurrence });
+  });
+});
@@ -0,0 +1,130 @@
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  scheduleNotificationAsync: jest.fn(async () => ''),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+import { useHistoryStore } from '../store/useHistoryStore';
+import { useTaskStore } from '../store/useTaskStore';
+import { useTimeBlockStore } from '../store/useTimeBlockStore';
+import { useTemplateStore } from '../store/useTemplateStore';
+import type { Task, TimeBlock } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Write report',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-05',
+    scheduledTime: null,
+    estimatedMinutes: 30,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: null,
+    title: 'Block',
+    startTime: '2026-01-05T09:00:00.000Z',
+    endTime: '2026-01-05T10:00:00.000Z',
+    color: '#4F46E5',
+    type: 'focus',
+    ...overrides,
+  };
+}
+
+const { record, undo, redo } = useHistoryStore.getState();
+
+describe('useHistoryStore', () => {
+  beforeEach(() => {
+    useTaskStore.setState({ tasks: [], occurrences: {} });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+    useTemplateStore.setState({ templates: [] });
+    useHistoryStore.getState().clear();
+  });
+
+  it('undoes and redoes a task deletion', () => {
+    useTaskStore.setState({ tasks: [makeTask()] });
+
+    record('Task deleted', () => useTaskStore.getState().deleteTask('task-1'), { notify: true });
+    expect(useTaskStore.getState().tasks).toHaveLength(0);
+    expect(useHistoryStore.getState().notice).toEqual({ message: 'Task deleted', action: 'undo' });
+
+    undo();
+    expect(useTaskStore.getState().tasks.map((t) => t.title)).toEqual(['Write report']);
+    expect(useHistoryStore.getState().notice).toEqual({ message: 'Undone: Task deleted', action: 'redo' });
+
+    redo();
+    expect(useTaskStore.getState().tasks).toHaveLength(0);
+  });
+
+  it('puts back every block a drag shifted', () => {
+    useTimeBlockStore.setState({
+      timeBlocks: [
+        makeBlock({ id: 'a' }),
+        makeBlock({ id: 'b', startTime: '2026-01-05T11:00:00.000Z', endTime: '2026-01-05T12:00:00.000Z' }),
+      ],
+    });
+
+    // Dropping a onto b pushes b down to a's new end
+    record('Block moved', () =>
+      useTimeBlockStore.getState().moveTimeBlock('a', '2026-01-05T10:30:00.000Z', '2026-01-05T11:30:00.000Z'),
+    );
+    const moved = Object.fromEntries(useTimeBlockStore.getState().timeBlocks.map((b) => [b.id, b.startTime]));
+    expect(moved).toEqual({ a: '2026-01-05T10:30:00.000Z', b: '2026-01-05T11:30:00.000Z' });
+
+    undo();
+    const restored = Object.fromEntries(useTimeBlockStore.getState().timeBlocks.map((b) => [b.id, b.startTime]));
+    expect(restored).toEqual({ a: '2026-01-05T09:00:00.000Z', b: '2026-01-05T11:00:00.000Z' });
+  });
+
+  it('folds nested records and batches into a single entry', () => {
+    record('Template applied', () => {
+      useTimeBlockStore.getState().addTimeBlock(makeBlock({ id: 'a' }));
+      const later = makeBlock({ id: 'b', startTime: '2026-01-05T13:00:00.000Z', endTime: '2026-01-05T14:00:00.000Z' });
+      record('Block added', () => useTimeBlockStore.getState().addTimeBlock(later));
+    });
+    expect(useHistoryStore.getState().past.map((e) => e.label)).toEqual(['Template applied']);
+
+    undo();
+    expect(useTimeBlockStore.getState().timeBlocks).toHaveLength(0);
+  });
+
+  it('skips changes that changed nothing and clears redo on a new change', () => {
+    record('Nothing', () => undefined);
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+
+    record('Block added', () => useTimeBlockStore.getState().addTimeBlock(makeBlock()));
+    undo();
+    expect(useHistoryStore.getState().future).toHaveLength(1);
+
+    record('Block added', () => useTimeBlockStore.getState().addTimeBlock(makeBlock({ id: 'block-2' })));
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+  });
+
+  it('restores occurrence state when undoing a status change', () => {
+    useTaskStore.setState({
+      tasks: [makeTask({ recurrence: { frequency: 'daily', interval: 1 }, seriesId: 'task-1' })],
+    });
+
+    record('Task completed', () => useTaskStore.getState().setTaskStatus('task-1::2026-01-06', 'done'));
+    expect(useTaskStore.getState().occurrences['task-1::2026-01-06']?.status).toBe('done');
+
+    undo();
+    expect(useTaskStore.getState().occurrences['task-1::2026-01-06']).toBeUndefined();
+  });
+});
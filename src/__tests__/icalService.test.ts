@@ -0,0 +1,306 @@
+import {
+  buildICalendar,
+  parseICalendar,
+  planICalImport,
+  getImportId,
+  buildImportedTask,
+  buildImportedBlocks,
+} from '../services/icalService';
+import { buildOccurrenceId } from '../utils/taskOccurrences';
+import type { Task, TimeBlock } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Pay rent',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-06',
+    scheduledTime: null,
+    estimatedMinutes: null,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: null,
+    title: 'Deep work',
+    startTime: new Date(2026, 0, 6, 14, 0).toISOString(),
+    endTime: new Date(2026, 0, 6, 15, 30).toISOString(),
+    color: '#4F46E5',
+    type: 'focus',
+    ...overrides,
+  };
+}
+
+const RANGE = { startDate: '2026-01-05', endDate: '2026-01-11' };
+const NOW = new Date('2026-01-05T12:00:00.000Z');
+
+function exportCalendar(tasks: Task[], blocks: TimeBlock[] = [], occurrences = {}): string[] {
+  return buildICalendar(tasks, occurrences, blocks, RANGE, 30, NOW).split('\r\n');
+}
+
+describe('buildICalendar', () => {
+  it('wraps components in a VCALENDAR with CRLF line endings', () => {
+    const ics = buildICalendar([], {}, [], RANGE, 30, NOW);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('exports time blocks in the range as UTC events', () => {
+    const lines = exportCalendar([], [makeBlock(), makeBlock({ id: 'late', startTime: new Date(2026, 0, 20, 9).toISOString() })]);
+
+    expect(lines).toContain('UID:block-1@daydeck');
+    expect(lines).not.toContain('UID:late@daydeck');
+    expect(lines).toContain(`DTSTART:${new Date(2026, 0, 6, 14, 0).toISOString().replace(/[-:]|\.000/g, '')}`);
+    expect(lines).toContain('CATEGORIES:FOCUS');
+  });
+
+  it('exports timed tasks as events lasting their estimate, with alarms', () => {
+    const lines = exportCalendar([
+      makeTask({
+        scheduledTime: '09:30',
+        estimatedMinutes: 90,
+        notifications: [
+          { id: 'n1', offsetMinutes: 15, enabled: true },
+          { id: 'n2', offsetMinutes: 60, enabled: false },
+        ],
+      }),
+    ]);
+
+    expect(lines).toEqual(
+      expect.arrayContaining(['BEGIN:VEVENT', 'DTSTART:20260106T093000', 'DURATION:PT1H30M', 'TRIGGER:-PT15M']),
+    );
+    expect(lines.filter((l) => l === 'BEGIN:VALARM')).toHaveLength(1);
+  });
+
+  it('exports all-day tasks as to-dos with their status', () => {
+    const lines = exportCalendar([makeTask({ status: 'done', completedAt: '2026-01-06T10:00:00.000Z' })]);
+
+    expect(lines).toEqual(
+      expect.arrayContaining(['BEGIN:VTODO', 'DUE;VALUE=DATE:20260106', 'STATUS:COMPLETED', 'COMPLETED:20260106T100000Z']),
+    );
+  });
+
+  it('emits the RRULE of recurring tasks with skipped dates as EXDATEs', () => {
+    const task = makeTask({
+      scheduledDate: '2025-12-01',
+      scheduledTime: '08:00',
+      recurrence: { frequency: 'weekly', interval: 1, daysOfWeek: [2], endDate: '2026-03-31' },
+    });
+    const occurrences = {
+      [buildOccurrenceId('task-1', '2026-01-13')]: {
+        taskId: 'task-1',
+        date: '2026-01-13',
+        status: 'todo' as const,
+        completedAt: null,
+        skipped: true,
+      },
+    };
+    const lines = exportCalendar([task], [], occurrences);
+
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=TU;UNTIL=20260331T080000');
+    expect(lines).toContain('EXDATE:20260113T080000');
+  });
+
+  it('leaves out blocks linked to an exported timed task', () => {
+    const lines = exportCalendar([makeTask({ scheduledTime: '14:00' })], [makeBlock({ taskId: 'task-1' })]);
+
+    expect(lines).not.toContain('UID:block-1@daydeck');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const title = 'Groceries; milk, eggs and a very long list of other things to pick up on the way home';
+    const ics = buildICalendar([makeTask({ title })], {}, [], RANGE, 30, NOW);
+    const lines = ics.split('\r\n');
+
+    expect(lines.every((l) => l.length <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain('SUMMARY:Groceries\\; milk\\, eggs and');
+  });
+});
+
+function calendar(...components: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...components, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('parseICalendar', () => {
+  it('rejects text that is not a calendar', () => {
+    expect(() => parseICalendar('hello')).toThrow('not an iCalendar');
+  });
+
+  it('reads a timed event with its duration, reminders and escaped text', () => {
+    const [item] = parseICalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:abc@example.com',
+        'SUMMARY:Lunch\\, with Sam',
+        'DESCRIPTION:Bring the\\nnotes',
+        'DTSTART:20260106T123000',
+        'DTEND:20260106T133000',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT10M',
+        'END:VALARM',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(item).toMatchObject({
+      uid: 'abc@example.com',
+      kind: 'event',
+      title: 'Lunch, with Sam',
+      description: 'Bring the\nnotes',
+      date: '2026-01-06',
+      time: '12:30',
+      durationMinutes: 60,
+      reminderOffsets: [10],
+    });
+  });
+
+  it('unfolds continuation lines', () => {
+    const [item] = parseICalendar(
+      calendar('BEGIN:VTODO', 'SUMMARY:Renew the', '  passport', 'DUE;VALUE=DATE:20260110', 'END:VTODO'),
+    );
+    expect(item.title).toBe('Renew the passport');
+    expect(item).toMatchObject({ kind: 'todo', date: '2026-01-10', time: null });
+  });
+
+  it('converts UTC and TZID times to local time', () => {
+    const [utc, zoned] = parseICalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART:20260106T150000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/New_York:20260706T090000',
+        'END:VEVENT',
+      ),
+    );
+    const expectedUtc = new Date(Date.UTC(2026, 0, 6, 15, 0));
+    const expectedZoned = new Date(Date.UTC(2026, 6, 6, 13, 0)); // EDT is UTC-4
+
+    expect(utc.time).toBe(`${String(expectedUtc.getHours()).padStart(2, '0')}:00`);
+    expect(zoned.time).toBe(`${String(expectedZoned.getHours()).padStart(2, '0')}:00`);
+  });
+
+  it('maps RRULE and EXDATE onto a recurrence', () => {
+    const [item] = parseICalendar(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART:20260105T080000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10',
+        'EXDATE:20260107T080000',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(item.recurrence).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      daysOfWeek: [1, 3],
+      count: 10,
+      exceptionDates: ['2026-01-07'],
+    });
+    expect(item.unsupportedRecurrence).toBe(false);
+  });
+
+  it('flags rules it cannot represent', () => {
+    const [item] = parseICalendar(
+      calendar('BEGIN:VEVENT', 'DTSTART:20260105T080000', 'RRULE:FREQ=HOURLY', 'END:VEVENT'),
+    );
+    expect(item.recurrence).toBeNull();
+    expect(item.unsupportedRecurrence).toBe(true);
+  });
+
+  it('round-trips an export', () => {
+    const task = makeTask({
+      scheduledTime: '09:30',
+      estimatedMinutes: 45,
+      priority: 'high',
+      recurrence: { frequency: 'daily', interval: 2 },
+      notifications: [{ id: 'n1', offsetMinutes: 15, enabled: true }],
+    });
+    const [item] = parseICalendar(buildICalendar([task], {}, [], RANGE, 30, NOW));
+
+    expect(getImportId(item.uid)).toBe('task-1');
+    expect(item).toMatchObject({
+      title: 'Pay rent',
+      date: '2026-01-06',
+      time: '09:30',
+      durationMinutes: 45,
+      priority: 'high',
+      recurrence: { frequency: 'daily', interval: 2 },
+      reminderOffsets: [15],
+    });
+  });
+});
+
+describe('planICalImport', () => {
+  const items = parseICalendar(
+    calendar(
+      'BEGIN:VEVENT',
+      'UID:meeting@example.com',
+      'DTSTART:20260106T100000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup@example.com',
+      'DTSTART:20260106T090000',
+      'RRULE:FREQ=DAILY;COUNT=3',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:task-1@daydeck',
+      'DUE;VALUE=DATE:20260106',
+      'END:VTODO',
+    ),
+  );
+
+  it('defaults events to blocks, repeating events and to-dos to tasks', () => {
+    const plan = planICalImport(items, [], []);
+    expect(plan.map((c) => c.target)).toEqual(['block', 'task', 'task']);
+  });
+
+  it('detects items imported before by UID and skips them', () => {
+    const plan = planICalImport(items, [makeTask().id], [getImportId('meeting@example.com')]);
+
+    expect(plan.map((c) => c.duplicate)).toEqual([true, false, true]);
+    expect(plan.map((c) => c.target)).toEqual(['skip', 'task', 'skip']);
+  });
+
+  it('detects a repeating event imported before as blocks', () => {
+    const blockId = `${getImportId('standup@example.com')}:2026-01-07`;
+    const plan = planICalImport(items, [], [blockId]);
+
+    expect(plan.map((c) => c.duplicate)).toEqual([false, true, false]);
+  });
+
+  it('builds tasks and one block per date of a repeating event', () => {
+    const [meeting, standup] = planICalImport(items, [], []);
+    const task = buildImportedTask(standup, NOW);
+    const blocks = buildImportedBlocks(standup, 30);
+
+    expect(task).toMatchObject({ scheduledTime: '09:00', seriesId: task.id, recurrence: { count: 3 } });
+    expect(blocks.map((b) => b.id)).toEqual([
+      `${standup.id}:2026-01-06`,
+      `${standup.id}:2026-01-07`,
+      `${standup.id}:2026-01-08`,
+    ]);
+    expect(buildImportedBlocks(meeting, 30)[0]).toMatchObject({
+      id: meeting.id,
+      type: 'event',
+      startTime: new Date(2026, 0, 6, 10, 0).toISOString(),
+      endTime: new Date(2026, 0, 6, 10, 30).toISOString(),
+    });
+  });
+});
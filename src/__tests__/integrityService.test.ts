@@ -0,0 +1,105 @@
+import { checkIntegrity, isBlockingIntegrityIssue, describeIntegrityIssue } from '../services/integrityService';
+import type { IntegrityRows, IntegrityTaskRow, IntegrityTimeBlockRow } from '../db/integrityDb';
+
+function makeTask(overrides: Partial<IntegrityTaskRow> = {}): IntegrityTaskRow {
+  return {
+    id: 'task-1',
+    title: 'Write report',
+    recurrence_json: null,
+    notifications_json: '[]',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<IntegrityTimeBlockRow> = {}): IntegrityTimeBlockRow {
+  return {
+    id: 'block-1',
+    task_id: null,
+    title: 'Block',
+    start_time: '2026-01-05T09:00:00.000Z',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+function makeRows(overrides: Partial<IntegrityRows> = {}): IntegrityRows {
+  return { tasks: [], timeBlocks: [], dayPlans: [], templates: [], ...overrides };
+}
+
+describe('checkIntegrity', () => {
+  it('finds nothing wrong with consistent data', () => {
+    const rows = makeRows({
+      tasks: [makeTask({ recurrence_json: '{"frequency":"daily","interval":1}' })],
+      timeBlocks: [makeBlock({ task_id: 'task-1' })],
+      dayPlans: [{ date: '2026-01-05', task_ids_json: '["task-1::2026-01-05"]', time_block_ids_json: '["block-1"]' }],
+      templates: [{ id: 'tmpl-1', name: 'Deep Work', blocks_json: '[]' }],
+    });
+    expect(checkIntegrity(rows)).toEqual([]);
+  });
+
+  it('reports JSON columns that do not parse to the expected shape', () => {
+    const rows = makeRows({
+      tasks: [makeTask({ recurrence_json: '{"frequency":', notifications_json: '{}' })],
+      templates: [{ id: 'tmpl-1', name: 'Deep Work', blocks_json: 'oops' }],
+    });
+
+    const issues = checkIntegrity(rows);
+
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: 'invalidJson', column: 'recurrence_json', rowId: 'task-1', fallback: null }),
+      expect.objectContaining({ kind: 'invalidJson', column: 'notifications_json', fallback: '[]' }),
+      expect.objectContaining({ kind: 'invalidJson', table: 'templates', rowId: 'tmpl-1' }),
+    ]);
+    expect(issues.map(isBlockingIntegrityIssue)).toEqual([true, true, false]);
+  });
+
+  it('reports blocks linked to missing or deleted tasks', () => {
+    const rows = makeRows({
+      tasks: [makeTask({ id: 'gone', deleted_at: '2026-01-04T12:00:00.000Z' })],
+      timeBlocks: [
+        makeBlock({ id: 'orphan', task_id: 'never-existed' }),
+        makeBlock({ id: 'stale', task_id: 'gone' }),
+        makeBlock({ id: 'trashed', task_id: 'gone', deleted_at: '2026-01-04T12:00:00.000Z' }),
+      ],
+    });
+
+    expect(checkIntegrity(rows).map((i) => [i.kind, 'blockId' in i ? i.blockId : null])).toEqual([
+      ['orphanedBlock', 'orphan'],
+      ['blockOfDeletedTask', 'stale'],
+    ]);
+  });
+
+  it('keeps the earliest block of a task and reports the others', () => {
+    const rows = makeRows({
+      tasks: [makeTask()],
+      timeBlocks: [
+        makeBlock({ id: 'first', task_id: 'task-1' }),
+        makeBlock({ id: 'second', task_id: 'task-1', start_time: '2026-01-05T11:00:00.000Z' }),
+      ],
+    });
+
+    expect(checkIntegrity(rows)).toEqual([{ kind: 'duplicateLinkedBlock', blockId: 'second', label: 'Block' }]);
+  });
+
+  it('drops day plan references to rows that no longer exist', () => {
+    const rows = makeRows({
+      tasks: [makeTask()],
+      timeBlocks: [makeBlock()],
+      dayPlans: [
+        { date: '2026-01-05', task_ids_json: '["task-1","gone"]', time_block_ids_json: '["block-1","gone"]' },
+        { date: '2026-01-06', task_ids_json: 'nope', time_block_ids_json: '[]' },
+      ],
+    });
+
+    const issues = checkIntegrity(rows);
+
+    expect(issues).toEqual([
+      { kind: 'danglingDayPlanRefs', date: '2026-01-05', taskIds: ['task-1'], timeBlockIds: ['block-1'], missing: 2 },
+      expect.objectContaining({ kind: 'invalidJson', table: 'day_plans', column: 'task_ids_json', rowId: '2026-01-06' }),
+    ]);
+    expect(describeIntegrityIssue(issues[0])).toBe(
+      'The plan for 2026-01-05 refers to 2 missing items; they will be removed.',
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { CURRENT_VERSION, MIGRATIONS, getSchemaVersion, migrateDatabase } from '../db/schema';
+
+/**
+ * The slice of expo-sqlite the migrations use, backed by a real in-memory
+ * SQLite so the SQL itself is exercised.
+ */
+function wrap(raw: Database): SQLiteDatabase {
+  const all = <T>(sql: string, params: SqlValue[] = []): T[] => {
+    const stmt = raw.prepare(sql, params);
+    const rows: T[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject() as T);
+    stmt.free();
+    return rows;
+  };
+  const db = {
+    execAsync: async (sql: string) => {
+      raw.exec(sql);
+    },
+    runAsync: async (sql: string, params: SqlValue[] = []) => {
+      raw.run(sql, params);
+      return { lastInsertRowId: 0, changes: raw.getRowsModified() };
+    },
+    getFirstAsync: async <T>(sql: string, params: SqlValue[] = []) => all<T>(sql, params)[0] ?? null,
+    getAllAsync: async <T>(sql: string, params: SqlValue[] = []) => all<T>(sql, params),
+  };
+  return db as unknown as SQLiteDatabase;
+}
+
+let SQL: Awaited<ReturnType<typeof initSqlJs>>;
+let raw: Database;
+let db: SQLiteDatabase;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+beforeEach(() => {
+  raw = new SQL.Database();
+  db = wrap(raw);
+});
+
+afterEach(() => {
+  raw.close();
+});
+
+function tableNames(): string[] {
+  const result = raw.exec(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`);
+  return result.length ? result[0].values.map(([name]) => String(name)) : [];
+}
+
+function indexNames(): string[] {
+  const result = raw.exec(
+    `SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%' ORDER BY name`,
+  );
+  return result.length ? result[0].values.map(([name]) => String(name)) : [];
+}
+
+function columnNames(table: string): string[] {
+  return raw.exec(`PRAGMA table_info(${table})`)[0].values.map((row) => String(row[1]));
+}
+
+/** The full schema, for comparing a round trip against where it started */
+function schemaSnapshot(): string[] {
+  const result = raw.exec(`SELECT sql FROM sqlite_master WHERE sql IS NOT NULL ORDER BY name`);
+  return result.length ? result[0].values.map(([sql]) => String(sql)) : [];
+}
+
+function insertTask(
+  id: string,
+  fields: { status?: string; recurrence?: string | null; completedAt?: string | null } = {},
+) {
+  raw.run(
+    `INSERT INTO tasks (id, title, status, scheduled_date, recurrence_json, created_at, updated_at, completed_at)
+     VALUES (?, ?, ?, '2026-03-02', ?, '2026-03-01T08:00:00.000Z', '2026-03-01T08:00:00.000Z', ?)`,
+    [id, `Task ${id}`, fields.status ?? 'todo', fields.recurrence ?? null, fields.completedAt ?? null],
+  );
+}
+
+describe('migrateDatabase', () => {
+  it('creates a new database at the current version', async () => {
+    expect(await getSchemaVersion(db)).toBe(0);
+
+    await migrateDatabase(db);
+
+    expect(await getSchemaVersion(db)).toBe(CURRENT_VERSION);
+    expect(tableNames()).toEqual([
+      'day_plans',
+      'schema_version',
+      'settings',
+      'subtasks',
+      'task_occurrences',
+      'tasks',
+      'templates',
+      'time_blocks',
+    ]);
+  });
+
+  it('has an up and a down for every version up to the current one', () => {
+    for (let version = 1; version <= CURRENT_VERSION; version++) {
+      expect(MIGRATIONS[version].up.length).toBeGreaterThan(0);
+      expect(MIGRATIONS[version].down.length).toBeGreaterThan(0);
+    }
+  });
+
+  it.each(Array.from({ length: CURRENT_VERSION }, (_, i) => i + 1))(
+    'migration %i round-trips back to the schema before it',
+    async (version) => {
+      await migrateDatabase(db, version - 1);
+      const before = schemaSnapshot();
+
+      await migrateDatabase(db, version);
+      expect(await getSchemaVersion(db)).toBe(version);
+      await migrateDatabase(db, version - 1);
+
+      expect(await getSchemaVersion(db)).toBe(version - 1);
+      expect(schemaSnapshot()).toEqual(before);
+    },
+  );
+
+  it('migrates all the way down to an empty database and back up', async () => {
+    await migrateDatabase(db);
+    await migrateDatabase(db, 0);
+    expect(tableNames()).toEqual([]);
+
+    await migrateDatabase(db);
+    expect(await getSchemaVersion(db)).toBe(CURRENT_VERSION);
+  });
+
+  it('keeps task rows across columns being added and removed', async () => {
+    await migrateDatabase(db, 2);
+    insertTask('a');
+
+    await migrateDatabase(db);
+    expect(columnNames('tasks')).toEqual(
+      expect.arrayContaining(['carried_over_from', 'scheduled_time', 'series_id', 'deleted_at']),
+    );
+    await migrateDatabase(db, 2);
+
+    expect(columnNames('tasks')).not.toContain('carried_over_from');
+    expect(await db.getAllAsync('SELECT id, title FROM tasks')).toEqual([{ id: 'a', title: 'Task a' }]);
+  });
+
+  it('moves recurring task state onto its first occurrence and back (6)', async () => {
+    await migrateDatabase(db, 5);
+    insertTask('daily', {
+      status: 'done',
+      recurrence: '{"frequency":"daily","interval":1}',
+      completedAt: '2026-03-02T09:00:00.000Z',
+    });
+    insertTask('once', { status: 'done', completedAt: '2026-03-02T10:00:00.000Z' });
+
+    await migrateDatabase(db, 6);
+
+    expect(await db.getAllAsync('SELECT task_id, occurrence_date, status, completed_at FROM task_occurrences'))
+      .toEqual([
+        {
+          task_id: 'daily',
+          occurrence_date: '2026-03-02',
+          status: 'done',
+          completed_at: '2026-03-02T09:00:00.000Z',
+        },
+      ]);
+    expect(await db.getAllAsync('SELECT id, status, completed_at FROM tasks ORDER BY id')).toEqual([
+      { id: 'daily', status: 'todo', completed_at: null },
+      { id: 'once', status: 'done', completed_at: '2026-03-02T10:00:00.000Z' },
+    ]);
+
+    await migrateDatabase(db, 5);
+
+    expect(tableNames()).not.toContain('task_occurrences');
+    expect(await db.getAllAsync('SELECT id, status, completed_at FROM tasks ORDER BY id')).toEqual([
+      { id: 'daily', status: 'done', completed_at: '2026-03-02T09:00:00.000Z' },
+      { id: 'once', status: 'done', completed_at: '2026-03-02T10:00:00.000Z' },
+    ]);
+  });
+
+  it('groups existing recurring tasks into their own series (7)', async () => {
+    await migrateDatabase(db, 6);
+    insertTask('daily', { recurrence: '{"frequency":"daily","interval":1}' });
+    insertTask('once');
+
+    await migrateDatabase(db, 7);
+
+    expect(await db.getAllAsync('SELECT id, series_id FROM tasks ORDER BY id')).toEqual([
+      { id: 'daily', series_id: 'daily' },
+      { id: 'once', series_id: null },
+    ]);
+    expect(indexNames()).toContain('idx_tasks_series_id');
+  });
+
+  it('purges trashed rows when the trash is migrated away (8)', async () => {
+    await migrateDatabase(db);
+    insertTask('kept');
+    insertTask('trashed');
+    raw.run(`UPDATE tasks SET deleted_at = '2026-03-03T08:00:00.000Z' WHERE id = 'trashed'`);
+    raw.run(`INSERT INTO subtasks (id, parent_task_id, title) VALUES ('s1', 'trashed', 'Step')`);
+    raw.run(
+      `INSERT INTO time_blocks (id, title, start_time, end_time, color, deleted_at)
+       VALUES ('b1', 'Gone', '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z', '#000', '2026-03-03T08:00:00.000Z')`,
+    );
+
+    await migrateDatabase(db, 7);
+
+    expect(await db.getAllAsync('SELECT id FROM tasks')).toEqual([{ id: 'kept' }]);
+    expect(await db.getAllAsync('SELECT id FROM subtasks')).toEqual([]);
+    expect(await db.getAllAsync('SELECT id FROM time_blocks')).toEqual([]);
+    expect(columnNames('time_blocks')).not.toContain('deleted_at');
+  });
+
+  it('adds the date indexes (9)', async () => {
+    await migrateDatabase(db, 8);
+    expect(indexNames()).toEqual(['idx_tasks_series_id']);
+
+    await migrateDatabase(db, 9);
+
+    expect(indexNames()).toEqual([
+      'idx_subtasks_parent_task_id',
+      'idx_task_occurrences_date',
+      'idx_tasks_scheduled_date',
+      'idx_tasks_series_id',
+      'idx_time_blocks_start_time',
+    ]);
+  });
+
+  it('rolls back a failing migration and stops at the last version that completed', async () => {
+    await migrateDatabase(db, 6);
+    insertTask('a');
+    const migration = MIGRATIONS[8];
+    const up = migration.up;
+    migration.up = [...up.slice(0, 2), 'ALTER TABLE no_such_table ADD COLUMN deleted_at TEXT'];
+
+    try {
+      await expect(migrateDatabase(db)).rejects.toThrow(
+        /^Migration 8 \(Soft delete into a trash\) failed: .*no_such_table/,
+      );
+    } finally {
+      migration.up = up;
+    }
+
+    expect(await getSchemaVersion(db)).toBe(7);
+    expect(columnNames('tasks')).not.toContain('deleted_at');
+    expect(columnNames('time_blocks')).not.toContain('deleted_at');
+    expect(await db.getAllAsync('SELECT id FROM tasks')).toEqual([{ id: 'a' }]);
+
+    await migrateDatabase(db);
+    expect(await getSchemaVersion(db)).toBe(CURRENT_VERSION);
+  });
+
+  it('refuses a database written by a newer version', async () => {
+    await migrateDatabase(db);
+    raw.run('UPDATE schema_version SET version = ?', [CURRENT_VERSION + 1]);
+
+    await expect(migrateDatabase(db)).rejects.toThrow(/newer version/);
+    expect(await getSchemaVersion(db)).toBe(CURRENT_VERSION + 1);
+  });
+});
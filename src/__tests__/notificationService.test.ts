@@ -0,0 +1,234 @@
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  scheduleNotificationAsync: jest.fn(async () => ''),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  cancelAllScheduledNotificationsAsync: jest.fn(async () => undefined),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+import * as Notifications from 'expo-notifications';
+import {
+  planTaskNotifications,
+  planBlockNudge,
+  planSnooze,
+  reconcileNotifications,
+} from '../services/notificationService';
+import { buildOccurrenceId } from '../utils/taskOccurrences';
+import type { Task, TimeBlock } from '../types';
+
+const mockedNotifications = Notifications as jest.Mocked<typeof Notifications>;
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Pay rent',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-06',
+    scheduledTime: null,
+    estimatedMinutes: 30,
+    subtasks: [],
+    recurrence: null,
+    notifications: [{ id: 'n1', offsetMinutes: 60, enabled: true }],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: null,
+    title: 'Deep work',
+    startTime: new Date(2026, 0, 5, 14, 0).toISOString(),
+    endTime: new Date(2026, 0, 5, 15, 0).toISOString(),
+    color: '#4F46E5',
+    type: 'focus',
+    ...overrides,
+  };
+}
+
+// Quiet hours that never match, so only the timing rules apply
+const QUIET_HOURS = { start: '03:00', end: '03:00' };
+const ALL_DAY_TIME = '09:00';
+const NOW = new Date(2026, 0, 5, 9, 0);
+
+describe('planTaskNotifications', () => {
+  it('plans each enabled reminder of a one-off task', () => {
+    const task = makeTask({
+      notifications: [
+        { id: 'n1', offsetMinutes: 60, enabled: true },
+        { id: 'n2', offsetMinutes: 5, enabled: false },
+      ],
+    });
+    const planned = planTaskNotifications(task, {}, QUIET_HOURS, ALL_DAY_TIME, NOW);
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0].identifier).toBe('task-task-1-n1');
+    expect(planned[0].fireDate).toEqual(new Date(2026, 0, 6, 8, 0));
+    expect(planned[0].data).toMatchObject({ taskId: 'task-1' });
+  });
+
+  it('skips finished tasks and reminders in the past', () => {
+    expect(planTaskNotifications(makeTask({ status: 'done' }), {}, QUIET_HOURS, ALL_DAY_TIME, NOW)).toEqual([]);
+    expect(
+      planTaskNotifications(makeTask({ scheduledDate: '2026-01-05' }), {}, QUIET_HOURS, ALL_DAY_TIME, NOW),
+    ).toEqual([]);
+  });
+
+  it('anchors reminders to the scheduled time', () => {
+    const task = makeTask({ scheduledTime: '15:00', notifications: [{ id: 'n1', offsetMinutes: 15, enabled: true }] });
+    const [planned] = planTaskNotifications(task, {}, QUIET_HOURS, ALL_DAY_TIME, NOW);
+    expect(planned.fireDate).toEqual(new Date(2026, 0, 6, 14, 45));
+  });
+
+  it('defers reminders that fall in quiet hours to their end', () => {
+    const task = makeTask({ scheduledTime: '06:30' });
+    const [planned] = planTaskNotifications(task, {}, { start: '22:00', end: '07:00' }, ALL_DAY_TIME, NOW);
+    expect(planned.fireDate).toEqual(new Date(2026, 0, 6, 7, 0));
+  });
+
+  it('defers reminders past a do-not-disturb override', () => {
+    const task = makeTask({ scheduledTime: '10:00' });
+    const quietHours = { ...QUIET_HOURS, muteUntil: new Date(2026, 0, 6, 12, 0).toISOString() };
+    const [planned] = planTaskNotifications(task, {}, quietHours, ALL_DAY_TIME, NOW);
+    expect(planned.fireDate).toEqual(new Date(2026, 0, 6, 12, 0));
+  });
+
+  it('plans one reminder per open occurrence of a recurring task', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-01',
+      recurrence: { frequency: 'daily', interval: 1, endDate: '2026-01-09' },
+    });
+    const occurrences = {
+      [buildOccurrenceId('task-1', '2026-01-07')]: {
+        taskId: 'task-1',
+        date: '2026-01-07',
+        status: 'done' as const,
+        completedAt: null,
+        skipped: false,
+      },
+    };
+    const planned = planTaskNotifications(task, occurrences, QUIET_HOURS, ALL_DAY_TIME, NOW);
+
+    expect(planned.map((p) => p.identifier)).toEqual([
+      'task-task-1-n1-2026-01-06',
+      'task-task-1-n1-2026-01-08',
+      'task-task-1-n1-2026-01-09',
+    ]);
+  });
+});
+
+describe('planBlockNudge', () => {
+  it('fires the offset before the block starts', () => {
+    const planned = planBlockNudge(makeBlock(), 10, QUIET_HOURS, NOW);
+    expect(planned?.identifier).toBe('block-block-1');
+    expect(planned?.fireDate).toEqual(new Date(2026, 0, 5, 13, 50));
+  });
+
+  it('skips nudges while notifications are muted', () => {
+    const quietHours = { ...QUIET_HOURS, muteUntil: new Date(2026, 0, 5, 15, 0).toISOString() };
+    expect(planBlockNudge(makeBlock(), 10, quietHours, NOW)).toBeNull();
+  });
+
+  it('leaves task-linked blocks to the task reminders', () => {
+    expect(planBlockNudge(makeBlock({ taskId: 'task-1' }), 10, QUIET_HOURS, NOW)).toBeNull();
+  });
+});
+
+describe('planSnooze', () => {
+  const reminder = {
+    identifier: 'task-task-1-n1',
+    title: 'Task Reminder',
+    body: 'Pay rent',
+    data: { type: 'task-reminder', taskId: 'task-1', date: '2026-01-06' },
+  };
+
+  it('re-plans the notification ten minutes out under a snooze identifier', () => {
+    const snoozed = planSnooze(reminder, 10, NOW);
+
+    expect(snoozed.identifier).toBe('task-task-1-n1-snooze');
+    expect(snoozed.fireDate.getTime() - NOW.getTime()).toBe(10 * 60 * 1000);
+    expect(snoozed.data).toEqual({ ...reminder.data, snoozed: 'true' });
+  });
+
+  it('reuses the identifier when snoozing a snoozed notification again', () => {
+    const again = planSnooze(planSnooze(reminder, 10, NOW), 10, NOW);
+
+    expect(again.identifier).toBe('task-task-1-n1-snooze');
+  });
+});
+
+describe('reconcileNotifications', () => {
+  const settings = {
+    enabled: true,
+    quietHours: QUIET_HOURS,
+    allDayReminderTime: ALL_DAY_TIME,
+    blockNudgeOffsetMinutes: 10,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('cancels orphaned identifiers and schedules missing ones', async () => {
+    mockedNotifications.getAllScheduledNotificationsAsync.mockResolvedValueOnce([
+      {
+        identifier: 'task-task-1-n1',
+        content: { data: { fireAt: new Date(2026, 0, 6, 8, 0).toISOString() } },
+        trigger: null,
+      },
+      { identifier: 'task-deleted-n1', content: {}, trigger: null },
+    ] as unknown as Notifications.NotificationRequest[]);
+
+    await reconcileNotifications([makeTask()], {}, [makeBlock()], settings);
+
+    expect(mockedNotifications.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(1);
+    expect(mockedNotifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('task-deleted-n1');
+    expect(mockedNotifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+    expect(mockedNotifications.scheduleNotificationAsync.mock.calls[0][0].identifier).toBe('block-block-1');
+  });
+
+  it('reschedules reminders whose fire time moved', async () => {
+    mockedNotifications.getAllScheduledNotificationsAsync.mockResolvedValueOnce([
+      {
+        identifier: 'task-task-1-n1',
+        content: { data: { fireAt: new Date(2026, 0, 6, 7, 0).toISOString() } },
+        trigger: null,
+      },
+    ] as unknown as Notifications.NotificationRequest[]);
+
+    await reconcileNotifications([makeTask()], {}, [], settings);
+
+    expect(mockedNotifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('task-task-1-n1');
+    expect(mockedNotifications.scheduleNotificationAsync.mock.calls[0][0].identifier).toBe('task-task-1-n1');
+  });
+
+  it('keeps snoozed notifications', async () => {
+    mockedNotifications.getAllScheduledNotificationsAsync.mockResolvedValueOnce([
+      { identifier: 'block-block-9-snooze', content: { data: { snoozed: 'true' } }, trigger: null },
+    ] as unknown as Notifications.NotificationRequest[]);
+
+    await reconcileNotifications([], {}, [], settings);
+
+    expect(mockedNotifications.cancelScheduledNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  it('cancels everything when notifications are disabled', async () => {
+    await reconcileNotifications([makeTask()], {}, [], { ...settings, enabled: false });
+
+    expect(mockedNotifications.cancelAllScheduledNotificationsAsync).toHaveBeenCalled();
+    expect(mockedNotifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { resolveBlockChange } from '../services/overlapService';
+import type { TimeBlock } from '../types';
+
+const DATE = '2026-03-02';
+
+/** Local time on the test day, as an ISO string */
+function at(time: string, date: string = DATE): string {
+  return new Date(`${date}T${time}:00`).toISOString();
+}
+
+function makeBlock(
+  id: string,
+  start: string,
+  end: string,
+  overrides: Partial<TimeBlock> = {},
+): TimeBlock {
+  return {
+    id,
+    taskId: null,
+    title: id,
+    startTime: at(start),
+    endTime: at(end),
+    color: '#818CF8',
+    type: 'focus',
+    ...overrides,
+  };
+}
+
+/** The shifts of a resolution as [id, start, end], for compact expectations */
+function shiftsOf(result: ReturnType<typeof resolveBlockChange>): [string, string, string][] {
+  if (!result.ok) throw new Error(`Expected the change to be allowed: ${result.reason}`);
+  return result.shifts.map((s) => [s.id, s.startTime, s.endTime]);
+}
+
+describe('resolveBlockChange', () => {
+  const blocks = [
+    makeBlock('a', '09:00', '10:00'),
+    makeBlock('b', '10:00', '11:00'),
+    makeBlock('c', '11:00', '11:30'),
+  ];
+
+  it('only changes the block itself when nothing is in the way', () => {
+    const result = resolveBlockChange(blocks, 'c', at('12:00'), at('12:30'), 'reject');
+    expect(shiftsOf(result)).toEqual([['c', at('12:00'), at('12:30')]]);
+  });
+
+  it('lets blocks overlap under the allow policy', () => {
+    const result = resolveBlockChange(blocks, 'a', at('10:30'), at('11:30'), 'allow');
+    expect(shiftsOf(result)).toEqual([['a', at('10:30'), at('11:30')]]);
+  });
+
+  it('refuses an overlap under the reject policy, naming the blocks in the way', () => {
+    const result = resolveBlockChange(blocks, 'a', at('10:30'), at('11:30'), 'reject');
+    expect(result).toEqual({
+      ok: false,
+      reason: '"a" would overlap "b", "c".',
+      blockIds: ['b', 'c'],
+    });
+  });
+
+  describe('push', () => {
+    it('pushes the following blocks down in a cascade, keeping their durations', () => {
+      const result = resolveBlockChange(blocks, 'a', at('09:30'), at('10:30'), 'push');
+      expect(shiftsOf(result)).toEqual([
+        ['a', at('09:30'), at('10:30')],
+        ['b', at('10:30'), at('11:30')],
+        ['c', at('11:30'), at('12:00')],
+      ]);
+    });
+
+    it('pushes blocks past a pinned block rather than moving it', () => {
+      const withPin = [
+        makeBlock('a', '09:00', '10:00'),
+        makeBlock('b', '10:00', '11:00'),
+        makeBlock('lunch', '11:00', '12:00', { pinned: true }),
+      ];
+      const result = resolveBlockChange(withPin, 'a', at('09:30'), at('10:30'), 'push');
+      expect(shiftsOf(result)).toEqual([
+        ['a', at('09:30'), at('10:30')],
+        ['b', at('12:00'), at('13:00')],
+      ]);
+    });
+
+    it('refuses a change onto a pinned block', () => {
+      const withPin = [
+        makeBlock('a', '09:00', '10:00'),
+        makeBlock('b', '10:00', '11:00', { pinned: true }),
+      ];
+      const result = resolveBlockChange(withPin, 'a', at('09:30'), at('10:30'), 'push');
+      expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['b'] }));
+    });
+
+    it('refuses to push a block past midnight', () => {
+      const late = [makeBlock('a', '22:00', '23:00'), makeBlock('b', '23:00', '23:45')];
+      const result = resolveBlockChange(late, 'a', at('22:30'), at('23:30'), 'push');
+      expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['b'] }));
+    });
+
+    it('leaves blocks on other days alone', () => {
+      const otherDay = [
+        ...blocks,
+        makeBlock('d', '09:00', '10:00', {
+          startTime: at('09:30', '2026-03-03'),
+          endTime: at('10:30', '2026-03-03'),
+        }),
+      ];
+      const result = resolveBlockChange(otherDay, 'a', at('09:15'), at('10:15'), 'push');
+      expect(shiftsOf(result).map(([id]) => id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('pushes a block the resized block now covers', () => {
+      const result = resolveBlockChange(blocks, 'b', at('10:00'), at('11:15'), 'push');
+      expect(shiftsOf(result)).toEqual([
+        ['b', at('10:00'), at('11:15')],
+        ['c', at('11:15'), at('11:45')],
+      ]);
+    });
+  });
+
+  describe('swap', () => {
+    it('trades places with the block it was dropped on, moving down', () => {
+      const result = resolveBlockChange(blocks, 'a', at('10:00'), at('11:00'), 'swap');
+      expect(shiftsOf(result)).toEqual([
+        ['a', at('10:00'), at('11:00')],
+        ['b', at('09:00'), at('10:00')],
+      ]);
+    });
+
+    it('keeps the outer edges of the two slots when the durations differ', () => {
+      const result = resolveBlockChange(blocks, 'c', at('10:15'), at('10:45'), 'swap');
+      // c (30 min) takes b's start; b (60 min) ends where c used to end
+      expect(shiftsOf(result)).toEqual([
+        ['c', at('10:00'), at('10:30')],
+        ['b', at('10:30'), at('11:30')],
+      ]);
+    });
+
+    it('refuses when dropped across more than one block', () => {
+      const result = resolveBlockChange(blocks, 'a', at('10:30'), at('11:30'), 'swap');
+      expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['b', 'c'] }));
+    });
+
+    it('refuses a resize, which has no slot to trade', () => {
+      const result = resolveBlockChange(blocks, 'a', at('09:00'), at('10:30'), 'swap');
+      expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['b'] }));
+    });
+
+    it('refuses to swap with a pinned block', () => {
+      const withPin = [
+        makeBlock('a', '09:00', '10:00'),
+        makeBlock('b', '10:00', '11:00', { pinned: true }),
+      ];
+      const result = resolveBlockChange(withPin, 'a', at('10:00'), at('11:00'), 'swap');
+      expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['b'] }));
+    });
+  });
+
+  it('never moves a pinned block itself', () => {
+    const pinned = [makeBlock('a', '09:00', '10:00', { pinned: true })];
+    const result = resolveBlockChange(pinned, 'a', at('12:00'), at('13:00'), 'allow');
+    expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['a'] }));
+  });
+});
@@ -1,6 +1,11 @@
 jest.mock('expo-notifications', () => ({}));
 
-import { isInQuietHours } from '../services/notificationService';
+import {
+  isInQuietHours,
+  deferPastQuietHours,
+  isInQuietSchedule,
+  deferPastQuietSchedule,
+} from '../services/notificationService';
 
 describe('isInQuietHours', () => {
   describe('non-spanning (same day) quiet hours', () => {
@@ -79,3 +84,78 @@ describe('isInQuietHours', () => {
     });
   });
 });
+
+describe('deferPastQuietHours', () => {
+  it('leaves dates outside quiet hours unchanged', () => {
+    const date = new Date(2026, 0, 5, 12, 0);
+    expect(deferPastQuietHours(date, '22:00', '07:00')).toEqual(date);
+  });
+
+  it('defers late-evening dates to the next morning', () => {
+    const date = new Date(2026, 0, 5, 23, 15);
+    expect(deferPastQuietHours(date, '22:00', '07:00')).toEqual(new Date(2026, 0, 6, 7, 0));
+  });
+
+  it('defers early-morning dates to the same morning', () => {
+    const date = new Date(2026, 0, 6, 5, 30);
+    expect(deferPastQuietHours(date, '22:00', '07:00')).toEqual(new Date(2026, 0, 6, 7, 0));
+  });
+
+  it('defers within same-day quiet hours', () => {
+    const date = new Date(2026, 0, 5, 13, 30);
+    expect(deferPastQuietHours(date, '13:00', '15:00')).toEqual(new Date(2026, 0, 5, 15, 0));
+  });
+});
+
+describe('isInQuietSchedule', () => {
+  // Weeknights 22:00 -> 07:00; Friday and Saturday nights 23:30 -> 09:00
+  const weekend = { start: '23:30', end: '09:00' };
+  const schedule = { start: '22:00', end: '07:00', overrides: { 5: weekend, 6: weekend } };
+
+  it('uses the default window on weekdays', () => {
+    expect(isInQuietSchedule(new Date(2026, 0, 6, 22, 30), schedule)).toBe(true); // Tuesday
+    expect(isInQuietSchedule(new Date(2026, 0, 7, 7, 30), schedule)).toBe(false); // Wednesday
+  });
+
+  it('uses the override for the day a window starts on', () => {
+    expect(isInQuietSchedule(new Date(2026, 0, 9, 22, 30), schedule)).toBe(false); // Friday
+    expect(isInQuietSchedule(new Date(2026, 0, 10, 8, 30), schedule)).toBe(true); // Saturday morning
+  });
+
+  it('ends Sunday morning with the Saturday window and starts Sunday night with the default', () => {
+    expect(isInQuietSchedule(new Date(2026, 0, 11, 8, 30), schedule)).toBe(true); // Sunday morning
+    expect(isInQuietSchedule(new Date(2026, 0, 11, 22, 30), schedule)).toBe(true); // Sunday night
+    expect(isInQuietSchedule(new Date(2026, 0, 12, 8, 30), schedule)).toBe(false); // Monday morning
+  });
+
+  it('treats everything before a mute override ends as quiet', () => {
+    const muted = { ...schedule, muteUntil: new Date(2026, 0, 6, 15, 0).toISOString() };
+    expect(isInQuietSchedule(new Date(2026, 0, 6, 12, 0), muted)).toBe(true);
+    expect(isInQuietSchedule(new Date(2026, 0, 6, 15, 0), muted)).toBe(false);
+  });
+});
+
+describe('deferPastQuietSchedule', () => {
+  const schedule = {
+    start: '22:00',
+    end: '07:00',
+    overrides: { 6: { start: '23:00', end: '10:00' } },
+  };
+
+  it('defers to the end of the window covering the date', () => {
+    const date = new Date(2026, 0, 11, 8, 0); // Sunday, inside Saturday's window
+    expect(deferPastQuietSchedule(date, schedule)).toEqual(new Date(2026, 0, 11, 10, 0));
+  });
+
+  it('defers past a mute override', () => {
+    const muted = { ...schedule, muteUntil: new Date(2026, 0, 6, 15, 0).toISOString() };
+    const date = new Date(2026, 0, 6, 12, 0);
+    expect(deferPastQuietSchedule(date, muted)).toEqual(new Date(2026, 0, 6, 15, 0));
+  });
+
+  it('keeps deferring when a mute ends inside quiet hours', () => {
+    const muted = { ...schedule, muteUntil: new Date(2026, 0, 6, 23, 0).toISOString() };
+    const date = new Date(2026, 0, 6, 12, 0);
+    expect(deferPastQuietSchedule(date, muted)).toEqual(new Date(2026, 0, 7, 7, 0));
+  });
+});
@@ -1,4 +1,11 @@
-import { generateNextOccurrence, generateOccurrences } from '../utils/recurrenceEngine';
+import { format } from 'date-fns';
+import {
+  generateNextOccurrence,
+  generateOccurrences,
+  previewOccurrences,
+  formatRRule,
+  parseRRule,
+} from '../utils/recurrenceEngine';
 import type { Task, Recurrence } from '../types';
 
 function makeTask(overrides: Partial<Task> = {}): Task {
@@ -19,6 +26,7 @@ function makeTask(overrides: Partial<Task> = {}): Task {
     updatedAt: '2026-01-05T08:00:00.000Z',
     completedAt: null,
     carriedOverFrom: null,
+    seriesId: null,
     ...overrides,
   };
 }
@@ -165,3 +173,189 @@ describe('generateOccurrences', () => {
     expect(result).toEqual(['2026-01-05', '2026-01-19', '2026-02-02']);
   });
 });
+
+describe('RRULE evaluation', () => {
+  it('supports weekdays only', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-09', // Friday
+      recurrence: { frequency: 'weekly', interval: 1, daysOfWeek: [1, 2, 3, 4, 5] },
+    });
+    expect(generateOccurrences(task, '2026-01-09', '2026-01-14')).toEqual([
+      '2026-01-09',
+      '2026-01-12',
+      '2026-01-13',
+      '2026-01-14',
+    ]);
+  });
+
+  it('supports the last Friday of the month', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-30',
+      recurrence: { frequency: 'monthly', interval: 1, nthWeekdays: [{ weekday: 5, ordinal: -1 }] },
+    });
+    expect(generateOccurrences(task, '2026-01-01', '2026-04-30')).toEqual([
+      '2026-01-30',
+      '2026-02-27',
+      '2026-03-27',
+      '2026-04-24',
+    ]);
+  });
+
+  it('supports the 2nd Tuesday of the month', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-13',
+      recurrence: { frequency: 'monthly', interval: 1, nthWeekdays: [{ weekday: 2, ordinal: 2 }] },
+    });
+    expect(generateNextOccurrence(task)).toBe('2026-02-10');
+  });
+
+  it('supports BYMONTHDAY including days counted from the month end', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-15',
+      recurrence: { frequency: 'monthly', interval: 1, daysOfMonth: [15, -1] },
+    });
+    expect(generateOccurrences(task, '2026-01-01', '2026-02-28')).toEqual([
+      '2026-01-15',
+      '2026-01-31',
+      '2026-02-15',
+      '2026-02-28',
+    ]);
+  });
+
+  it('skips months without the start day instead of clamping', () => {
+    const task = makeTask({
+      scheduledDate: '2026-01-31',
+      recurrence: { frequency: 'monthly', interval: 1 },
+    });
+    expect(generateOccurrences(task, '2026-01-01', '2026-05-31')).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+    ]);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    const task = makeTask({
+      recurrence: { frequency: 'daily', interval: 2, count: 3 },
+    });
+    expect(generateOccurrences(task, '2026-01-01', '2026-01-31')).toEqual([
+      '2026-01-05',
+      '2026-01-07',
+      '2026-01-09',
+    ]);
+  });
+
+  it('counts excluded dates towards COUNT', () => {
+    const task = makeTask({
+      recurrence: { frequency: 'daily', interval: 1, count: 3, exceptionDates: ['2026-01-06'] },
+    });
+    expect(generateOccurrences(task, '2026-01-01', '2026-01-31')).toEqual(['2026-01-05', '2026-01-07']);
+  });
+
+  it('skips EXDATE exclusions for the next occurrence', () => {
+    const task = makeTask({
+      recurrence: { frequency: 'daily', interval: 1, exceptionDates: ['2026-01-06'] },
+    });
+    expect(generateNextOccurrence(task)).toBe('2026-01-07');
+  });
+
+  it('supports yearly rules limited to a month', () => {
+    const task = makeTask({
+      scheduledDate: '2026-11-26',
+      recurrence: {
+        frequency: 'yearly',
+        interval: 1,
+        months: [11],
+        nthWeekdays: [{ weekday: 4, ordinal: 4 }],
+      },
+    });
+    expect(generateNextOccurrence(task)).toBe('2027-11-25');
+  });
+
+  it('finds occurrences far past the series start', () => {
+    const task = makeTask({
+      scheduledDate: '2016-01-05',
+      recurrence: { frequency: 'daily', interval: 3 },
+    });
+    expect(generateOccurrences(task, '2026-01-05', '2026-01-10')).toEqual(['2026-01-06', '2026-01-09']);
+  });
+
+  it('previews the first occurrences of a rule', () => {
+    expect(previewOccurrences({ frequency: 'weekly', interval: 1, daysOfWeek: [2, 4] }, '2026-01-06', 3)).toEqual([
+      '2026-01-06',
+      '2026-01-08',
+      '2026-01-13',
+    ]);
+  });
+});
+
+describe('RRULE parsing and serialization', () => {
+  it('round-trips a rule with every supported part', () => {
+    const recurrence: Recurrence = {
+      frequency: 'monthly',
+      interval: 2,
+      daysOfWeek: [1],
+      nthWeekdays: [{ weekday: 5, ordinal: -1 }],
+      daysOfMonth: [1, -1],
+      months: [3, 9],
+      count: 10,
+      exceptionDates: ['2026-03-02'],
+    };
+    expect(parseRRule(formatRRule(recurrence))).toEqual(recurrence);
+  });
+
+  it('formats a standard rule', () => {
+    expect(
+      formatRRule({ frequency: 'weekly', interval: 1, daysOfWeek: [1, 3], endDate: '2026-06-30' }),
+    ).toBe('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630');
+  });
+
+  it('parses bare rules with UNTIL date-times', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=2TU;UNTIL=20261231T120000Z')).toEqual({
+      frequency: 'monthly',
+      interval: 1,
+      nthWeekdays: [{ weekday: 2, ordinal: 2 }],
+      endDate: '2026-12-31',
+    });
+  });
+
+  it('takes the local date of a UTC UNTIL', () => {
+    const localDate = format(new Date('2026-12-31T23:59:59Z'), 'yyyy-MM-dd');
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261231T235959Z')?.endDate).toBe(localDate);
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261231T235959')?.endDate).toBe('2026-12-31');
+  });
+
+  it('accepts a week start that does not change the dates', () => {
+    expect(parseRRule('FREQ=WEEKLY;WKST=MO;BYDAY=MO,WE')).toEqual({
+      frequency: 'weekly',
+      interval: 1,
+      daysOfWeek: [1, 3],
+    });
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;WKST=MO;BYDAY=TU')).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      daysOfWeek: [2],
+    });
+  });
+
+  it('rejects a week start other than Sunday where it changes the dates', () => {
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;WKST=MO;BYDAY=MO,SU')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;WKST=SU;BYDAY=MO,SU')).not.toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;WKST=XX')).toBeNull();
+  });
+
+  it('parses EXDATE lines', () => {
+    expect(parseRRule('RRULE:FREQ=DAILY\nEXDATE:20260106,20260108T090000')).toEqual({
+      frequency: 'daily',
+      interval: 1,
+      exceptionDates: ['2026-01-06', '2026-01-08'],
+    });
+  });
+
+  it('rejects unsupported rules', () => {
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYSETPOS=-1;BYDAY=MO')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+    expect(parseRRule('')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  selectReportTasks,
+  formatTasksCsv,
+  formatTasksMarkdown,
+  buildTaskReport,
+} from '../services/reportService';
+import type { ReportFilter } from '../services/reportService';
+import { buildOccurrenceId } from '../utils/taskOccurrences';
+import type { Task } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Pay rent',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-06',
+    scheduledTime: null,
+    estimatedMinutes: null,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+const WEEK: ReportFilter = { startDate: '2026-01-04', endDate: '2026-01-10', statuses: [], priorities: [] };
+
+describe('selectReportTasks', () => {
+  const tasks = [
+    makeTask({ id: 'late', scheduledDate: '2026-01-08', priority: 'high', status: 'done' }),
+    makeTask({ id: 'early', scheduledDate: '2026-01-05', scheduledTime: '09:00' }),
+    makeTask({ id: 'outside', scheduledDate: '2026-01-12' }),
+  ];
+
+  it('keeps tasks in the range ordered by date and time', () => {
+    expect(selectReportTasks(tasks, {}, WEEK).map((t) => t.id)).toEqual(['early', 'late']);
+  });
+
+  it('filters by status and priority', () => {
+    expect(selectReportTasks(tasks, {}, { ...WEEK, statuses: ['done'] }).map((t) => t.id)).toEqual(['late']);
+    expect(selectReportTasks(tasks, {}, { ...WEEK, priorities: ['medium'] }).map((t) => t.id)).toEqual(['early']);
+  });
+
+  it('reports each occurrence of a recurring task with its own status', () => {
+    const series = makeTask({
+      id: 'standup',
+      scheduledDate: '2026-01-05',
+      recurrence: { frequency: 'daily', interval: 1, count: 3 },
+    });
+    const occurrences = {
+      [buildOccurrenceId('standup', '2026-01-06')]: {
+        taskId: 'standup',
+        date: '2026-01-06',
+        status: 'done' as const,
+        completedAt: '2026-01-06T09:15:00.000Z',
+        skipped: false,
+      },
+    };
+    const selected = selectReportTasks([series], occurrences, { ...WEEK, statuses: ['done'] });
+
+    expect(selected).toHaveLength(1);
+    expect(selected[0]).toMatchObject({ scheduledDate: '2026-01-06', completedAt: '2026-01-06T09:15:00.000Z' });
+  });
+});
+
+describe('formatTasksCsv', () => {
+  it('writes a header and one escaped row per task', () => {
+    const csv = formatTasksCsv([
+      makeTask({
+        title: 'Call "Bob", then email',
+        status: 'done',
+        estimatedMinutes: 20,
+        completedAt: '2026-01-06T10:00:00.000Z',
+        carriedOverFrom: '2026-01-05',
+        subtasks: [
+          { id: 's1', title: 'Find number', completed: true, parentTaskId: 'task-1' },
+          { id: 's2', title: 'Write notes', completed: false, parentTaskId: 'task-1' },
+        ],
+      }),
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Time,Title,Status,Priority,Estimated Minutes,Completed At,Carried Over From,Subtasks Done,Subtasks Total',
+      '2026-01-06,,"Call ""Bob"", then email",Done,medium,20,2026-01-06T10:00:00.000Z,2026-01-05,1,2',
+      '',
+    ]);
+  });
+});
+
+describe('formatTasksMarkdown', () => {
+  it('groups a checklist by day with a completion summary', () => {
+    const markdown = formatTasksMarkdown(
+      [
+        makeTask({ title: 'Ship *release*', status: 'done', scheduledDate: '2026-01-05' }),
+        makeTask({ title: 'Old idea', status: 'cancelled', scheduledDate: '2026-01-05', priority: 'low' }),
+        makeTask({ title: 'Review', scheduledTime: '14:00', estimatedMinutes: 45, carriedOverFrom: '2026-01-02' }),
+      ],
+      WEEK,
+    );
+    const lines = markdown.split('\n');
+
+    expect(lines[0]).toBe('# Tasks 2026-01-04 to 2026-01-10');
+    expect(lines).toContain('1 of 3 completed.');
+    expect(lines).toContain('## Monday, January 5');
+    expect(lines).toContain('- [x] Ship \\*release\\* (medium)');
+    expect(lines).toContain('- [ ] ~~Old idea~~ (low)');
+    expect(lines).toContain('- [ ] Review (medium, 14:00, 45 min, carried over from 2026-01-02)');
+  });
+});
+
+describe('buildTaskReport', () => {
+  it('formats the selected tasks in the requested format', () => {
+    const tasks = [makeTask()];
+    expect(buildTaskReport(tasks, {}, WEEK, 'csv')).toBe(formatTasksCsv(tasks));
+    expect(buildTaskReport(tasks, {}, WEEK, 'markdown')).toBe(formatTasksMarkdown(tasks, WEEK));
+  });
+});
@@ -0,0 +1,199 @@
+import { findFreeIntervals, isSchedulable, planDay } from '../services/schedulerService';
+import type { SchedulerOptions } from '../services/schedulerService';
+import type { Task, TimeBlock, CalendarEvent } from '../types';
+
+const DATE = '2026-03-02';
+
+/** Local time on the planned day, as an ISO string */
+function at(time: string): string {
+  return new Date(`${DATE}T${time}:00`).toISOString();
+}
+
+function ms(time: string): number {
+  return new Date(`${DATE}T${time}:00`).getTime();
+}
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Test Task',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: DATE,
+    scheduledTime: null,
+    estimatedMinutes: 30,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-03-01T08:00:00.000Z',
+    updatedAt: '2026-03-01T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(id: string, start: string, end: string): TimeBlock {
+  return {
+    id,
+    taskId: null,
+    title: id,
+    startTime: at(start),
+    endTime: at(end),
+    color: '#818CF8',
+    type: 'focus',
+  };
+}
+
+function makeEvent(id: string, start: string, end: string): CalendarEvent {
+  return { id, title: id, startTime: at(start), endTime: at(end), calendarId: 'cal', color: '#60A5FA' };
+}
+
+const options: SchedulerOptions = {
+  date: DATE,
+  startHour: 9,
+  endHour: 12,
+  now: new Date(`${DATE}T06:00:00`),
+};
+
+describe('findFreeIntervals', () => {
+  const window = { start: ms('09:00'), end: ms('12:00') };
+
+  it('returns the whole window when nothing is busy', () => {
+    expect(findFreeIntervals(window, [])).toEqual([window]);
+  });
+
+  it('returns the gaps around overlapping and out-of-window busy time', () => {
+    const busy = [
+      { start: ms('10:30'), end: ms('11:00') },
+      { start: ms('08:00'), end: ms('09:30') },
+      { start: ms('10:00'), end: ms('10:45') },
+      { start: ms('12:00'), end: ms('13:00') },
+    ];
+    expect(findFreeIntervals(window, busy)).toEqual([
+      { start: ms('09:30'), end: ms('10:00') },
+      { start: ms('11:00'), end: ms('12:00') },
+    ]);
+  });
+});
+
+describe('isSchedulable', () => {
+  it('accepts an open task with an estimate and no time', () => {
+    expect(isSchedulable(makeTask())).toBe(true);
+    expect(isSchedulable(makeTask({ status: 'in_progress' }))).toBe(true);
+  });
+
+  it('rejects timed, finished, unestimated and recurring tasks', () => {
+    expect(isSchedulable(makeTask({ scheduledTime: '09:00' }))).toBe(false);
+    expect(isSchedulable(makeTask({ status: 'done' }))).toBe(false);
+    expect(isSchedulable(makeTask({ estimatedMinutes: null }))).toBe(false);
+    expect(isSchedulable(makeTask({ recurrence: { frequency: 'daily', interval: 1 } }))).toBe(false);
+    expect(isSchedulable(makeTask({ masterTaskId: 'master' }))).toBe(false);
+  });
+});
+
+describe('planDay', () => {
+  it('packs tasks into free time by priority, then longest first', () => {
+    const tasks = [
+      makeTask({ id: 'low', title: 'Low', priority: 'low', estimatedMinutes: 30 }),
+      makeTask({ id: 'short', title: 'Short', priority: 'high', estimatedMinutes: 15 }),
+      makeTask({ id: 'long', title: 'Long', priority: 'high', estimatedMinutes: 60 }),
+    ];
+    const proposal = planDay(tasks, [], [], options);
+
+    expect(proposal.deferred).toEqual([]);
+    expect(proposal.blocks.map((b) => [b.taskId, b.startTime, b.endTime])).toEqual([
+      ['long', at('09:00'), at('10:00')],
+      ['short', at('10:00'), at('10:15')],
+      ['low', at('10:15'), at('10:45')],
+    ]);
+  });
+
+  it('works around time blocks and calendar events', () => {
+    const blocks = [makeBlock('standup', '09:00', '09:30')];
+    const events = [makeEvent('meeting', '10:00', '11:00')];
+    const tasks = [makeTask({ id: 'a', estimatedMinutes: 45 }), makeTask({ id: 'b', estimatedMinutes: 30 })];
+
+    const proposal = planDay(tasks, blocks, events, options);
+
+    expect(proposal.blocks.map((b) => [b.taskId, b.startTime, b.endTime])).toEqual([
+      ['b', at('09:30'), at('10:00')],
+      ['a', at('11:00'), at('11:45')],
+    ]);
+  });
+
+  it('does not treat all-day events as busy time', () => {
+    const holiday = {
+      ...makeEvent('holiday', '00:00', '00:00'),
+      endTime: new Date('2026-03-03T00:00:00').toISOString(),
+      allDay: true,
+    };
+
+    const proposal = planDay([makeTask({ id: 'a' })], [], [holiday], options);
+
+    expect(proposal.blocks.map((b) => [b.taskId, b.startTime])).toEqual([['a', at('09:00')]]);
+  });
+
+  it('splits a task that fits no single gap across several', () => {
+    const blocks = [makeBlock('lunch', '10:00', '11:00')];
+    const tasks = [makeTask({ id: 'big', estimatedMinutes: 90 })];
+
+    const proposal = planDay(tasks, blocks, [], options);
+
+    expect(proposal.blocks).toEqual([
+      expect.objectContaining({ startTime: at('09:00'), endTime: at('10:00'), part: 1, parts: 2 }),
+      expect.objectContaining({ startTime: at('11:00'), endTime: at('11:30'), part: 2, parts: 2 }),
+    ]);
+  });
+
+  it('never leaves a split part shorter than the minimum', () => {
+    const blocks = [makeBlock('a', '09:50', '10:00'), makeBlock('b', '10:40', '12:00')];
+    const tasks = [makeTask({ id: 'big', estimatedMinutes: 60 })];
+
+    const proposal = planDay(tasks, blocks, [], { ...options, minChunkMinutes: 15 });
+
+    // 09:00-09:50 and 10:00-10:40: a 50 + 10 split would leave a 10-minute part
+    expect(proposal.blocks.map((b) => [b.startTime, b.endTime])).toEqual([
+      [at('09:00'), at('09:45')],
+      [at('10:00'), at('10:15')],
+    ]);
+  });
+
+  it('defers tasks that do not fit in the free time left', () => {
+    const tasks = [
+      makeTask({ id: 'fits', priority: 'urgent', estimatedMinutes: 150 }),
+      makeTask({ id: 'too-big', priority: 'high', estimatedMinutes: 60 }),
+      makeTask({ id: 'small', priority: 'low', estimatedMinutes: 30 }),
+    ];
+
+    const proposal = planDay(tasks, [], [], options);
+
+    expect(proposal.blocks.map((b) => b.taskId)).toEqual(['fits', 'small']);
+    expect(proposal.deferred.map((t) => t.id)).toEqual(['too-big']);
+  });
+
+  it('ignores tasks that are not schedulable', () => {
+    const tasks = [makeTask({ id: 'timed', scheduledTime: '09:00' }), makeTask({ id: 'done', status: 'done' })];
+    expect(planDay(tasks, [], [], options)).toEqual({ date: DATE, blocks: [], deferred: [] });
+  });
+
+  it('starts no earlier than the next quarter hour after now', () => {
+    const tasks = [makeTask({ id: 'a', estimatedMinutes: 30 })];
+
+    const proposal = planDay(tasks, [], [], { ...options, now: new Date(`${DATE}T10:07:00`) });
+
+    expect(proposal.blocks[0].startTime).toBe(at('10:15'));
+  });
+
+  it('defers everything on a day that is already over', () => {
+    const tasks = [makeTask({ id: 'a' })];
+
+    const proposal = planDay(tasks, [], [], { ...options, now: new Date(`${DATE}T13:00:00`) });
+
+    expect(proposal.blocks).toEqual([]);
+    expect(proposal.deferred.map((t) => t.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,194 @@
+import { planSeriesUpdate, planSeriesDelete } from '../services/seriesService';
+import { buildOccurrenceId, materializeOccurrence } from '../utils/taskOccurrences';
+import { generateOccurrences } from '../utils/recurrenceEngine';
+import type { Task, TaskOccurrence } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'master',
+    title: 'Gym',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-03-02',
+    scheduledTime: '07:00',
+    estimatedMinutes: 60,
+    subtasks: [],
+    recurrence: { frequency: 'daily', interval: 1 },
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-03-01T08:00:00.000Z',
+    updatedAt: '2026-03-01T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: 'master',
+    ...overrides,
+  };
+}
+
+function occurrenceState(taskId: string, date: string, overrides: Partial<TaskOccurrence> = {}) {
+  return { taskId, date, status: 'done' as const, completedAt: null, skipped: false, ...overrides };
+}
+
+describe('planSeriesUpdate', () => {
+  const master = makeTask();
+  const exception = makeTask({
+    id: 'exception',
+    recurrence: null,
+    scheduledDate: '2026-03-10',
+    title: 'Gym (late)',
+  });
+  const tasks = [master, exception];
+
+  it("'this' on an occurrence creates a detached exception and skips the occurrence", () => {
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesUpdate(tasks, {}, target, { title: 'Swim' }, 'this');
+
+    expect(change.upserts).toHaveLength(1);
+    expect(change.upserts[0]).toMatchObject({
+      title: 'Swim',
+      scheduledDate: '2026-03-05',
+      recurrence: null,
+      seriesId: 'master',
+    });
+    expect(change.upserts[0].id).not.toBe(master.id);
+    expect(change.upserts[0].masterTaskId).toBeUndefined();
+    expect(change.occurrenceUpserts).toEqual([
+      expect.objectContaining({ taskId: 'master', date: '2026-03-05', skipped: true }),
+    ]);
+  });
+
+  it("'this' on a stored task only updates that task", () => {
+    const change = planSeriesUpdate(tasks, {}, exception, { title: 'Rest' }, 'this');
+
+    expect(change.upserts).toHaveLength(1);
+    expect(change.upserts[0]).toMatchObject({ id: 'exception', title: 'Rest' });
+  });
+
+  it("'following' splits the master and moves later occurrence states", () => {
+    const occurrences = {
+      [buildOccurrenceId('master', '2026-03-03')]: occurrenceState('master', '2026-03-03'),
+      [buildOccurrenceId('master', '2026-03-07')]: occurrenceState('master', '2026-03-07'),
+    };
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesUpdate(tasks, occurrences, target, { title: 'Swim' }, 'following');
+
+    const truncated = change.upserts.find((t) => t.id === 'master');
+    const continuation = change.upserts.find((t) => t.recurrence && t.id !== 'master');
+    expect(truncated?.recurrence?.endDate).toBe('2026-03-04');
+    expect(truncated?.title).toBe('Gym');
+    expect(continuation).toMatchObject({ title: 'Swim', scheduledDate: '2026-03-05', seriesId: 'master' });
+
+    // Later exceptions pick up the shared fields
+    expect(change.upserts.find((t) => t.id === 'exception')?.title).toBe('Swim');
+
+    expect(change.occurrenceDeletes).toEqual([{ taskId: 'master', date: '2026-03-07' }]);
+    expect(change.occurrenceUpserts).toEqual([
+      expect.objectContaining({ taskId: continuation?.id, date: '2026-03-07', status: 'done' }),
+    ]);
+  });
+
+  it("'following' keeps a counted series to its original number of occurrences", () => {
+    // 10 daily occurrences from Mar 2 to Mar 11, one of them excluded
+    const counted = makeTask({
+      recurrence: { frequency: 'daily', interval: 1, count: 10, exceptionDates: ['2026-03-03'] },
+    });
+    const target = materializeOccurrence(counted, '2026-03-07', undefined);
+    const change = planSeriesUpdate(
+      [counted],
+      {},
+      target,
+      { title: 'Swim', recurrence: counted.recurrence },
+      'following',
+    );
+
+    const [truncated, continuation] = change.upserts;
+    const before = generateOccurrences(truncated, '2026-03-01', '2026-03-31');
+    const after = generateOccurrences(continuation, '2026-03-01', '2026-03-31');
+    expect(before).toEqual(['2026-03-02', '2026-03-04', '2026-03-05', '2026-03-06']);
+    expect(after).toEqual(['2026-03-07', '2026-03-08', '2026-03-09', '2026-03-10', '2026-03-11']);
+  });
+
+  it("'following' gives copied subtasks fresh ids", () => {
+    const withSubtask = makeTask({
+      subtasks: [{ id: 'sub-1', title: 'Stretch', completed: false, parentTaskId: 'master' }],
+    });
+    const target = materializeOccurrence(withSubtask, '2026-03-05', undefined);
+    const change = planSeriesUpdate([withSubtask], {}, target, {}, 'following');
+
+    const continuation = change.upserts.find((t) => t.id !== 'master');
+    expect(continuation?.subtasks[0].id).not.toBe('sub-1');
+    expect(continuation?.subtasks[0].parentTaskId).toBe(continuation?.id);
+  });
+
+  it("'all' updates every row of the series without moving the anchor", () => {
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesUpdate(
+      tasks,
+      {},
+      target,
+      { title: 'Swim', scheduledDate: '2026-03-05', scheduledTime: '18:00' },
+      'all',
+    );
+
+    expect(change.upserts).toHaveLength(2);
+    expect(change.upserts.every((t) => t.title === 'Swim' && t.scheduledTime === '18:00')).toBe(true);
+    expect(change.upserts.find((t) => t.id === 'master')?.scheduledDate).toBe('2026-03-02');
+    expect(change.upserts.find((t) => t.id === 'exception')?.scheduledDate).toBe('2026-03-10');
+  });
+
+  it('leaves tasks of other series alone', () => {
+    const other = makeTask({ id: 'other', seriesId: 'other' });
+    const change = planSeriesUpdate([master, other], {}, master, { title: 'Swim' }, 'all');
+
+    expect(change.upserts.map((t) => t.id)).toEqual(['master']);
+  });
+});
+
+describe('planSeriesDelete', () => {
+  const master = makeTask();
+  const exception = makeTask({ id: 'exception', recurrence: null, scheduledDate: '2026-03-10' });
+  const earlyException = makeTask({ id: 'early', recurrence: null, scheduledDate: '2026-03-03' });
+  const tasks = [master, exception, earlyException];
+
+  it("'this' on an occurrence skips it", () => {
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesDelete(tasks, {}, target, 'this');
+
+    expect(change.deletes).toEqual([]);
+    expect(change.occurrenceUpserts).toEqual([
+      expect.objectContaining({ taskId: 'master', date: '2026-03-05', skipped: true }),
+    ]);
+  });
+
+  it("'this' on a stored exception deletes only that row", () => {
+    expect(planSeriesDelete(tasks, {}, exception, 'this').deletes).toEqual(['exception']);
+  });
+
+  it("'following' truncates the master and deletes later exceptions", () => {
+    const occurrences = {
+      [buildOccurrenceId('master', '2026-03-08')]: occurrenceState('master', '2026-03-08'),
+    };
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesDelete(tasks, occurrences, target, 'following');
+
+    expect(change.upserts).toHaveLength(1);
+    expect(change.upserts[0].recurrence?.endDate).toBe('2026-03-04');
+    expect(change.deletes).toEqual(['exception']);
+    expect(change.occurrenceDeletes).toEqual([{ taskId: 'master', date: '2026-03-08' }]);
+  });
+
+  it("'following' from the first occurrence deletes the master", () => {
+    const target = materializeOccurrence(master, '2026-03-02', undefined);
+    const change = planSeriesDelete(tasks, {}, target, 'following');
+
+    expect(change.deletes.sort()).toEqual(['early', 'exception', 'master']);
+  });
+
+  it("'all' deletes every row of the series", () => {
+    const target = materializeOccurrence(master, '2026-03-05', undefined);
+    const change = planSeriesDelete(tasks, {}, target, 'all');
+
+    expect(change.deletes.sort()).toEqual(['early', 'exception', 'master']);
+  });
+});
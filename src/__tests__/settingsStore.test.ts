@@ -0,0 +1,69 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useWriteQueueStore } from '../store/useWriteQueueStore';
+
+function makeDb(rows: { key: string; value: string }[]) {
+  const db = {
+    getAllAsync: jest.fn(async () => rows),
+    runAsync: jest.fn(async () => undefined),
+    withExclusiveTransactionAsync: jest.fn(async (fn: (txn: unknown) => Promise<void>): Promise<void> => fn(db)),
+  };
+  return db;
+}
+
+async function hydrate(db: ReturnType<typeof makeDb>) {
+  await useWriteQueueStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+  await useSettingsStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+}
+
+describe('useSettingsStore notification preferences', () => {
+  it('restores notification preferences from the settings table', async () => {
+    const db = makeDb([
+      { key: 'notificationsEnabled', value: 'false' },
+      { key: 'quietHoursStart', value: '23:00' },
+      { key: 'reminderOffsetMinutes', value: '10' },
+    ]);
+
+    await useSettingsStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+
+    const state = useSettingsStore.getState();
+    expect(state.notificationsEnabled).toBe(false);
+    expect(state.quietHoursStart).toBe('23:00');
+    expect(state.reminderOffsetMinutes).toBe(10);
+  });
+
+  it('persists a toggled notification preference', async () => {
+    const db = makeDb([]);
+    await hydrate(db);
+
+    useSettingsStore.getState().updateSetting('notificationsEnabled', true);
+    await useWriteQueueStore.getState().flush();
+
+    expect(useSettingsStore.getState().notificationsEnabled).toBe(true);
+    expect(db.runAsync).toHaveBeenCalledWith(
+      'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+      ['notificationsEnabled', 'true'],
+    );
+  });
+
+  it('round-trips per-day quiet hours and the mute override', async () => {
+    const db = makeDb([
+      { key: 'quietHoursByDay', value: '{"5":{"start":"23:30","end":"09:00"}}' },
+      { key: 'muteUntil', value: '' },
+    ]);
+    await hydrate(db);
+
+    expect(useSettingsStore.getState().quietHoursByDay).toEqual({ 5: { start: '23:30', end: '09:00' } });
+    expect(useSettingsStore.getState().muteUntil).toBeNull();
+
+    useSettingsStore.getState().updateSetting('quietHoursByDay', { 6: { start: '23:00', end: '10:00' } });
+    useSettingsStore.getState().updateSetting('muteUntil', null);
+    await useWriteQueueStore.getState().flush();
+
+    expect(db.runAsync).toHaveBeenCalledWith(expect.any(String), [
+      'quietHoursByDay',
+      '{"6":{"start":"23:00","end":"10:00"}}',
+    ]);
+    expect(db.runAsync).toHaveBeenCalledWith(expect.any(String), ['muteUntil', '']);
+  });
+});
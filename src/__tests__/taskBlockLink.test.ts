@@ -0,0 +1,119 @@
+import {
+  getBlockTimesForTask,
+  getTaskUpdatesForBlock,
+  buildTaskPartBlockId,
+  parseTaskPartBlockId,
+} from '../utils/taskBlockLink';
+import type { Task, TimeBlock } from '../types';
+
+function local(time: string, date = '2026-01-05'): string {
+  return new Date(`${date}T${time}:00`).toISOString();
+}
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Write report',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-05',
+    scheduledTime: '09:00',
+    estimatedMinutes: 45,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    taskId: 'task-1',
+    title: 'Write report',
+    startTime: local('09:00'),
+    endTime: local('09:45'),
+    color: '#818CF8',
+    type: 'task',
+    ...overrides,
+  };
+}
+
+describe('getBlockTimesForTask', () => {
+  it('places the block at the task time for its estimate', () => {
+    expect(getBlockTimesForTask(makeTask())).toEqual({ startTime: local('09:00'), endTime: local('09:45') });
+  });
+
+  it('uses the default duration without an estimate', () => {
+    expect(getBlockTimesForTask(makeTask({ estimatedMinutes: null }))?.endTime).toBe(local('09:30'));
+  });
+
+  it('has no block for a task without a time', () => {
+    expect(getBlockTimesForTask(makeTask({ scheduledTime: null }))).toBeNull();
+  });
+
+  it('leaves out the minutes held by the other parts', () => {
+    expect(getBlockTimesForTask(makeTask(), 30)?.endTime).toBe(local('09:15'));
+  });
+});
+
+describe('getTaskUpdatesForBlock', () => {
+  it('returns null when the task already matches its block', () => {
+    expect(getTaskUpdatesForBlock(makeTask(), makeBlock())).toBeNull();
+  });
+
+  it('follows a block moved to another day and time', () => {
+    const block = makeBlock({ startTime: local('16:30', '2026-01-07'), endTime: local('17:15', '2026-01-07') });
+    expect(getTaskUpdatesForBlock(makeTask(), block)).toEqual({
+      scheduledDate: '2026-01-07',
+      scheduledTime: '16:30',
+    });
+  });
+
+  it('follows a resize with the estimate', () => {
+    expect(getTaskUpdatesForBlock(makeTask(), makeBlock({ endTime: local('10:30') }))).toEqual({
+      estimatedMinutes: 90,
+    });
+  });
+
+  it('does not set an estimate when the block keeps the default duration', () => {
+    const task = makeTask({ estimatedMinutes: null });
+    expect(getTaskUpdatesForBlock(task, makeBlock({ endTime: local('09:30') }))).toBeNull();
+  });
+
+  it('counts the other parts in the estimate', () => {
+    expect(getTaskUpdatesForBlock(makeTask(), makeBlock({ endTime: local('09:15') }), 30)).toBeNull();
+    expect(getTaskUpdatesForBlock(makeTask(), makeBlock({ endTime: local('09:30') }), 30)).toEqual({
+      estimatedMinutes: 60,
+    });
+  });
+
+  it('follows a rename', () => {
+    expect(getTaskUpdatesForBlock(makeTask(), makeBlock({ title: 'Finish report' }))).toEqual({
+      title: 'Finish report',
+    });
+  });
+
+  it('keeps the start date of a recurring task', () => {
+    const task = makeTask({ recurrence: { frequency: 'weekly', interval: 1 } });
+    const block = makeBlock({ startTime: local('10:00', '2026-01-06'), endTime: local('10:45', '2026-01-06') });
+    expect(getTaskUpdatesForBlock(task, block)).toEqual({ scheduledTime: '10:00' });
+  });
+});
+
+describe('task part block ids', () => {
+  it('round-trips the task id and part', () => {
+    expect(parseTaskPartBlockId(buildTaskPartBlockId('task-1', 3))).toEqual({ taskId: 'task-1', part: 3 });
+  });
+
+  it('returns null for other block ids', () => {
+    expect(parseTaskPartBlockId('block-1')).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  buildOccurrenceId,
+  parseOccurrenceId,
+  expandTasksInRange,
+  getTasksForDate,
+} from '../utils/taskOccurrences';
+import type { Task, TaskOccurrence } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Standup notes',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-05', // Monday
+    scheduledTime: null,
+    estimatedMinutes: 15,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+    ...overrides,
+  };
+}
+
+function makeOccurrence(overrides: Partial<TaskOccurrence> = {}): TaskOccurrence {
+  return {
+    taskId: 'task-1',
+    date: '2026-01-05',
+    status: 'done',
+    completedAt: '2026-01-05T09:00:00.000Z',
+    skipped: false,
+    ...overrides,
+  };
+}
+
+describe('occurrence ids', () => {
+  it('round-trips task id and date', () => {
+    const id = buildOccurrenceId('task-1', '2026-01-06');
+    expect(parseOccurrenceId(id)).toEqual({ taskId: 'task-1', date: '2026-01-06' });
+  });
+
+  it('returns null for regular task ids', () => {
+    expect(parseOccurrenceId('0b7c8a2e-1d3f-4a5b-9c6d-7e8f9a0b1c2d')).toBeNull();
+  });
+});
+
+describe('expandTasksInRange', () => {
+  it('includes one-off tasks scheduled within the range only', () => {
+    const tasks = [
+      makeTask({ id: 'in', scheduledDate: '2026-01-06' }),
+      makeTask({ id: 'out', scheduledDate: '2026-01-20' }),
+    ];
+    const result = expandTasksInRange(tasks, {}, '2026-01-05', '2026-01-11');
+    expect(result.map((t) => t.id)).toEqual(['in']);
+  });
+
+  it('expands a recurring master into virtual occurrences', () => {
+    const master = makeTask({ recurrence: { frequency: 'daily', interval: 1 } });
+    const result = expandTasksInRange([master], {}, '2026-01-05', '2026-01-07');
+    expect(result.map((t) => t.scheduledDate)).toEqual(['2026-01-05', '2026-01-06', '2026-01-07']);
+    expect(result.every((t) => t.masterTaskId === 'task-1')).toBe(true);
+    expect(result[1].id).toBe(buildOccurrenceId('task-1', '2026-01-06'));
+  });
+
+  it('applies per-occurrence completion without affecting siblings', () => {
+    const master = makeTask({ recurrence: { frequency: 'daily', interval: 1 } });
+    const occurrences = {
+      [buildOccurrenceId('task-1', '2026-01-05')]: makeOccurrence(),
+    };
+    const result = expandTasksInRange([master], occurrences, '2026-01-05', '2026-01-06');
+    expect(result[0].status).toBe('done');
+    expect(result[0].completedAt).toBe('2026-01-05T09:00:00.000Z');
+    expect(result[1].status).toBe('todo');
+    expect(result[1].completedAt).toBeNull();
+  });
+
+  it('leaves out skipped occurrences', () => {
+    const master = makeTask({ recurrence: { frequency: 'daily', interval: 1 } });
+    const occurrences = {
+      [buildOccurrenceId('task-1', '2026-01-06')]: makeOccurrence({
+        date: '2026-01-06',
+        status: 'todo',
+        completedAt: null,
+        skipped: true,
+      }),
+    };
+    const result = expandTasksInRange([master], occurrences, '2026-01-05', '2026-01-07');
+    expect(result.map((t) => t.scheduledDate)).toEqual(['2026-01-05', '2026-01-07']);
+  });
+});
+
+describe('getTasksForDate', () => {
+  it('returns the occurrence of a weekly series on a matching day', () => {
+    const master = makeTask({ recurrence: { frequency: 'weekly', interval: 1 } });
+    expect(getTasksForDate([master], {}, '2026-01-12')).toHaveLength(1);
+    expect(getTasksForDate([master], {}, '2026-01-13')).toHaveLength(0);
+  });
+
+  it('returns nothing before the series starts', () => {
+    const master = makeTask({ recurrence: { frequency: 'daily', interval: 1 } });
+    expect(getTasksForDate([master], {}, '2026-01-04')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,399 @@
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  scheduleNotificationAsync: jest.fn(async () => ''),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { useTaskStore } from '../store/useTaskStore';
+import { useTimeBlockStore } from '../store/useTimeBlockStore';
+import { buildOccurrenceId, getTasksForDate } from '../utils/taskOccurrences';
+import { buildTaskPartBlockId } from '../utils/taskBlockLink';
+import type { Task } from '../types';
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Standup notes',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-01-05',
+    scheduledTime: null,
+    estimatedMinutes: 15,
+    subtasks: [],
+    recurrence: { frequency: 'daily', interval: 1 },
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-01-05T08:00:00.000Z',
+    updatedAt: '2026-01-05T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: 'task-1',
+    ...overrides,
+  };
+}
+
+function tasksOn(date: string): Task[] {
+  const { tasks, occurrences } = useTaskStore.getState();
+  return getTasksForDate(tasks, occurrences, date);
+}
+
+describe('useTaskStore recurring occurrences', () => {
+  beforeEach(() => {
+    useTaskStore.setState({ tasks: [makeTask()], occurrences: {} });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+  });
+
+  it('completes a single occurrence without completing its siblings', () => {
+    useTaskStore.getState().setTaskStatus(buildOccurrenceId('task-1', '2026-01-05'), 'done');
+
+    expect(tasksOn('2026-01-05')[0].status).toBe('done');
+    expect(tasksOn('2026-01-06')[0].status).toBe('todo');
+    expect(useTaskStore.getState().tasks[0].status).toBe('todo');
+  });
+
+  it('deleting an occurrence skips only that date', () => {
+    useTaskStore.getState().deleteTask(buildOccurrenceId('task-1', '2026-01-06'));
+
+    expect(tasksOn('2026-01-06')).toHaveLength(0);
+    expect(tasksOn('2026-01-07')).toHaveLength(1);
+    expect(useTaskStore.getState().tasks).toHaveLength(1);
+  });
+
+  it('editing an occurrence updates the series without moving its start', () => {
+    useTaskStore.getState().updateTask(buildOccurrenceId('task-1', '2026-01-07'), {
+      title: 'Daily notes',
+      scheduledDate: '2026-01-07',
+    });
+
+    const master = useTaskStore.getState().tasks[0];
+    expect(master.title).toBe('Daily notes');
+    expect(master.scheduledDate).toBe('2026-01-05');
+  });
+
+  it('deleting this and following occurrences ends the series the day before', () => {
+    const [occurrence] = tasksOn('2026-01-08');
+    useTaskStore.getState().deleteTaskInSeries(occurrence, 'following');
+
+    expect(useTaskStore.getState().tasks[0].recurrence?.endDate).toBe('2026-01-07');
+    expect(tasksOn('2026-01-07')).toHaveLength(1);
+    expect(tasksOn('2026-01-08')).toHaveLength(0);
+  });
+
+  it('editing only this occurrence detaches it from the series', () => {
+    const [occurrence] = tasksOn('2026-01-06');
+    useTaskStore.getState().updateTaskInSeries(occurrence, { title: 'Retro notes' }, 'this');
+
+    const [detached] = tasksOn('2026-01-06');
+    expect(detached.title).toBe('Retro notes');
+    expect(detached.recurrence).toBeNull();
+    expect(detached.seriesId).toBe('task-1');
+    expect(tasksOn('2026-01-07')[0].title).toBe('Standup notes');
+  });
+
+  it('editing this and following occurrences splits the series', () => {
+    const [occurrence] = tasksOn('2026-01-08');
+    useTaskStore.getState().updateTaskInSeries(occurrence, { title: 'Daily notes' }, 'following');
+
+    expect(useTaskStore.getState().tasks).toHaveLength(2);
+    expect(tasksOn('2026-01-07')[0].title).toBe('Standup notes');
+    expect(tasksOn('2026-01-08')[0].title).toBe('Daily notes');
+    expect(tasksOn('2026-01-20')).toHaveLength(1);
+  });
+
+  it('starting a recurrence on a one-off task starts a new series', () => {
+    useTaskStore.setState({ tasks: [makeTask({ recurrence: null, seriesId: null })] });
+    useTaskStore.getState().updateTask('task-1', { recurrence: { frequency: 'weekly', interval: 1 } });
+
+    expect(useTaskStore.getState().tasks[0].seriesId).toBe('task-1');
+  });
+});
+
+describe('useTaskStore linked time blocks', () => {
+  const local = (time: string, date = '2026-01-05') => new Date(`${date}T${time}:00`).toISOString();
+
+  function linkedBlock() {
+    return useTimeBlockStore.getState().timeBlocks.find((b) => b.taskId === 'task-1')!;
+  }
+
+  beforeEach(() => {
+    useTaskStore.setState({
+      tasks: [makeTask({ recurrence: null, seriesId: null, estimatedMinutes: 30 })],
+      occurrences: {},
+    });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+    useTaskStore.getState().updateTask('task-1', { scheduledTime: '09:00' });
+  });
+
+  it('creates the block when the task gets a time', () => {
+    expect(linkedBlock()).toMatchObject({ startTime: local('09:00'), endTime: local('09:30') });
+  });
+
+  it('moves the task with its block, including to another date', () => {
+    useTimeBlockStore
+      .getState()
+      .moveTimeBlock(linkedBlock().id, local('14:15', '2026-01-06'), local('14:45', '2026-01-06'));
+
+    expect(useTaskStore.getState().tasks[0]).toMatchObject({
+      scheduledDate: '2026-01-06',
+      scheduledTime: '14:15',
+      estimatedMinutes: 30,
+    });
+    expect(useTimeBlockStore.getState().timeBlocks).toHaveLength(1);
+  });
+
+  it('updates the estimate when the block is resized', () => {
+    useTimeBlockStore.getState().updateTimeBlock(linkedBlock().id, { endTime: local('10:15') });
+
+    expect(useTaskStore.getState().tasks[0]).toMatchObject({ scheduledTime: '09:00', estimatedMinutes: 75 });
+    expect(linkedBlock().endTime).toBe(local('10:15'));
+  });
+
+  it('follows a linked block shifted out of an overlap', () => {
+    useTimeBlockStore.getState().addTimeBlock({
+      id: 'meeting',
+      taskId: null,
+      title: 'Meeting',
+      startTime: local('08:30'),
+      endTime: local('09:15'),
+      color: '#60A5FA',
+      type: 'event',
+    });
+    useTimeBlockStore.getState().moveTimeBlock('meeting', local('08:45'), local('09:30'));
+
+    expect(useTaskStore.getState().tasks[0].scheduledTime).toBe('09:30');
+  });
+
+  it('unschedules the task when its block is deleted', () => {
+    useTimeBlockStore.getState().deleteTimeBlock(linkedBlock().id);
+
+    expect(useTaskStore.getState().tasks[0].scheduledTime).toBeNull();
+    expect(useTimeBlockStore.getState().timeBlocks).toHaveLength(0);
+  });
+
+  it('keeps the start date of a recurring task whose block moves to another day', () => {
+    useTaskStore.getState().updateTask('task-1', { recurrence: { frequency: 'daily', interval: 1 } });
+    useTimeBlockStore
+      .getState()
+      .moveTimeBlock(linkedBlock().id, local('07:00', '2026-01-08'), local('07:30', '2026-01-08'));
+
+    expect(useTaskStore.getState().tasks[0]).toMatchObject({ scheduledDate: '2026-01-05', scheduledTime: '07:00' });
+    expect(linkedBlock().startTime).toBe(local('07:00'));
+  });
+
+  it('deleting the task removes its block without touching anything else', () => {
+    useTaskStore.getState().deleteTask('task-1');
+
+    expect(useTaskStore.getState().tasks).toHaveLength(0);
+    expect(useTimeBlockStore.getState().timeBlocks).toHaveLength(0);
+  });
+});
+
+describe('useTaskStore applying a day plan', () => {
+  const local = (time: string) => new Date(`2026-01-05T${time}:00`).toISOString();
+  const part = (n: number, start: string, end: string) => ({
+    taskId: 'task-1',
+    title: 'Standup notes',
+    startTime: local(start),
+    endTime: local(end),
+    part: n,
+    parts: 2,
+  });
+
+  beforeEach(() => {
+    useTaskStore.setState({
+      tasks: [makeTask({ recurrence: null, seriesId: null, estimatedMinutes: 90 })],
+      occurrences: {},
+    });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+  });
+
+  function block(id: string) {
+    return useTimeBlockStore.getState().timeBlocks.find((b) => b.id === id);
+  }
+
+  function linkedBlock() {
+    return useTimeBlockStore.getState().timeBlocks.find((b) => b.taskId === 'task-1')!;
+  }
+
+  beforeEach(() => {
+    useTaskStore.getState().applyDayPlan([part(1, '09:00', '09:30'), part(2, '11:00', '12:00')]);
+  });
+
+  it('keeps the estimate of a task split across gaps', () => {
+    expect(useTaskStore.getState().tasks[0]).toMatchObject({
+      scheduledTime: '09:00',
+      estimatedMinutes: 90,
+    });
+    expect(linkedBlock()).toMatchObject({ startTime: local('09:00'), endTime: local('09:30') });
+  });
+
+  it('tracks the later parts against the task', () => {
+    expect(block(buildTaskPartBlockId('task-1', 2))).toMatchObject({
+      title: 'Standup notes (2/2)',
+      startTime: local('11:00'),
+      endTime: local('12:00'),
+    });
+  });
+
+  it('counts the later parts when the first part is resized', () => {
+    useTimeBlockStore.getState().updateTimeBlock(linkedBlock().id, { endTime: local('09:45') });
+
+    expect(useTaskStore.getState().tasks[0].estimatedMinutes).toBe(105);
+    expect(block(buildTaskPartBlockId('task-1', 2))).toBeDefined();
+  });
+
+  it('drops the later parts when the task is rescheduled', () => {
+    useTaskStore.getState().updateTask('task-1', { scheduledTime: '14:00' });
+
+    expect(block(buildTaskPartBlockId('task-1', 2))).toBeUndefined();
+    expect(linkedBlock()).toMatchObject({ startTime: local('14:00'), endTime: local('15:30') });
+  });
+
+  it('removes every part with the task', () => {
+    useTaskStore.getState().deleteTask('task-1');
+
+    expect(useTimeBlockStore.getState().timeBlocks).toHaveLength(0);
+  });
+});
+
+describe('useTaskStore series outside the loaded window', () => {
+  // A March exception and a March occurrence state, far outside the January window
+  const exceptionRow = {
+    id: 'exception-1',
+    title: 'Standup notes (moved)',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduled_date: '2026-03-10',
+    scheduled_time: null,
+    estimated_minutes: 15,
+    sort_order: 0,
+    recurrence_json: null,
+    notifications_json: null,
+    created_at: '2026-01-05T08:00:00.000Z',
+    updated_at: '2026-01-05T08:00:00.000Z',
+    completed_at: null,
+    carried_over_from: null,
+    series_id: 'task-1',
+    deleted_at: null,
+  };
+  const occurrenceRow = {
+    task_id: 'task-1',
+    occurrence_date: '2026-03-12',
+    status: 'done',
+    completed_at: '2026-03-12T09:00:00.000Z',
+    skipped: 0,
+  };
+
+  beforeEach(async () => {
+    const db = {
+      getAllAsync: jest.fn(async (sql: string) => {
+        if (sql.includes('JOIN tasks')) return [occurrenceRow];
+        if (sql.includes('series_id = ?')) return [exceptionRow];
+        return [];
+      }),
+      runAsync: jest.fn(async () => undefined),
+    };
+    await useTaskStore
+      .getState()
+      .hydrateFromDb(db as unknown as SQLiteDatabase, { startDate: '2026-01-01', endDate: '2026-01-10' });
+    useTaskStore.setState({ tasks: [makeTask()], occurrences: {} });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+  });
+
+  it('edits an exception that is not loaded when editing the entire series', async () => {
+    const [occurrence] = tasksOn('2026-01-08');
+    await useTaskStore.getState().loadSeries(occurrence);
+    useTaskStore.getState().updateTaskInSeries(occurrence, { title: 'Daily notes' }, 'all');
+
+    const exception = useTaskStore.getState().tasks.find((t) => t.id === 'exception-1');
+    expect(exception?.title).toBe('Daily notes');
+  });
+
+  it('moves occurrence states that are not loaded onto the continuation of a split', async () => {
+    const [occurrence] = tasksOn('2026-01-08');
+    await useTaskStore.getState().loadSeries(occurrence);
+    useTaskStore.getState().updateTaskInSeries(occurrence, { title: 'Daily notes' }, 'following');
+
+    const continuation = useTaskStore
+      .getState()
+      .tasks.find((t) => t.recurrence && t.scheduledDate === '2026-01-08')!;
+    const { occurrences } = useTaskStore.getState();
+    expect(occurrences[buildOccurrenceId('task-1', '2026-03-12')]).toBeUndefined();
+    expect(occurrences[buildOccurrenceId(continuation.id, '2026-03-12')]?.status).toBe('done');
+  });
+
+  it('deletes an exception that is not loaded when deleting the entire series', async () => {
+    const [occurrence] = tasksOn('2026-01-08');
+    await useTaskStore.getState().loadSeries(occurrence);
+    useTaskStore.getState().deleteTaskInSeries(occurrence, 'all');
+
+    expect(useTaskStore.getState().tasks).toEqual([]);
+  });
+});
+
+describe('useTaskStore tasks loaded from before the window', () => {
+  // An unfinished task from December with its block, both before the January window
+  const openTaskRow = {
+    id: 'old-task',
+    title: 'Send invoice',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduled_date: '2025-12-15',
+    scheduled_time: '09:00',
+    estimated_minutes: 30,
+    sort_order: 0,
+    recurrence_json: null,
+    notifications_json: null,
+    created_at: '2025-12-01T08:00:00.000Z',
+    updated_at: '2025-12-01T08:00:00.000Z',
+    completed_at: null,
+    carried_over_from: null,
+    series_id: null,
+    deleted_at: null,
+  };
+  const blockRow = {
+    id: 'old-block',
+    task_id: 'old-task',
+    title: 'Send invoice',
+    start_time: new Date('2025-12-15T09:00:00').toISOString(),
+    end_time: new Date('2025-12-15T09:30:00').toISOString(),
+    color: '#818CF8',
+    type: 'task',
+    pinned: 0,
+    deleted_at: null,
+  };
+
+  beforeEach(async () => {
+    const db = {
+      getAllAsync: jest.fn(async (sql: string) => {
+        if (sql.includes('WITH loaded')) return [blockRow];
+        if (sql.includes("status IN ('todo', 'in_progress')")) return [openTaskRow];
+        return [];
+      }),
+      runAsync: jest.fn(async () => undefined),
+    };
+    const range = { startDate: '2026-01-01', endDate: '2026-01-10' };
+    await Promise.all([
+      useTaskStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase, range),
+      useTimeBlockStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase, range),
+    ]);
+  });
+
+  it('moves the linked block of a carried-over task instead of adding a second one', () => {
+    useTaskStore
+      .getState()
+      .updateTask('old-task', { scheduledDate: '2026-01-05', carriedOverFrom: '2025-12-15' });
+
+    const linked = useTimeBlockStore.getState().timeBlocks.filter((b) => b.taskId === 'old-task');
+    expect(linked).toHaveLength(1);
+    expect(linked[0]).toMatchObject({
+      id: 'old-block',
+      startTime: new Date('2026-01-05T09:00:00').toISOString(),
+    });
+  });
+});
@@ -1,4 +1,13 @@
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  scheduleNotificationAsync: jest.fn(async () => ''),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+import type { SQLiteDatabase } from 'expo-sqlite';
 import { useTimeBlockStore } from '../store/useTimeBlockStore';
+import { useSettingsStore } from '../store/useSettingsStore';
 import type { TimeBlock } from '../types';
 
 function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
@@ -17,6 +26,35 @@ function makeBlock(overrides: Partial<TimeBlock> = {}): TimeBlock {
 describe('useTimeBlockStore', () => {
   beforeEach(() => {
     useTimeBlockStore.setState({ timeBlocks: [] });
+    useSettingsStore.setState({ overlapPolicy: 'push' });
+  });
+
+  it('pages in only the unloaded days and keeps blocks already in memory', async () => {
+    const stored = {
+      id: 'block-1',
+      task_id: null,
+      title: 'Stored',
+      start_time: '2026-01-20T09:00:00.000Z',
+      end_time: '2026-01-20T10:00:00.000Z',
+      color: '#4F46E5',
+      type: 'task',
+    };
+    const db = {
+      getAllAsync: jest.fn(async () => [] as unknown[]),
+      runAsync: jest.fn(async () => undefined),
+    };
+    await useTimeBlockStore
+      .getState()
+      .hydrateFromDb(db as unknown as SQLiteDatabase, { startDate: '2026-01-01', endDate: '2026-01-10' });
+    useTimeBlockStore.getState().addTimeBlock(makeBlock({ title: 'Edited' }));
+    db.getAllAsync.mockResolvedValueOnce([stored, { ...stored, id: 'block-2' }]);
+
+    await useTimeBlockStore.getState().loadRange({ startDate: '2026-01-05', endDate: '2026-01-25' });
+
+    // Each range reads its own blocks and the linked blocks of tasks loaded from outside it
+    expect(db.getAllAsync).toHaveBeenCalledTimes(4);
+    expect(useTimeBlockStore.getState().loadedRange).toEqual({ startDate: '2026-01-01', endDate: '2026-01-25' });
+    expect(useTimeBlockStore.getState().timeBlocks.map((b) => b.title)).toEqual(['Edited', 'Stored']);
   });
 
   it('adds a time block', () => {
@@ -69,52 +107,102 @@ describe('useTimeBlockStore', () => {
     );
   });
 
-  it('reorderBlocks shifts overlapping blocks down', () => {
+  it('leaves overlaps on other days alone', () => {
+    const other1 = makeBlock({
+      id: 'other-1',
+      startTime: '2026-01-06T09:00:00.000Z',
+      endTime: '2026-01-06T10:30:00.000Z',
+    });
+    const other2 = makeBlock({
+      id: 'other-2',
+      startTime: '2026-01-06T10:00:00.000Z',
+      endTime: '2026-01-06T11:00:00.000Z',
+    });
+    useTimeBlockStore.setState({ timeBlocks: [makeBlock(), other1, other2] });
+
+    useTimeBlockStore.getState().moveTimeBlock(
+      'block-1',
+      '2026-01-05T12:00:00.000Z',
+      '2026-01-05T13:00:00.000Z',
+    );
+
+    const blocks = useTimeBlockStore.getState().timeBlocks;
+    expect(blocks.find((b) => b.id === 'other-1')).toEqual(other1);
+    expect(blocks.find((b) => b.id === 'other-2')).toEqual(other2);
+  });
+
+  it('preserves duration when pushing blocks down', () => {
     const block1 = makeBlock({
       id: 'block-1',
-      startTime: '2026-01-05T09:00:00.000Z',
-      endTime: '2026-01-05T10:30:00.000Z',
+      startTime: '2026-01-05T08:00:00.000Z',
+      endTime: '2026-01-05T09:00:00.000Z',
     });
     const block2 = makeBlock({
       id: 'block-2',
+      startTime: '2026-01-05T09:30:00.000Z',
+      endTime: '2026-01-05T10:30:00.000Z', // 60 min duration
+    });
+    useTimeBlockStore.setState({ timeBlocks: [block1, block2] });
+
+    useTimeBlockStore.getState().moveTimeBlock(
+      'block-1',
+      '2026-01-05T09:00:00.000Z',
+      '2026-01-05T10:00:00.000Z',
+    );
+
+    const b2 = useTimeBlockStore.getState().timeBlocks.find((b) => b.id === 'block-2')!;
+    expect(b2.startTime).toBe('2026-01-05T10:00:00.000Z');
+    expect(b2.endTime).toBe('2026-01-05T11:00:00.000Z');
+  });
+
+  it('refuses to push a pinned block and changes nothing', () => {
+    const pinned = makeBlock({
+      id: 'pinned',
       startTime: '2026-01-05T10:00:00.000Z',
       endTime: '2026-01-05T11:00:00.000Z',
+      pinned: true,
     });
-    const block3 = makeBlock({
-      id: 'block-3',
-      startTime: '2026-01-05T10:30:00.000Z',
-      endTime: '2026-01-05T11:30:00.000Z',
-    });
+    useTimeBlockStore.setState({ timeBlocks: [makeBlock(), pinned] });
 
-    useTimeBlockStore.setState({ timeBlocks: [block1, block2, block3] });
-    useTimeBlockStore.getState().reorderBlocks();
+    const result = useTimeBlockStore.getState().moveTimeBlock(
+      'block-1',
+      '2026-01-05T09:30:00.000Z',
+      '2026-01-05T10:30:00.000Z',
+    );
 
-    const blocks = useTimeBlockStore.getState().timeBlocks;
-    // All blocks should be non-overlapping and sorted
-    for (let i = 1; i < blocks.length; i++) {
-      expect(new Date(blocks[i].startTime).getTime()).toBeGreaterThanOrEqual(
-        new Date(blocks[i - 1].endTime).getTime(),
-      );
-    }
+    expect(result).toEqual(expect.objectContaining({ ok: false, blockIds: ['pinned'] }));
+    expect(useTimeBlockStore.getState().timeBlocks).toEqual([makeBlock(), pinned]);
   });
 
-  it('preserves duration when resolving overlaps', () => {
-    const block1 = makeBlock({
-      id: 'block-1',
-      startTime: '2026-01-05T09:00:00.000Z',
-      endTime: '2026-01-05T10:00:00.000Z',
-    });
+  it('follows the overlap policy setting', () => {
     const block2 = makeBlock({
       id: 'block-2',
-      startTime: '2026-01-05T09:30:00.000Z', // overlaps with block-1
-      endTime: '2026-01-05T10:30:00.000Z',   // 60 min duration
+      startTime: '2026-01-05T10:00:00.000Z',
+      endTime: '2026-01-05T11:00:00.000Z',
     });
+    useTimeBlockStore.setState({ timeBlocks: [makeBlock(), block2] });
+    const { previewBlockChange, moveTimeBlock } = useTimeBlockStore.getState();
+    const overlapping = [
+      'block-1',
+      '2026-01-05T09:30:00.000Z',
+      '2026-01-05T10:30:00.000Z',
+    ] as const;
 
-    useTimeBlockStore.setState({ timeBlocks: [block1, block2] });
-    useTimeBlockStore.getState().reorderBlocks();
+    useSettingsStore.setState({ overlapPolicy: 'reject' });
+    expect(previewBlockChange(...overlapping).ok).toBe(false);
 
-    const b2 = useTimeBlockStore.getState().timeBlocks.find((b) => b.id === 'block-2')!;
-    const duration = new Date(b2.endTime).getTime() - new Date(b2.startTime).getTime();
-    expect(duration).toBe(60 * 60 * 1000); // 60 minutes preserved
+    useSettingsStore.setState({ overlapPolicy: 'allow' });
+    expect(previewBlockChange(...overlapping)).toEqual({
+      ok: true,
+      shifts: [expect.objectContaining({ id: 'block-1' })],
+    });
+    // Previewing changes nothing
+    expect(useTimeBlockStore.getState().timeBlocks[0]).toEqual(makeBlock());
+
+    moveTimeBlock(...overlapping);
+    expect(useTimeBlockStore.getState().timeBlocks).toEqual([
+      makeBlock({ startTime: overlapping[1], endTime: overlapping[2] }),
+      block2,
+    ]);
   });
 });
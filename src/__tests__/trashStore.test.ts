@@ -0,0 +1,164 @@
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(async () => []),
+  scheduleNotificationAsync: jest.fn(async () => ''),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { useTrashStore } from '../store/useTrashStore';
+import { useTemplateStore } from '../store/useTemplateStore';
+import { useTaskStore } from '../store/useTaskStore';
+import { useTimeBlockStore } from '../store/useTimeBlockStore';
+import { useWriteQueueStore } from '../store/useWriteQueueStore';
+import { buildTaskPartBlockId } from '../utils/taskBlockLink';
+import type { Task, Template, TrashItem } from '../types';
+
+function makeDb() {
+  const txn = { runAsync: jest.fn(async () => undefined) };
+  return {
+    txn,
+    getAllAsync: jest.fn<Promise<unknown[]>, [string, unknown[]?]>(async () => []),
+    runAsync: jest.fn(async () => undefined),
+    withExclusiveTransactionAsync: jest.fn(async (fn: (t: typeof txn) => Promise<void>) => fn(txn)),
+  };
+}
+
+function makeTemplate(id: string): Template {
+  return {
+    id,
+    name: 'Deep Work',
+    icon: '🧠',
+    blocks: [],
+    createdAt: '2026-01-01T08:00:00.000Z',
+    updatedAt: '2026-01-01T08:00:00.000Z',
+  };
+}
+
+function makeTask(): Task {
+  return {
+    id: 'task-1',
+    title: 'Send invoice',
+    description: '',
+    status: 'todo',
+    priority: 'medium',
+    scheduledDate: '2026-03-10',
+    scheduledTime: '09:00',
+    estimatedMinutes: 90,
+    subtasks: [],
+    recurrence: null,
+    notifications: [],
+    sortOrder: 0,
+    createdAt: '2026-03-01T08:00:00.000Z',
+    updatedAt: '2026-03-01T08:00:00.000Z',
+    completedAt: null,
+    carriedOverFrom: null,
+    seriesId: null,
+  };
+}
+
+function trashed(id: string, deletedAt: string): TrashItem {
+  return { kind: 'template', template: makeTemplate(id), deletedAt };
+}
+
+describe('useTrashStore', () => {
+  let db: ReturnType<typeof makeDb>;
+
+  beforeEach(async () => {
+    db = makeDb();
+    await useWriteQueueStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+    await useTrashStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+  });
+
+  it('purges items deleted before the retention cutoff', async () => {
+    useTrashStore.setState({
+      items: [trashed('recent', '2026-03-10T12:00:00.000Z'), trashed('old', '2026-01-15T12:00:00.000Z')],
+    });
+
+    await useTrashStore.getState().purgeExpired(30, new Date('2026-03-15T12:00:00.000Z'));
+
+    expect(useTrashStore.getState().items.map((i) => (i.kind === 'template' ? i.template.id : ''))).toEqual([
+      'recent',
+    ]);
+    expect(db.txn.runAsync).toHaveBeenCalledWith(
+      'DELETE FROM templates WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+      ['2026-02-13T12:00:00.000Z'],
+    );
+  });
+
+  it('empties the whole trash', async () => {
+    useTrashStore.setState({ items: [trashed('a', '2026-03-10T12:00:00.000Z')] });
+
+    useTrashStore.getState().emptyTrash();
+    await useWriteQueueStore.getState().flush();
+
+    expect(useTrashStore.getState().items).toEqual([]);
+    expect(db.txn.runAsync).toHaveBeenCalledWith('DELETE FROM templates WHERE deleted_at IS NOT NULL', []);
+  });
+
+  it('restores an item into its owning store', async () => {
+    await useTemplateStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+    useTemplateStore.setState({ templates: [] });
+    const item = trashed('tmpl-1', '2026-03-10T12:00:00.000Z');
+    useTrashStore.setState({ items: [item] });
+
+    useTrashStore.getState().restoreItem(item);
+    await useWriteQueueStore.getState().flush();
+
+    expect(useTrashStore.getState().items).toEqual([]);
+    expect(useTemplateStore.getState().templates.map((t) => t.id)).toEqual(['tmpl-1']);
+    expect(db.txn.runAsync).toHaveBeenCalledWith(expect.stringContaining('deleted_at = NULL'), [
+      'tmpl-1',
+      'Deep Work',
+      '🧠',
+      '[]',
+      '2026-01-01T08:00:00.000Z',
+      '2026-01-01T08:00:00.000Z',
+    ]);
+  });
+
+  it('restores a task with its own linked block and day-plan parts', async () => {
+    const deletedAt = '2026-03-10T12:00:00.000Z';
+    const blockRow = (id: string, taskId: string | null, start: string, end: string) => ({
+      id,
+      task_id: taskId,
+      title: 'Send invoice',
+      start_time: new Date(`2026-03-10T${start}:00`).toISOString(),
+      end_time: new Date(`2026-03-10T${end}:00`).toISOString(),
+      color: '#818CF8',
+      type: 'task',
+      pinned: 0,
+      deleted_at: deletedAt,
+    });
+    const partId = buildTaskPartBlockId('task-1', 2);
+    db.getAllAsync.mockImplementation(async (sql) =>
+      sql.includes('task_id = ? OR')
+        ? [
+            blockRow('linked-1', 'task-1', '09:00', '09:30'),
+            blockRow(partId, null, '11:00', '12:00'),
+          ]
+        : [],
+    );
+    useTaskStore.setState({ tasks: [], occurrences: {} });
+    useTimeBlockStore.setState({ timeBlocks: [] });
+    const item: TrashItem = { kind: 'task', task: makeTask(), deletedAt };
+
+    useTrashStore.getState().restoreItem(item);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(useTaskStore.getState().tasks.map((t) => t.id)).toEqual(['task-1']);
+    const blockIds = useTimeBlockStore.getState().timeBlocks.map((b) => b.id);
+    expect(blockIds.sort()).toEqual(['linked-1', partId]);
+  });
+
+  it('permanently deletes a single item', async () => {
+    const item = trashed('tmpl-2', '2026-03-10T12:00:00.000Z');
+    useTrashStore.setState({ items: [item, trashed('tmpl-3', '2026-03-09T12:00:00.000Z')] });
+
+    useTrashStore.getState().purgeItem(item);
+    await useWriteQueueStore.getState().flush();
+
+    expect(useTrashStore.getState().items).toHaveLength(1);
+    expect(db.txn.runAsync).toHaveBeenCalledWith('DELETE FROM templates WHERE id = ?', ['tmpl-2']);
+  });
+});
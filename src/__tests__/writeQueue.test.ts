@@ -0,0 +1,108 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createWriteQueue, isTransientWriteError } from '../db/writeQueue';
+import type { WriteOperation } from '../db/writeQueue';
+
+interface FakeTransaction {
+  writes: string[];
+}
+
+/** A database whose transactions record the writes they committed, dropping those of a rolled back one */
+function makeDb() {
+  const committed: string[][] = [];
+  const db = {
+    committed,
+    withExclusiveTransactionAsync: jest.fn(async (fn: (txn: FakeTransaction) => Promise<void>) => {
+      const txn: FakeTransaction = { writes: [] };
+      await fn(txn);
+      committed.push(txn.writes);
+    }),
+  };
+  return db;
+}
+
+function write(name: string): WriteOperation {
+  return async (txn) => {
+    (txn as unknown as FakeTransaction).writes.push(name);
+  };
+}
+
+function failing(error: Error): WriteOperation {
+  return async () => {
+    throw error;
+  };
+}
+
+describe('createWriteQueue', () => {
+  it('commits the writes of one tick in a single transaction, in order', async () => {
+    const db = makeDb();
+    const queue = createWriteQueue(db as unknown as SQLiteDatabase);
+
+    queue.enqueue('block:a', write('a'));
+    queue.enqueue('block:b', write('b'));
+    queue.enqueue('block:c', write('c'));
+    await queue.flush();
+
+    expect(db.committed).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('runs writes queued during a commit in the next transaction', async () => {
+    const db = makeDb();
+    const queue = createWriteQueue(db as unknown as SQLiteDatabase);
+
+    queue.enqueue('task:1', write('first')).then(() => queue.enqueue('task:2', write('second')));
+    await queue.flush();
+    await queue.flush();
+
+    expect(db.committed).toEqual([['first'], ['second']]);
+  });
+
+  it('retries a transaction that found the database locked', async () => {
+    const db = makeDb();
+    const queue = createWriteQueue(db as unknown as SQLiteDatabase, { retryDelayMs: 0 });
+    let attempts = 0;
+    const flaky: WriteOperation = async (txn) => {
+      attempts++;
+      if (attempts < 3) throw new Error('database is locked');
+      await write('saved')(txn);
+    };
+
+    await queue.enqueue('task:1', flaky);
+
+    expect(attempts).toBe(3);
+    expect(db.committed).toEqual([['saved']]);
+  });
+
+  it('commits the rest of a batch around a write that keeps failing', async () => {
+    const db = makeDb();
+    const onFailure = jest.fn();
+    const queue = createWriteQueue(db as unknown as SQLiteDatabase, { onFailure });
+    const error = new Error('constraint failed');
+
+    queue.enqueue('task:1', write('first'));
+    const bad = queue.enqueue('task:2', failing(error));
+    queue.enqueue('task:3', write('third'));
+
+    await expect(bad).rejects.toBe(error);
+    await queue.flush();
+    expect(db.committed).toEqual([['first'], ['third']]);
+    expect(onFailure).toHaveBeenCalledWith([{ key: 'task:2', write: expect.any(Function), error }]);
+  });
+
+  it('gives up on a locked database after the last attempt', async () => {
+    const db = makeDb();
+    const onFailure = jest.fn();
+    const queue = createWriteQueue(db as unknown as SQLiteDatabase, { maxAttempts: 2, retryDelayMs: 0, onFailure });
+
+    await expect(queue.enqueue('task:1', failing(new Error('SQLITE_BUSY')))).rejects.toThrow('SQLITE_BUSY');
+
+    expect(db.withExclusiveTransactionAsync).toHaveBeenCalledTimes(2);
+    expect(onFailure).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isTransientWriteError', () => {
+  it('recognises lock contention but not other failures', () => {
+    expect(isTransientWriteError(new Error('Error code 5: database is locked'))).toBe(true);
+    expect(isTransientWriteError(new Error('UNIQUE constraint failed: tasks.id'))).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { useWriteQueueStore } from '../store/useWriteQueueStore';
+import type { WriteOperation } from '../db/writeQueue';
+
+function makeDb() {
+  const txn = { runAsync: jest.fn<Promise<void>, [string]>(async () => undefined) };
+  return {
+    txn,
+    withExclusiveTransactionAsync: jest.fn(async (fn: (t: typeof txn) => Promise<void>) => fn(txn)),
+  };
+}
+
+function run(sql: string): WriteOperation {
+  return async (txn) => {
+    await txn.runAsync(sql);
+  };
+}
+
+describe('useWriteQueueStore', () => {
+  let db: ReturnType<typeof makeDb>;
+
+  beforeEach(async () => {
+    db = makeDb();
+    useWriteQueueStore.setState({ failures: [] });
+    await useWriteQueueStore.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+  });
+
+  it('keeps a write that failed and commits it on retry', async () => {
+    db.txn.runAsync.mockRejectedValueOnce(new Error('disk I/O error'));
+    const { enqueue } = useWriteQueueStore.getState();
+
+    await expect(enqueue('task:1', run('UPDATE tasks'))).rejects.toThrow('disk I/O error');
+    expect(useWriteQueueStore.getState().failures.map((f) => f.key)).toEqual(['task:1']);
+
+    useWriteQueueStore.getState().retryFailed();
+    await useWriteQueueStore.getState().flush();
+
+    expect(useWriteQueueStore.getState().failures).toEqual([]);
+    expect(db.txn.runAsync).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a failed write once a newer write to the same row is queued', async () => {
+    db.txn.runAsync.mockRejectedValueOnce(new Error('disk I/O error'));
+    const { enqueue } = useWriteQueueStore.getState();
+    await enqueue('task:1', run('old')).catch(() => undefined);
+
+    await enqueue('task:1', run('new'));
+    useWriteQueueStore.getState().retryFailed();
+    await useWriteQueueStore.getState().flush();
+
+    expect(db.txn.runAsync.mock.calls.map((call) => call[0])).toEqual(['old', 'new']);
+  });
+});
+
+describe('useWriteQueueStore before hydration', () => {
+  it('holds writes until the database is open', async () => {
+    // A fresh copy of the store, which has never been hydrated
+    let store!: typeof useWriteQueueStore;
+    await jest.isolateModulesAsync(async () => {
+      ({ useWriteQueueStore: store } = await import('../store/useWriteQueueStore'));
+    });
+    const db = makeDb();
+
+    const committed = store.getState().enqueue('task:1', run('UPDATE tasks'));
+    expect(db.txn.runAsync).not.toHaveBeenCalled();
+
+    await store.getState().hydrateFromDb(db as unknown as SQLiteDatabase);
+    await committed;
+
+    expect(db.txn.runAsync).toHaveBeenCalledWith('UPDATE tasks');
+  });
+});
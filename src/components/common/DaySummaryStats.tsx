@@ -3,6 +3,7 @@ import { View, Text, StyleSheet } from 'react-native';
 import { parseISO, isSameDay } from 'date-fns';
 import { Dimensions } from '../../constants';
 import { useTaskStore, useTimeBlockStore } from '../../store';
+import { getTasksForDate } from '../../utils';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 
@@ -11,13 +12,14 @@ export default function DaySummaryStats() {
   const styles = useStyles(colors);
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
 
   const stats = useMemo(() => {
     const selectedParsed = parseISO(selectedDate);
 
     // Tasks for this day
-    const dayTasks = tasks.filter((t) => t.scheduledDate === selectedDate);
+    const dayTasks = getTasksForDate(tasks, occurrences, selectedDate);
     const completedCount = dayTasks.filter((t) => t.status === 'done').length;
     const totalTasks = dayTasks.length;
 
@@ -41,7 +43,7 @@ export default function DaySummaryStats() {
       }, 0);
 
     return { completedCount, totalTasks, totalMinutes, focusMinutes };
-  }, [selectedDate, tasks, timeBlocks]);
+  }, [selectedDate, tasks, occurrences, timeBlocks]);
 
   const allDone = stats.totalTasks > 0 && stats.completedCount === stats.totalTasks;
   const hasAnyContent = stats.totalTasks > 0 || stats.totalMinutes > 0;
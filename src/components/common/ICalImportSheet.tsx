@@ -0,0 +1,405 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useTaskStore, useTimeBlockStore, useSettingsStore, useHistoryStore } from '../../store';
+import { parseICalendar, buildImportedTask, buildImportedBlocks } from '../../services';
+import { useICalImport } from '../../hooks';
+import type { ICalImportCandidate, ICalImportTarget } from '../../services';
+
+interface ICalImportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const TARGET_OPTIONS: { value: ICalImportTarget; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'block', label: 'Block' },
+  { value: 'skip', label: 'Skip' },
+];
+
+function describeWhen(candidate: ICalImportCandidate): string {
+  const { item } = candidate;
+  const day = format(parseISO(item.date), 'EEE, MMM d, yyyy');
+  if (!item.time) return `${day} · All day`;
+  const time = format(parseISO(`${item.date}T${item.time}`), 'h:mm a');
+  return item.durationMinutes ? `${day} · ${time} · ${item.durationMinutes} min` : `${day} · ${time}`;
+}
+
+export default function ICalImportSheet({ visible, onClose }: ICalImportSheetProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+
+  const tasks = useTaskStore((s) => s.tasks);
+  const addTask = useTaskStore((s) => s.addTask);
+  const updateTask = useTaskStore((s) => s.updateTask);
+  const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
+  const addTimeBlock = useTimeBlockStore((s) => s.addTimeBlock);
+  const deleteTimeBlock = useTimeBlockStore((s) => s.deleteTimeBlock);
+  const record = useHistoryStore((s) => s.record);
+  const defaultTaskDurationMinutes = useSettingsStore((s) => s.defaultTaskDurationMinutes);
+  const { busy, planImport } = useICalImport();
+
+  const [text, setText] = useState('');
+  const [candidates, setCandidates] = useState<ICalImportCandidate[] | null>(null);
+
+  const handleClose = useCallback(() => {
+    setText('');
+    setCandidates(null);
+    onClose();
+  }, [onClose]);
+
+  const handlePreview = useCallback(async () => {
+    try {
+      const items = parseICalendar(text);
+      if (items.length === 0) {
+        Alert.alert('Nothing to Import', 'This calendar has no events or to-dos.');
+        return;
+      }
+      setCandidates(await planImport(items));
+    } catch (err) {
+      Alert.alert('Invalid Calendar', err instanceof Error ? err.message : String(err));
+    }
+  }, [text, planImport]);
+
+  const setTarget = useCallback((index: number, target: ICalImportTarget) => {
+    setCandidates((prev) => prev && prev.map((c, i) => (i === index ? { ...c, target } : c)));
+  }, []);
+
+  const importCount = candidates?.filter((c) => c.target !== 'skip').length ?? 0;
+
+  const handleImport = useCallback(() => {
+    if (!candidates) return;
+
+    record('Calendar imported', () => {
+      for (const candidate of candidates) {
+        if (candidate.target === 'task') {
+          const task = buildImportedTask(candidate);
+          const existing = tasks.find((t) => t.id === task.id);
+          if (existing) {
+            // Re-importing replaces the earlier copy's content but keeps its creation date
+            updateTask(task.id, { ...task, createdAt: existing.createdAt });
+          } else {
+            addTask(task);
+          }
+        } else if (candidate.target === 'block') {
+          for (const block of timeBlocks) {
+            if (block.id === candidate.id || block.id.startsWith(`${candidate.id}:`)) {
+              deleteTimeBlock(block.id);
+            }
+          }
+          for (const block of buildImportedBlocks(candidate, defaultTaskDurationMinutes)) {
+            addTimeBlock(block);
+          }
+        }
+      }
+    }, { notify: true });
+
+    const count = importCount;
+    handleClose();
+    Alert.alert('Calendar Imported', `Added ${count} item${count !== 1 ? 's' : ''} to DayDeck.`);
+  }, [
+    candidates,
+    tasks,
+    timeBlocks,
+    defaultTaskDurationMinutes,
+    importCount,
+    addTask,
+    updateTask,
+    addTimeBlock,
+    deleteTimeBlock,
+    record,
+    handleClose,
+  ]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Import Calendar</Text>
+          <Pressable
+            onPress={handleClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Close calendar import"
+          >
+            <Text style={styles.closeText}>Cancel</Text>
+          </Pressable>
+        </View>
+
+        {candidates === null ? (
+          <View style={styles.body}>
+            <Text style={styles.hint}>Paste the contents of an .ics file below.</Text>
+            <TextInput
+              value={text}
+              onChangeText={setText}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholder="BEGIN:VCALENDAR"
+              placeholderTextColor={colors.textTertiary}
+              style={styles.input}
+              accessibilityLabel="Calendar contents"
+            />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            {candidates.map((candidate, index) => (
+              <View key={`${candidate.id}-${index}`} style={styles.itemCard}>
+                <Text style={styles.itemTitle}>{candidate.item.title}</Text>
+                <Text style={styles.itemMeta}>{describeWhen(candidate)}</Text>
+                <View style={styles.badgeRow}>
+                  {candidate.item.recurrence && <Text style={styles.badge}>Repeats</Text>}
+                  {candidate.item.reminderOffsets.length > 0 && (
+                    <Text style={styles.badge}>
+                      {candidate.item.reminderOffsets.length} reminder
+                      {candidate.item.reminderOffsets.length !== 1 ? 's' : ''}
+                    </Text>
+                  )}
+                  {candidate.duplicate && (
+                    <Text style={[styles.badge, styles.badgeWarning]}>Already imported</Text>
+                  )}
+                </View>
+                {candidate.item.unsupportedRecurrence && (
+                  <Text style={styles.itemNote}>
+                    Repeats in a way DayDeck can&apos;t follow; only the first date is imported.
+                  </Text>
+                )}
+                {candidate.target === 'block' && candidate.item.recurrence && (
+                  <Text style={styles.itemNote}>Blocks don&apos;t repeat, so each upcoming date gets its own block.</Text>
+                )}
+                <View style={styles.segmentControl}>
+                  {TARGET_OPTIONS.map((option) => {
+                    const selected = candidate.target === option.value;
+                    return (
+                      <Pressable
+                        key={option.value}
+                        onPress={() => setTarget(index, option.value)}
+                        style={[styles.segmentBtn, selected && styles.segmentBtnActive]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected }}
+                        accessibilityLabel={`Import ${candidate.item.title} as ${option.label}`}
+                      >
+                        <Text style={[styles.segmentLabel, selected && styles.segmentLabelActive]}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.footer}>
+          {candidates === null ? (
+            <Pressable
+              onPress={handlePreview}
+              disabled={text.trim().length === 0 || busy}
+              style={({ pressed }) => [
+                styles.primaryButton,
+                pressed && styles.primaryButtonPressed,
+                (text.trim().length === 0 || busy) && styles.primaryButtonDisabled,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Preview calendar import"
+            >
+              <Text style={styles.primaryText}>Preview</Text>
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={handleImport}
+              disabled={importCount === 0}
+              style={({ pressed }) => [
+                styles.primaryButton,
+                pressed && styles.primaryButtonPressed,
+                importCount === 0 && styles.primaryButtonDisabled,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`Import ${importCount} items`}
+            >
+              <Text style={styles.primaryText}>
+                Import {importCount} item{importCount !== 1 ? 's' : ''}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    sheet: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingTop: 20,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    headerTitle: {
+      fontSize: Dimensions.fontXL,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    closeButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    closeButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    closeText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    body: {
+      flex: 1,
+      padding: Dimensions.screenPadding,
+      gap: 10,
+    },
+    hint: {
+      fontSize: Dimensions.fontSM,
+      color: colors.textSecondary,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      fontSize: Dimensions.fontSM,
+      fontFamily: 'monospace',
+      color: colors.text,
+      textAlignVertical: 'top',
+    },
+    scrollArea: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Dimensions.screenPadding,
+      gap: 12,
+    },
+    itemCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      gap: 6,
+    },
+    itemTitle: {
+      fontSize: Dimensions.fontLG,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    itemMeta: {
+      fontSize: Dimensions.fontXS,
+      fontWeight: '500',
+      color: colors.textSecondary,
+    },
+    itemNote: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textTertiary,
+    },
+    badgeRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    badge: {
+      fontSize: Dimensions.fontXS,
+      fontWeight: '600',
+      color: colors.primary,
+      backgroundColor: colors.primary + '15',
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 8,
+      overflow: 'hidden',
+    },
+    badgeWarning: {
+      color: colors.error,
+      backgroundColor: colors.errorLight,
+    },
+    segmentControl: {
+      flexDirection: 'row',
+      backgroundColor: colors.surfaceSecondary,
+      borderRadius: Dimensions.radiusMedium,
+      padding: 3,
+      gap: 3,
+      marginTop: 4,
+    },
+    segmentBtn: {
+      flex: 1,
+      minHeight: 34,
+      justifyContent: 'center',
+      alignItems: 'center',
+      borderRadius: Dimensions.radiusSmall + 1,
+    },
+    segmentBtnActive: {
+      backgroundColor: colors.primary,
+    },
+    segmentLabel: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    segmentLabelActive: {
+      color: '#FFFFFF',
+    },
+    footer: {
+      padding: Dimensions.screenPadding,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+    },
+    primaryButtonPressed: {
+      backgroundColor: colors.primaryDark,
+    },
+    primaryButtonDisabled: {
+      opacity: 0.5,
+    },
+    primaryText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+  }), [colors]);
+}
@@ -0,0 +1,237 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useIntegrityStore } from '../../store';
+import { describeIntegrityIssue } from '../../services';
+import type { IntegrityIssue } from '../../types';
+
+interface IntegritySheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+function getIssueKey(issue: IntegrityIssue): string {
+  switch (issue.kind) {
+    case 'invalidJson':
+      return `${issue.table}:${issue.rowId}:${issue.column}`;
+    case 'danglingDayPlanRefs':
+      return `day_plans:${issue.date}`;
+    default:
+      return `${issue.kind}:${issue.blockId}`;
+  }
+}
+
+/**
+ * Sheet listing the problems the integrity check found in the stored data,
+ * with a way to check again and to repair them all.
+ */
+export default function IntegritySheet({ visible, onClose }: IntegritySheetProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const issues = useIntegrityStore((s) => s.issues);
+  const checkedAt = useIntegrityStore((s) => s.checkedAt);
+  const checking = useIntegrityStore((s) => s.checking);
+  const check = useIntegrityStore((s) => s.check);
+  const repairAll = useIntegrityStore((s) => s.repairAll);
+
+  const handleCheck = useCallback(() => {
+    check().catch((err: unknown) =>
+      Alert.alert('Check Failed', err instanceof Error ? err.message : String(err)),
+    );
+  }, [check]);
+
+  const confirmRepair = useCallback(() => {
+    Alert.alert(
+      'Repair Data',
+      `Repair ${issues.length} issue${issues.length !== 1 ? 's' : ''}? Blocks that are removed go to Recently Deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Repair',
+          onPress: () => {
+            repairAll().catch((err: unknown) =>
+              Alert.alert('Repair Failed', err instanceof Error ? err.message : String(err)),
+            );
+          },
+        },
+      ],
+    );
+  }, [issues.length, repairAll]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onShow={handleCheck}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Data Integrity</Text>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Close data integrity"
+          >
+            <Text style={styles.closeText}>Done</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.scrollArea} contentContainerStyle={styles.scrollContent}>
+          {checkedAt && (
+            <Text style={styles.summaryText}>
+              {checking
+                ? 'Checking…'
+                : `Checked ${formatDistanceToNow(parseISO(checkedAt), { addSuffix: true })}`}
+            </Text>
+          )}
+          {issues.length === 0 ? (
+            <Text style={styles.emptyText}>No problems found. Your tasks, blocks and plans are consistent.</Text>
+          ) : (
+            issues.map((issue) => (
+              <View key={getIssueKey(issue)} style={styles.card}>
+                <Text style={styles.cardText}>{describeIntegrityIssue(issue)}</Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Pressable
+            onPress={handleCheck}
+            disabled={checking}
+            style={({ pressed }) => [styles.footerButton, pressed && styles.footerButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Check again"
+          >
+            <Text style={styles.checkText}>Check Again</Text>
+          </Pressable>
+          {issues.length > 0 && (
+            <Pressable
+              onPress={confirmRepair}
+              disabled={checking}
+              style={({ pressed }) => [
+                styles.footerButton,
+                styles.repairButton,
+                pressed && styles.repairButtonPressed,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`Repair ${issues.length} issues`}
+            >
+              <Text style={styles.repairText}>Repair All</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    sheet: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingTop: 20,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    headerTitle: {
+      fontSize: Dimensions.fontXL,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    closeButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    closeButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    closeText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    scrollArea: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Dimensions.screenPadding,
+      gap: 10,
+    },
+    summaryText: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textTertiary,
+    },
+    emptyText: {
+      fontSize: Dimensions.fontSM,
+      color: colors.textTertiary,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    card: {
+      padding: 14,
+      borderRadius: 14,
+      backgroundColor: colors.surface,
+    },
+    cardText: {
+      fontSize: Dimensions.fontSM,
+      color: colors.text,
+    },
+    footer: {
+      flexDirection: 'row',
+      gap: 10,
+      padding: Dimensions.screenPadding,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    footerButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+      backgroundColor: colors.surfaceSecondary,
+    },
+    footerButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    checkText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    repairButton: {
+      backgroundColor: colors.primary,
+    },
+    repairButtonPressed: {
+      opacity: 0.85,
+    },
+    repairText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+  }), [colors]);
+}
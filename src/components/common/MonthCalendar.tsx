@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { View, Text, Pressable, ScrollView, StyleSheet, Modal, TextInput, Alert } from 'react-native';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import {
@@ -16,8 +16,8 @@ import {
 } from 'date-fns';
 import * as Haptics from 'expo-haptics';
 import { Dimensions } from '../../constants';
-import { useTaskStore, useTimeBlockStore, useCalendarStore } from '../../store';
-import { todayISO } from '../../utils';
+import { useTaskStore, useTimeBlockStore, useCalendarStore, useHistoryStore } from '../../store';
+import { todayISO, expandTasksInRange, getTasksForDate, coversDate } from '../../utils';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 import { TaskForm } from '../task';
@@ -54,13 +54,18 @@ export default function MonthCalendar() {
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const setSelectedDate = useTaskStore((s) => s.setSelectedDate);
   const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
+  const loadTaskRange = useTaskStore((s) => s.loadRange);
+  const loadBlockRange = useTimeBlockStore((s) => s.loadRange);
   const updateTask = useTaskStore((s) => s.updateTask);
   const addTask = useTaskStore((s) => s.addTask);
   const deleteTask = useTaskStore((s) => s.deleteTask);
-  const deleteFutureRecurring = useTaskStore((s) => s.deleteFutureRecurring);
+  const updateTaskInSeries = useTaskStore((s) => s.updateTaskInSeries);
+  const deleteTaskInSeries = useTaskStore((s) => s.deleteTaskInSeries);
   const updateTimeBlock = useTimeBlockStore((s) => s.updateTimeBlock);
   const deleteTimeBlock = useTimeBlockStore((s) => s.deleteTimeBlock);
+  const record = useHistoryStore((s) => s.record);
   const calendarEvents = useCalendarStore((s) => s.calendarEvents);
   const deviceReminders = useCalendarStore((s) => s.reminders);
   const calendarEnabled = useCalendarStore((s) => s.calendarEnabled);
@@ -90,6 +95,16 @@ export default function MonthCalendar() {
     return eachDayOfInterval({ start: gridStart, end: gridEnd });
   }, [displayedMonth.getTime()]);
 
+  // Page in the displayed month when it is outside the loaded window
+  useEffect(() => {
+    const range = {
+      startDate: format(calendarDays[0], 'yyyy-MM-dd'),
+      endDate: format(calendarDays[calendarDays.length - 1], 'yyyy-MM-dd'),
+    };
+    loadTaskRange(range).catch(console.error);
+    loadBlockRange(range).catch(console.error);
+  }, [calendarDays, loadTaskRange, loadBlockRange]);
+
   // Split into rows of 7
   const weeks = useMemo(() => {
     const rows: Date[][] = [];
@@ -102,13 +117,19 @@ export default function MonthCalendar() {
   // Build a map of date string -> task info for the visible range
   const taskInfoMap = useMemo(() => {
     const map: Record<string, { count: number; status: 'none' | 'pending' | 'partial' | 'complete' }> = {};
+    const gridTasks = expandTasksInRange(
+      tasks,
+      occurrences,
+      format(calendarDays[0], 'yyyy-MM-dd'),
+      format(calendarDays[calendarDays.length - 1], 'yyyy-MM-dd'),
+    );
     for (const day of calendarDays) {
       const dayStr = format(day, 'yyyy-MM-dd');
-      const dayTasks = tasks.filter((t: Task) => t.scheduledDate === dayStr);
-      const blockCount = timeBlocks.filter((b) => {
-        const bDate = parseISO(b.startTime);
-        return isSameDay(bDate, day);
-      }).length;
+      const dayTasks = gridTasks.filter((t: Task) => t.scheduledDate === dayStr);
+      // A block running across midnight counts on each day it covers
+      const blockCount = timeBlocks.filter((b) =>
+        coversDate(b.startTime, b.endTime, dayStr),
+      ).length;
       const totalCount = Math.min(dayTasks.length + blockCount, 3);
 
       let status: 'none' | 'pending' | 'partial' | 'complete' = 'none';
@@ -125,7 +146,7 @@ export default function MonthCalendar() {
       map[dayStr] = { count: totalCount, status };
     }
     return map;
-  }, [calendarDays, tasks, timeBlocks]);
+  }, [calendarDays, tasks, occurrences, timeBlocks]);
 
   const goToPrevMonth = useCallback(() => {
     setDisplayedMonth((prev) => subMonths(prev, 1));
@@ -158,11 +179,11 @@ export default function MonthCalendar() {
     if (!selectedBlock) return;
     const title = editTitle.trim();
     if (!title) return;
-    updateTimeBlock(selectedBlock.id, { title });
+    record('Block renamed', () => updateTimeBlock(selectedBlock.id, { title }));
     setSelectedBlock({ ...selectedBlock, title });
     setIsEditingTitle(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [selectedBlock, editTitle, updateTimeBlock]);
+  }, [selectedBlock, editTitle, updateTimeBlock, record]);
 
   const handleDeleteBlock = useCallback(() => {
     if (!selectedBlock) return;
@@ -175,14 +196,14 @@ export default function MonthCalendar() {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            deleteTimeBlock(selectedBlock.id);
+            record('Block deleted', () => deleteTimeBlock(selectedBlock.id), { notify: true });
             setEditSheetVisible(false);
             setSelectedBlock(null);
           },
         },
       ],
     );
-  }, [selectedBlock, deleteTimeBlock]);
+  }, [selectedBlock, deleteTimeBlock, record]);
 
   const handleCloseTaskForm = useCallback(() => {
     setTaskFormVisible(false);
@@ -216,18 +237,14 @@ export default function MonthCalendar() {
 
   // Selected day details — merge tasks and time blocks
   const selectedDayTasks = useMemo(() => {
-    return tasks
-      .filter((t: Task) => t.scheduledDate === selectedDate)
-      .sort((a: Task, b: Task) => a.sortOrder - b.sortOrder);
-  }, [tasks, selectedDate]);
+    return getTasksForDate(tasks, occurrences, selectedDate).sort(
+      (a: Task, b: Task) => a.sortOrder - b.sortOrder,
+    );
+  }, [tasks, occurrences, selectedDate]);
 
   const selectedDayBlocks = useMemo(() => {
-    const selParsed = parseISO(selectedDate);
     return timeBlocks
-      .filter((b) => {
-        const bDate = parseISO(b.startTime);
-        return isSameDay(bDate, selParsed);
-      })
+      .filter((b) => coversDate(b.startTime, b.endTime, selectedDate))
       // Exclude blocks that are linked to a task (already shown via tasks)
       .filter((b) => !b.taskId)
       .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
@@ -235,11 +252,10 @@ export default function MonthCalendar() {
 
   const selectedDayCalendarEvents = useMemo(() => {
     if (!calendarEnabled) return [];
-    const selParsed2 = parseISO(selectedDate);
-    return calendarEvents.filter((e: CalendarEvent) => {
-      const eDate = parseISO(e.startTime);
-      return isSameDay(eDate, selParsed2);
-    });
+    // All-day events first, as they belong to the day as a whole
+    return calendarEvents
+      .filter((e: CalendarEvent) => coversDate(e.startTime, e.endTime, selectedDate))
+      .sort((a, b) => Number(!!b.allDay) - Number(!!a.allDay));
   }, [calendarEvents, calendarEnabled, selectedDate]);
 
   const selectedDayReminders = useMemo(() => {
@@ -438,7 +454,7 @@ export default function MonthCalendar() {
                     {event.title}
                   </Text>
                   <Text style={styles.taskTime}>
-                    {formatBlockTime(event.startTime, event.endTime)}
+                    {event.allDay ? 'All day' : formatBlockTime(event.startTime, event.endTime)}
                   </Text>
                 </View>
                 <Text style={[styles.taskStatusLabel, { color: event.color || '#8B5CF6' }]}>
@@ -484,7 +500,8 @@ export default function MonthCalendar() {
         onSubmit={addTask}
         onUpdate={updateTask}
         onDelete={deleteTask}
-        onDeleteFutureRecurring={deleteFutureRecurring}
+        onUpdateSeries={updateTaskInSeries}
+        onDeleteSeries={deleteTaskInSeries}
         editingTask={editingTask}
         selectedDate={selectedDate}
       />
@@ -0,0 +1,202 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { parseBackupDocument } from '../../services';
+import type { RestoreMode } from '../../db';
+
+interface RestoreBackupSheetProps {
+  visible: boolean;
+  busy: boolean;
+  onClose: () => void;
+  onRestore: (json: string, mode: RestoreMode) => Promise<void>;
+}
+
+export default function RestoreBackupSheet({ visible, busy, onClose, onRestore }: RestoreBackupSheetProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const [json, setJson] = useState('');
+
+  const handleClose = useCallback(() => {
+    setJson('');
+    onClose();
+  }, [onClose]);
+
+  const restore = useCallback(
+    async (mode: RestoreMode) => {
+      try {
+        await onRestore(json, mode);
+        setJson('');
+        onClose();
+        Alert.alert('Backup Restored', 'Your tasks, blocks and settings have been restored.');
+      } catch (err) {
+        Alert.alert('Restore Failed', err instanceof Error ? err.message : String(err));
+      }
+    },
+    [json, onRestore, onClose],
+  );
+
+  const confirmRestore = useCallback(() => {
+    let summary: string;
+    try {
+      const doc = parseBackupDocument(json);
+      summary = `This backup has ${doc.tasks.length} task${doc.tasks.length !== 1 ? 's' : ''} and ${doc.timeBlocks.length} time block${doc.timeBlocks.length !== 1 ? 's' : ''}.`;
+    } catch (err) {
+      Alert.alert('Invalid Backup', err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    Alert.alert(
+      'Restore Backup',
+      `${summary} Merge keeps your data and adds anything newer from the backup. Replace erases everything on this device first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => restore('merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restore('replace') },
+      ],
+    );
+  }, [json, restore]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Restore Backup</Text>
+          <Pressable
+            onPress={handleClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Close restore backup"
+          >
+            <Text style={styles.closeText}>Cancel</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.body}>
+          <Text style={styles.hint}>Paste the contents of a DayDeck backup below.</Text>
+          <TextInput
+            value={json}
+            onChangeText={setJson}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder='{"format": "daydeck-backup", ...}'
+            placeholderTextColor={colors.textTertiary}
+            style={styles.input}
+            accessibilityLabel="Backup contents"
+          />
+        </View>
+
+        <View style={styles.footer}>
+          <Pressable
+            onPress={confirmRestore}
+            disabled={busy || json.trim().length === 0}
+            style={({ pressed }) => [
+              styles.restoreButton,
+              pressed && styles.restoreButtonPressed,
+              (busy || json.trim().length === 0) && styles.restoreButtonDisabled,
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel="Restore backup"
+          >
+            <Text style={styles.restoreText}>{busy ? 'Restoring…' : 'Restore'}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    sheet: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingTop: 20,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    headerTitle: {
+      fontSize: Dimensions.fontXL,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    closeButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    closeButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    closeText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    body: {
+      flex: 1,
+      padding: Dimensions.screenPadding,
+      gap: 10,
+    },
+    hint: {
+      fontSize: Dimensions.fontSM,
+      color: colors.textSecondary,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 12,
+      fontSize: Dimensions.fontSM,
+      fontFamily: 'monospace',
+      color: colors.text,
+      textAlignVertical: 'top',
+    },
+    footer: {
+      padding: Dimensions.screenPadding,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    restoreButton: {
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+    },
+    restoreButtonPressed: {
+      backgroundColor: colors.primaryDark,
+    },
+    restoreButtonDisabled: {
+      opacity: 0.5,
+    },
+    restoreText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+  }), [colors]);
+}
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useWriteQueueStore } from '../../store';
+
+/**
+ * Banner shown while some changes could not be saved to the database,
+ * offering to try them again. Stays until retried or dismissed.
+ */
+export default function SaveErrorBanner() {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const insets = useSafeAreaInsets();
+  const failureCount = useWriteQueueStore((s) => s.failures.length);
+  const retryFailed = useWriteQueueStore((s) => s.retryFailed);
+  const dismissFailures = useWriteQueueStore((s) => s.dismissFailures);
+
+  if (failureCount === 0) return null;
+
+  const message =
+    failureCount === 1 ? "1 change couldn't be saved." : `${failureCount} changes couldn't be saved.`;
+
+  return (
+    <View style={[styles.container, { top: insets.top + 8 }]} pointerEvents="box-none">
+      <View style={styles.banner} accessibilityRole="alert">
+        <Text style={styles.message} numberOfLines={2}>
+          {message}
+        </Text>
+        <Pressable
+          onPress={retryFailed}
+          style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel="Retry saving changes"
+        >
+          <Text style={styles.actionText}>Retry</Text>
+        </Pressable>
+        <Pressable
+          onPress={dismissFailures}
+          style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel="Dismiss unsaved changes"
+        >
+          <Text style={styles.dismissText}>{'✕'}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      paddingHorizontal: Dimensions.screenPadding,
+    },
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingLeft: 16,
+      paddingRight: 6,
+      paddingVertical: 6,
+      borderRadius: 14,
+      backgroundColor: colors.errorLight,
+      borderWidth: 1,
+      borderColor: colors.error,
+    },
+    message: {
+      flex: 1,
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    actionButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    actionButtonPressed: {
+      opacity: 0.7,
+    },
+    actionText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '800',
+      color: colors.error,
+    },
+    dismissText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+  }), [colors]);
+}
@@ -0,0 +1,266 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  Modal,
+  Alert,
+  StyleSheet,
+} from 'react-native';
+import { addDays, differenceInCalendarDays, formatDistanceToNow, parseISO } from 'date-fns';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useTrashStore, useSettingsStore, getTrashItemId } from '../../store';
+import type { TrashItem } from '../../types';
+
+interface TrashSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TrashItem['kind'], string> = {
+  task: 'Task',
+  timeBlock: 'Time block',
+  template: 'Template',
+};
+
+function getTrashItemTitle(item: TrashItem): string {
+  switch (item.kind) {
+    case 'task':
+      return item.task.title;
+    case 'timeBlock':
+      return item.block.title;
+    case 'template':
+      return `${item.template.icon} ${item.template.name}`;
+  }
+}
+
+export default function TrashSheet({ visible, onClose }: TrashSheetProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const items = useTrashStore((s) => s.items);
+  const refresh = useTrashStore((s) => s.refresh);
+  const restoreItem = useTrashStore((s) => s.restoreItem);
+  const purgeItem = useTrashStore((s) => s.purgeItem);
+  const emptyTrash = useTrashStore((s) => s.emptyTrash);
+  const retentionDays = useSettingsStore((s) => s.trashRetentionDays);
+
+  const handleShow = useCallback(() => {
+    refresh().catch(console.error);
+  }, [refresh]);
+
+  const confirmPurge = useCallback(
+    (item: TrashItem) => {
+      Alert.alert('Delete Forever', `"${getTrashItemTitle(item)}" will be permanently deleted.`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => purgeItem(item) },
+      ]);
+    },
+    [purgeItem],
+  );
+
+  const confirmEmpty = useCallback(() => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${items.length} item${items.length !== 1 ? 's' : ''}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Empty Trash', style: 'destructive', onPress: emptyTrash },
+      ],
+    );
+  }, [items.length, emptyTrash]);
+
+  function describe(item: TrashItem): string {
+    const deletedAt = parseISO(item.deletedAt);
+    const daysLeft = Math.max(0, differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()));
+    return `${KIND_LABELS[item.kind]} · deleted ${formatDistanceToNow(deletedAt, { addSuffix: true })} · ${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`;
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onShow={handleShow}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Recently Deleted</Text>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Close trash"
+          >
+            <Text style={styles.closeText}>Done</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.scrollArea} contentContainerStyle={styles.scrollContent}>
+          {items.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Nothing here. Deleted items are kept for {retentionDays} days before they are removed for good.
+            </Text>
+          ) : (
+            items.map((item) => (
+              <View key={`${item.kind}:${getTrashItemId(item)}`} style={styles.card}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle} numberOfLines={1}>
+                    {getTrashItemTitle(item)}
+                  </Text>
+                  <Text style={styles.cardMeta}>{describe(item)}</Text>
+                </View>
+                <View style={styles.cardActions}>
+                  <Pressable
+                    onPress={() => restoreItem(item)}
+                    style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Restore ${getTrashItemTitle(item)}`}
+                  >
+                    <Text style={styles.restoreText}>Restore</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => confirmPurge(item)}
+                    style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Delete ${getTrashItemTitle(item)} forever`}
+                  >
+                    <Text style={styles.purgeText}>Delete</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        {items.length > 0 && (
+          <View style={styles.footer}>
+            <Pressable
+              onPress={confirmEmpty}
+              style={({ pressed }) => [styles.emptyButton, pressed && styles.emptyButtonPressed]}
+              accessibilityRole="button"
+              accessibilityLabel="Empty trash"
+            >
+              <Text style={styles.emptyButtonText}>Empty Trash</Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    sheet: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingTop: 20,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    headerTitle: {
+      fontSize: Dimensions.fontXL,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    closeButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    closeButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    closeText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    scrollArea: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Dimensions.screenPadding,
+      gap: 10,
+    },
+    emptyText: {
+      fontSize: Dimensions.fontSM,
+      color: colors.textTertiary,
+      textAlign: 'center',
+      marginTop: 40,
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 14,
+      borderRadius: 14,
+      backgroundColor: colors.surface,
+    },
+    cardInfo: {
+      flex: 1,
+      marginRight: 8,
+    },
+    cardTitle: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    cardMeta: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textTertiary,
+      marginTop: 4,
+    },
+    cardActions: {
+      flexDirection: 'row',
+      gap: 4,
+    },
+    actionButton: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 8,
+    },
+    actionButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    restoreText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    purgeText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '700',
+      color: colors.error,
+    },
+    footer: {
+      padding: Dimensions.screenPadding,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    emptyButton: {
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+      backgroundColor: colors.surfaceSecondary,
+    },
+    emptyButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    emptyButtonText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.error,
+    },
+  }), [colors]);
+}
@@ -0,0 +1,103 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useHistoryStore } from '../../store';
+
+const TOAST_DURATION_MS = 5000;
+
+/**
+ * Floating toast that offers to undo the last destructive change, or to
+ * redo a change that was just undone. Hides itself after a few seconds.
+ */
+export default function UndoToast() {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const notice = useHistoryStore((s) => s.notice);
+  const undo = useHistoryStore((s) => s.undo);
+  const redo = useHistoryStore((s) => s.redo);
+  const dismissNotice = useHistoryStore((s) => s.dismissNotice);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(dismissNotice, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice, dismissNotice]);
+
+  const handleAction = useCallback(() => {
+    if (notice?.action === 'redo') {
+      redo();
+    } else {
+      undo();
+    }
+  }, [notice, undo, redo]);
+
+  if (!notice) return null;
+
+  const actionLabel = notice.action === 'redo' ? 'Redo' : 'Undo';
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.toast} accessibilityRole="alert">
+        <Text style={styles.message} numberOfLines={2}>
+          {notice.message}
+        </Text>
+        <Pressable
+          onPress={handleAction}
+          style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
+          accessibilityRole="button"
+          accessibilityLabel={`${actionLabel}: ${notice.message}`}
+        >
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: Dimensions.tabBarHeight + 20,
+      paddingHorizontal: Dimensions.screenPadding,
+    },
+    toast: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingLeft: 16,
+      paddingRight: 6,
+      paddingVertical: 6,
+      borderRadius: 14,
+      backgroundColor: colors.text,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.15,
+      shadowRadius: 12,
+      elevation: 6,
+    },
+    message: {
+      flex: 1,
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.background,
+    },
+    actionButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    actionButtonPressed: {
+      opacity: 0.7,
+    },
+    actionText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '800',
+      color: colors.background,
+      textDecorationLine: 'underline',
+    },
+  }), [colors]);
+}
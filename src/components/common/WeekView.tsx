@@ -13,8 +13,14 @@ import {
 } from 'date-fns';
 import * as Haptics from 'expo-haptics';
 import { Dimensions } from '../../constants';
-import { useTaskStore, useTimeBlockStore, useCalendarStore } from '../../store';
-import { todayISO } from '../../utils';
+import { useTaskStore, useTimeBlockStore, useCalendarStore, useHistoryStore } from '../../store';
+import {
+  todayISO,
+  expandTasksInRange,
+  layoutColumns,
+  coversDate,
+  getDaySegment,
+} from '../../utils';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 import { TaskForm } from '../task';
@@ -43,19 +49,47 @@ function formatScheduledTime(time: string): string {
   return m === 0 ? `${hour12} ${suffix}` : `${hour12}:${mStr} ${suffix}`;
 }
 
+// How long a reminder occupies when laid out against blocks and events
+const REMINDER_MINUTES = 30;
+
+// Start and end are minutes into the day, clipped to it for items that run across midnight
+type TimedItem =
+  | { kind: 'block'; id: string; start: number; end: number; block: TimeBlock }
+  | { kind: 'event'; id: string; start: number; end: number; event: CalendarEvent }
+  | { kind: 'reminder'; id: string; start: number; end: number; reminder: DeviceReminder };
+
+/**
+ * Group a day's timed items into rows of overlapping items, each row split
+ * into the columns its items are laid out in, in order of time.
+ */
+function groupIntoColumns(items: TimedItem[]): TimedItem[][][] {
+  const slots = layoutColumns(items);
+  const rows: TimedItem[][][] = [];
+  const ordered = [...items].sort((a, b) => a.start - b.start);
+  for (const item of ordered) {
+    const slot = slots.get(item.id)!;
+    const row = (rows[slot.cluster] ??= Array.from({ length: slot.columns }, () => []));
+    row[slot.column].push(item);
+  }
+  return rows;
+}
+
 export default function WeekView() {
   const colors = useTheme();
   const styles = useStyles(colors);
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const setSelectedDate = useTaskStore((s) => s.setSelectedDate);
   const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
   const updateTask = useTaskStore((s) => s.updateTask);
   const addTask = useTaskStore((s) => s.addTask);
   const deleteTask = useTaskStore((s) => s.deleteTask);
-  const deleteFutureRecurring = useTaskStore((s) => s.deleteFutureRecurring);
+  const updateTaskInSeries = useTaskStore((s) => s.updateTaskInSeries);
+  const deleteTaskInSeries = useTaskStore((s) => s.deleteTaskInSeries);
   const updateTimeBlock = useTimeBlockStore((s) => s.updateTimeBlock);
   const deleteTimeBlock = useTimeBlockStore((s) => s.deleteTimeBlock);
+  const record = useHistoryStore((s) => s.record);
   const calendarEvents = useCalendarStore((s) => s.calendarEvents);
   const deviceReminders = useCalendarStore((s) => s.reminders);
   const calendarEnabled = useCalendarStore((s) => s.calendarEnabled);
@@ -112,27 +146,30 @@ export default function WeekView() {
 
   // Build data for each day of the week
   const weekData = useMemo(() => {
+    const weekTasks = expandTasksInRange(
+      tasks,
+      occurrences,
+      format(weekDays[0], 'yyyy-MM-dd'),
+      format(weekDays[weekDays.length - 1], 'yyyy-MM-dd'),
+    );
+
     return weekDays.map((day) => {
       const dayStr = format(day, 'yyyy-MM-dd');
 
-      const dayTasks = tasks
+      const dayTasks = weekTasks
         .filter((t: Task) => t.scheduledDate === dayStr)
         .sort((a: Task, b: Task) => a.sortOrder - b.sortOrder);
 
+      // Blocks and events that run across midnight show on every day they cover
       const dayBlocks = timeBlocks
-        .filter((b) => {
-          const bDate = parseISO(b.startTime);
-          return isSameDay(bDate, day);
-        })
+        .filter((b) => coversDate(b.startTime, b.endTime, dayStr))
         .filter((b) => !b.taskId)
         .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
       const dayCalendarEvents = calendarEnabled
-        ? calendarEvents.filter((e: CalendarEvent) => {
-            const eDate = parseISO(e.startTime);
-            return isSameDay(eDate, day);
-          })
+        ? calendarEvents.filter((e: CalendarEvent) => coversDate(e.startTime, e.endTime, dayStr))
         : [];
+      const allDayEvents = dayCalendarEvents.filter((e) => e.allDay);
 
       const dayReminders = calendarEnabled
         ? deviceReminders.filter((r: DeviceReminder) => {
@@ -142,9 +179,47 @@ export default function WeekView() {
           })
         : [];
 
-      return { day, dayStr, dayTasks, dayBlocks, dayCalendarEvents, dayReminders };
+      const segmentOf = (item: { startTime: string; endTime: string }) => {
+        const segment = getDaySegment(item.startTime, item.endTime, dayStr)!;
+        return { start: segment.startMinutes, end: segment.endMinutes };
+      };
+      const timedItems: TimedItem[] = [
+        ...dayBlocks.map((block): TimedItem => ({
+          kind: 'block',
+          id: `block-${block.id}`,
+          ...segmentOf(block),
+          block,
+        })),
+        ...dayCalendarEvents
+          .filter((e) => !e.allDay)
+          .map((event): TimedItem => ({
+            kind: 'event',
+            id: `cal-${event.id}`,
+            ...segmentOf(event),
+            event,
+          })),
+        ...dayReminders.map((reminder): TimedItem => {
+          const at = (reminder.dueDate || reminder.startDate)!;
+          const { start } = segmentOf({ startTime: at, endTime: at });
+          return {
+            kind: 'reminder',
+            id: `rem-${reminder.id}`,
+            start,
+            end: start + REMINDER_MINUTES,
+            reminder,
+          };
+        }),
+      ];
+
+      return {
+        day,
+        dayStr,
+        dayTasks,
+        allDayEvents,
+        timedRows: groupIntoColumns(timedItems),
+      };
     });
-  }, [weekDays, tasks, timeBlocks, calendarEvents, deviceReminders, calendarEnabled]);
+  }, [weekDays, tasks, occurrences, timeBlocks, calendarEvents, deviceReminders, calendarEnabled]);
 
   // Handlers
   const handlePressTask = useCallback((task: Task) => {
@@ -163,11 +238,11 @@ export default function WeekView() {
     if (!selectedBlock) return;
     const title = editTitle.trim();
     if (!title) return;
-    updateTimeBlock(selectedBlock.id, { title });
+    record('Block renamed', () => updateTimeBlock(selectedBlock.id, { title }));
     setSelectedBlock({ ...selectedBlock, title });
     setIsEditingTitle(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [selectedBlock, editTitle, updateTimeBlock]);
+  }, [selectedBlock, editTitle, updateTimeBlock, record]);
 
   const handleDeleteBlock = useCallback(() => {
     if (!selectedBlock) return;
@@ -180,20 +255,110 @@ export default function WeekView() {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            deleteTimeBlock(selectedBlock.id);
+            record('Block deleted', () => deleteTimeBlock(selectedBlock.id), { notify: true });
             setEditSheetVisible(false);
             setSelectedBlock(null);
           },
         },
       ],
     );
-  }, [selectedBlock, deleteTimeBlock]);
+  }, [selectedBlock, deleteTimeBlock, record]);
 
   const handleCloseTaskForm = useCallback(() => {
     setTaskFormVisible(false);
     setEditingTask(null);
   }, []);
 
+  /**
+   * A block, calendar event or reminder row. Compact rows sit in a column
+   * beside overlapping items and leave out the type label.
+   */
+  const renderTimedItem = (item: TimedItem, compact: boolean) => {
+    switch (item.kind) {
+      case 'block': {
+        const { block } = item;
+        return (
+          <Pressable
+            key={item.id}
+            style={styles.item}
+            onPress={() => handlePressBlock(block)}
+          >
+            <View
+              style={[styles.itemDot, { backgroundColor: block.color || colors.primary }]}
+            />
+            <View style={styles.itemContent}>
+              <Text style={styles.itemTitle} numberOfLines={1}>
+                {block.title}
+              </Text>
+              <Text style={styles.itemTime}>
+                {formatBlockTime(block.startTime, block.endTime)}
+              </Text>
+            </View>
+            {!compact && (
+              <Text style={[styles.itemLabel, { color: block.color || colors.primary }]}>
+                {block.type === 'focus' ? 'Focus' : block.type === 'break' ? 'Break' : block.type === 'event' ? 'Event' : 'Task'}
+              </Text>
+            )}
+          </Pressable>
+        );
+      }
+      case 'event': {
+        const { event } = item;
+        return (
+          <View key={item.id} style={styles.item}>
+            <View
+              style={[styles.itemDot, { backgroundColor: event.color || '#8B5CF6' }]}
+            />
+            <View style={styles.itemContent}>
+              <Text style={[styles.itemTitle, styles.calendarTitle]} numberOfLines={1}>
+                {event.title}
+              </Text>
+              <Text style={styles.itemTime}>
+                {event.allDay ? 'All day' : formatBlockTime(event.startTime, event.endTime)}
+              </Text>
+            </View>
+            {!compact && (
+              <Text style={[styles.itemLabel, { color: event.color || '#8B5CF6' }]}>
+                Calendar
+              </Text>
+            )}
+          </View>
+        );
+      }
+      case 'reminder': {
+        const { reminder } = item;
+        return (
+          <View key={item.id} style={styles.item}>
+            <Text style={{ fontSize: 14, width: 20, textAlign: 'center' }}>
+              {reminder.completed ? '\u2611' : '\u2610'}
+            </Text>
+            <View style={styles.itemContent}>
+              <Text
+                style={[
+                  styles.itemTitle,
+                  reminder.completed && styles.itemTitleDone,
+                ]}
+                numberOfLines={1}
+              >
+                {reminder.title}
+              </Text>
+              {reminder.dueDate && (
+                <Text style={styles.itemTime}>
+                  {formatHour(new Date(reminder.dueDate))}
+                </Text>
+              )}
+            </View>
+            {!compact && (
+              <Text style={[styles.itemLabel, { color: reminder.color || '#FB923C' }]}>
+                Reminder
+              </Text>
+            )}
+          </View>
+        );
+      }
+    }
+  };
+
   return (
     <ScrollView style={styles.scrollContainer} showsVerticalScrollIndicator={false}>
       <GestureDetector gesture={swipeGesture}>
@@ -221,10 +386,11 @@ export default function WeekView() {
       </GestureDetector>
 
       {/* Day sections */}
-      {weekData.map(({ day, dayStr, dayTasks, dayBlocks, dayCalendarEvents, dayReminders }) => {
+      {weekData.map(({ day, dayStr, dayTasks, allDayEvents, timedRows }) => {
         const isSelected = isSameDay(day, selectedParsed);
         const isToday = isSameDay(day, todayParsed);
-        const isEmpty = dayTasks.length === 0 && dayBlocks.length === 0 && dayCalendarEvents.length === 0 && dayReminders.length === 0;
+        const isEmpty =
+          dayTasks.length === 0 && allDayEvents.length === 0 && timedRows.length === 0;
 
         return (
           <Pressable
@@ -245,29 +411,27 @@ export default function WeekView() {
               <Text style={styles.emptyText}>No items</Text>
             ) : (
               <View style={styles.itemList}>
-                {/* Time blocks */}
-                {dayBlocks.map((block: TimeBlock) => (
-                  <Pressable
-                    key={block.id}
-                    style={styles.item}
-                    onPress={() => handlePressBlock(block)}
-                  >
-                    <View
-                      style={[styles.itemDot, { backgroundColor: block.color || colors.primary }]}
-                    />
-                    <View style={styles.itemContent}>
-                      <Text style={styles.itemTitle} numberOfLines={1}>
-                        {block.title}
-                      </Text>
-                      <Text style={styles.itemTime}>
-                        {formatBlockTime(block.startTime, block.endTime)}
-                      </Text>
+                {/* All-day calendar events */}
+                {allDayEvents.map((event) =>
+                  renderTimedItem(
+                    { kind: 'event', id: `cal-${event.id}`, start: 0, end: 24 * 60, event },
+                    false,
+                  ),
+                )}
+                {/* Time blocks, calendar events and reminders; overlapping ones side by side */}
+                {timedRows.map((columns) =>
+                  columns.length === 1 ? (
+                    columns[0].map((item) => renderTimedItem(item, false))
+                  ) : (
+                    <View key={columns[0][0].id} style={styles.overlapRow}>
+                      {columns.map((column, index) => (
+                        <View key={index} style={styles.overlapColumn}>
+                          {column.map((item) => renderTimedItem(item, true))}
+                        </View>
+                      ))}
                     </View>
-                    <Text style={[styles.itemLabel, { color: block.color || colors.primary }]}>
-                      {block.type === 'focus' ? 'Focus' : block.type === 'break' ? 'Break' : block.type === 'event' ? 'Event' : 'Task'}
-                    </Text>
-                  </Pressable>
-                ))}
+                  ),
+                )}
                 {/* Tasks */}
                 {dayTasks.map((task: Task) => (
                   <Pressable
@@ -316,52 +480,6 @@ export default function WeekView() {
                     </Text>
                   </Pressable>
                 ))}
-                {/* Calendar events */}
-                {dayCalendarEvents.map((event: CalendarEvent) => (
-                  <View key={`cal-${event.id}`} style={styles.item}>
-                    <View
-                      style={[styles.itemDot, { backgroundColor: event.color || '#8B5CF6' }]}
-                    />
-                    <View style={styles.itemContent}>
-                      <Text style={[styles.itemTitle, styles.calendarTitle]} numberOfLines={1}>
-                        {event.title}
-                      </Text>
-                      <Text style={styles.itemTime}>
-                        {formatBlockTime(event.startTime, event.endTime)}
-                      </Text>
-                    </View>
-                    <Text style={[styles.itemLabel, { color: event.color || '#8B5CF6' }]}>
-                      Calendar
-                    </Text>
-                  </View>
-                ))}
-                {/* Reminders */}
-                {dayReminders.map((reminder: DeviceReminder) => (
-                  <View key={`rem-${reminder.id}`} style={styles.item}>
-                    <Text style={{ fontSize: 14, width: 20, textAlign: 'center' }}>
-                      {reminder.completed ? '\u2611' : '\u2610'}
-                    </Text>
-                    <View style={styles.itemContent}>
-                      <Text
-                        style={[
-                          styles.itemTitle,
-                          reminder.completed && styles.itemTitleDone,
-                        ]}
-                        numberOfLines={1}
-                      >
-                        {reminder.title}
-                      </Text>
-                      {reminder.dueDate && (
-                        <Text style={styles.itemTime}>
-                          {formatHour(new Date(reminder.dueDate))}
-                        </Text>
-                      )}
-                    </View>
-                    <Text style={[styles.itemLabel, { color: reminder.color || '#FB923C' }]}>
-                      Reminder
-                    </Text>
-                  </View>
-                ))}
               </View>
             )}
           </Pressable>
@@ -378,7 +496,8 @@ export default function WeekView() {
         onSubmit={addTask}
         onUpdate={updateTask}
         onDelete={deleteTask}
-        onDeleteFutureRecurring={deleteFutureRecurring}
+        onUpdateSeries={updateTaskInSeries}
+        onDeleteSeries={deleteTaskInSeries}
         editingTask={editingTask}
         selectedDate={selectedDate}
       />
@@ -562,6 +681,14 @@ function useStyles(colors: ThemeColors) {
         itemList: {
           gap: 4,
         },
+        overlapRow: {
+          flexDirection: 'row',
+          gap: 4,
+        },
+        overlapColumn: {
+          flex: 1,
+          gap: 4,
+        },
         item: {
           flexDirection: 'row',
           alignItems: 'center',
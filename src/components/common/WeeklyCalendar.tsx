@@ -13,7 +13,7 @@ import {
 } from 'date-fns';
 import { Dimensions } from '../../constants';
 import { useTaskStore, useTimeBlockStore } from '../../store';
-import { todayISO } from '../../utils';
+import { todayISO, expandTasksInRange } from '../../utils';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 
@@ -23,6 +23,7 @@ export default function WeeklyCalendar() {
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const setSelectedDate = useTaskStore((s) => s.setSelectedDate);
   const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
 
   const selectedParsed = parseISO(selectedDate);
@@ -40,24 +41,36 @@ export default function WeeklyCalendar() {
     ? `${format(weekDays[0], 'MMM')} / ${format(weekDays[6], 'MMM yyyy')}`
     : format(weekDays[0], 'MMMM yyyy');
 
+  // Tasks for the visible week, with recurring occurrences expanded
+  const weekTasks = useMemo(
+    () =>
+      expandTasksInRange(
+        tasks,
+        occurrences,
+        format(weekDays[0], 'yyyy-MM-dd'),
+        format(weekDays[6], 'yyyy-MM-dd'),
+      ),
+    [tasks, occurrences, weekDays],
+  );
+
   // Count dots for each day
   const dotCounts = useMemo(() => {
     return weekDays.map((day) => {
       const dayStr = format(day, 'yyyy-MM-dd');
-      const taskCount = tasks.filter((t) => t.scheduledDate === dayStr).length;
+      const taskCount = weekTasks.filter((t) => t.scheduledDate === dayStr).length;
       const blockCount = timeBlocks.filter((b) => {
         const bDate = parseISO(b.startTime);
         return isSameDay(bDate, day);
       }).length;
       return Math.min(taskCount + blockCount, 3);
     });
-  }, [weekDays, tasks, timeBlocks]);
+  }, [weekDays, weekTasks, timeBlocks]);
 
   // Completion status for dot colors
   const completionStatus = useMemo(() => {
     return weekDays.map((day) => {
       const dayStr = format(day, 'yyyy-MM-dd');
-      const dayTasks = tasks.filter((t) => t.scheduledDate === dayStr);
+      const dayTasks = weekTasks.filter((t) => t.scheduledDate === dayStr);
       if (dayTasks.length === 0) return 'none';
       const allDone = dayTasks.every((t) => t.status === 'done');
       if (allDone) return 'complete';
@@ -65,7 +78,7 @@ export default function WeeklyCalendar() {
       if (someDone) return 'partial';
       return 'pending';
     });
-  }, [weekDays, tasks]);
+  }, [weekDays, weekTasks]);
 
   const goToPrevWeek = useCallback(() => {
     const prev = subWeeks(selectedParsed, 1);
@@ -4,3 +4,9 @@ export { default as WeeklyCalendar } from './WeeklyCalendar';
 export { default as DaySummaryStats } from './DaySummaryStats';
 export { default as MonthCalendar } from './MonthCalendar';
 export { default as WeekView } from './WeekView';
+export { default as RestoreBackupSheet } from './RestoreBackupSheet';
+export { default as ICalImportSheet } from './ICalImportSheet';
+export { default as TrashSheet } from './TrashSheet';
+export { default as UndoToast } from './UndoToast';
+export { default as SaveErrorBanner } from './SaveErrorBanner';
+export { default as IntegritySheet } from './IntegritySheet';
@@ -0,0 +1,295 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  Modal,
+  Alert,
+  Share,
+  StyleSheet,
+} from 'react-native';
+import {
+  parseISO,
+  subDays,
+  subWeeks,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  format,
+} from 'date-fns';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import { useTaskReport } from '../../hooks';
+import type { ReportFormat } from '../../services';
+import { formatDate, todayISO } from '../../utils';
+import type { Priority, TaskStatus } from '../../types';
+
+interface ReportSheetProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type RangePreset = 'thisWeek' | 'lastWeek' | 'thisMonth' | 'last30';
+
+const RANGE_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: 'thisWeek', label: 'This week' },
+  { value: 'lastWeek', label: 'Last week' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'last30', label: 'Last 30 days' },
+];
+
+const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
+  { value: 'todo', label: 'To do' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'done', label: 'Done' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const PRIORITY_OPTIONS: { value: Priority; label: string }[] = [
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+const FORMAT_OPTIONS: { value: ReportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'csv', label: 'CSV' },
+];
+
+function getRange(preset: RangePreset, today: Date): { startDate: string; endDate: string } {
+  switch (preset) {
+    case 'thisWeek':
+      return {
+        startDate: formatDate(startOfWeek(today, { weekStartsOn: 0 })),
+        endDate: formatDate(endOfWeek(today, { weekStartsOn: 0 })),
+      };
+    case 'lastWeek': {
+      const lastWeek = subWeeks(today, 1);
+      return {
+        startDate: formatDate(startOfWeek(lastWeek, { weekStartsOn: 0 })),
+        endDate: formatDate(endOfWeek(lastWeek, { weekStartsOn: 0 })),
+      };
+    }
+    case 'thisMonth':
+      return { startDate: formatDate(startOfMonth(today)), endDate: formatDate(endOfMonth(today)) };
+    case 'last30':
+      return { startDate: formatDate(subDays(today, 29)), endDate: formatDate(today) };
+  }
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+export default function ReportSheet({ visible, onClose }: ReportSheetProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const { busy, buildReport } = useTaskReport();
+
+  const [preset, setPreset] = useState<RangePreset>('thisWeek');
+  const [statuses, setStatuses] = useState<TaskStatus[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('markdown');
+
+  const range = useMemo(() => getRange(preset, parseISO(todayISO())), [preset]);
+
+  const handleShare = useCallback(async () => {
+    try {
+      const report = await buildReport({ ...range, statuses, priorities }, reportFormat);
+      await Share.share({ title: `Tasks ${range.startDate} to ${range.endDate}`, message: report });
+    } catch (err) {
+      Alert.alert('Export Failed', err instanceof Error ? err.message : String(err));
+    }
+  }, [buildReport, range, statuses, priorities, reportFormat]);
+
+  function renderChip(label: string, selected: boolean, onPress: () => void) {
+    return (
+      <Pressable
+        key={label}
+        onPress={onPress}
+        style={[styles.chip, selected && styles.chipActive]}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+        accessibilityLabel={label}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextActive]}>{label}</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Task Report</Text>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Close task report"
+          >
+            <Text style={styles.closeText}>Done</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.scrollArea} contentContainerStyle={styles.scrollContent}>
+          <Text style={styles.sectionLabel}>Date range</Text>
+          <View style={styles.chipRow}>
+            {RANGE_OPTIONS.map((o) => renderChip(o.label, preset === o.value, () => setPreset(o.value)))}
+          </View>
+          <Text style={styles.rangeHint}>
+            {format(parseISO(range.startDate), 'MMM d')} {'–'} {format(parseISO(range.endDate), 'MMM d, yyyy')}
+          </Text>
+
+          <Text style={styles.sectionLabel}>Status</Text>
+          <View style={styles.chipRow}>
+            {STATUS_OPTIONS.map((o) =>
+              renderChip(o.label, statuses.includes(o.value), () => setStatuses((s) => toggle(s, o.value))),
+            )}
+          </View>
+
+          <Text style={styles.sectionLabel}>Priority</Text>
+          <View style={styles.chipRow}>
+            {PRIORITY_OPTIONS.map((o) =>
+              renderChip(o.label, priorities.includes(o.value), () => setPriorities((p) => toggle(p, o.value))),
+            )}
+          </View>
+          <Text style={styles.rangeHint}>Leave a group empty to include everything.</Text>
+
+          <Text style={styles.sectionLabel}>Format</Text>
+          <View style={styles.chipRow}>
+            {FORMAT_OPTIONS.map((o) =>
+              renderChip(o.label, reportFormat === o.value, () => setReportFormat(o.value)),
+            )}
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Pressable
+            onPress={handleShare}
+            disabled={busy}
+            style={({ pressed }) => [
+              styles.shareButton,
+              pressed && styles.shareButtonPressed,
+              busy && styles.shareButtonDisabled,
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel="Share task report"
+          >
+            <Text style={styles.shareText}>Share Report</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    sheet: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingTop: 20,
+      paddingBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.borderLight,
+    },
+    headerTitle: {
+      fontSize: Dimensions.fontXL,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    closeButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 10,
+    },
+    closeButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    closeText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    scrollArea: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Dimensions.screenPadding,
+    },
+    sectionLabel: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      textTransform: 'uppercase',
+      letterSpacing: 0.8,
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: colors.surfaceSecondary,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: '#FFFFFF',
+    },
+    rangeHint: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textTertiary,
+      marginTop: 6,
+    },
+    footer: {
+      padding: Dimensions.screenPadding,
+      borderTopWidth: 1,
+      borderTopColor: colors.borderLight,
+    },
+    shareButton: {
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      borderRadius: 14,
+      alignItems: 'center',
+    },
+    shareButtonPressed: {
+      backgroundColor: colors.primaryDark,
+    },
+    shareButtonDisabled: {
+      opacity: 0.5,
+    },
+    shareText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+  }), [colors]);
+}
@@ -32,6 +32,8 @@ interface TaskCardProps {
   onAddSubtask: (taskId: string, subtask: Subtask) => void;
   onDelete: (taskId: string) => void;
   onEdit: (task: Task) => void;
+  /** Move the task up (-1) or down (1) in the day's order */
+  onMove?: (taskId: string, direction: -1 | 1) => void;
 }
 
 export default function TaskCard({
@@ -43,6 +45,7 @@ export default function TaskCard({
   onAddSubtask,
   onDelete,
   onEdit,
+  onMove,
 }: TaskCardProps) {
   const colors = useTheme();
   const styles = useStyles(colors);
@@ -91,7 +94,7 @@ export default function TaskCard({
   }, [isDone, onToggleStatus, task.id, task.title]);
 
   const triggerDelete = useCallback(() => {
-    Alert.alert('Delete Task', 'Are you sure you want to delete this task?', [
+    Alert.alert('Delete Task', 'This task will move to Recently Deleted in Settings.', [
       {
         text: 'Cancel',
         style: 'cancel',
@@ -355,6 +358,27 @@ export default function TaskCard({
                     </Pressable>
                   </View>
                 )}
+
+                {onMove && (
+                  <View style={styles.moveRow}>
+                    <Pressable
+                      onPress={() => onMove(task.id, -1)}
+                      style={styles.moveButton}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Move ${task.title} up`}
+                    >
+                      <Text style={styles.moveButtonText}>{'\u25B2'} Move up</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => onMove(task.id, 1)}
+                      style={styles.moveButton}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Move ${task.title} down`}
+                    >
+                      <Text style={styles.moveButtonText}>{'\u25BC'} Move down</Text>
+                    </Pressable>
+                  </View>
+                )}
               </View>
             )}
           </View>
@@ -553,6 +577,23 @@ function useStyles(colors: ThemeColors) {
       fontSize: Dimensions.fontSM,
       color: colors.text,
     },
+    moveRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 8,
+    },
+    moveButton: {
+      flex: 1,
+      paddingVertical: 6,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceTertiary,
+      alignItems: 'center',
+    },
+    moveButtonText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
     inlineAddButton: {
       width: 34,
       height: 34,
@@ -21,9 +21,11 @@ import type {
   Subtask,
   Recurrence,
   RecurrenceFrequency,
+  SeriesEditScope,
+  TaskNotification,
 } from '../../types';
-import { generateId, todayISO } from '../../utils';
-import { useSettingsStore } from '../../store';
+import { generateId, todayISO, previewOccurrences } from '../../utils';
+import { useSettingsStore, useHistoryStore, useTaskStore } from '../../store';
 
 interface TaskFormProps {
   visible: boolean;
@@ -31,7 +33,9 @@ interface TaskFormProps {
   onSubmit: (task: Task) => void;
   onUpdate?: (id: string, updates: Partial<Task>) => void;
   onDelete?: (id: string) => void;
-  onDeleteFutureRecurring?: (task: Task) => void;
+  /** Called instead of onUpdate/onDelete when editing a task of a recurring series */
+  onUpdateSeries?: (task: Task, updates: Partial<Task>, scope: SeriesEditScope) => void;
+  onDeleteSeries?: (task: Task, scope: SeriesEditScope) => void;
   editingTask?: Task | null;
   selectedDate?: string;
 }
@@ -44,6 +48,43 @@ const FREQUENCIES: RecurrenceFrequency[] = [
   'yearly',
 ];
 
+const REMINDER_PRESETS = [0, 5, 15, 30, 60, 1440];
+
+function formatReminderOffset(minutes: number): string {
+  if (minutes === 0) return 'At time';
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  if (minutes > 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+type RecurrenceEnd = 'never' | 'date' | 'count';
+
+const RECURRENCE_ENDS: { end: RecurrenceEnd; label: string }[] = [
+  { end: 'never', label: 'Never' },
+  { end: 'date', label: 'On date' },
+  { end: 'count', label: 'After' },
+];
+
+const PREVIEW_COUNT = 5;
+
+const SERIES_SCOPES: { scope: SeriesEditScope; label: string }[] = [
+  { scope: 'this', label: 'Only this' },
+  { scope: 'following', label: 'This & following' },
+  { scope: 'all', label: 'Entire series' },
+];
+
 const PRIORITY_TEXT_COLORS: Record<Priority, string> = {
   low: '#FFFFFF',
   medium: '#78350F',
@@ -77,7 +118,8 @@ export default function TaskForm({
   onSubmit,
   onUpdate,
   onDelete,
-  onDeleteFutureRecurring,
+  onUpdateSeries,
+  onDeleteSeries,
   editingTask,
   selectedDate: selectedDateProp,
 }: TaskFormProps) {
@@ -99,6 +141,8 @@ export default function TaskForm({
   );
   const dayStartHour = useSettingsStore((s) => s.dayStartHour);
   const dayEndHour = useSettingsStore((s) => s.dayEndHour);
+  const record = useHistoryStore((s) => s.record);
+  const loadSeries = useTaskStore((s) => s.loadSeries);
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
@@ -116,6 +160,16 @@ export default function TaskForm({
   const [hasRecurrence, setHasRecurrence] = useState(false);
   const [frequency, setFrequency] = useState<RecurrenceFrequency>('daily');
   const [interval, setInterval] = useState('1');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>('never');
+  const [endDateInput, setEndDateInput] = useState('');
+  const [countInput, setCountInput] = useState('10');
+  const [seriesScope, setSeriesScope] = useState<SeriesEditScope>('this');
+  const [reminders, setReminders] = useState<TaskNotification[]>([]);
+  const [customReminderInput, setCustomReminderInput] = useState('');
+
+  const isSeriesEdit =
+    !!editingTask && (editingTask.recurrence != null || editingTask.seriesId != null);
 
   // Subtask creation state
   const [formSubtasks, setFormSubtasks] = useState<
@@ -214,17 +268,34 @@ export default function TaskForm({
         setHasRecurrence(true);
         setFrequency(editingTask.recurrence.frequency);
         setInterval(editingTask.recurrence.interval.toString());
+        setDaysOfWeek(editingTask.recurrence.daysOfWeek ?? []);
+        if (editingTask.recurrence.count != null) {
+          setRecurrenceEnd('count');
+        } else if (editingTask.recurrence.endDate) {
+          setRecurrenceEnd('date');
+        } else {
+          setRecurrenceEnd('never');
+        }
+        setEndDateInput(editingTask.recurrence.endDate ?? '');
+        setCountInput(editingTask.recurrence.count?.toString() ?? '10');
       } else {
         setHasRecurrence(false);
         setFrequency('daily');
         setInterval('1');
+        setDaysOfWeek([]);
+        setRecurrenceEnd('never');
+        setEndDateInput('');
+        setCountInput('10');
       }
       setFormSubtasks(
         editingTask.subtasks.map((s) => ({ id: s.id, title: s.title })),
       );
+      setReminders(editingTask.notifications);
+      setCustomReminderInput('');
       setShowCustomDate(false);
       setCustomDateInput('');
       setNewSubtaskText('');
+      setSeriesScope('this');
     } else if (visible) {
       setTitle('');
       setDescription('');
@@ -239,6 +310,12 @@ export default function TaskForm({
       setHasRecurrence(false);
       setFrequency('daily');
       setInterval('1');
+      setDaysOfWeek([]);
+      setRecurrenceEnd('never');
+      setEndDateInput('');
+      setCountInput('10');
+      setReminders([]);
+      setCustomReminderInput('');
       setFormSubtasks([]);
       setShowCustomDate(false);
       setCustomDateInput('');
@@ -246,6 +323,87 @@ export default function TaskForm({
     }
   }, [visible, editingTask, selectedDateProp, defaultDuration, getDefaultTime]);
 
+  const handleToggleReminder = useCallback((offsetMinutes: number) => {
+    setReminders((prev) =>
+      prev.some((r) => r.offsetMinutes === offsetMinutes)
+        ? prev.filter((r) => r.offsetMinutes !== offsetMinutes)
+        : [...prev, { id: generateId(), offsetMinutes, enabled: true }],
+    );
+  }, []);
+
+  const handleAddCustomReminder = useCallback(() => {
+    const offsetMinutes = parseInt(customReminderInput, 10);
+    if (!(offsetMinutes >= 0)) return;
+    setReminders((prev) =>
+      prev.some((r) => r.offsetMinutes === offsetMinutes)
+        ? prev
+        : [...prev, { id: generateId(), offsetMinutes, enabled: true }],
+    );
+    setCustomReminderInput('');
+  }, [customReminderInput]);
+
+  // Presets plus any custom offsets already on the task
+  const reminderOffsets = useMemo(
+    () =>
+      [...new Set([...REMINDER_PRESETS, ...reminders.map((r) => r.offsetMinutes)])].sort(
+        (a, b) => a - b,
+      ),
+    [reminders],
+  );
+
+  const handleToggleWeekday = useCallback((day: number) => {
+    setDaysOfWeek((prev) =>
+      prev.includes(day)
+        ? prev.filter((d) => d !== day)
+        : [...prev, day].sort((a, b) => a - b),
+    );
+  }, []);
+
+  // The rule as currently entered; also drives the occurrence preview
+  const draftRecurrence = useMemo((): Recurrence | null => {
+    if (!hasRecurrence) return null;
+
+    // Keep rule parts this form doesn't edit (e.g. "last Friday") while the frequency is unchanged
+    const existing = editingTask?.recurrence;
+    const rule: Recurrence = {
+      ...(existing?.frequency === frequency ? existing : null),
+      frequency,
+      interval: Math.max(1, parseInt(interval, 10) || 1),
+    };
+    delete rule.daysOfWeek;
+    delete rule.endDate;
+    delete rule.count;
+
+    if (frequency === 'weekly' && daysOfWeek.length > 0) {
+      rule.daysOfWeek = daysOfWeek;
+    }
+    if (recurrenceEnd === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(endDateInput)) {
+      if (isValid(parseISO(endDateInput))) rule.endDate = endDateInput;
+    }
+    if (recurrenceEnd === 'count') {
+      const count = parseInt(countInput, 10);
+      if (count > 0) rule.count = count;
+    }
+    return rule;
+  }, [
+    hasRecurrence,
+    editingTask,
+    frequency,
+    interval,
+    daysOfWeek,
+    recurrenceEnd,
+    endDateInput,
+    countInput,
+  ]);
+
+  const previewDates = useMemo(
+    () =>
+      draftRecurrence
+        ? previewOccurrences(draftRecurrence, scheduledDate, PREVIEW_COUNT)
+        : [],
+    [draftRecurrence, scheduledDate],
+  );
+
   const handleAddFormSubtask = useCallback(() => {
     const trimmed = newSubtaskText.trim();
     if (!trimmed) return;
@@ -277,29 +435,25 @@ export default function TaskForm({
   const handleDelete = useCallback(() => {
     if (!editingTask || !onDelete) return;
 
-    if (editingTask.recurrence) {
+    if (isSeriesEdit && onDeleteSeries) {
+      const scopeLabel = SERIES_SCOPES.find((option) => option.scope === seriesScope)?.label;
       Alert.alert(
         'Delete Recurring Task',
-        `"${editingTask.title}" is a recurring task. What would you like to do?`,
+        `Delete "${editingTask.title}" (${scopeLabel?.toLowerCase()})?`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
-            text: 'Delete This Event',
-            style: 'destructive',
-            onPress: () => {
-              onDelete(editingTask.id);
-              onClose();
-            },
-          },
-          {
-            text: 'Delete All Future Events',
+            text: 'Delete',
             style: 'destructive',
             onPress: () => {
-              if (onDeleteFutureRecurring) {
-                onDeleteFutureRecurring(editingTask);
-              } else {
-                onDelete(editingTask.id);
-              }
+              // Rows of the series outside the loaded weeks are part of the deletion too
+              loadSeries(editingTask)
+                .then(() =>
+                  record('Recurring task deleted', () => onDeleteSeries(editingTask, seriesScope), {
+                    notify: true,
+                  }),
+                )
+                .catch(console.error);
               onClose();
             },
           },
@@ -315,23 +469,28 @@ export default function TaskForm({
             text: 'Delete',
             style: 'destructive',
             onPress: () => {
-              onDelete(editingTask.id);
+              record('Task deleted', () => onDelete(editingTask.id), { notify: true });
               onClose();
             },
           },
         ],
       );
     }
-  }, [editingTask, onDelete, onDeleteFutureRecurring, onClose]);
+  }, [
+    editingTask,
+    onDelete,
+    onDeleteSeries,
+    isSeriesEdit,
+    seriesScope,
+    onClose,
+    record,
+    loadSeries,
+  ]);
 
   function handleSubmit() {
     const trimmedTitle = title.trim();
     if (!trimmedTitle) return;
 
-    const recurrence: Recurrence | null = hasRecurrence
-      ? { frequency, interval: Math.max(1, parseInt(interval, 10) || 1) }
-      : null;
-
     const subtasksForTask: Subtask[] = formSubtasks.map((s) => ({
       id: s.id,
       title: s.title,
@@ -343,15 +502,16 @@ export default function TaskForm({
       ? `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`
       : null;
 
-    if (editingTask && onUpdate) {
-      onUpdate(editingTask.id, {
+    if (editingTask && (onUpdate || onUpdateSeries)) {
+      const updates: Partial<Task> = {
         title: trimmedTitle,
         description: description.trim(),
         priority,
         scheduledDate,
         scheduledTime,
         estimatedMinutes: parseInt(estimatedMinutes, 10) || null,
-        recurrence,
+        recurrence: draftRecurrence,
+        notifications: reminders,
         subtasks: subtasksForTask.map((s) => ({
           ...s,
           parentTaskId: editingTask.id,
@@ -359,7 +519,18 @@ export default function TaskForm({
             editingTask.subtasks.find((es) => es.id === s.id)?.completed ??
             false,
         })),
-      });
+      };
+      if (isSeriesEdit && onUpdateSeries) {
+        loadSeries(editingTask)
+          .then(() =>
+            record('Recurring task edited', () =>
+              onUpdateSeries(editingTask, updates, seriesScope),
+            ),
+          )
+          .catch(console.error);
+      } else if (onUpdate) {
+        record('Task edited', () => onUpdate(editingTask.id, updates));
+      }
     } else {
       const now = new Date().toISOString();
       const taskId = generateId();
@@ -376,15 +547,16 @@ export default function TaskForm({
           ...s,
           parentTaskId: taskId,
         })),
-        recurrence,
-        notifications: [],
+        recurrence: draftRecurrence,
+        notifications: reminders,
         sortOrder: Date.now(),
         createdAt: now,
         updatedAt: now,
         completedAt: null,
         carriedOverFrom: null,
+        seriesId: draftRecurrence ? taskId : null,
       };
-      onSubmit(task);
+      record('Task added', () => onSubmit(task));
     }
     onClose();
   }
@@ -813,6 +985,66 @@ export default function TaskForm({
           {/* Divider */}
           <View style={styles.divider} />
 
+          {/* Reminders */}
+          <Text style={styles.sectionLabel}>Reminders</Text>
+          <View style={styles.durationRow}>
+            {reminderOffsets.map((offset) => {
+              const selected = reminders.some((r) => r.offsetMinutes === offset);
+              return (
+                <Pressable
+                  key={offset}
+                  onPress={() => handleToggleReminder(offset)}
+                  style={[
+                    styles.durationChip,
+                    selected && styles.durationChipActive,
+                  ]}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: selected }}
+                  accessibilityLabel={
+                    offset === 0
+                      ? 'Remind at the scheduled time'
+                      : `Remind ${formatReminderOffset(offset)} before`
+                  }
+                >
+                  <Text
+                    style={[
+                      styles.durationChipText,
+                      selected && styles.durationChipTextActive,
+                    ]}
+                  >
+                    {formatReminderOffset(offset)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <View style={styles.customDurationRow}>
+            <TextInput
+              style={styles.customDurationInput}
+              value={customReminderInput}
+              onChangeText={setCustomReminderInput}
+              placeholder="Minutes before"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="number-pad"
+              onSubmitEditing={handleAddCustomReminder}
+              accessibilityLabel="Custom reminder in minutes before"
+            />
+            <Pressable
+              onPress={handleAddCustomReminder}
+              style={({ pressed }) => [
+                styles.customDateConfirm,
+                pressed && styles.customDateConfirmPressed,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Add custom reminder"
+            >
+              <Text style={styles.customDateConfirmText}>Add</Text>
+            </Pressable>
+          </View>
+
+          {/* Divider */}
+          <View style={styles.divider} />
+
           {/* Subtasks */}
           <Text style={styles.sectionLabel}>Subtasks</Text>
           {formSubtasks.map((subtask) => (
@@ -930,6 +1162,132 @@ export default function TaskForm({
                 keyboardType="number-pad"
                 accessibilityLabel="Recurrence interval"
               />
+
+              {frequency === 'weekly' && (
+                <>
+                  <Text style={styles.sublabel}>On</Text>
+                  <View style={styles.weekdayRow}>
+                    {WEEKDAY_LABELS.map((label, day) => {
+                      const selected = daysOfWeek.includes(day);
+                      return (
+                        <Pressable
+                          key={day}
+                          onPress={() => handleToggleWeekday(day)}
+                          style={[
+                            styles.weekdayChip,
+                            selected && styles.weekdayChipActive,
+                          ]}
+                          accessibilityRole="checkbox"
+                          accessibilityState={{ checked: selected }}
+                          accessibilityLabel={`Repeat on ${WEEKDAY_NAMES[day]}`}
+                        >
+                          <Text
+                            style={[
+                              styles.weekdayChipText,
+                              selected && styles.weekdayChipTextActive,
+                            ]}
+                          >
+                            {label}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.sublabel}>Ends</Text>
+              <View style={styles.frequencyRow}>
+                {RECURRENCE_ENDS.map(({ end, label }) => (
+                  <Pressable
+                    key={end}
+                    onPress={() => setRecurrenceEnd(end)}
+                    style={[
+                      styles.frequencyButton,
+                      recurrenceEnd === end && styles.frequencyButtonActive,
+                    ]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: recurrenceEnd === end }}
+                    accessibilityLabel={`Ends ${label.toLowerCase()}`}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyButtonText,
+                        recurrenceEnd === end && styles.frequencyButtonTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {recurrenceEnd === 'date' && (
+                <TextInput
+                  style={[styles.input, styles.recurrenceEndInput]}
+                  value={endDateInput}
+                  onChangeText={setEndDateInput}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="numbers-and-punctuation"
+                  accessibilityLabel="Recurrence end date"
+                />
+              )}
+              {recurrenceEnd === 'count' && (
+                <View style={styles.recurrenceCountRow}>
+                  <TextInput
+                    style={[styles.input, styles.recurrenceCountInput]}
+                    value={countInput}
+                    onChangeText={setCountInput}
+                    placeholder="10"
+                    placeholderTextColor={colors.textTertiary}
+                    keyboardType="number-pad"
+                    accessibilityLabel="Number of occurrences"
+                  />
+                  <Text style={styles.recurrenceCountLabel}>times</Text>
+                </View>
+              )}
+
+              <Text style={styles.sublabel}>Next dates</Text>
+              {previewDates.length > 0 ? (
+                previewDates.map((date) => (
+                  <Text key={date} style={styles.previewDate}>
+                    {getDateLabel(date)}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.previewDate}>No upcoming dates</Text>
+              )}
+            </View>
+          )}
+
+          {/* Series scope */}
+          {isSeriesEdit && (
+            <View style={styles.recurrenceSection}>
+              <Text style={styles.sublabel}>Apply changes to</Text>
+              <View style={styles.frequencyRow}>
+                {SERIES_SCOPES.map(({ scope, label }) => (
+                  <Pressable
+                    key={scope}
+                    onPress={() => setSeriesScope(scope)}
+                    style={[
+                      styles.frequencyButton,
+                      seriesScope === scope && styles.frequencyButtonActive,
+                    ]}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: seriesScope === scope }}
+                    accessibilityLabel={`Apply changes to ${label.toLowerCase()}`}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyButtonText,
+                        seriesScope === scope && styles.frequencyButtonTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
             </View>
           )}
 
@@ -1382,6 +1740,52 @@ function useStyles(colors: ThemeColors) {
     frequencyButtonTextActive: {
       color: '#FFFFFF',
     },
+    weekdayRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    weekdayChip: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    weekdayChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    weekdayChipText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    weekdayChipTextActive: {
+      color: '#FFFFFF',
+    },
+    recurrenceEndInput: {
+      marginTop: 8,
+    },
+    recurrenceCountRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 8,
+      gap: 8,
+    },
+    recurrenceCountInput: {
+      width: 80,
+    },
+    recurrenceCountLabel: {
+      fontSize: Dimensions.fontMD,
+      color: colors.textSecondary,
+    },
+    previewDate: {
+      fontSize: Dimensions.fontSM,
+      color: colors.text,
+      paddingVertical: 2,
+    },
     input: {
       backgroundColor: colors.surfaceTertiary,
       borderRadius: 10,
@@ -16,6 +16,7 @@ interface TaskListProps {
   onAddSubtask: (taskId: string, subtask: Subtask) => void;
   onDelete: (taskId: string) => void;
   onEdit: (task: Task) => void;
+  onMoveTask?: (taskId: string, direction: -1 | 1) => void;
 }
 
 interface Section {
@@ -49,6 +50,7 @@ export default function TaskList({
   onAddSubtask,
   onDelete,
   onEdit,
+  onMoveTask,
 }: TaskListProps) {
   const colors = useTheme();
   const styles = useStyles(colors);
@@ -145,6 +147,7 @@ export default function TaskList({
           onAddSubtask={onAddSubtask}
           onDelete={onDelete}
           onEdit={onEdit}
+          onMove={onMoveTask}
         />
       )}
       renderSectionHeader={({ section }) => {
@@ -4,3 +4,4 @@ export { default as SubtaskRow } from './SubtaskRow';
 export { default as TaskForm } from './TaskForm';
 export { default as PriorityBadge } from './PriorityBadge';
 export { default as CarriedOverBadge } from './CarriedOverBadge';
+export { default as ReportSheet } from './ReportSheet';
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import type { CalendarEvent, Task } from '../../types';
+
+interface AllDayLaneProps {
+  events: CalendarEvent[];
+  /** Tasks with a date but no time */
+  tasks: Task[];
+  onEventPress?: (event: CalendarEvent) => void;
+  onTaskPress?: (task: Task) => void;
+}
+
+/**
+ * What belongs to the day as a whole rather than to a time of it: all-day
+ * calendar events and tasks with no time. Sits above the hour grid and
+ * takes no room when there is nothing to show.
+ */
+function AllDayLane({ events, tasks, onEventPress, onTaskPress }: AllDayLaneProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+
+  if (events.length === 0 && tasks.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>All day</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}
+      >
+        {events.map((event) => {
+          const eventColor = event.color || '#8B5CF6';
+          return (
+            <Pressable
+              key={`cal-${event.id}`}
+              style={[
+                styles.chip,
+                { borderLeftColor: eventColor, backgroundColor: eventColor + '18' },
+              ]}
+              onPress={() => onEventPress?.(event)}
+              accessibilityRole="button"
+              accessibilityLabel={`All-day calendar event: ${event.title}`}
+            >
+              <View style={[styles.dot, { backgroundColor: eventColor }]} />
+              <Text style={styles.chipText} numberOfLines={1}>
+                {event.title}
+              </Text>
+            </Pressable>
+          );
+        })}
+        {tasks.map((task) => {
+          const isDone = task.status === 'done';
+          return (
+            <Pressable
+              key={`task-${task.id}`}
+              style={[styles.chip, styles.taskChip]}
+              onPress={() => onTaskPress?.(task)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isDone }}
+              accessibilityLabel={`Task: ${task.title}, no set time`}
+            >
+              <Text style={styles.checkbox}>{isDone ? '\u2611' : '\u2610'}</Text>
+              <Text style={[styles.chipText, isDone && styles.chipTextDone]} numberOfLines={1}>
+                {task.title}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+export default React.memo(AllDayLane);
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 6,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: colors.border,
+    },
+    label: {
+      width: Dimensions.timelineLeftGutter,
+      paddingLeft: Dimensions.screenPadding,
+      fontSize: Dimensions.fontXS,
+      fontWeight: '600',
+      color: colors.textTertiary,
+    },
+    chips: {
+      gap: 6,
+      paddingLeft: 4,
+      paddingRight: Dimensions.screenPadding,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      maxWidth: 200,
+      borderLeftWidth: 3,
+      borderRadius: Dimensions.radiusSmall,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    taskChip: {
+      borderLeftColor: colors.primary,
+      backgroundColor: colors.surfaceSecondary,
+    },
+    dot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+    },
+    checkbox: {
+      fontSize: Dimensions.fontSM,
+      color: colors.primary,
+    },
+    chipText: {
+      flexShrink: 1,
+      fontSize: Dimensions.fontSM,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    chipTextDone: {
+      color: colors.textTertiary,
+      textDecorationLine: 'line-through',
+    },
+  }), [colors]);
+}
@@ -4,12 +4,19 @@ import { Dimensions } from '../../constants';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 import type { CalendarEvent } from '../../types';
+import type { ColumnFrame } from '../../utils';
 
 interface CalendarEventCardProps {
   event: CalendarEvent;
   topOffset: number;
   height: number;
   hasConflict: boolean;
+  /** Where it sits beside overlapping items; full width when omitted */
+  columnFrame?: ColumnFrame;
+  /** The event began on an earlier day */
+  clippedStart?: boolean;
+  /** The event carries on into a later day */
+  clippedEnd?: boolean;
   onPress?: (event: CalendarEvent) => void;
 }
 
@@ -26,11 +33,20 @@ function formatTimeRange(startTime: string, endTime: string): string {
   return `${fmt(start)} - ${fmt(end)}`;
 }
 
-function CalendarEventCard({ event, topOffset, height, hasConflict, onPress }: CalendarEventCardProps) {
+function CalendarEventCard({
+  event,
+  topOffset,
+  height,
+  hasConflict,
+  columnFrame,
+  clippedStart = false,
+  clippedEnd = false,
+  onPress,
+}: CalendarEventCardProps) {
   const colors = useTheme();
   const styles = useStyles(colors);
   const eventColor = event.color || '#8B5CF6';
-  const minHeight = 24;
+  const minHeight = Dimensions.timelineEventMinHeight;
   const displayHeight = Math.max(height, minHeight);
   const isCompact = height < 36;
 
@@ -44,6 +60,9 @@ function CalendarEventCard({ event, topOffset, height, hasConflict, onPress }: C
           borderLeftColor: eventColor,
           backgroundColor: eventColor + '12', // 7% opacity, lighter than task blocks
         },
+        columnFrame && { left: columnFrame.left, width: columnFrame.width, right: undefined },
+        clippedStart && styles.clippedStart,
+        clippedEnd && styles.clippedEnd,
         hasConflict && styles.conflictBorder,
       ]}
       onPress={() => onPress?.(event)}
@@ -88,6 +107,14 @@ function useStyles(colors: ThemeColors) {
       justifyContent: 'center',
       borderStyle: 'solid',
     },
+    clippedStart: {
+      borderTopLeftRadius: 0,
+      borderTopRightRadius: 0,
+    },
+    clippedEnd: {
+      borderBottomLeftRadius: 0,
+      borderBottomRightRadius: 0,
+    },
     conflictBorder: {
       borderWidth: 1,
       borderColor: colors.warning,
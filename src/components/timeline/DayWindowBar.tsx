@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Dimensions } from '../../constants';
+import { useDayPlanStore, useSettingsStore, useTaskStore } from '../../store';
+import { getDayHours } from '../../utils';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+
+const STEP_MINUTES = 30;
+const MIN_DAY_MINUTES = 60;
+
+function minutesToTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function formatMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  const h = hour % 12 || 12;
+  const ampm = hour < 12 ? 'AM' : 'PM';
+  return `${h}:${m.toString().padStart(2, '0')} ${ampm}`;
+}
+
+/**
+ * Wake and sleep times for the selected day. Changing them gives the day its
+ * own window on the timeline; Reset falls back to the configured day hours.
+ */
+export default function DayWindowBar() {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const selectedDate = useTaskStore((s) => s.selectedDate);
+  const dayPlan = useDayPlanStore((s) => s.dayPlans[selectedDate]);
+  const setDayWindow = useDayPlanStore((s) => s.setDayWindow);
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
+  const dayEndHour = useSettingsStore((s) => s.dayEndHour);
+
+  const hasCustomWindow = !!(dayPlan?.wakeTime || dayPlan?.sleepTime);
+
+  // Work in minutes from midnight; a sleep time of 00:00 is the end of the day
+  const { startHour, endHour } = getDayHours(dayPlan, dayStartHour, dayEndHour);
+  const wake = dayPlan?.wakeTime ? timeToMinutes(dayPlan.wakeTime) : startHour * 60;
+  const sleep = dayPlan?.sleepTime
+    ? timeToMinutes(dayPlan.sleepTime) || 24 * 60
+    : endHour * 60;
+
+  const adjust = (nextWake: number, nextSleep: number) => {
+    if (nextWake < 0 || nextSleep > 24 * 60) return;
+    if (nextSleep - nextWake < MIN_DAY_MINUTES) return;
+    setDayWindow(selectedDate, minutesToTime(nextWake), minutesToTime(nextSleep));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        <View style={styles.group}>
+          <Text style={styles.label}>{'\u{1F305}'} Wake</Text>
+          <Pressable
+            onPress={() => adjust(wake - STEP_MINUTES, sleep)}
+            style={styles.stepBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Wake earlier"
+            hitSlop={6}
+          >
+            <Text style={styles.stepText}>{'\u2212'}</Text>
+          </Pressable>
+          <Text style={styles.value}>{formatMinutes(wake)}</Text>
+          <Pressable
+            onPress={() => adjust(wake + STEP_MINUTES, sleep)}
+            style={styles.stepBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Wake later"
+            hitSlop={6}
+          >
+            <Text style={styles.stepText}>+</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.group}>
+          <Text style={styles.label}>{'\u{1F319}'} Sleep</Text>
+          <Pressable
+            onPress={() => adjust(wake, sleep - STEP_MINUTES)}
+            style={styles.stepBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Sleep earlier"
+            hitSlop={6}
+          >
+            <Text style={styles.stepText}>{'\u2212'}</Text>
+          </Pressable>
+          <Text style={styles.value}>{formatMinutes(sleep)}</Text>
+          <Pressable
+            onPress={() => adjust(wake, sleep + STEP_MINUTES)}
+            style={styles.stepBtn}
+            accessibilityRole="button"
+            accessibilityLabel="Sleep later"
+            hitSlop={6}
+          >
+            <Text style={styles.stepText}>+</Text>
+          </Pressable>
+        </View>
+
+        {hasCustomWindow && (
+          <Pressable
+            onPress={() => setDayWindow(selectedDate, null, null)}
+            accessibilityRole="button"
+            accessibilityLabel="Reset wake and sleep times to your default day hours"
+            hitSlop={6}
+          >
+            <Text style={styles.reset}>Reset</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      paddingHorizontal: Dimensions.screenPadding,
+      paddingBottom: 6,
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+      backgroundColor: colors.surfaceSecondary,
+      borderRadius: 14,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    group: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    label: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginRight: 2,
+    },
+    stepBtn: {
+      width: 22,
+      height: 22,
+      borderRadius: 11,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.background,
+    },
+    stepText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    value: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.text,
+      minWidth: 62,
+      textAlign: 'center',
+    },
+    reset: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+  }), [colors]);
+}
@@ -12,6 +12,7 @@ import { Dimensions } from '../../constants';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 import type { TimeBlock, TimeBlockType } from '../../types';
+import type { ColumnFrame } from '../../utils';
 
 const HOUR_HEIGHT = Dimensions.timelineHourHeight;
 const SNAP_MINUTES = 15;
@@ -39,8 +40,18 @@ interface DraggableTimeBlockProps {
   height: number;
   timelineHeight?: number;
   hasConflict?: boolean;
+  /** Where it sits beside overlapping items; full width when omitted */
+  columnFrame?: ColumnFrame;
+  /** The block began on an earlier day, so only its end is drawn here */
+  clippedStart?: boolean;
+  /** The block carries on into a later day */
+  clippedEnd?: boolean;
   onMoveEnd: (blockId: string, newTopOffset: number) => void;
   onResizeEnd: (blockId: string, newHeight: number) => void;
+  /** Called as a drag crosses each snap point, with where the block would land */
+  onMoveUpdate?: (blockId: string, newTopOffset: number) => void;
+  /** Called as a resize crosses each snap point, with the height it would have */
+  onResizeUpdate?: (blockId: string, newHeight: number) => void;
   onDragStateChange: (isDragging: boolean) => void;
   onMoveUp?: (blockId: string) => void;
   onMoveDown?: (blockId: string) => void;
@@ -89,9 +100,14 @@ function DraggableTimeBlock({
   topOffset,
   height,
   hasConflict: blockHasConflict = false,
+  columnFrame,
+  clippedStart = false,
+  clippedEnd = false,
   timelineHeight: totalHeight = 16 * HOUR_HEIGHT,
   onMoveEnd,
   onResizeEnd,
+  onMoveUpdate,
+  onResizeUpdate,
   onDragStateChange,
   onMoveUp,
   onMoveDown,
@@ -100,12 +116,26 @@ function DraggableTimeBlock({
   const colors = useTheme();
   const styles = useStyles(colors);
   const blockColor = block.color || colors.timeBlockTask;
-  const minDisplayHeight = 52;
+  const minDisplayHeight = Dimensions.timelineBlockMinHeight;
   const displayHeight = Math.max(height, minDisplayHeight);
-  const isCompact = height < 52;
+  const isCompact = height < minDisplayHeight;
   const isTall = height >= 80;
   const [isFocused, setIsFocused] = useState(false);
   const typeIcon = TYPE_ICONS[block.type] || '\u2611';
+  // A pinned block stays where it is until it is unpinned
+  const isPinned = !!block.pinned;
+  // A segment cut off at the top has no start here to drag, and one cut off
+  // at the bottom no end to resize
+  const canMove = !isPinned && !clippedStart;
+  const canResize = !isPinned && !clippedEnd;
+  const gestureHint = [
+    canMove && 'Long press to drag',
+    canResize && 'drag bottom edge to resize',
+  ].filter(Boolean).join(', ');
+  const continuation = [
+    clippedStart && ', continues from the previous day',
+    clippedEnd && ', continues into the next day',
+  ].filter(Boolean).join('');
 
   // Shared values for drag (move) gesture
   const translateY = useSharedValue(0);
@@ -119,6 +149,9 @@ function DraggableTimeBlock({
   // Track if a drag actually happened (to distinguish tap from drag)
   const didDrag = useSharedValue(false);
 
+  // The last snapped offset reported while dragging or resizing
+  const lastSnap = useSharedValue(0);
+
   const triggerHapticStart = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   }, []);
@@ -153,6 +186,22 @@ function DraggableTimeBlock({
     [block.id, displayHeight, topOffset, totalHeight, onResizeEnd],
   );
 
+  const reportMove = useCallback(
+    (snappedTranslateY: number) => {
+      const clamped = clampTop(topOffset + snappedTranslateY, displayHeight, totalHeight);
+      onMoveUpdate?.(block.id, clamped);
+    },
+    [block.id, topOffset, displayHeight, totalHeight, onMoveUpdate],
+  );
+
+  const reportResize = useCallback(
+    (snappedDelta: number) => {
+      const clamped = clampHeight(displayHeight + snappedDelta, topOffset, totalHeight);
+      onResizeUpdate?.(block.id, clamped);
+    },
+    [block.id, displayHeight, topOffset, totalHeight, onResizeUpdate],
+  );
+
   const handleTap = useCallback(() => {
     if (onPress) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -162,11 +211,13 @@ function DraggableTimeBlock({
 
   // Drag gesture: long-press to activate, then pan to move
   const dragGesture = Gesture.Pan()
+    .enabled(canMove)
     .activateAfterLongPress(250)
     .onStart(() => {
       'worklet';
       isDragging.value = true;
       didDrag.value = true;
+      lastSnap.value = 0;
       dragScale.value = withSpring(1.03, SPRING_CONFIG);
       runOnJS(triggerHapticStart)();
       runOnJS(notifyDragStart)();
@@ -174,6 +225,11 @@ function DraggableTimeBlock({
     .onUpdate((e) => {
       'worklet';
       translateY.value = e.translationY;
+      const snapped = snapToGrid(topOffset + e.translationY) - topOffset;
+      if (snapped !== lastSnap.value) {
+        lastSnap.value = snapped;
+        runOnJS(reportMove)(snapped);
+      }
     })
     .onEnd(() => {
       'worklet';
@@ -208,15 +264,22 @@ function DraggableTimeBlock({
 
   // Resize gesture on the bottom handle
   const resizeGesture = Gesture.Pan()
+    .enabled(canResize)
     .onStart(() => {
       'worklet';
       isResizing.value = true;
+      lastSnap.value = 0;
       runOnJS(triggerHapticStart)();
       runOnJS(notifyDragStart)();
     })
     .onUpdate((e) => {
       'worklet';
       resizeDelta.value = e.translationY;
+      const snapped = snapToGrid(displayHeight + e.translationY) - displayHeight;
+      if (snapped !== lastSnap.value) {
+        lastSnap.value = snapped;
+        runOnJS(reportResize)(snapped);
+      }
     })
     .onEnd(() => {
       'worklet';
@@ -257,12 +320,15 @@ function DraggableTimeBlock({
             backgroundColor: blockColor + '28',
             borderLeftColor: blockColor,
           },
+          columnFrame && { left: columnFrame.left, width: columnFrame.width, right: undefined },
+          clippedStart && styles.clippedStart,
+          clippedEnd && styles.clippedEnd,
           blockHasConflict && styles.conflictBorder,
           animatedBlockStyle,
         ]}
         accessible
         accessibilityRole="button"
-        accessibilityLabel={`${block.title}, ${formatTimeRange(block.startTime, block.endTime)}${blockHasConflict ? ', conflicts with a calendar event' : ''}. Tap to edit. Long press to drag, drag bottom edge to resize.`}
+        accessibilityLabel={`${block.title}, ${formatTimeRange(block.startTime, block.endTime)}${continuation}${blockHasConflict ? ', conflicts with a calendar event' : ''}${isPinned ? ', pinned' : ''}. Tap to edit.${gestureHint ? ` ${gestureHint}.` : ''}`}
         onAccessibilityEscape={() => setIsFocused(false)}
         onAccessibilityAction={(event) => {
           if (event.nativeEvent.actionName === 'activate') {
@@ -280,6 +346,7 @@ function DraggableTimeBlock({
           </View>
           <View style={styles.textContent}>
             <Text style={[styles.title, isCompact && styles.titleCompact]} numberOfLines={1}>
+              {isPinned && <Text style={styles.pinIcon}>{'\u{1F4CC} '}</Text>}
               {block.title}
             </Text>
             {!isCompact && (
@@ -300,7 +367,7 @@ function DraggableTimeBlock({
         </View>
 
         {/* Accessibility: Move up / Move down buttons (non-gesture alternative) */}
-        {isFocused && (onMoveUp || onMoveDown) && (
+        {isFocused && canMove && (onMoveUp || onMoveDown) && (
           <View style={styles.moveButtonRow}>
             {onMoveUp && (
               <Pressable
@@ -332,14 +399,16 @@ function DraggableTimeBlock({
         )}
 
         {/* Resize handle at the bottom */}
-        <GestureDetector gesture={resizeGesture}>
-          <Animated.View
-            style={styles.resizeHandle}
-            hitSlop={{ top: 8, bottom: 8, left: 0, right: 0 }}
-          >
-            <View style={[styles.resizeBar, { backgroundColor: blockColor }]} />
-          </Animated.View>
-        </GestureDetector>
+        {canResize && (
+          <GestureDetector gesture={resizeGesture}>
+            <Animated.View
+              style={styles.resizeHandle}
+              hitSlop={{ top: 8, bottom: 8, left: 0, right: 0 }}
+            >
+              <View style={[styles.resizeBar, { backgroundColor: blockColor }]} />
+            </Animated.View>
+          </GestureDetector>
+        )}
       </Animated.View>
     </GestureDetector>
   );
@@ -372,6 +441,14 @@ function useStyles(colors: ThemeColors) {
       height: 3,
       opacity: 0.6,
     },
+    clippedStart: {
+      borderTopLeftRadius: 0,
+      borderTopRightRadius: 0,
+    },
+    clippedEnd: {
+      borderBottomLeftRadius: 0,
+      borderBottomRightRadius: 0,
+    },
     conflictBorder: {
       borderWidth: 1.5,
       borderColor: colors.warning,
@@ -404,6 +481,9 @@ function useStyles(colors: ThemeColors) {
     titleCompact: {
       fontSize: Dimensions.fontSM,
     },
+    pinIcon: {
+      fontSize: 11,
+    },
     timeRow: {
       flexDirection: 'row',
       alignItems: 'center',
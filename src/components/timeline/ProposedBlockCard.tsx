@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Dimensions } from '../../constants';
+import { useTheme } from '../../theme/ThemeContext';
+import type { ThemeColors } from '../../constants/colors';
+import type { ProposedBlock } from '../../services';
+
+interface ProposedBlockCardProps {
+  block: Pick<ProposedBlock, 'title' | 'startTime' | 'endTime'> &
+    Partial<Pick<ProposedBlock, 'part' | 'parts'>>;
+  topOffset: number;
+  height: number;
+}
+
+function formatTimeRange(startTime: string, endTime: string): string {
+  const fmt = (d: Date) => {
+    const h = d.getHours();
+    const m = d.getMinutes();
+    const suffix = h >= 12 ? 'PM' : 'AM';
+    const hour12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
+    return m === 0 ? `${hour12} ${suffix}` : `${hour12}:${m.toString().padStart(2, '0')} ${suffix}`;
+  };
+  return `${fmt(new Date(startTime))} - ${fmt(new Date(endTime))}`;
+}
+
+/**
+ * A block the day planner proposes, or where a drag would shift a block to,
+ * drawn as an outline over the timeline until it is applied or dropped.
+ */
+function ProposedBlockCard({ block, topOffset, height }: ProposedBlockCardProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const displayHeight = Math.max(height, 24);
+  const isCompact = height < 36;
+  const partLabel = block.parts && block.parts > 1 ? ` (${block.part}/${block.parts})` : '';
+
+  return (
+    <View
+      style={[styles.container, { top: topOffset, height: displayHeight }]}
+      pointerEvents="none"
+      accessible
+      accessibilityLabel={`Proposed: ${block.title}${partLabel}, ${formatTimeRange(block.startTime, block.endTime)}`}
+    >
+      <Text style={[styles.title, isCompact && styles.titleCompact]} numberOfLines={1}>
+        {block.title}
+        {partLabel}
+      </Text>
+      {!isCompact && (
+        <Text style={styles.time} numberOfLines={1}>
+          {formatTimeRange(block.startTime, block.endTime)}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+export default React.memo(ProposedBlockCard);
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: Dimensions.timelineLeftGutter + 4,
+      right: Dimensions.screenPadding,
+      borderWidth: 1.5,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '14',
+      borderRadius: Dimensions.radiusSmall,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      justifyContent: 'center',
+    },
+    title: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    titleCompact: {
+      fontSize: Dimensions.fontXS,
+    },
+    time: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textSecondary,
+      marginTop: 1,
+    },
+  }), [colors]);
+}
@@ -4,11 +4,14 @@ import { Dimensions } from '../../constants';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
 import type { DeviceReminder } from '../../types';
+import type { ColumnFrame } from '../../utils';
 
 interface ReminderCardProps {
   reminder: DeviceReminder;
   topOffset: number;
   height: number;
+  /** Where it sits beside overlapping items; full width when omitted */
+  columnFrame?: ColumnFrame;
   onPress?: (reminder: DeviceReminder) => void;
 }
 
@@ -21,11 +24,11 @@ function formatTime(isoDate: string): string {
   return m === 0 ? `${hour12} ${suffix}` : `${hour12}:${m.toString().padStart(2, '0')} ${suffix}`;
 }
 
-function ReminderCard({ reminder, topOffset, height, onPress }: ReminderCardProps) {
+function ReminderCard({ reminder, topOffset, height, columnFrame, onPress }: ReminderCardProps) {
   const colors = useTheme();
   const styles = useStyles(colors);
   const reminderColor = reminder.color || '#FB923C';
-  const minHeight = 24;
+  const minHeight = Dimensions.timelineEventMinHeight;
   const displayHeight = Math.max(height, minHeight);
   const isCompact = height < 36;
   const timeStr = reminder.dueDate
@@ -52,6 +55,7 @@ function ReminderCard({ reminder, topOffset, height, onPress }: ReminderCardProp
           borderLeftColor: reminderColor,
           backgroundColor: reminderColor + '12',
         },
+        columnFrame && { left: columnFrame.left, width: columnFrame.width, right: undefined },
       ]}
       onPress={handlePress}
       accessibilityRole="button"
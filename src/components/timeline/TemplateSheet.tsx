@@ -12,7 +12,7 @@ import { parseISO, setHours, setMinutes, addMinutes, format } from 'date-fns';
 import { Dimensions } from '../../constants';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
-import { useTemplateStore, useTaskStore, useTimeBlockStore } from '../../store';
+import { useTemplateStore, useTaskStore, useTimeBlockStore, useHistoryStore } from '../../store';
 import { generateId } from '../../utils';
 import type { Template, TimeBlock, TemplateBlock } from '../../types';
 
@@ -41,6 +41,7 @@ export default function TemplateSheet({ visible, onClose }: TemplateSheetProps)
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
   const addTimeBlock = useTimeBlockStore((s) => s.addTimeBlock);
+  const record = useHistoryStore((s) => s.record);
   const [applying, setApplying] = useState(false);
 
   const applyTemplate = useCallback(
@@ -53,20 +54,22 @@ export default function TemplateSheet({ visible, onClose }: TemplateSheetProps)
 
       const doApply = () => {
         setApplying(true);
-        for (const block of template.blocks) {
-          const start = setMinutes(setHours(selectedParsed, block.startHour), block.startMinute);
-          const end = addMinutes(start, block.durationMinutes);
-          const newBlock: TimeBlock = {
-            id: generateId(),
-            taskId: null,
-            title: block.title,
-            startTime: start.toISOString(),
-            endTime: end.toISOString(),
-            color: block.color,
-            type: block.type,
-          };
-          addTimeBlock(newBlock);
-        }
+        record(`${template.name} applied`, () => {
+          for (const block of template.blocks) {
+            const start = setMinutes(setHours(selectedParsed, block.startHour), block.startMinute);
+            const end = addMinutes(start, block.durationMinutes);
+            const newBlock: TimeBlock = {
+              id: generateId(),
+              taskId: null,
+              title: block.title,
+              startTime: start.toISOString(),
+              endTime: end.toISOString(),
+              color: block.color,
+              type: block.type,
+            };
+            addTimeBlock(newBlock);
+          }
+        }, { notify: true });
         setApplying(false);
         onClose();
       };
@@ -84,7 +87,7 @@ export default function TemplateSheet({ visible, onClose }: TemplateSheetProps)
         doApply();
       }
     },
-    [selectedDate, timeBlocks, addTimeBlock, onClose],
+    [selectedDate, timeBlocks, addTimeBlock, record, onClose],
   );
 
   const saveCurrentAsTemplate = useCallback(() => {
@@ -132,11 +135,16 @@ export default function TemplateSheet({ visible, onClose }: TemplateSheetProps)
         `Delete "${template.name}"?`,
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Delete', style: 'destructive', onPress: () => deleteTemplate(template.id) },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: () =>
+              record('Template deleted', () => deleteTemplate(template.id), { notify: true }),
+          },
         ],
       );
     },
-    [deleteTemplate],
+    [deleteTemplate, record],
   );
 
   // Mini preview of block layout (0-24h)
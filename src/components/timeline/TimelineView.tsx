@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { View, Text, Modal, TextInput, Pressable, StyleSheet, KeyboardAvoidingView, Platform, Alert, ScrollView as RNScrollView, Keyboard, Linking } from 'react-native';
+import type { LayoutChangeEvent } from 'react-native';
 import Animated, {
   useSharedValue,
   useAnimatedScrollHandler,
@@ -10,15 +11,37 @@ import * as Haptics from 'expo-haptics';
 import { Dimensions } from '../../constants';
 import { useTheme } from '../../theme/ThemeContext';
 import type { ThemeColors } from '../../constants/colors';
-import { useTimeBlockStore, useTaskStore, useCalendarStore, useSettingsStore } from '../../store';
-import { generateId, areSameDay, detectConflicts, hasConflict } from '../../utils';
-import type { TimeBlock, TimeBlockType, CalendarEvent, DeviceReminder } from '../../types';
+import {
+  useTimeBlockStore,
+  useTaskStore,
+  useCalendarStore,
+  useSettingsStore,
+  useDayPlanStore,
+  useHistoryStore,
+} from '../../store';
+import {
+  generateId,
+  areSameDay,
+  coversDate,
+  getDaySegment,
+  detectConflicts,
+  hasConflict,
+  getDayHours,
+  getTasksForDate,
+  layoutColumns,
+  getColumnFrame,
+} from '../../utils';
+import type { ColumnFrame, LayoutInterval } from '../../utils';
+import type { Task, TimeBlock, TimeBlockType, CalendarEvent, DeviceReminder } from '../../types';
+import type { ScheduleProposal, OverlapResolution } from '../../services';
 import HourMarker from './HourMarker';
 import DraggableTimeBlock from './DraggableTimeBlock';
 import CalendarEventCard from './CalendarEventCard';
 import ReminderCard from './ReminderCard';
 import CurrentTimeIndicator from './CurrentTimeIndicator';
 import QuickAddButton from './QuickAddButton';
+import ProposedBlockCard from './ProposedBlockCard';
+import AllDayLane from './AllDayLane';
 
 const HOUR_HEIGHT = Dimensions.timelineHourHeight;
 
@@ -51,14 +74,20 @@ function getTypeOptions(colors: ThemeColors): { value: TimeBlockType; label: str
   ];
 }
 
-function getBlockPosition(block: TimeBlock, startHour: number) {
-  const start = new Date(block.startTime);
-  const end = new Date(block.endTime);
-  const startMinutes = (start.getHours() - startHour) * 60 + start.getMinutes();
-  const endMinutes = (end.getHours() - startHour) * 60 + end.getMinutes();
-  const topOffset = (startMinutes / 60) * HOUR_HEIGHT;
-  const height = ((endMinutes - startMinutes) / 60) * HOUR_HEIGHT;
-  return { topOffset, height };
+/**
+ * Where an item sits on the timeline for `date`. An item that runs across
+ * midnight is clipped to the part that falls on that day.
+ */
+function getItemPosition(
+  item: Pick<TimeBlock, 'startTime' | 'endTime'>,
+  date: string,
+  startHour: number,
+) {
+  const segment = getDaySegment(item.startTime, item.endTime, date);
+  if (!segment) return { topOffset: 0, height: 0, clippedStart: false, clippedEnd: false };
+  const topOffset = ((segment.startMinutes - startHour * 60) / 60) * HOUR_HEIGHT;
+  const height = ((segment.endMinutes - segment.startMinutes) / 60) * HOUR_HEIGHT;
+  return { topOffset, height, clippedStart: segment.clippedStart, clippedEnd: segment.clippedEnd };
 }
 
 function topOffsetToDate(topOffset: number, baseDate: string, startHour: number): Date {
@@ -70,16 +99,6 @@ function topOffsetToDate(topOffset: number, baseDate: string, startHour: number)
   return d;
 }
 
-function getEventPosition(event: CalendarEvent, startHour: number) {
-  const start = new Date(event.startTime);
-  const end = new Date(event.endTime);
-  const startMinutes = (start.getHours() - startHour) * 60 + start.getMinutes();
-  const endMinutes = (end.getHours() - startHour) * 60 + end.getMinutes();
-  const topOffset = (startMinutes / 60) * HOUR_HEIGHT;
-  const height = ((endMinutes - startMinutes) / 60) * HOUR_HEIGHT;
-  return { topOffset, height };
-}
-
 function getReminderPosition(reminder: DeviceReminder, startHour: number) {
   const dateStr = reminder.dueDate || reminder.startDate;
   if (!dateStr) return { topOffset: 0, height: HOUR_HEIGHT / 2 };
@@ -90,6 +109,45 @@ function getReminderPosition(reminder: DeviceReminder, startHour: number) {
   return { topOffset, height };
 }
 
+/**
+ * Lay the day's blocks, calendar events and reminders out in columns where
+ * they overlap on screen, keyed `block-`, `cal-` and `rem-` plus their id.
+ * Items that overlap nothing are left out and keep the full width. Extents
+ * are in pixels, so a short item drawn taller than its time counts as tall.
+ */
+function layoutTimelineItems(
+  blocks: TimeBlock[],
+  events: CalendarEvent[],
+  reminders: DeviceReminder[],
+  date: string,
+  startHour: number,
+  timelineWidth: number,
+): Map<string, ColumnFrame> {
+  const toInterval = (
+    id: string,
+    { topOffset, height }: { topOffset: number; height: number },
+    minHeight: number,
+  ): LayoutInterval => ({ id, start: topOffset, end: topOffset + Math.max(height, minHeight) });
+  const blockMin = Dimensions.timelineBlockMinHeight;
+  const eventMin = Dimensions.timelineEventMinHeight;
+  const position = (item: TimeBlock | CalendarEvent) => getItemPosition(item, date, startHour);
+  const intervals = [
+    ...blocks.map((b) => toInterval(`block-${b.id}`, position(b), blockMin)),
+    ...events.map((e) => toInterval(`cal-${e.id}`, position(e), eventMin)),
+    ...reminders.map((r) => toInterval(`rem-${r.id}`, getReminderPosition(r, startHour), eventMin)),
+  ];
+
+  const laneLeft = Dimensions.timelineLeftGutter + 4;
+  const laneWidth = timelineWidth - laneLeft - Dimensions.screenPadding;
+  const frames = new Map<string, ColumnFrame>();
+  for (const [id, slot] of layoutColumns(intervals)) {
+    if (slot.columns > 1) {
+      frames.set(id, getColumnFrame(slot, laneLeft, laneWidth, Dimensions.timelineColumnGap));
+    }
+  }
+  return frames;
+}
+
 function formatStartTime(date: Date): string {
   const h = date.getHours();
   const m = date.getMinutes();
@@ -112,7 +170,34 @@ function getDurationLabel(startTime: string, endTime: string): string {
   return m > 0 ? `${h}h ${m}m` : `${h}h`;
 }
 
-export default function TimelineView() {
+function getProposalSummary(proposal: ScheduleProposal): string {
+  const planned = new Set(proposal.blocks.map((b) => b.taskId)).size;
+  if (planned === 0) return 'No free time left for these tasks';
+  return `${planned} task${planned !== 1 ? 's' : ''} planned`;
+}
+
+interface DragPreview {
+  blockId: string;
+  resolution: OverlapResolution;
+}
+
+interface TimelineViewProps {
+  /** Block to scroll to and open, e.g. from a notification tap */
+  focusBlockId?: string;
+  onFocusHandled?: () => void;
+  /** A day plan to preview over the timeline, with the actions to apply or discard it */
+  proposal?: ScheduleProposal | null;
+  onApplyProposal?: () => void;
+  onDiscardProposal?: () => void;
+}
+
+export default function TimelineView({
+  focusBlockId,
+  onFocusHandled,
+  proposal,
+  onApplyProposal,
+  onDiscardProposal,
+}: TimelineViewProps) {
   const colors = useTheme();
   const styles = useStyles(colors);
   const TYPE_OPTIONS = useMemo(() => getTypeOptions(colors), [colors]);
@@ -121,15 +206,27 @@ export default function TimelineView() {
   const scrollY = useSharedValue(0);
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
+  const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
+  const setTaskStatus = useTaskStore((s) => s.setTaskStatus);
   const addTimeBlock = useTimeBlockStore((s) => s.addTimeBlock);
   const updateTimeBlock = useTimeBlockStore((s) => s.updateTimeBlock);
   const deleteTimeBlock = useTimeBlockStore((s) => s.deleteTimeBlock);
   const moveTimeBlock = useTimeBlockStore((s) => s.moveTimeBlock);
+  const previewBlockChange = useTimeBlockStore((s) => s.previewBlockChange);
+  const record = useHistoryStore((s) => s.record);
   const calendarEvents = useCalendarStore((s) => s.calendarEvents);
   const deviceReminders = useCalendarStore((s) => s.reminders);
   const calendarEnabled = useCalendarStore((s) => s.calendarEnabled);
-  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
-  const dayEndHour = useSettingsStore((s) => s.dayEndHour);
+  const settingsStartHour = useSettingsStore((s) => s.dayStartHour);
+  const settingsEndHour = useSettingsStore((s) => s.dayEndHour);
+  const dayPlan = useDayPlanStore((s) => s.dayPlans[selectedDate]);
+  // The day's own wake/sleep window, if set, bounds the timeline
+  const { startHour: dayStartHour, endHour: dayEndHour } = getDayHours(
+    dayPlan,
+    settingsStartHour,
+    settingsEndHour,
+  );
   const defaultTaskDuration = useSettingsStore((s) => s.defaultTaskDurationMinutes);
 
   const [modalVisible, setModalVisible] = useState(false);
@@ -137,6 +234,8 @@ export default function TimelineView() {
   const [newType, setNewType] = useState<TimeBlockType>('task');
   const [newColor, setNewColor] = useState<string | null>(null); // null = use type default
   const [scrollEnabled, setScrollEnabled] = useState(true);
+  // What the block being dragged or resized would do to the others if dropped now
+  const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
 
   // Edit/Delete bottom sheet state
   const [editSheetVisible, setEditSheetVisible] = useState(false);
@@ -148,39 +247,82 @@ export default function TimelineView() {
   const [calEventSheetVisible, setCalEventSheetVisible] = useState(false);
   const [selectedCalEvent, setSelectedCalEvent] = useState<CalendarEvent | null>(null);
 
-  // Filter blocks for the selected date
-  const todayBlocks = timeBlocks.filter((b) => areSameDay(b.startTime, selectedDate));
+  // Blocks covering the selected date, including ones that run into it from
+  // the day before or on into the next
+  const todayBlocks = useMemo(
+    () => timeBlocks.filter((b) => coversDate(b.startTime, b.endTime, selectedDate)),
+    [timeBlocks, selectedDate],
+  );
+
+  // The part of each block that falls on the selected date
+  const todaySegments = useMemo(
+    () => todayBlocks.map((b) => getDaySegment(b.startTime, b.endTime, selectedDate)!),
+    [todayBlocks, selectedDate],
+  );
 
   // Extend visible range to include blocks that fall outside configured hours
   const renderStartHour = useMemo(() => {
-    if (todayBlocks.length === 0) return dayStartHour;
-    const earliest = Math.min(...todayBlocks.map((b) => new Date(b.startTime).getHours()));
+    if (todaySegments.length === 0) return dayStartHour;
+    const earliest = Math.min(...todaySegments.map((s) => Math.floor(s.startMinutes / 60)));
     return Math.min(dayStartHour, earliest);
-  }, [todayBlocks, dayStartHour]);
+  }, [todaySegments, dayStartHour]);
 
   const renderEndHour = useMemo(() => {
-    if (todayBlocks.length === 0) return dayEndHour;
-    const latest = Math.max(...todayBlocks.map((b) => {
-      const end = new Date(b.endTime);
-      return end.getMinutes() > 0 ? end.getHours() + 1 : end.getHours();
-    }));
+    if (todaySegments.length === 0) return dayEndHour;
+    const latest = Math.max(...todaySegments.map((s) => Math.ceil(s.endMinutes / 60)));
     return Math.max(dayEndHour, latest);
-  }, [todayBlocks, dayEndHour]);
+  }, [todaySegments, dayEndHour]);
 
   const totalHours = renderEndHour - renderStartHour;
 
-  // Filter calendar events for the selected date
-  const todayEvents = calendarEnabled
-    ? calendarEvents.filter((e) => areSameDay(e.startTime, selectedDate))
-    : [];
+  // Calendar events covering the selected date; all-day ones go in their own lane
+  const dayEvents = useMemo(
+    () =>
+      calendarEnabled
+        ? calendarEvents.filter((e) => coversDate(e.startTime, e.endTime, selectedDate))
+        : [],
+    [calendarEnabled, calendarEvents, selectedDate],
+  );
+  const todayEvents = useMemo(() => dayEvents.filter((e) => !e.allDay), [dayEvents]);
+  const allDayEvents = useMemo(() => dayEvents.filter((e) => e.allDay), [dayEvents]);
+
+  // Tasks with a date but no time go in the all-day lane too
+  const dateOnlyTasks = useMemo(
+    () =>
+      getTasksForDate(tasks, occurrences, selectedDate).filter(
+        (t) => !t.scheduledTime && t.status !== 'cancelled',
+      ),
+    [tasks, occurrences, selectedDate],
+  );
 
   // Filter reminders for the selected date (by dueDate or startDate)
-  const todayReminders = calendarEnabled
-    ? deviceReminders.filter((r) => {
-        const dateStr = r.dueDate || r.startDate;
-        return dateStr ? areSameDay(dateStr, selectedDate) : false;
-      })
-    : [];
+  const todayReminders = useMemo(
+    () =>
+      calendarEnabled
+        ? deviceReminders.filter((r) => {
+            const dateStr = r.dueDate || r.startDate;
+            return dateStr ? areSameDay(dateStr, selectedDate) : false;
+          })
+        : [],
+    [calendarEnabled, deviceReminders, selectedDate],
+  );
+
+  // Overlapping items sit side by side once the timeline's width is known
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setTimelineWidth(e.nativeEvent.layout.width);
+  }, []);
+  const columnFrames =
+    timelineWidth > 0
+      ? layoutTimelineItems(
+          todayBlocks,
+          todayEvents,
+          todayReminders,
+          selectedDate,
+          renderStartHour,
+          timelineWidth,
+        )
+      : new Map<string, ColumnFrame>();
 
   // Detect conflicts between time blocks and calendar events
   const conflicts = useMemo(
@@ -230,6 +372,33 @@ export default function TimelineView() {
     return () => clearTimeout(timer);
   }, [scrollRef, renderStartHour]);
 
+  // Open a block requested from outside (notification deep link)
+  const [prevFocusBlockId, setPrevFocusBlockId] = useState<string | undefined>();
+  if (focusBlockId !== prevFocusBlockId) {
+    setPrevFocusBlockId(focusBlockId);
+    const focused = focusBlockId ? todayBlocks.find((b) => b.id === focusBlockId) : undefined;
+    if (focused) {
+      setSelectedBlock(focused);
+      setEditTitle(focused.title);
+      setIsEditingTitle(false);
+      setEditSheetVisible(true);
+    }
+  }
+
+  // ...and scroll it into view
+  useEffect(() => {
+    if (!focusBlockId) return;
+    const block = todayBlocks.find((b) => b.id === focusBlockId);
+    if (block) {
+      const { topOffset } = getItemPosition(block, selectedDate, renderStartHour);
+      // Not cleared on re-run: clearing the request re-runs this effect
+      setTimeout(() => {
+        scrollTo(scrollRef, 0, Math.max(0, topOffset - 120), true);
+      }, 100);
+    }
+    onFocusHandled?.();
+  }, [focusBlockId, todayBlocks, selectedDate, renderStartHour, scrollRef, onFocusHandled]);
+
   const scrollHandler = useAnimatedScrollHandler({
     onScroll: (e) => {
       scrollY.value = e.contentOffset.y;
@@ -238,30 +407,87 @@ export default function TimelineView() {
 
   const handleDragStateChange = useCallback((isDragging: boolean) => {
     setScrollEnabled(!isDragging);
+    if (!isDragging) setDragPreview(null);
   }, []);
 
+  // Where a block dragged to `newTopOffset` would start and end
+  const getMovedTimes = useCallback(
+    (block: TimeBlock, newTopOffset: number) => {
+      const durationMs = new Date(block.endTime).getTime() - new Date(block.startTime).getTime();
+      const newStart = topOffsetToDate(newTopOffset, selectedDate, renderStartHour);
+      const newEnd = new Date(newStart.getTime() + durationMs);
+      return { startTime: newStart.toISOString(), endTime: newEnd.toISOString() };
+    },
+    [selectedDate, renderStartHour],
+  );
+
+  // Where a block resized to `newHeight` would end
+  const getResizedEndTime = useCallback(
+    (block: TimeBlock, newHeight: number) => {
+      const { topOffset } = getItemPosition(block, selectedDate, renderStartHour);
+      return topOffsetToDate(topOffset + newHeight, selectedDate, renderStartHour).toISOString();
+    },
+    [selectedDate, renderStartHour],
+  );
+
+  /**
+   * Move or resize a block as the overlap policy allows, telling the user
+   * why when the change is refused.
+   */
+  const changeBlock = useCallback(
+    (label: string, blockId: string, startTime: string, endTime: string, notify?: boolean) => {
+      const resolution = previewBlockChange(blockId, startTime, endTime);
+      if (!resolution.ok) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        Alert.alert("Can't Move Block", resolution.reason);
+        return;
+      }
+      record(label, () => moveTimeBlock(blockId, startTime, endTime), { notify });
+    },
+    [previewBlockChange, moveTimeBlock, record],
+  );
+
+  const handleMoveUpdate = useCallback(
+    (blockId: string, newTopOffset: number) => {
+      const block = timeBlocks.find((b) => b.id === blockId);
+      if (!block) return;
+      const { startTime, endTime } = getMovedTimes(block, newTopOffset);
+      setDragPreview({ blockId, resolution: previewBlockChange(blockId, startTime, endTime) });
+    },
+    [timeBlocks, getMovedTimes, previewBlockChange],
+  );
+
+  const handleResizeUpdate = useCallback(
+    (blockId: string, newHeight: number) => {
+      const block = timeBlocks.find((b) => b.id === blockId);
+      if (!block) return;
+      const endTime = getResizedEndTime(block, newHeight);
+      const resolution = previewBlockChange(blockId, block.startTime, endTime);
+      setDragPreview({ blockId, resolution });
+    },
+    [timeBlocks, getResizedEndTime, previewBlockChange],
+  );
+
   const handleMoveEnd = useCallback(
     (blockId: string, newTopOffset: number) => {
       const block = timeBlocks.find((b) => b.id === blockId);
       if (!block) return;
-      const durationMs = new Date(block.endTime).getTime() - new Date(block.startTime).getTime();
-      const newStart = topOffsetToDate(newTopOffset, selectedDate, renderStartHour);
-      const newEnd = new Date(newStart.getTime() + durationMs);
-      moveTimeBlock(blockId, newStart.toISOString(), newEnd.toISOString());
+      const { startTime, endTime } = getMovedTimes(block, newTopOffset);
+      if (startTime === block.startTime) return;
+      changeBlock('Block moved', blockId, startTime, endTime, true);
     },
-    [timeBlocks, selectedDate, moveTimeBlock, renderStartHour],
+    [timeBlocks, getMovedTimes, changeBlock],
   );
 
   const handleResizeEnd = useCallback(
     (blockId: string, newHeight: number) => {
       const block = timeBlocks.find((b) => b.id === blockId);
       if (!block) return;
-      const { topOffset } = getBlockPosition(block, renderStartHour);
-      const newEndOffset = topOffset + newHeight;
-      const newEnd = topOffsetToDate(newEndOffset, selectedDate, renderStartHour);
-      updateTimeBlock(blockId, { endTime: newEnd.toISOString() });
+      const endTime = getResizedEndTime(block, newHeight);
+      if (endTime === block.endTime) return;
+      changeBlock('Block resized', blockId, block.startTime, endTime, true);
     },
-    [timeBlocks, selectedDate, updateTimeBlock, renderStartHour],
+    [timeBlocks, getResizedEndTime, changeBlock],
   );
 
   const STEP_MINUTES = 15;
@@ -275,9 +501,9 @@ export default function TimelineView() {
       newStart.setMinutes(newStart.getMinutes() - STEP_MINUTES);
       newEnd.setMinutes(newEnd.getMinutes() - STEP_MINUTES);
       if (newStart.getHours() < dayStartHour) return;
-      moveTimeBlock(blockId, newStart.toISOString(), newEnd.toISOString());
+      changeBlock('Block moved', blockId, newStart.toISOString(), newEnd.toISOString());
     },
-    [timeBlocks, dayStartHour, moveTimeBlock],
+    [timeBlocks, dayStartHour, changeBlock],
   );
 
   const handleMoveDown = useCallback(
@@ -289,9 +515,9 @@ export default function TimelineView() {
       newStart.setMinutes(newStart.getMinutes() + STEP_MINUTES);
       newEnd.setMinutes(newEnd.getMinutes() + STEP_MINUTES);
       if (newEnd.getHours() >= dayEndHour && newEnd.getMinutes() > 0) return;
-      moveTimeBlock(blockId, newStart.toISOString(), newEnd.toISOString());
+      changeBlock('Block moved', blockId, newStart.toISOString(), newEnd.toISOString());
     },
-    [timeBlocks, dayEndHour, moveTimeBlock],
+    [timeBlocks, dayEndHour, changeBlock],
   );
 
   const handleQuickAdd = useCallback(() => {
@@ -331,9 +557,9 @@ export default function TimelineView() {
       type: newType,
     };
 
-    addTimeBlock(block);
+    record('Block added', () => addTimeBlock(block));
     setModalVisible(false);
-  }, [newTitle, newType, newBlockStart, newBlockEnd, addTimeBlock, colors]);
+  }, [newTitle, newType, newBlockStart, newBlockEnd, addTimeBlock, record, colors]);
 
   // --- Tap-to-edit handlers ---
   const handleBlockPress = useCallback((block: TimeBlock) => {
@@ -368,32 +594,78 @@ export default function TimelineView() {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            deleteTimeBlock(selectedBlock.id);
+            record('Block deleted', () => deleteTimeBlock(selectedBlock.id), { notify: true });
             setEditSheetVisible(false);
             setSelectedBlock(null);
           },
         },
       ],
     );
-  }, [selectedBlock, deleteTimeBlock]);
+  }, [selectedBlock, deleteTimeBlock, record]);
+
+  // Completing a task block completes the task it is linked to
+  const linkedTask = selectedBlock?.taskId
+    ? tasks.find((t) => t.id === selectedBlock.taskId)
+    : undefined;
+  const linkedTaskDone = linkedTask?.status === 'done';
+
+  const handleToggleTaskDone = useCallback(() => {
+    if (!linkedTask) return;
+    record(linkedTaskDone ? 'Task reopened' : 'Task completed', () =>
+      setTaskStatus(linkedTask.id, linkedTaskDone ? 'todo' : 'done'),
+    );
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setEditSheetVisible(false);
+  }, [linkedTask, linkedTaskDone, setTaskStatus, record]);
+
+  // Tapping a task in the all-day lane ticks it off, or reopens it
+  const handleToggleDateOnlyTask = useCallback((task: Task) => {
+    const done = task.status === 'done';
+    record(done ? 'Task reopened' : 'Task completed', () =>
+      setTaskStatus(task.id, done ? 'todo' : 'done'),
+    );
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [setTaskStatus, record]);
+
+  const handleTogglePinned = useCallback(() => {
+    if (!selectedBlock) return;
+    const pinned = !selectedBlock.pinned;
+    record(pinned ? 'Block pinned' : 'Block unpinned', () =>
+      updateTimeBlock(selectedBlock.id, { pinned }),
+    );
+    setSelectedBlock({ ...selectedBlock, pinned });
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  }, [selectedBlock, updateTimeBlock, record]);
 
   const handleSaveTitle = useCallback(() => {
     if (!selectedBlock) return;
     const title = editTitle.trim();
     if (!title) return;
-    updateTimeBlock(selectedBlock.id, { title });
+    record('Block renamed', () => updateTimeBlock(selectedBlock.id, { title }));
     setSelectedBlock({ ...selectedBlock, title });
     setIsEditingTitle(false);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [selectedBlock, editTitle, updateTimeBlock]);
+  }, [selectedBlock, editTitle, updateTimeBlock, record]);
 
   const totalHeight = totalHours * HOUR_HEIGHT;
   const hasBlocks = todayBlocks.length > 0;
   const selectedTypeOption = TYPE_OPTIONS.find((o) => o.value === newType)!;
   const selectedBlockIcon = selectedBlock ? (TYPE_ICONS[selectedBlock.type] || '\u2611') : '\u2611';
+  // Blocks a drop would shift, other than the one being dragged
+  const previewShifts = dragPreview?.resolution.ok
+    ? dragPreview.resolution.shifts.filter((shift) => shift.id !== dragPreview.blockId)
+    : [];
+  const previewRejection =
+    dragPreview && !dragPreview.resolution.ok ? dragPreview.resolution.reason : null;
 
   return (
-    <View style={styles.wrapper}>
+    <View style={styles.wrapper} onLayout={handleLayout}>
+      <AllDayLane
+        events={allDayEvents}
+        tasks={dateOnlyTasks}
+        onEventPress={handleCalEventPress}
+        onTaskPress={handleToggleDateOnlyTask}
+      />
       <Animated.ScrollView
         ref={scrollRef}
         style={styles.scroll}
@@ -412,7 +684,11 @@ export default function TimelineView() {
 
         {/* Time blocks (draggable) */}
         {todayBlocks.map((block) => {
-          const { topOffset, height } = getBlockPosition(block, renderStartHour);
+          const { topOffset, height, clippedStart, clippedEnd } = getItemPosition(
+            block,
+            selectedDate,
+            renderStartHour,
+          );
           return (
             <DraggableTimeBlock
               key={block.id}
@@ -421,8 +697,13 @@ export default function TimelineView() {
               height={height}
               timelineHeight={totalHeight}
               hasConflict={hasConflict(block.id, conflicts)}
+              columnFrame={columnFrames.get(`block-${block.id}`)}
+              clippedStart={clippedStart}
+              clippedEnd={clippedEnd}
               onMoveEnd={handleMoveEnd}
               onResizeEnd={handleResizeEnd}
+              onMoveUpdate={handleMoveUpdate}
+              onResizeUpdate={handleResizeUpdate}
               onDragStateChange={handleDragStateChange}
               onMoveUp={handleMoveUp}
               onMoveDown={handleMoveDown}
@@ -433,7 +714,11 @@ export default function TimelineView() {
 
         {/* Calendar events (read-only overlay) */}
         {todayEvents.map((event) => {
-          const { topOffset, height } = getEventPosition(event, renderStartHour);
+          const { topOffset, height, clippedStart, clippedEnd } = getItemPosition(
+            event,
+            selectedDate,
+            renderStartHour,
+          );
           const eventHasConflict = conflicts.some(
             (c) => c.calendarEventId === event.id,
           );
@@ -444,6 +729,9 @@ export default function TimelineView() {
               topOffset={topOffset}
               height={height}
               hasConflict={eventHasConflict}
+              columnFrame={columnFrames.get(`cal-${event.id}`)}
+              clippedStart={clippedStart}
+              clippedEnd={clippedEnd}
               onPress={handleCalEventPress}
             />
           );
@@ -460,15 +748,42 @@ export default function TimelineView() {
                 reminder={reminder}
                 topOffset={topOffset}
                 height={height}
+                columnFrame={columnFrames.get(`rem-${reminder.id}`)}
               />
             );
           })}
 
+        {/* Proposed blocks from the day planner (preview only) */}
+        {proposal?.blocks.map((block) => {
+          const { topOffset, height } = getItemPosition(block, selectedDate, renderStartHour);
+          return (
+            <ProposedBlockCard
+              key={`plan-${block.taskId}-${block.part}`}
+              block={block}
+              topOffset={topOffset}
+              height={height}
+            />
+          );
+        })}
+
+        {/* Where the blocks a drop would shift end up (drag preview) */}
+        {previewShifts.map((shift) => {
+          const { topOffset, height } = getItemPosition(shift, selectedDate, renderStartHour);
+          return (
+            <ProposedBlockCard
+              key={`shift-${shift.id}`}
+              block={shift}
+              topOffset={topOffset}
+              height={height}
+            />
+          );
+        })}
+
         {/* Current time indicator */}
         <CurrentTimeIndicator startHour={renderStartHour} />
 
         {/* Empty state */}
-        {!hasBlocks && (
+        {!hasBlocks && !proposal && (
           <View
             style={styles.emptyState}
             accessible
@@ -494,7 +809,50 @@ export default function TimelineView() {
         )}
       </Animated.ScrollView>
 
-      {hasBlocks && <QuickAddButton onPress={handleQuickAdd} />}
+      {previewRejection && (
+        <View style={styles.dragBanner} pointerEvents="none" accessibilityLiveRegion="polite">
+          <Text style={styles.dragBannerText} numberOfLines={2}>
+            {previewRejection}
+          </Text>
+        </View>
+      )}
+
+      {proposal ? (
+        <View style={styles.proposalBar}>
+          <View style={styles.proposalSummary}>
+            <Text style={styles.proposalTitle}>{getProposalSummary(proposal)}</Text>
+            {proposal.deferred.length > 0 && (
+              <Text style={styles.proposalDetail} numberOfLines={2}>
+                {`Didn't fit: ${proposal.deferred.map((t) => t.title).join(', ')}`}
+              </Text>
+            )}
+          </View>
+          <Pressable
+            onPress={onDiscardProposal}
+            style={({ pressed }) => [styles.proposalButton, pressed && styles.proposalButtonPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Discard proposed plan"
+          >
+            <Text style={styles.proposalDiscardText}>Discard</Text>
+          </Pressable>
+          {proposal.blocks.length > 0 && (
+            <Pressable
+              onPress={onApplyProposal}
+              style={({ pressed }) => [
+                styles.proposalButton,
+                styles.proposalApplyButton,
+                pressed && styles.proposalApplyButtonPressed,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Apply proposed plan"
+            >
+              <Text style={styles.proposalApplyText}>Apply</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        hasBlocks && <QuickAddButton onPress={handleQuickAdd} />
+      )}
 
       {/* === EDIT/DELETE BOTTOM SHEET === */}
       <Modal
@@ -565,6 +923,56 @@ export default function TimelineView() {
 
                   <View style={styles.editActionDivider} />
 
+                  <Pressable
+                    style={({ pressed }) => [styles.editActionButton, pressed && styles.editActionPressed]}
+                    onPress={handleTogglePinned}
+                    accessibilityRole="button"
+                    accessibilityLabel={selectedBlock.pinned ? 'Unpin block' : 'Pin block'}
+                  >
+                    <View style={[styles.editActionIcon, { backgroundColor: colors.warning + '15' }]}>
+                      <Text style={styles.editActionEmoji}>{'\u{1F4CC}'}</Text>
+                    </View>
+                    <View style={styles.editActionContent}>
+                      <Text style={styles.editActionTitle}>
+                        {selectedBlock.pinned ? 'Unpin Block' : 'Pin Block'}
+                      </Text>
+                      <Text style={styles.editActionDesc}>
+                        {selectedBlock.pinned
+                          ? 'Let it be moved again'
+                          : 'Keep it in place when other blocks move'}
+                      </Text>
+                    </View>
+                    <Text style={styles.editActionChevron}>{'\u203A'}</Text>
+                  </Pressable>
+
+                  <View style={styles.editActionDivider} />
+
+                  {linkedTask && (
+                    <>
+                      <Pressable
+                        style={({ pressed }) => [styles.editActionButton, pressed && styles.editActionPressed]}
+                        onPress={handleToggleTaskDone}
+                        accessibilityRole="button"
+                        accessibilityLabel={linkedTaskDone ? 'Mark task as not done' : 'Mark task as done'}
+                      >
+                        <View style={[styles.editActionIcon, { backgroundColor: colors.success + '15' }]}>
+                          <Text style={styles.editActionEmoji}>{linkedTaskDone ? '\u21A9\uFE0F' : '\u2705'}</Text>
+                        </View>
+                        <View style={styles.editActionContent}>
+                          <Text style={styles.editActionTitle}>
+                            {linkedTaskDone ? 'Mark Not Done' : 'Complete Task'}
+                          </Text>
+                          <Text style={styles.editActionDesc}>
+                            {linkedTaskDone ? 'Reopen the linked task' : 'Mark the linked task as done'}
+                          </Text>
+                        </View>
+                        <Text style={styles.editActionChevron}>{'\u203A'}</Text>
+                      </Pressable>
+
+                      <View style={styles.editActionDivider} />
+                    </>
+                  )}
+
                   <Pressable
                     style={({ pressed }) => [styles.editActionButton, pressed && styles.editActionPressed]}
                     onPress={() => {
@@ -579,7 +987,9 @@ export default function TimelineView() {
                     </View>
                     <View style={styles.editActionContent}>
                       <Text style={[styles.editActionTitle, { color: colors.error }]}>Delete Block</Text>
-                      <Text style={styles.editActionDesc}>Remove from timeline</Text>
+                      <Text style={styles.editActionDesc}>
+                        {linkedTask ? 'Remove from timeline and unschedule the task' : 'Remove from timeline'}
+                      </Text>
                     </View>
                     <Text style={[styles.editActionChevron, { color: colors.error }]}>{'\u203A'}</Text>
                   </Pressable>
@@ -624,7 +1034,9 @@ export default function TimelineView() {
                       {selectedCalEvent.title}
                     </Text>
                     <Text style={[styles.editTime, { color: selectedCalEvent.color || '#8B5CF6' }]}>
-                      {formatTimeRange(selectedCalEvent.startTime, selectedCalEvent.endTime)}
+                      {selectedCalEvent.allDay
+                        ? 'All day'
+                        : formatTimeRange(selectedCalEvent.startTime, selectedCalEvent.endTime)}
                     </Text>
                   </View>
                 </View>
@@ -899,6 +1311,85 @@ function useStyles(colors: ThemeColors) {
       color: '#FFFFFF',
       letterSpacing: 0.2,
     },
+    // --- Day plan proposal ---
+    proposalBar: {
+      position: 'absolute',
+      left: Dimensions.screenPadding,
+      right: Dimensions.screenPadding,
+      bottom: 24,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      backgroundColor: colors.surface,
+      borderRadius: 18,
+      paddingVertical: 10,
+      paddingLeft: 16,
+      paddingRight: 10,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.12,
+      shadowRadius: 12,
+      elevation: 8,
+    },
+    proposalSummary: {
+      flex: 1,
+    },
+    proposalTitle: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    proposalDetail: {
+      fontSize: Dimensions.fontXS,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    proposalButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 12,
+    },
+    proposalButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    proposalDiscardText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    proposalApplyButton: {
+      backgroundColor: colors.primary,
+    },
+    proposalApplyButtonPressed: {
+      backgroundColor: colors.primaryDark,
+    },
+    proposalApplyText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+    // --- Drag preview ---
+    dragBanner: {
+      position: 'absolute',
+      top: 12,
+      left: Dimensions.screenPadding,
+      right: Dimensions.screenPadding,
+      backgroundColor: colors.error,
+      borderRadius: 12,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.12,
+      shadowRadius: 8,
+      elevation: 6,
+    },
+    dragBannerText: {
+      fontSize: Dimensions.fontSM,
+      fontWeight: '600',
+      color: '#FFFFFF',
+      textAlign: 'center',
+    },
     // --- Edit/Delete Bottom Sheet ---
     editOverlay: {
       flex: 1,
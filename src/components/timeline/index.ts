@@ -7,3 +7,6 @@ export { default as ReminderCard } from './ReminderCard';
 export { default as CurrentTimeIndicator } from './CurrentTimeIndicator';
 export { default as QuickAddButton } from './QuickAddButton';
 export { default as TemplateSheet } from './TemplateSheet';
+export { default as DayWindowBar } from './DayWindowBar';
+export { default as ProposedBlockCard } from './ProposedBlockCard';
+export { default as AllDayLane } from './AllDayLane';
@@ -5,4 +5,5 @@ export const Config = {
   dateFormat: 'yyyy-MM-dd',
   timeFormat: 'HH:mm',
   dbName: 'daydeck.db',
+  loadWindowDays: 35, // days either side of the selected date kept in memory
 } as const;
@@ -6,5 +6,9 @@ export const Defaults = {
   quietHoursEnd: '07:00',
   carryOverBehavior: 'auto' as const,
   reminderOffsetMinutes: 15,
+  allDayReminderTime: '09:00',
   calendarSyncEnabled: false,
+  notificationsEnabled: true,
+  trashRetentionDays: 30,
+  overlapPolicy: 'push' as const,
 } as const;
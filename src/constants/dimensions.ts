@@ -4,6 +4,9 @@ export const Dimensions = {
   timelineLeftGutter: 56,
   timelineStartHour: 6,
   timelineEndHour: 22,
+  timelineBlockMinHeight: 52, // short blocks are drawn taller than their time so they stay readable
+  timelineEventMinHeight: 24, // likewise for calendar events and reminders
+  timelineColumnGap: 4, // between items laid side by side
 
   // Spacing
   screenPadding: 16,
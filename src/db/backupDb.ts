@@ -0,0 +1,104 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { Task, TaskOccurrence, TimeBlock, Template, DayPlan } from '../types';
+import { loadAllTasks, saveTask } from './taskDb';
+import { loadAllOccurrences, saveOccurrence } from './occurrenceDb';
+import { loadAllTimeBlocks, saveTimeBlock } from './timeBlockDb';
+import { loadAllTemplates, saveTemplate } from './templateDb';
+import { loadAllDayPlans, saveDayPlan } from './dayPlanDb';
+import { loadSettings, saveSetting } from './settingsDb';
+
+/**
+ * Every row a backup carries, as loaded from (or written to) SQLite.
+ */
+export interface BackupData {
+  tasks: Task[];
+  occurrences: TaskOccurrence[];
+  timeBlocks: TimeBlock[];
+  templates: Template[];
+  dayPlans: DayPlan[];
+  settings: Record<string, string>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * The rows in the trash, by id, with the time each was deleted. A merge
+ * checks them so a restore does not bring back what the user threw away.
+ */
+export interface TrashedRows {
+  tasks: Record<string, string>;
+  timeBlocks: Record<string, string>;
+  templates: Record<string, string>;
+}
+
+/**
+ * Read the whole database into a BackupData snapshot. The trash is not
+ * part of a backup.
+ */
+export async function readBackupData(db: SQLiteDatabase): Promise<BackupData> {
+  const [tasks, occurrences, timeBlocks, templates, dayPlans, settings] = await Promise.all([
+    loadAllTasks(db),
+    loadAllOccurrences(db),
+    loadAllTimeBlocks(db),
+    loadAllTemplates(db),
+    loadAllDayPlans(db),
+    loadSettings(db),
+  ]);
+  const taskIds = new Set(tasks.map((t) => t.id));
+  return {
+    tasks,
+    occurrences: occurrences.filter((o) => taskIds.has(o.taskId)),
+    timeBlocks,
+    templates,
+    dayPlans: Object.values(dayPlans),
+    settings,
+  };
+}
+
+/**
+ * Read the ids and deletion times of every trashed task, block and template.
+ */
+export async function readTrashedRows(db: SQLiteDatabase): Promise<TrashedRows> {
+  const [tasks, timeBlocks, templates] = await Promise.all(
+    ['tasks', 'time_blocks', 'templates'].map((table) =>
+      db.getAllAsync<{ id: string; deleted_at: string }>(
+        `SELECT id, deleted_at FROM ${table} WHERE deleted_at IS NOT NULL`,
+      ),
+    ),
+  );
+  const byId = (rows: { id: string; deleted_at: string }[]) =>
+    Object.fromEntries(rows.map((row) => [row.id, row.deleted_at]));
+  return { tasks: byId(tasks), timeBlocks: byId(timeBlocks), templates: byId(templates) };
+}
+
+/**
+ * Write backup rows in a single transaction. 'replace' clears every table
+ * first; 'merge' upserts the given rows over what is already there.
+ * If any write fails, the database is left untouched.
+ */
+export async function writeBackupData(
+  db: SQLiteDatabase,
+  data: BackupData,
+  mode: RestoreMode,
+): Promise<void> {
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    if (mode === 'replace') {
+      await txn.execAsync(`
+        DELETE FROM subtasks;
+        DELETE FROM task_occurrences;
+        DELETE FROM tasks;
+        DELETE FROM time_blocks;
+        DELETE FROM templates;
+        DELETE FROM day_plans;
+        DELETE FROM settings;
+      `);
+    }
+
+    for (const task of data.tasks) await saveTask(txn, task);
+    for (const occurrence of data.occurrences) await saveOccurrence(txn, occurrence);
+    for (const block of data.timeBlocks) await saveTimeBlock(txn, block);
+    for (const template of data.templates) await saveTemplate(txn, template);
+    for (const plan of data.dayPlans) await saveDayPlan(txn, plan);
+    for (const [key, value] of Object.entries(data.settings)) await saveSetting(txn, key, value);
+  });
+}
@@ -1,6 +1,5 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 import type { DayPlan } from '../types';
-import { Defaults } from '../constants';
 
 interface DayPlanRow {
   date: string;
@@ -13,8 +12,9 @@ interface DayPlanRow {
 function rowToDayPlan(row: DayPlanRow): DayPlan {
   return {
     date: row.date,
-    wakeTime: row.wake_time,
-    sleepTime: row.sleep_time,
+    // An empty time means the day follows the configured day start/end
+    wakeTime: row.wake_time || null,
+    sleepTime: row.sleep_time || null,
     taskIds: JSON.parse(row.task_ids_json) as string[],
     timeBlockIds: JSON.parse(row.time_block_ids_json) as string[],
   };
@@ -23,13 +23,25 @@ function rowToDayPlan(row: DayPlanRow): DayPlan {
 function createDefaultDayPlan(date: string): DayPlan {
   return {
     date,
-    wakeTime: Defaults.quietHoursEnd, // "07:00"
-    sleepTime: Defaults.quietHoursStart, // "22:00"
+    wakeTime: null,
+    sleepTime: null,
     taskIds: [],
     timeBlockIds: [],
   };
 }
 
+/**
+ * Load every stored day plan, keyed by date.
+ */
+export async function loadAllDayPlans(db: SQLiteDatabase): Promise<Record<string, DayPlan>> {
+  const rows = await db.getAllAsync<DayPlanRow>('SELECT * FROM day_plans');
+  const plans: Record<string, DayPlan> = {};
+  for (const row of rows) {
+    plans[row.date] = rowToDayPlan(row);
+  }
+  return plans;
+}
+
 /**
  * Load a day plan from SQLite by date.
  * If no plan exists for the given date, creates and persists a default one.
@@ -64,8 +76,8 @@ export async function saveDayPlan(db: SQLiteDatabase, plan: DayPlan): Promise<vo
        time_block_ids_json = excluded.time_block_ids_json`,
     [
       plan.date,
-      plan.wakeTime,
-      plan.sleepTime,
+      plan.wakeTime ?? '',
+      plan.sleepTime ?? '',
       JSON.stringify(plan.taskIds),
       JSON.stringify(plan.timeBlockIds),
     ],
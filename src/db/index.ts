@@ -1,6 +1,48 @@
-export { initDatabase } from './schema';
-export { loadAllTasks, saveTask, deleteTaskFromDb } from './taskDb';
-export { loadAllTimeBlocks, saveTimeBlock, deleteTimeBlockFromDb } from './timeBlockDb';
-export { loadDayPlan, saveDayPlan } from './dayPlanDb';
+export { CURRENT_VERSION, getSchemaVersion, migrateDatabase } from './schema';
+export type { Migration, MigrationStep } from './schema';
+export {
+  loadAllTasks,
+  loadTasksInRange,
+  loadTasksInSeries,
+  loadOpenTasksBefore,
+  loadDeletedTasks,
+  loadTaskIds,
+  saveTask,
+  deleteTaskFromDb,
+  purgeTaskFromDb,
+} from './taskDb';
+export {
+  loadAllTimeBlocks,
+  loadTimeBlocksInRange,
+  loadLinkedTimeBlocksForRange,
+  loadDeletedTimeBlocks,
+  loadDeletedTimeBlocksOfTask,
+  loadTimeBlockIds,
+  saveTimeBlock,
+  deleteTimeBlockFromDb,
+  purgeTimeBlockFromDb,
+} from './timeBlockDb';
+export {
+  loadAllOccurrences,
+  loadOccurrencesInRange,
+  loadOccurrencesInSeries,
+  saveOccurrence,
+  deleteOccurrence,
+  deleteOccurrencesForTask,
+} from './occurrenceDb';
+export { loadDayPlan, loadAllDayPlans, saveDayPlan } from './dayPlanDb';
 export { loadSettings, saveSetting } from './settingsDb';
-export { loadAllTemplates, saveTemplate, deleteTemplateFromDb } from './templateDb';
+export {
+  loadAllTemplates,
+  loadDeletedTemplates,
+  saveTemplate,
+  deleteTemplateFromDb,
+  purgeTemplateFromDb,
+} from './templateDb';
+export { loadTrash, purgeTrash } from './trashDb';
+export { readBackupData, readTrashedRows, writeBackupData } from './backupDb';
+export type { BackupData, RestoreMode, TrashedRows } from './backupDb';
+export { createWriteQueue, isTransientWriteError } from './writeQueue';
+export type { WriteOperation, WriteFailure, WriteQueue, WriteQueueOptions } from './writeQueue';
+export { readIntegrityRows, repairIntegrityIssues } from './integrityDb';
+export type { IntegrityRows } from './integrityDb';
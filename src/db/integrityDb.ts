@@ -0,0 +1,89 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { IntegrityIssue } from '../types';
+
+export interface IntegrityTaskRow {
+  id: string;
+  title: string;
+  recurrence_json: string | null;
+  notifications_json: string | null;
+  deleted_at: string | null;
+}
+
+export interface IntegrityTimeBlockRow {
+  id: string;
+  task_id: string | null;
+  title: string;
+  start_time: string;
+  deleted_at: string | null;
+}
+
+export interface IntegrityDayPlanRow {
+  date: string;
+  task_ids_json: string;
+  time_block_ids_json: string;
+}
+
+export interface IntegrityTemplateRow {
+  id: string;
+  name: string;
+  blocks_json: string;
+}
+
+/**
+ * The raw columns the integrity check inspects, including trashed rows and
+ * JSON that may not parse.
+ */
+export interface IntegrityRows {
+  tasks: IntegrityTaskRow[];
+  timeBlocks: IntegrityTimeBlockRow[]; // ordered by start time
+  dayPlans: IntegrityDayPlanRow[];
+  templates: IntegrityTemplateRow[];
+}
+
+export async function readIntegrityRows(db: SQLiteDatabase): Promise<IntegrityRows> {
+  const [tasks, timeBlocks, dayPlans, templates] = await Promise.all([
+    db.getAllAsync<IntegrityTaskRow>('SELECT id, title, recurrence_json, notifications_json, deleted_at FROM tasks'),
+    db.getAllAsync<IntegrityTimeBlockRow>(
+      'SELECT id, task_id, title, start_time, deleted_at FROM time_blocks ORDER BY start_time ASC',
+    ),
+    db.getAllAsync<IntegrityDayPlanRow>('SELECT date, task_ids_json, time_block_ids_json FROM day_plans'),
+    db.getAllAsync<IntegrityTemplateRow>('SELECT id, name, blocks_json FROM templates'),
+  ]);
+  return { tasks, timeBlocks, dayPlans, templates };
+}
+
+/**
+ * Apply the repair each issue describes. Run it inside a transaction so a
+ * repair is never left half done.
+ */
+export async function repairIntegrityIssues(
+  db: SQLiteDatabase,
+  issues: IntegrityIssue[],
+  now: string = new Date().toISOString(),
+): Promise<void> {
+  for (const issue of issues) {
+    switch (issue.kind) {
+      case 'invalidJson':
+        // Table and column come from the checker's fixed list, never from row data
+        await db.runAsync(
+          `UPDATE ${issue.table} SET ${issue.column} = ? WHERE ${issue.table === 'day_plans' ? 'date' : 'id'} = ?`,
+          [issue.fallback, issue.rowId],
+        );
+        break;
+      case 'orphanedBlock':
+        await db.runAsync('UPDATE time_blocks SET task_id = NULL WHERE id = ?', [issue.blockId]);
+        break;
+      case 'blockOfDeletedTask':
+      case 'duplicateLinkedBlock':
+        await db.runAsync('UPDATE time_blocks SET deleted_at = ? WHERE id = ?', [now, issue.blockId]);
+        break;
+      case 'danglingDayPlanRefs':
+        await db.runAsync('UPDATE day_plans SET task_ids_json = ?, time_block_ids_json = ? WHERE date = ?', [
+          JSON.stringify(issue.taskIds),
+          JSON.stringify(issue.timeBlockIds),
+          issue.date,
+        ]);
+        break;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { TaskOccurrence, TaskStatus } from '../types';
+import type { DateRange } from '../utils';
+
+interface TaskOccurrenceRow {
+  task_id: string;
+  occurrence_date: string;
+  status: string;
+  completed_at: string | null;
+  skipped: number; // SQLite stores booleans as 0/1
+}
+
+function rowToOccurrence(row: TaskOccurrenceRow): TaskOccurrence {
+  return {
+    taskId: row.task_id,
+    date: row.occurrence_date,
+    status: row.status as TaskStatus,
+    completedAt: row.completed_at,
+    skipped: row.skipped === 1,
+  };
+}
+
+/**
+ * Load every stored occurrence state for recurring tasks.
+ */
+export async function loadAllOccurrences(db: SQLiteDatabase): Promise<TaskOccurrence[]> {
+  const rows = await db.getAllAsync<TaskOccurrenceRow>(
+    'SELECT * FROM task_occurrences ORDER BY occurrence_date ASC',
+  );
+  return rows.map(rowToOccurrence);
+}
+
+/**
+ * Load the stored occurrence states of every master in a recurring series.
+ */
+export async function loadOccurrencesInSeries(
+  db: SQLiteDatabase,
+  seriesId: string,
+): Promise<TaskOccurrence[]> {
+  const rows = await db.getAllAsync<TaskOccurrenceRow>(
+    `SELECT o.* FROM task_occurrences o
+     JOIN tasks t ON t.id = o.task_id
+     WHERE t.series_id = ?
+     ORDER BY o.occurrence_date ASC`,
+    [seriesId],
+  );
+  return rows.map(rowToOccurrence);
+}
+
+/**
+ * Load the stored occurrence states dated inside a date range.
+ */
+export async function loadOccurrencesInRange(
+  db: SQLiteDatabase,
+  range: DateRange,
+): Promise<TaskOccurrence[]> {
+  const rows = await db.getAllAsync<TaskOccurrenceRow>(
+    `SELECT * FROM task_occurrences
+     WHERE occurrence_date >= ? AND occurrence_date <= ?
+     ORDER BY occurrence_date ASC`,
+    [range.startDate, range.endDate],
+  );
+  return rows.map(rowToOccurrence);
+}
+
+/**
+ * Upsert the state of a single occurrence.
+ */
+export async function saveOccurrence(db: SQLiteDatabase, occurrence: TaskOccurrence): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO task_occurrences (task_id, occurrence_date, status, completed_at, skipped)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(task_id, occurrence_date) DO UPDATE SET
+       status = excluded.status,
+       completed_at = excluded.completed_at,
+       skipped = excluded.skipped`,
+    [
+      occurrence.taskId,
+      occurrence.date,
+      occurrence.status,
+      occurrence.completedAt,
+      occurrence.skipped ? 1 : 0,
+    ],
+  );
+}
+
+/**
+ * Delete the stored state of a single occurrence.
+ */
+export async function deleteOccurrence(db: SQLiteDatabase, taskId: string, date: string): Promise<void> {
+  await db.runAsync('DELETE FROM task_occurrences WHERE task_id = ? AND occurrence_date = ?', [
+    taskId,
+    date,
+  ]);
+}
+
+/**
+ * Delete all stored occurrence states for a recurring task.
+ */
+export async function deleteOccurrencesForTask(db: SQLiteDatabase, taskId: string): Promise<void> {
+  await db.runAsync('DELETE FROM task_occurrences WHERE task_id = ?', [taskId]);
+}
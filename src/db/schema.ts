@@ -1,102 +1,254 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 
-const CURRENT_VERSION = 5;
+export const CURRENT_VERSION = 10;
 
-const migrations: Record<number, string[]> = {
-  1: [
-    `CREATE TABLE IF NOT EXISTS tasks (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT NOT NULL DEFAULT '',
-      status TEXT NOT NULL DEFAULT 'todo',
-      priority TEXT NOT NULL DEFAULT 'medium',
-      scheduled_date TEXT NOT NULL,
-      estimated_minutes INTEGER,
-      sort_order INTEGER NOT NULL DEFAULT 0,
-      recurrence_json TEXT,
-      notifications_json TEXT DEFAULT '[]',
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      completed_at TEXT
-    )`,
-    `CREATE TABLE IF NOT EXISTS subtasks (
-      id TEXT PRIMARY KEY,
-      parent_task_id TEXT NOT NULL,
-      title TEXT NOT NULL,
-      completed INTEGER NOT NULL DEFAULT 0,
-      FOREIGN KEY (parent_task_id) REFERENCES tasks(id) ON DELETE CASCADE
-    )`,
-    `CREATE TABLE IF NOT EXISTS time_blocks (
-      id TEXT PRIMARY KEY,
-      task_id TEXT,
-      title TEXT NOT NULL,
-      start_time TEXT NOT NULL,
-      end_time TEXT NOT NULL,
-      color TEXT NOT NULL,
-      type TEXT NOT NULL DEFAULT 'task',
-      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE SET NULL
-    )`,
-    `CREATE TABLE IF NOT EXISTS day_plans (
-      date TEXT PRIMARY KEY,
-      wake_time TEXT NOT NULL DEFAULT '07:00',
-      sleep_time TEXT NOT NULL DEFAULT '23:00',
-      task_ids_json TEXT NOT NULL DEFAULT '[]',
-      time_block_ids_json TEXT NOT NULL DEFAULT '[]'
-    )`,
-    `CREATE TABLE IF NOT EXISTS schema_version (
-      version INTEGER NOT NULL
-    )`,
-    `INSERT OR REPLACE INTO schema_version (version) VALUES (1)`,
-  ],
-  2: [
-    `CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL
-    )`,
-  ],
-  3: [
-    `ALTER TABLE tasks ADD COLUMN carried_over_from TEXT`,
-  ],
-  4: [
-    `CREATE TABLE IF NOT EXISTS templates (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      icon TEXT NOT NULL DEFAULT '📋',
-      blocks_json TEXT NOT NULL DEFAULT '[]',
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    )`,
-  ],
-  5: [
-    `ALTER TABLE tasks ADD COLUMN scheduled_time TEXT`,
-  ],
+/** A migration step: SQL to execute, or a data transform that needs more than SQL */
+export type MigrationStep = string | ((db: SQLiteDatabase) => Promise<void>);
+
+export interface Migration {
+  description: string;
+  up: MigrationStep[];
+  /** Undoes `up`, leaving the schema and data as the version before expects them */
+  down: MigrationStep[];
+}
+
+export const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    description: 'Create tasks, subtasks, time blocks and day plans',
+    up: [
+      `CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'todo',
+        priority TEXT NOT NULL DEFAULT 'medium',
+        scheduled_date TEXT NOT NULL,
+        estimated_minutes INTEGER,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        recurrence_json TEXT,
+        notifications_json TEXT DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        completed_at TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS subtasks (
+        id TEXT PRIMARY KEY,
+        parent_task_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        completed INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY (parent_task_id) REFERENCES tasks(id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE IF NOT EXISTS time_blocks (
+        id TEXT PRIMARY KEY,
+        task_id TEXT,
+        title TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        color TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'task',
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE SET NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS day_plans (
+        date TEXT PRIMARY KEY,
+        wake_time TEXT NOT NULL DEFAULT '07:00',
+        sleep_time TEXT NOT NULL DEFAULT '23:00',
+        task_ids_json TEXT NOT NULL DEFAULT '[]',
+        time_block_ids_json TEXT NOT NULL DEFAULT '[]'
+      )`,
+      `CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER NOT NULL
+      )`,
+      `INSERT OR REPLACE INTO schema_version (version) VALUES (1)`,
+    ],
+    down: [
+      `DROP TABLE IF EXISTS subtasks`,
+      `DROP TABLE IF EXISTS time_blocks`,
+      `DROP TABLE IF EXISTS day_plans`,
+      `DROP TABLE IF EXISTS tasks`,
+      `DROP TABLE IF EXISTS schema_version`,
+    ],
+  },
+  2: {
+    description: 'Add settings',
+    up: [
+      `CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )`,
+    ],
+    down: [`DROP TABLE IF EXISTS settings`],
+  },
+  3: {
+    description: 'Track where carried-over tasks came from',
+    up: [`ALTER TABLE tasks ADD COLUMN carried_over_from TEXT`],
+    down: [`ALTER TABLE tasks DROP COLUMN carried_over_from`],
+  },
+  4: {
+    description: 'Add templates',
+    up: [
+      `CREATE TABLE IF NOT EXISTS templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        icon TEXT NOT NULL DEFAULT '📋',
+        blocks_json TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ],
+    down: [`DROP TABLE IF EXISTS templates`],
+  },
+  5: {
+    description: 'Add a time of day to tasks',
+    up: [`ALTER TABLE tasks ADD COLUMN scheduled_time TEXT`],
+    down: [`ALTER TABLE tasks DROP COLUMN scheduled_time`],
+  },
+  6: {
+    description: 'Track recurring task state per occurrence',
+    up: [
+      `CREATE TABLE IF NOT EXISTS task_occurrences (
+        task_id TEXT NOT NULL,
+        occurrence_date TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'todo',
+        completed_at TEXT,
+        skipped INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (task_id, occurrence_date),
+        FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+      )`,
+      // Recurring tasks used to carry their completion on the row itself;
+      // move it onto the first occurrence so the master stays series-wide.
+      `INSERT OR IGNORE INTO task_occurrences (task_id, occurrence_date, status, completed_at)
+        SELECT id, scheduled_date, status, completed_at FROM tasks
+        WHERE recurrence_json IS NOT NULL AND status != 'todo'`,
+      `UPDATE tasks SET status = 'todo', completed_at = NULL WHERE recurrence_json IS NOT NULL`,
+    ],
+    down: [
+      // Put each series' state back on its row, from the occurrence on its start date
+      async (db) => {
+        const rows = await db.getAllAsync<{ id: string; status: string; completed_at: string | null }>(
+          `SELECT t.id, o.status, o.completed_at FROM tasks t
+           JOIN task_occurrences o ON o.task_id = t.id AND o.occurrence_date = t.scheduled_date
+           WHERE t.recurrence_json IS NOT NULL`,
+        );
+        for (const row of rows) {
+          await db.runAsync('UPDATE tasks SET status = ?, completed_at = ? WHERE id = ?', [
+            row.status,
+            row.completed_at,
+            row.id,
+          ]);
+        }
+      },
+      `DROP TABLE IF EXISTS task_occurrences`,
+    ],
+  },
+  7: {
+    description: 'Group recurring tasks into series',
+    up: [
+      `ALTER TABLE tasks ADD COLUMN series_id TEXT`,
+      `UPDATE tasks SET series_id = id WHERE recurrence_json IS NOT NULL`,
+      `CREATE INDEX IF NOT EXISTS idx_tasks_series_id ON tasks(series_id)`,
+    ],
+    down: [
+      `DROP INDEX IF EXISTS idx_tasks_series_id`,
+      `ALTER TABLE tasks DROP COLUMN series_id`,
+    ],
+  },
+  8: {
+    description: 'Soft delete into a trash',
+    up: [
+      // Deletes move rows to the trash; they are purged after the retention period
+      `ALTER TABLE tasks ADD COLUMN deleted_at TEXT`,
+      `ALTER TABLE time_blocks ADD COLUMN deleted_at TEXT`,
+      `ALTER TABLE templates ADD COLUMN deleted_at TEXT`,
+    ],
+    down: [
+      // Without the column trashed rows would come back, so they are purged first
+      `DELETE FROM subtasks WHERE parent_task_id IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL)`,
+      `DELETE FROM task_occurrences WHERE task_id IN (SELECT id FROM tasks WHERE deleted_at IS NOT NULL)`,
+      `DELETE FROM tasks WHERE deleted_at IS NOT NULL`,
+      `DELETE FROM time_blocks WHERE deleted_at IS NOT NULL`,
+      `DELETE FROM templates WHERE deleted_at IS NOT NULL`,
+      `ALTER TABLE tasks DROP COLUMN deleted_at`,
+      `ALTER TABLE time_blocks DROP COLUMN deleted_at`,
+      `ALTER TABLE templates DROP COLUMN deleted_at`,
+    ],
+  },
+  9: {
+    description: 'Index the columns stores query by date',
+    up: [
+      // Stores load a window of dates at a time rather than every row
+      `CREATE INDEX IF NOT EXISTS idx_tasks_scheduled_date ON tasks(scheduled_date)`,
+      `CREATE INDEX IF NOT EXISTS idx_time_blocks_start_time ON time_blocks(start_time)`,
+      `CREATE INDEX IF NOT EXISTS idx_task_occurrences_date ON task_occurrences(occurrence_date)`,
+      `CREATE INDEX IF NOT EXISTS idx_subtasks_parent_task_id ON subtasks(parent_task_id)`,
+    ],
+    down: [
+      `DROP INDEX IF EXISTS idx_tasks_scheduled_date`,
+      `DROP INDEX IF EXISTS idx_time_blocks_start_time`,
+      `DROP INDEX IF EXISTS idx_task_occurrences_date`,
+      `DROP INDEX IF EXISTS idx_subtasks_parent_task_id`,
+    ],
+  },
+  10: {
+    description: 'Pinned time blocks',
+    up: [`ALTER TABLE time_blocks ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0`],
+    down: [`ALTER TABLE time_blocks DROP COLUMN pinned`],
+  },
 };
 
-export async function initDatabase(db: SQLiteDatabase): Promise<void> {
-  const result = await db.getFirstAsync<{ version: number }>(
-    'SELECT version FROM schema_version LIMIT 1',
-  ).catch(() => null);
+/**
+ * The schema version a database is at; 0 for a new, empty database.
+ */
+export async function getSchemaVersion(db: SQLiteDatabase): Promise<number> {
+  const result = await db
+    .getFirstAsync<{ version: number }>('SELECT version FROM schema_version LIMIT 1')
+    .catch(() => null);
+  return result?.version ?? 0;
+}
+
+async function runSteps(db: SQLiteDatabase, steps: MigrationStep[]): Promise<void> {
+  for (const step of steps) {
+    if (typeof step === 'string') {
+      await db.execAsync(step);
+    } else {
+      await step(db);
+    }
+  }
+}
+
+/**
+ * Migrate a database up or down to `targetVersion`, one version per
+ * transaction: a failing version is rolled back and the error rethrown,
+ * leaving the database at the last version that completed.
+ */
+export async function migrateDatabase(
+  db: SQLiteDatabase,
+  targetVersion: number = CURRENT_VERSION,
+): Promise<void> {
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > CURRENT_VERSION) {
+    throw new Error('This database was written by a newer version of DayDeck. Update the app to open it.');
+  }
 
-  const currentVersion = result?.version ?? 0;
+  const upgrading = targetVersion > currentVersion;
+  let version = currentVersion;
+  while (version !== targetVersion) {
+    const migrated = upgrading ? version + 1 : version;
+    const migration = MIGRATIONS[migrated];
+    const nextVersion = upgrading ? version + 1 : version - 1;
 
-  for (let v = currentVersion + 1; v <= CURRENT_VERSION; v++) {
-    const statements = migrations[v];
-    if (statements) {
-      await db.execAsync('BEGIN TRANSACTION');
-      try {
-        for (const sql of statements) {
-          await db.execAsync(sql);
-        }
-        if (v > 1) {
-          await db.execAsync(`UPDATE schema_version SET version = ${v}`);
-        }
-        await db.execAsync('COMMIT');
-      } catch (error) {
-        await db.execAsync('ROLLBACK');
-        throw error;
+    await db.execAsync('BEGIN TRANSACTION');
+    try {
+      await runSteps(db, upgrading ? migration.up : migration.down);
+      // Version 1 creates the version table (and undoing it drops the table)
+      if (nextVersion > 1 || (nextVersion === 1 && !upgrading)) {
+        await db.execAsync(`UPDATE schema_version SET version = ${nextVersion}`);
       }
+      await db.execAsync('COMMIT');
+    } catch (error) {
+      await db.execAsync('ROLLBACK');
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migrated} (${migration.description}) failed: ${reason}`);
     }
+    version = nextVersion;
   }
 }
-
-export { CURRENT_VERSION };
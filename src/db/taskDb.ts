@@ -1,5 +1,10 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 import type { Task, Subtask, Recurrence, TaskNotification, Priority, TaskStatus } from '../types';
+import type { DateRange } from '../utils';
+import { purgeDeletedTimeBlocksOfTask } from './timeBlockDb';
+
+// Ids per subtask query, well under SQLite's bound-parameter limit
+const SUBTASK_QUERY_CHUNK = 500;
 
 interface TaskRow {
   id: string;
@@ -17,6 +22,8 @@ interface TaskRow {
   updated_at: string;
   completed_at: string | null;
   carried_over_from: string | null;
+  series_id: string | null;
+  deleted_at: string | null;
 }
 
 interface SubtaskRow {
@@ -46,6 +53,7 @@ function rowToTask(row: TaskRow, subtasks: Subtask[]): Task {
     updatedAt: row.updated_at,
     completedAt: row.completed_at,
     carriedOverFrom: row.carried_over_from,
+    seriesId: row.series_id ?? null,
   };
 }
 
@@ -58,19 +66,19 @@ function subtaskRowToSubtask(row: SubtaskRow): Subtask {
   };
 }
 
-/**
- * Load all tasks from SQLite, including their subtasks.
- */
-export async function loadAllTasks(db: SQLiteDatabase): Promise<Task[]> {
-  const taskRows = await db.getAllAsync<TaskRow>(
-    'SELECT * FROM tasks ORDER BY sort_order ASC, created_at ASC',
-  );
-
+async function loadTaskRows(db: SQLiteDatabase, taskRows: TaskRow[]): Promise<Task[]> {
   if (taskRows.length === 0) return [];
 
-  const subtaskRows = await db.getAllAsync<SubtaskRow>(
-    'SELECT * FROM subtasks ORDER BY rowid ASC',
-  );
+  const taskIds = taskRows.map((row) => row.id);
+  const subtaskRows: SubtaskRow[] = [];
+  for (let i = 0; i < taskIds.length; i += SUBTASK_QUERY_CHUNK) {
+    const chunk = taskIds.slice(i, i + SUBTASK_QUERY_CHUNK);
+    const rows = await db.getAllAsync<SubtaskRow>(
+      `SELECT * FROM subtasks WHERE parent_task_id IN (${chunk.map(() => '?').join(', ')}) ORDER BY rowid ASC`,
+      chunk,
+    );
+    subtaskRows.push(...rows);
+  }
 
   // Group subtasks by parent task ID
   const subtasksByTaskId = new Map<string, Subtask[]>();
@@ -88,71 +96,165 @@ export async function loadAllTasks(db: SQLiteDatabase): Promise<Task[]> {
 }
 
 /**
- * Upsert a task and its subtasks into SQLite.
- * Uses a transaction to ensure atomicity.
+ * Load all tasks from SQLite, including their subtasks. Tasks in the trash
+ * are left out.
+ */
+export async function loadAllTasks(db: SQLiteDatabase): Promise<Task[]> {
+  const taskRows = await db.getAllAsync<TaskRow>(
+    'SELECT * FROM tasks WHERE deleted_at IS NULL ORDER BY sort_order ASC, created_at ASC',
+  );
+  return loadTaskRows(db, taskRows);
+}
+
+/**
+ * Load the tasks a date range needs: those scheduled inside it, plus every
+ * recurring task starting on or before its end, whose occurrences may fall
+ * inside it.
+ */
+export async function loadTasksInRange(db: SQLiteDatabase, range: DateRange): Promise<Task[]> {
+  const taskRows = await db.getAllAsync<TaskRow>(
+    `SELECT * FROM tasks
+     WHERE deleted_at IS NULL
+       AND ((scheduled_date >= ? AND scheduled_date <= ?)
+         OR (recurrence_json IS NOT NULL AND scheduled_date <= ?))
+     ORDER BY sort_order ASC, created_at ASC`,
+    [range.startDate, range.endDate, range.endDate],
+  );
+  return loadTaskRows(db, taskRows);
+}
+
+/**
+ * Load every task of a recurring series: its masters and their exceptions,
+ * wherever they fall in time.
+ */
+export async function loadTasksInSeries(db: SQLiteDatabase, seriesId: string): Promise<Task[]> {
+  const taskRows = await db.getAllAsync<TaskRow>(
+    `SELECT * FROM tasks
+     WHERE deleted_at IS NULL AND series_id = ?
+     ORDER BY scheduled_date ASC, created_at ASC`,
+    [seriesId],
+  );
+  return loadTaskRows(db, taskRows);
+}
+
+/**
+ * Load the unfinished one-off tasks scheduled before a date, which
+ * carry-over may still move forward.
+ */
+export async function loadOpenTasksBefore(db: SQLiteDatabase, date: string): Promise<Task[]> {
+  const taskRows = await db.getAllAsync<TaskRow>(
+    `SELECT * FROM tasks
+     WHERE deleted_at IS NULL
+       AND recurrence_json IS NULL
+       AND scheduled_date < ?
+       AND status IN ('todo', 'in_progress')
+     ORDER BY sort_order ASC, created_at ASC`,
+    [date],
+  );
+  return loadTaskRows(db, taskRows);
+}
+
+/**
+ * The id of every stored task, including those in the trash.
+ */
+export async function loadTaskIds(db: SQLiteDatabase): Promise<string[]> {
+  const rows = await db.getAllAsync<{ id: string }>('SELECT id FROM tasks');
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Load the tasks in the trash with the time they were deleted.
+ */
+export async function loadDeletedTasks(
+  db: SQLiteDatabase,
+): Promise<{ task: Task; deletedAt: string }[]> {
+  const taskRows = await db.getAllAsync<TaskRow>(
+    'SELECT * FROM tasks WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+  );
+  const tasks = await loadTaskRows(db, taskRows);
+  return tasks.map((task, i) => ({ task, deletedAt: taskRows[i].deleted_at as string }));
+}
+
+/**
+ * Upsert a task and its subtasks. Run it inside a transaction (the write
+ * queue's, or a backup restore's) so the subtasks are replaced atomically.
  */
 export async function saveTask(db: SQLiteDatabase, task: Task): Promise<void> {
-  await db.withExclusiveTransactionAsync(async (txn) => {
-    await txn.runAsync(
-      `INSERT INTO tasks (
-        id, title, description, status, priority, scheduled_date, scheduled_time,
-        estimated_minutes, sort_order, recurrence_json, notifications_json,
-        created_at, updated_at, completed_at, carried_over_from
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(id) DO UPDATE SET
-        title = excluded.title,
-        description = excluded.description,
-        status = excluded.status,
-        priority = excluded.priority,
-        scheduled_date = excluded.scheduled_date,
-        scheduled_time = excluded.scheduled_time,
-        estimated_minutes = excluded.estimated_minutes,
-        sort_order = excluded.sort_order,
-        recurrence_json = excluded.recurrence_json,
-        notifications_json = excluded.notifications_json,
-        updated_at = excluded.updated_at,
-        completed_at = excluded.completed_at,
-        carried_over_from = excluded.carried_over_from`,
-      [
-        task.id,
-        task.title,
-        task.description,
-        task.status,
-        task.priority,
-        task.scheduledDate,
-        task.scheduledTime,
-        task.estimatedMinutes,
-        task.sortOrder,
-        task.recurrence ? JSON.stringify(task.recurrence) : null,
-        JSON.stringify(task.notifications),
-        task.createdAt,
-        task.updatedAt,
-        task.completedAt,
-        task.carriedOverFrom,
-      ],
-    );
+  await db.runAsync(
+    `INSERT INTO tasks (
+      id, title, description, status, priority, scheduled_date, scheduled_time,
+      estimated_minutes, sort_order, recurrence_json, notifications_json,
+      created_at, updated_at, completed_at, carried_over_from, series_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      description = excluded.description,
+      status = excluded.status,
+      priority = excluded.priority,
+      scheduled_date = excluded.scheduled_date,
+      scheduled_time = excluded.scheduled_time,
+      estimated_minutes = excluded.estimated_minutes,
+      sort_order = excluded.sort_order,
+      recurrence_json = excluded.recurrence_json,
+      notifications_json = excluded.notifications_json,
+      updated_at = excluded.updated_at,
+      completed_at = excluded.completed_at,
+      carried_over_from = excluded.carried_over_from,
+      series_id = excluded.series_id,
+      deleted_at = NULL`,
+    [
+      task.id,
+      task.title,
+      task.description,
+      task.status,
+      task.priority,
+      task.scheduledDate,
+      task.scheduledTime,
+      task.estimatedMinutes,
+      task.sortOrder,
+      task.recurrence ? JSON.stringify(task.recurrence) : null,
+      JSON.stringify(task.notifications),
+      task.createdAt,
+      task.updatedAt,
+      task.completedAt,
+      task.carriedOverFrom,
+      task.seriesId,
+    ],
+  );
 
-    // Replace all subtasks: delete existing, then insert current ones.
-    // This is simpler and safer than diffing individual subtask changes.
-    await txn.runAsync('DELETE FROM subtasks WHERE parent_task_id = ?', [task.id]);
+  // Replace all subtasks: delete existing, then insert current ones.
+  // This is simpler and safer than diffing individual subtask changes.
+  await db.runAsync('DELETE FROM subtasks WHERE parent_task_id = ?', [task.id]);
 
-    for (const subtask of task.subtasks) {
-      await txn.runAsync(
-        'INSERT INTO subtasks (id, parent_task_id, title, completed) VALUES (?, ?, ?, ?)',
-        [subtask.id, task.id, subtask.title, subtask.completed ? 1 : 0],
-      );
-    }
-  });
+  for (const subtask of task.subtasks) {
+    await db.runAsync(
+      'INSERT INTO subtasks (id, parent_task_id, title, completed) VALUES (?, ?, ?, ?)',
+      [subtask.id, task.id, subtask.title, subtask.completed ? 1 : 0],
+    );
+  }
+}
+
+/**
+ * Move a task to the trash. Its subtasks and occurrence state are kept so
+ * it can be restored; saving the task again takes it back out.
+ */
+export async function deleteTaskFromDb(
+  db: SQLiteDatabase,
+  id: string,
+  deletedAt: string = new Date().toISOString(),
+): Promise<void> {
+  await db.runAsync('UPDATE tasks SET deleted_at = ? WHERE id = ?', [deletedAt, id]);
 }
 
 /**
- * Delete a task and its subtasks from SQLite.
- * Subtasks are cascade-deleted by the foreign key constraint,
+ * Permanently delete a task, its subtasks, any recurring occurrence state and
+ * the trashed time block that was linked to it.
+ * Children are cascade-deleted by the foreign key constraints,
  * but we also delete explicitly for clarity and in case PRAGMA foreign_keys is off.
  */
-export async function deleteTaskFromDb(db: SQLiteDatabase, id: string): Promise<void> {
-  await db.withExclusiveTransactionAsync(async (txn) => {
-    await txn.runAsync('DELETE FROM subtasks WHERE parent_task_id = ?', [id]);
-    await txn.runAsync('DELETE FROM tasks WHERE id = ?', [id]);
-  });
+export async function purgeTaskFromDb(db: SQLiteDatabase, id: string): Promise<void> {
+  await db.runAsync('DELETE FROM subtasks WHERE parent_task_id = ?', [id]);
+  await db.runAsync('DELETE FROM task_occurrences WHERE task_id = ?', [id]);
+  await purgeDeletedTimeBlocksOfTask(db, id);
+  await db.runAsync('DELETE FROM tasks WHERE id = ?', [id]);
 }
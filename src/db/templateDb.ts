@@ -8,6 +8,7 @@ interface TemplateRow {
   blocks_json: string;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
 }
 
 function rowToTemplate(row: TemplateRow): Template {
@@ -29,11 +30,23 @@ function rowToTemplate(row: TemplateRow): Template {
 
 export async function loadAllTemplates(db: SQLiteDatabase): Promise<Template[]> {
   const rows = await db.getAllAsync<TemplateRow>(
-    'SELECT * FROM templates ORDER BY created_at ASC',
+    'SELECT * FROM templates WHERE deleted_at IS NULL ORDER BY created_at ASC',
   );
   return rows.map(rowToTemplate);
 }
 
+/**
+ * Load the templates in the trash with the time they were deleted.
+ */
+export async function loadDeletedTemplates(
+  db: SQLiteDatabase,
+): Promise<{ template: Template; deletedAt: string }[]> {
+  const rows = await db.getAllAsync<TemplateRow>(
+    'SELECT * FROM templates WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC',
+  );
+  return rows.map((row) => ({ template: rowToTemplate(row), deletedAt: row.deleted_at as string }));
+}
+
 export async function saveTemplate(db: SQLiteDatabase, template: Template): Promise<void> {
   await db.runAsync(
     `INSERT INTO templates (id, name, icon, blocks_json, created_at, updated_at)
@@ -42,7 +55,8 @@ export async function saveTemplate(db: SQLiteDatabase, template: Template): Prom
        name = excluded.name,
        icon = excluded.icon,
        blocks_json = excluded.blocks_json,
-       updated_at = excluded.updated_at`,
+       updated_at = excluded.updated_at,
+       deleted_at = NULL`,
     [
       template.id,
       template.name,
@@ -54,6 +68,17 @@ export async function saveTemplate(db: SQLiteDatabase, template: Template): Prom
   );
 }
 
-export async function deleteTemplateFromDb(db: SQLiteDatabase, id: string): Promise<void> {
+/**
+ * Move a template to the trash.
+ */
+export async function deleteTemplateFromDb(
+  db: SQLiteDatabase,
+  id: string,
+  deletedAt: string = new Date().toISOString(),
+): Promise<void> {
+  await db.runAsync('UPDATE templates SET deleted_at = ? WHERE id = ?', [deletedAt, id]);
+}
+
+export async function purgeTemplateFromDb(db: SQLiteDatabase, id: string): Promise<void> {
   await db.runAsync('DELETE FROM templates WHERE id = ?', [id]);
 }
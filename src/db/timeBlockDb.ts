@@ -1,5 +1,7 @@
 import type { SQLiteDatabase } from 'expo-sqlite';
 import type { TimeBlock, TimeBlockType } from '../types';
+import { getRangeBounds, TASK_PART_SEPARATOR } from '../utils';
+import type { DateRange } from '../utils';
 
 interface TimeBlockRow {
   id: string;
@@ -9,8 +11,15 @@ interface TimeBlockRow {
   end_time: string;
   color: string;
   type: string;
+  pinned: number;
+  deleted_at: string | null;
 }
 
+// Part block ids are the task id, "#part-" and a number, so a task's parts
+// sort between the task id + "#part-" and the task id + "#part."
+const PART_IDS_FROM = TASK_PART_SEPARATOR;
+const PART_IDS_TO = TASK_PART_SEPARATOR.replace(/-$/, '.');
+
 function rowToTimeBlock(row: TimeBlockRow): TimeBlock {
   return {
     id: row.id,
@@ -20,31 +29,152 @@ function rowToTimeBlock(row: TimeBlockRow): TimeBlock {
     endTime: row.end_time,
     color: row.color,
     type: row.type as TimeBlockType,
+    pinned: row.pinned === 1,
   };
 }
 
 export async function loadAllTimeBlocks(db: SQLiteDatabase): Promise<TimeBlock[]> {
   const rows = await db.getAllAsync<TimeBlockRow>(
-    'SELECT * FROM time_blocks ORDER BY start_time ASC',
+    'SELECT * FROM time_blocks WHERE deleted_at IS NULL ORDER BY start_time ASC',
+  );
+  return rows.map(rowToTimeBlock);
+}
+
+/**
+ * Load the blocks overlapping a date range, including those that start
+ * before it and run into its first day.
+ */
+export async function loadTimeBlocksInRange(db: SQLiteDatabase, range: DateRange): Promise<TimeBlock[]> {
+  const { start, end } = getRangeBounds(range);
+  const rows = await db.getAllAsync<TimeBlockRow>(
+    `SELECT * FROM time_blocks
+     WHERE deleted_at IS NULL AND start_time < ? AND end_time > ?
+     ORDER BY start_time ASC`,
+    [end, start],
+  );
+  return rows.map(rowToTimeBlock);
+}
+
+/**
+ * Load the blocks of the tasks a date range loads from outside it:
+ * recurring tasks that began earlier and unfinished tasks from before it
+ * (see loadTasksInRange and loadOpenTasksBefore). A task's linked block and
+ * day-plan parts sit on its own date, which the range may not cover.
+ */
+export async function loadLinkedTimeBlocksForRange(
+  db: SQLiteDatabase,
+  range: DateRange,
+): Promise<TimeBlock[]> {
+  const rows = await db.getAllAsync<TimeBlockRow>(
+    `WITH loaded AS (
+       SELECT id FROM tasks
+       WHERE deleted_at IS NULL
+         AND ((recurrence_json IS NOT NULL AND scheduled_date <= ?)
+           OR (recurrence_json IS NULL AND scheduled_date < ?
+             AND status IN ('todo', 'in_progress')))
+     )
+     SELECT b.* FROM time_blocks b JOIN loaded t ON b.task_id = t.id
+     WHERE b.deleted_at IS NULL
+     UNION ALL
+     SELECT b.* FROM time_blocks b JOIN loaded t ON b.id >= t.id || ? AND b.id < t.id || ?
+     WHERE b.deleted_at IS NULL
+     ORDER BY start_time ASC`,
+    [range.endDate, range.startDate, PART_IDS_FROM, PART_IDS_TO],
+  );
+  return rows.map(rowToTimeBlock);
+}
+
+/**
+ * The id of every stored block, including those in the trash.
+ */
+export async function loadTimeBlockIds(db: SQLiteDatabase): Promise<string[]> {
+  const rows = await db.getAllAsync<{ id: string }>('SELECT id FROM time_blocks');
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Load the blocks in the trash with the time they were deleted. A task's
+ * linked block and day-plan parts are left out: they follow their task and
+ * come back when it is restored.
+ */
+export async function loadDeletedTimeBlocks(
+  db: SQLiteDatabase,
+): Promise<{ block: TimeBlock; deletedAt: string }[]> {
+  const rows = await db.getAllAsync<TimeBlockRow>(
+    `SELECT * FROM time_blocks
+     WHERE deleted_at IS NOT NULL AND task_id IS NULL AND instr(id, ?) = 0
+     ORDER BY deleted_at DESC`,
+    [TASK_PART_SEPARATOR],
+  );
+  return rows.map((row) => ({ block: rowToTimeBlock(row), deletedAt: row.deleted_at as string }));
+}
+
+/**
+ * Load a task's blocks from the trash: its linked block and day-plan parts.
+ */
+export async function loadDeletedTimeBlocksOfTask(
+  db: SQLiteDatabase,
+  taskId: string,
+): Promise<TimeBlock[]> {
+  const rows = await db.getAllAsync<TimeBlockRow>(
+    `SELECT * FROM time_blocks
+     WHERE deleted_at IS NOT NULL AND (task_id = ? OR (id >= ? AND id < ?))`,
+    [taskId, taskId + PART_IDS_FROM, taskId + PART_IDS_TO],
   );
   return rows.map(rowToTimeBlock);
 }
 
+/**
+ * Permanently delete a task's blocks from the trash, along with the task.
+ */
+export async function purgeDeletedTimeBlocksOfTask(
+  db: SQLiteDatabase,
+  taskId: string,
+): Promise<void> {
+  await db.runAsync(
+    `DELETE FROM time_blocks
+     WHERE deleted_at IS NOT NULL AND (task_id = ? OR (id >= ? AND id < ?))`,
+    [taskId, taskId + PART_IDS_FROM, taskId + PART_IDS_TO],
+  );
+}
+
 export async function saveTimeBlock(db: SQLiteDatabase, block: TimeBlock): Promise<void> {
   await db.runAsync(
-    `INSERT INTO time_blocks (id, task_id, title, start_time, end_time, color, type)
-     VALUES (?, ?, ?, ?, ?, ?, ?)
+    `INSERT INTO time_blocks (id, task_id, title, start_time, end_time, color, type, pinned)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
      ON CONFLICT(id) DO UPDATE SET
        task_id = excluded.task_id,
        title = excluded.title,
        start_time = excluded.start_time,
        end_time = excluded.end_time,
        color = excluded.color,
-       type = excluded.type`,
-    [block.id, block.taskId, block.title, block.startTime, block.endTime, block.color, block.type],
+       type = excluded.type,
+       pinned = excluded.pinned,
+       deleted_at = NULL`,
+    [
+      block.id,
+      block.taskId,
+      block.title,
+      block.startTime,
+      block.endTime,
+      block.color,
+      block.type,
+      block.pinned ? 1 : 0,
+    ],
   );
 }
 
-export async function deleteTimeBlockFromDb(db: SQLiteDatabase, id: string): Promise<void> {
+/**
+ * Move a block to the trash.
+ */
+export async function deleteTimeBlockFromDb(
+  db: SQLiteDatabase,
+  id: string,
+  deletedAt: string = new Date().toISOString(),
+): Promise<void> {
+  await db.runAsync('UPDATE time_blocks SET deleted_at = ? WHERE id = ?', [deletedAt, id]);
+}
+
+export async function purgeTimeBlockFromDb(db: SQLiteDatabase, id: string): Promise<void> {
   await db.runAsync('DELETE FROM time_blocks WHERE id = ?', [id]);
 }
@@ -0,0 +1,39 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { TrashItem } from '../types';
+import { loadDeletedTasks } from './taskDb';
+import { loadDeletedTimeBlocks } from './timeBlockDb';
+import { loadDeletedTemplates } from './templateDb';
+
+/**
+ * Load everything in the trash, most recently deleted first.
+ */
+export async function loadTrash(db: SQLiteDatabase): Promise<TrashItem[]> {
+  const [tasks, blocks, templates] = await Promise.all([
+    loadDeletedTasks(db),
+    loadDeletedTimeBlocks(db),
+    loadDeletedTemplates(db),
+  ]);
+  const items: TrashItem[] = [
+    ...tasks.map(({ task, deletedAt }) => ({ kind: 'task' as const, task, deletedAt })),
+    ...blocks.map(({ block, deletedAt }) => ({ kind: 'timeBlock' as const, block, deletedAt })),
+    ...templates.map(({ template, deletedAt }) => ({ kind: 'template' as const, template, deletedAt })),
+  ];
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Permanently delete trashed rows, along with the subtasks and occurrence
+ * state of purged tasks. With a `cutoff` (an ISO timestamp) only rows
+ * deleted before it are purged; without one the trash is emptied. Run it
+ * inside a transaction so a purge is never left half done.
+ */
+export async function purgeTrash(db: SQLiteDatabase, cutoff?: string): Promise<void> {
+  const condition = cutoff ? 'deleted_at IS NOT NULL AND deleted_at < ?' : 'deleted_at IS NOT NULL';
+  const params = cutoff ? [cutoff] : [];
+  const purgedTasks = `SELECT id FROM tasks WHERE ${condition}`;
+  await db.runAsync(`DELETE FROM subtasks WHERE parent_task_id IN (${purgedTasks})`, params);
+  await db.runAsync(`DELETE FROM task_occurrences WHERE task_id IN (${purgedTasks})`, params);
+  await db.runAsync(`DELETE FROM tasks WHERE ${condition}`, params);
+  await db.runAsync(`DELETE FROM time_blocks WHERE ${condition}`, params);
+  await db.runAsync(`DELETE FROM templates WHERE ${condition}`, params);
+}
@@ -0,0 +1,75 @@
+import * as SQLite from 'expo-sqlite';
+import { CURRENT_VERSION, getSchemaVersion, migrateDatabase } from './schema';
+
+/**
+ * A schema upgrade that failed. When `restored` is true the database was put
+ * back exactly as it was before the upgrade started.
+ */
+export class DatabaseUpgradeError extends Error {
+  constructor(
+    message: string,
+    readonly fromVersion: number,
+    readonly restored: boolean,
+  ) {
+    super(message);
+    this.name = 'DatabaseUpgradeError';
+  }
+}
+
+function getSnapshotName(db: SQLite.SQLiteDatabase, fromVersion: number): string {
+  const fileName = db.databasePath.split('/').pop() ?? 'database.db';
+  return `${fileName}.v${fromVersion}.snapshot`;
+}
+
+async function copyDatabase(source: SQLite.SQLiteDatabase, dest: SQLite.SQLiteDatabase): Promise<void> {
+  await SQLite.backupDatabaseAsync({ sourceDatabase: source, destDatabase: dest });
+}
+
+/**
+ * Bring a database up to the current schema. An existing database is copied
+ * to a snapshot first; if any migration fails the snapshot is copied back, so
+ * a half-upgraded database is never left behind, and a
+ * DatabaseUpgradeError is thrown.
+ */
+export async function upgradeDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
+  const fromVersion = await getSchemaVersion(db);
+  if (fromVersion >= CURRENT_VERSION) {
+    await migrateDatabase(db);
+    return;
+  }
+
+  // A new database has nothing worth keeping
+  const snapshotName = fromVersion > 0 ? getSnapshotName(db, fromVersion) : null;
+  if (snapshotName) {
+    const snapshot = await SQLite.openDatabaseAsync(snapshotName);
+    try {
+      await copyDatabase(db, snapshot);
+    } finally {
+      await snapshot.closeAsync();
+    }
+  }
+
+  try {
+    await migrateDatabase(db);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    let restored = false;
+    if (snapshotName) {
+      try {
+        const snapshot = await SQLite.openDatabaseAsync(snapshotName);
+        try {
+          await copyDatabase(snapshot, db);
+          restored = true;
+        } finally {
+          await snapshot.closeAsync();
+        }
+      } catch (restoreError) {
+        console.error('Failed to restore the pre-upgrade snapshot', restoreError);
+      }
+    }
+    // The snapshot is kept after a failure, in case restoring it did not work
+    throw new DatabaseUpgradeError(reason, fromVersion, restored);
+  }
+
+  if (snapshotName) await SQLite.deleteDatabaseAsync(snapshotName).catch(console.error);
+}
@@ -0,0 +1,123 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+/** A write to run inside the queue's transaction */
+export type WriteOperation = (txn: SQLiteDatabase) => Promise<void>;
+
+export interface WriteFailure {
+  /** The row the write targets, e.g. "task:<id>"; a later write with the same key supersedes it */
+  key: string;
+  write: WriteOperation;
+  error: unknown;
+}
+
+export interface WriteQueueOptions {
+  /** Tries per transaction before a transient failure is given up on */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each one after it */
+  retryDelayMs?: number;
+  /** Receives the writes that could not be committed */
+  onFailure?: (failures: WriteFailure[]) => void;
+}
+
+export interface WriteQueue {
+  /** Queue a write; resolves once it is committed and rejects if it never is */
+  enqueue: (key: string, write: WriteOperation) => Promise<void>;
+  /** Resolves once every write queued so far has settled */
+  flush: () => Promise<void>;
+}
+
+interface PendingWrite {
+  key: string;
+  write: WriteOperation;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+const TRANSIENT_ERROR_PATTERN = /database is locked|SQLITE_BUSY|SQLITE_LOCKED/i;
+
+/**
+ * Whether a write failed only because another connection held the database,
+ * so trying again shortly may succeed.
+ */
+export function isTransientWriteError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_ERROR_PATTERN.test(message);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a queue that commits writes one transaction at a time, in the order
+ * they were queued. Writes queued in the same tick (e.g. every block a drag
+ * shifted) share a transaction. A transaction that hits a locked database is
+ * retried with backoff; if a batch still fails, its writes are committed one
+ * by one so a single bad row cannot lose the others, and the ones that keep
+ * failing are passed to `onFailure`.
+ */
+export function createWriteQueue(db: SQLiteDatabase, options: WriteQueueOptions = {}): WriteQueue {
+  const { maxAttempts = 3, retryDelayMs = 100, onFailure } = options;
+  let pending: PendingWrite[] = [];
+  let draining: Promise<void> | null = null;
+
+  async function commit(batch: PendingWrite[]): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await db.withExclusiveTransactionAsync(async (txn) => {
+          for (const { write } of batch) await write(txn);
+        });
+        return;
+      } catch (error) {
+        if (attempt >= maxAttempts || !isTransientWriteError(error)) throw error;
+        await wait(retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  async function commitEach(batch: PendingWrite[]): Promise<WriteFailure[]> {
+    const failures: WriteFailure[] = [];
+    for (const item of batch) {
+      try {
+        await commit([item]);
+        item.resolve();
+      } catch (error) {
+        failures.push({ key: item.key, write: item.write, error });
+        item.reject(error);
+      }
+    }
+    return failures;
+  }
+
+  async function drain(): Promise<void> {
+    while (pending.length > 0) {
+      const batch = pending;
+      pending = [];
+      try {
+        await commit(batch);
+        for (const item of batch) item.resolve();
+      } catch (error) {
+        let failures: WriteFailure[];
+        if (batch.length === 1) {
+          failures = [{ key: batch[0].key, write: batch[0].write, error }];
+          batch[0].reject(error);
+        } else {
+          failures = await commitEach(batch);
+        }
+        if (failures.length > 0) onFailure?.(failures);
+      }
+    }
+    draining = null;
+  }
+
+  return {
+    enqueue: (key, write) =>
+      new Promise<void>((resolve, reject) => {
+        pending.push({ key, write, resolve, reject });
+        // Start on the next microtask so the rest of a synchronous burst joins the batch
+        if (!draining) draining = Promise.resolve().then(drain);
+      }),
+
+    flush: () => draining ?? Promise.resolve(),
+  };
+}
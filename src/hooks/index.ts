@@ -2,3 +2,6 @@ export { useDatabase } from './useDatabase';
 export { useNotifications } from './useNotifications';
 export { useCalendar } from './useCalendar';
 export { useCarryOver } from './useCarryOver';
+export { useBackup } from './useBackup';
+export { useTaskReport } from './useTaskReport';
+export { useICalImport } from './useICalImport';
@@ -0,0 +1,96 @@
+import { useCallback, useState } from 'react';
+import { readBackupData, readTrashedRows, writeBackupData } from '../db';
+import type { RestoreMode } from '../db';
+import {
+  createBackupDocument,
+  parseBackupDocument,
+  mergeBackupData,
+} from '../services';
+import {
+  useTaskStore,
+  useTimeBlockStore,
+  useSettingsStore,
+  useTemplateStore,
+  useDayPlanStore,
+  useTrashStore,
+  useHistoryStore,
+  useWriteQueueStore,
+  getQuietHours,
+} from '../store';
+import { Config } from '../constants';
+import { getRangeAround } from '../utils';
+import { getDatabase } from './useDatabase';
+import { reconcileStoredNotifications } from './useNotifications';
+
+interface UseBackupResult {
+  busy: boolean;
+  exportBackup: () => Promise<string>;
+  importBackup: (json: string, mode: RestoreMode) => Promise<void>;
+}
+
+function requireDatabase() {
+  const db = getDatabase();
+  if (!db) throw new Error('Database is not ready yet.');
+  return db;
+}
+
+/**
+ * Export the database as a JSON backup, and restore one by merging it into
+ * or replacing the local data. After a restore every store is re-hydrated
+ * and the notification schedule is rebuilt from the restored rows.
+ */
+export function useBackup(): UseBackupResult {
+  const [busy, setBusy] = useState(false);
+
+  const exportBackup = useCallback(async () => {
+    setBusy(true);
+    try {
+      await useWriteQueueStore.getState().flush();
+      const data = await readBackupData(requireDatabase());
+      return JSON.stringify(createBackupDocument(data), null, 2);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const importBackup = useCallback(async (json: string, mode: RestoreMode) => {
+    // Validate before touching the database so a bad file changes nothing
+    const incoming = parseBackupDocument(json);
+    const db = requireDatabase();
+
+    setBusy(true);
+    try {
+      // Let queued edits land first so they are part of what gets merged or replaced
+      await useWriteQueueStore.getState().flush();
+      const rows =
+        mode === 'merge'
+          ? mergeBackupData(await readBackupData(db), incoming, await readTrashedRows(db))
+          : incoming;
+      await writeBackupData(db, rows, mode);
+
+      const range = getRangeAround(useTaskStore.getState().selectedDate, Config.loadWindowDays);
+      await Promise.all([
+        useTaskStore.getState().hydrateFromDb(db, range),
+        useTimeBlockStore.getState().hydrateFromDb(db, range),
+        useSettingsStore.getState().hydrateFromDb(db),
+        useTemplateStore.getState().hydrateFromDb(db),
+        useDayPlanStore.getState().hydrateFromDb(db),
+        useTrashStore.getState().hydrateFromDb(db),
+      ]);
+      // Undo entries describe the data that was just replaced
+      useHistoryStore.getState().clear();
+
+      const settings = useSettingsStore.getState();
+      await reconcileStoredNotifications(db, {
+        enabled: settings.notificationsEnabled,
+        quietHours: getQuietHours(settings),
+        allDayReminderTime: settings.allDayReminderTime,
+        blockNudgeOffsetMinutes: settings.reminderOffsetMinutes,
+      });
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { busy, exportBackup, importBackup };
+}
@@ -103,6 +103,7 @@ export function useCalendar(): UseCalendarResult {
           endTime: new Date(e.endDate).toISOString(),
           calendarId: e.calendarId || '',
           color: getCalendarColor(calendars, e.calendarId),
+          allDay: e.allDay,
         }));
 
         setEvents(mapped);
@@ -1,13 +1,9 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback } from 'react';
 import { Alert } from 'react-native';
-import { useTaskStore } from '../store';
+import { useTaskStore, useHistoryStore } from '../store';
 import { useSettingsStore } from '../store';
 import { todayISO } from '../utils';
-import {
-  getCarryOverCandidates,
-  carryOverTasks,
-  undoCarryOver,
-} from '../services/carryOverService';
+import { getCarryOverCandidates, carryOverTasks } from '../services/carryOverService';
 import type { Task } from '../types';
 
 /**
@@ -18,49 +14,35 @@ import type { Task } from '../types';
  * - 'auto': silently carry over tasks to today
  * - 'ask': prompt user before carrying over
  * - 'never': do nothing
+ *
+ * A carry-over is recorded in the undo history, so the undo toast takes it back.
  */
 export function useCarryOver() {
   const tasks = useTaskStore((s) => s.tasks);
   const updateTask = useTaskStore((s) => s.updateTask);
+  const record = useHistoryStore((s) => s.record);
   const carryOverBehavior = useSettingsStore((s) => s.carryOverBehavior);
   const isHydrated = useSettingsStore((s) => s.isHydrated);
   const hasRunRef = useRef(false);
-  const [undoSnapshots, setUndoSnapshots] = useState<Task[] | null>(null);
 
   const applyCarryOver = useCallback(
     (candidates: Task[], today: string) => {
-      const { carriedOver, originalSnapshots } = carryOverTasks(candidates, today);
-
-      // Apply each carried-over task to the store (which persists to SQLite)
-      for (const task of carriedOver) {
-        updateTask(task.id, {
-          scheduledDate: task.scheduledDate,
-          carriedOverFrom: task.carriedOverFrom,
-          updatedAt: task.updatedAt,
-        });
-      }
+      const { carriedOver } = carryOverTasks(candidates, today);
 
-      // Save snapshots for undo
-      setUndoSnapshots(originalSnapshots);
+      // Apply each carried-over task to the store (which persists to SQLite) as one undoable change
+      record('Tasks carried over', () => {
+        for (const task of carriedOver) {
+          updateTask(task.id, {
+            scheduledDate: task.scheduledDate,
+            carriedOverFrom: task.carriedOverFrom,
+            updatedAt: task.updatedAt,
+          });
+        }
+      }, { notify: true });
     },
-    [updateTask],
+    [updateTask, record],
   );
 
-  const handleUndo = useCallback(() => {
-    if (!undoSnapshots) return;
-
-    const restored = undoCarryOver(undoSnapshots);
-    for (const task of restored) {
-      updateTask(task.id, {
-        scheduledDate: task.scheduledDate,
-        carriedOverFrom: task.carriedOverFrom,
-        updatedAt: task.updatedAt,
-      });
-    }
-
-    setUndoSnapshots(null);
-  }, [undoSnapshots, updateTask]);
-
   // Run carry-over once on startup after hydration
   useEffect(() => {
     if (hasRunRef.current || !isHydrated || tasks.length === 0) return;
@@ -107,13 +89,4 @@ export function useCarryOver() {
         break;
     }
   }, [tasks, isHydrated, carryOverBehavior, applyCarryOver]);
-
-  return {
-    /** Whether an undo is available */
-    canUndo: undoSnapshots !== null && undoSnapshots.length > 0,
-    /** Undo the last carry-over */
-    undo: handleUndo,
-    /** Dismiss the undo option */
-    dismissUndo: () => setUndoSnapshots(null),
-  };
 }
@@ -1,39 +1,104 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import * as SQLite from 'expo-sqlite';
-import { initDatabase } from '../db/schema';
+import { upgradeDatabase } from '../db/upgrade';
 import { Config } from '../constants';
-import { useTaskStore, useTimeBlockStore, useSettingsStore, useTemplateStore } from '../store';
+import { getRangeAround } from '../utils';
+import {
+  useTaskStore,
+  useTimeBlockStore,
+  useSettingsStore,
+  useTemplateStore,
+  useDayPlanStore,
+  useTrashStore,
+  useWriteQueueStore,
+  useIntegrityStore,
+} from '../store';
 
 let dbInstance: SQLite.SQLiteDatabase | null = null;
 
+/**
+ * The open database, or null until useDatabase has finished setting it up.
+ */
+export function getDatabase(): SQLite.SQLiteDatabase | null {
+  return dbInstance;
+}
+
 export function useDatabase() {
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  // Bumped to run setup again from the recovery screen
+  const [attempt, setAttempt] = useState(0);
   const hydrateTasksFromDb = useTaskStore((s) => s.hydrateFromDb);
   const hydrateTimeBlocksFromDb = useTimeBlockStore((s) => s.hydrateFromDb);
   const hydrateSettingsFromDb = useSettingsStore((s) => s.hydrateFromDb);
   const hydrateTemplatesFromDb = useTemplateStore((s) => s.hydrateFromDb);
+  const hydrateDayPlansFromDb = useDayPlanStore((s) => s.hydrateFromDb);
+  const hydrateTrashFromDb = useTrashStore((s) => s.hydrateFromDb);
+  const hydrateWriteQueueFromDb = useWriteQueueStore((s) => s.hydrateFromDb);
+  const hydrateIntegrityFromDb = useIntegrityStore((s) => s.hydrateFromDb);
+  const purgeExpiredTrash = useTrashStore((s) => s.purgeExpired);
 
   useEffect(() => {
     async function setup() {
+      setError(null);
       try {
         if (!dbInstance) {
-          dbInstance = await SQLite.openDatabaseAsync(Config.dbName);
-          await initDatabase(dbInstance);
+          const db = await SQLite.openDatabaseAsync(Config.dbName);
+          try {
+            await upgradeDatabase(db);
+          } catch (err) {
+            // Reopened on retry, so the upgrade runs again
+            await db.closeAsync().catch(console.error);
+            throw err;
+          }
+          dbInstance = db;
         }
+        // Every store writes through the queue, so it has to exist before any of them hydrate
+        await hydrateWriteQueueFromDb(dbInstance);
+        // Rows the stores could not parse are repaired before anything loads them
+        await hydrateIntegrityFromDb(dbInstance);
+        // Only the weeks around the selected day are loaded; navigating pages in more
+        const range = getRangeAround(useTaskStore.getState().selectedDate, Config.loadWindowDays);
         await Promise.all([
-          hydrateTasksFromDb(dbInstance),
-          hydrateTimeBlocksFromDb(dbInstance),
+          hydrateTasksFromDb(dbInstance, range),
+          hydrateTimeBlocksFromDb(dbInstance, range),
           hydrateSettingsFromDb(dbInstance),
           hydrateTemplatesFromDb(dbInstance),
+          hydrateDayPlansFromDb(dbInstance),
+          hydrateTrashFromDb(dbInstance),
         ]);
+        // Retention is a setting, so expired trash can only be purged once settings are loaded
+        await purgeExpiredTrash(useSettingsStore.getState().trashRetentionDays);
         setIsReady(true);
       } catch (err) {
         setError(err instanceof Error ? err : new Error(String(err)));
       }
     }
     setup();
-  }, [hydrateTasksFromDb, hydrateTimeBlocksFromDb, hydrateSettingsFromDb, hydrateTemplatesFromDb]);
+  }, [
+    attempt,
+    hydrateTasksFromDb,
+    hydrateTimeBlocksFromDb,
+    hydrateSettingsFromDb,
+    hydrateTemplatesFromDb,
+    hydrateDayPlansFromDb,
+    hydrateTrashFromDb,
+    hydrateWriteQueueFromDb,
+    hydrateIntegrityFromDb,
+    purgeExpiredTrash,
+  ]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  // Deletes every task, block and setting; only offered once loading has failed
+  const resetDatabase = useCallback(async () => {
+    if (dbInstance) {
+      await dbInstance.closeAsync();
+      dbInstance = null;
+    }
+    await SQLite.deleteDatabaseAsync(Config.dbName);
+    setAttempt((n) => n + 1);
+  }, []);
 
-  return { db: dbInstance, isReady, error };
+  return { db: dbInstance, isReady, error, retry, resetDatabase };
 }
@@ -0,0 +1,38 @@
+import { useCallback, useState } from 'react';
+import { loadTaskIds, loadTimeBlockIds } from '../db';
+import { planICalImport } from '../services';
+import type { ICalItem, ICalImportCandidate } from '../services';
+import { useWriteQueueStore } from '../store';
+import { getDatabase } from './useDatabase';
+
+interface UseICalImportResult {
+  busy: boolean;
+  planImport: (items: ICalItem[]) => Promise<ICalImportCandidate[]>;
+}
+
+/**
+ * Plan a calendar import. Duplicates are looked up among every stored task
+ * and block, not just the loaded weeks: the trash and dates far from the
+ * selected day hold earlier imports too, and importing over one would
+ * replace it.
+ */
+export function useICalImport(): UseICalImportResult {
+  const [busy, setBusy] = useState(false);
+
+  const planImport = useCallback(async (items: ICalItem[]) => {
+    const db = getDatabase();
+    if (!db) throw new Error('Database is not ready yet.');
+
+    setBusy(true);
+    try {
+      // Let queued writes land so rows added in memory are found too
+      await useWriteQueueStore.getState().flush();
+      const [taskIds, blockIds] = await Promise.all([loadTaskIds(db), loadTimeBlockIds(db)]);
+      return planICalImport(items, taskIds, blockIds);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { busy, planImport };
+}
@@ -1,42 +1,180 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import * as Notifications from 'expo-notifications';
 import type { EventSubscription } from 'expo-modules-core';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { loadAllTasks, loadAllOccurrences, loadAllTimeBlocks } from '../db';
 import {
   requestNotificationPermissions,
   setupNotificationHandler,
+  registerNotificationCategories,
+  reconcileNotifications,
+  snoozeNotification,
+  NotificationActions,
 } from '../services/notificationService';
-import { useNotificationStore } from '../store/useNotificationStore';
+import type { NotificationSyncSettings } from '../services/notificationService';
+import { useSettingsStore, getQuietHours } from '../store/useSettingsStore';
+import { useTaskStore } from '../store/useTaskStore';
+import { useTimeBlockStore } from '../store/useTimeBlockStore';
+import { useWriteQueueStore } from '../store/useWriteQueueStore';
+import type { TaskOccurrence } from '../types';
+import { navigationRef, navigateWhenReady } from '../navigation/navigationRef';
+import { formatDate, buildOccurrenceId } from '../utils';
+import { getDatabase } from './useDatabase';
 
 /**
- * Hook to initialize notification permissions, set up the foreground handler,
- * and listen for notification interactions.
+ * Reconcile the OS schedule with every stored task and time block. The
+ * stores only hold the weeks around the selected day, and reconciling
+ * cancels whatever it does not plan, so the rows are read from the database
+ * once the queued writes have landed.
+ */
+export async function reconcileStoredNotifications(
+  db: SQLiteDatabase,
+  settings: NotificationSyncSettings,
+): Promise<void> {
+  await useWriteQueueStore.getState().flush();
+  const [tasks, occurrenceRows, timeBlocks] = await Promise.all([
+    loadAllTasks(db),
+    loadAllOccurrences(db),
+    loadAllTimeBlocks(db),
+  ]);
+  const occurrences: Record<string, TaskOccurrence> = {};
+  for (const occurrence of occurrenceRows) {
+    occurrences[buildOccurrenceId(occurrence.taskId, occurrence.date)] = occurrence;
+  }
+  await reconcileNotifications(tasks, occurrences, timeBlocks, settings);
+}
+
+/**
+ * Resolve the task a reminder was scheduled for to the id the store expects:
+ * the occurrence id for a recurring task, the stored id otherwise.
+ */
+function resolveReminderTaskId(data: Record<string, string>): string | null {
+  const task = useTaskStore.getState().tasks.find((t) => t.id === data.taskId);
+  if (!task) return null;
+  return task.recurrence && data.date ? buildOccurrenceId(task.id, data.date) : task.id;
+}
+
+/**
+ * Start a block now, keeping its duration.
+ */
+function startBlockNow(blockId: string) {
+  const { timeBlocks, moveTimeBlock } = useTimeBlockStore.getState();
+  const block = timeBlocks.find((b) => b.id === blockId);
+  if (!block) return;
+  const durationMs = new Date(block.endTime).getTime() - new Date(block.startTime).getTime();
+  const start = new Date();
+  moveTimeBlock(block.id, start.toISOString(), new Date(start.getTime() + durationMs).toISOString());
+}
+
+/**
+ * Open the Today tab on the day of the task or block a notification is about.
+ */
+function openNotificationTarget(data: Record<string, string>) {
+  const { setSelectedDate } = useTaskStore.getState();
+
+  if (data.type === 'task-reminder') {
+    const taskId = resolveReminderTaskId(data);
+    if (!taskId) return;
+    setSelectedDate(data.date);
+    navigateWhenReady(() => navigationRef.navigate('Today', { focusTaskId: taskId }));
+    return;
+  }
+
+  if (data.type === 'block-nudge') {
+    const block = useTimeBlockStore.getState().timeBlocks.find((b) => b.id === data.blockId);
+    if (!block) return;
+    setSelectedDate(formatDate(block.startTime));
+    navigateWhenReady(() => navigationRef.navigate('Today', { focusBlockId: block.id }));
+  }
+}
+
+/**
+ * Route a tap or action button press on a task reminder or block nudge.
+ */
+function handleNotificationResponse(response: Notifications.NotificationResponse) {
+  const { request } = response.notification;
+  const data = (request.content.data ?? {}) as Record<string, string>;
+
+  switch (response.actionIdentifier) {
+    case NotificationActions.markDone: {
+      const taskId = resolveReminderTaskId(data);
+      if (taskId) useTaskStore.getState().setTaskStatus(taskId, 'done');
+      break;
+    }
+    case NotificationActions.snooze:
+      snoozeNotification(request).catch(console.error);
+      break;
+    case NotificationActions.start:
+      if (data.type === 'task-reminder') {
+        const taskId = resolveReminderTaskId(data);
+        if (taskId) useTaskStore.getState().setTaskStatus(taskId, 'in_progress');
+      } else if (data.type === 'block-nudge') {
+        startBlockNow(data.blockId);
+      }
+      openNotificationTarget(data);
+      break;
+    case Notifications.DEFAULT_ACTION_IDENTIFIER:
+      openNotificationTarget(data);
+      break;
+  }
+}
+
+/**
+ * Hook to initialize notification permissions, set up the foreground handler
+ * and action categories, and route notification taps and actions. Once the
+ * stores are hydrated (`isReady`), and whenever a notification preference in
+ * the settings store changes, the OS schedule is reconciled with the stored
+ * tasks and time blocks.
  *
  * Call this once in the root App component.
  */
-export function useNotifications() {
-  const setEnabled = useNotificationStore((s) => s.setEnabled);
+export function useNotifications(isReady: boolean) {
+  const notificationsEnabled = useSettingsStore((s) => s.notificationsEnabled);
+  const reminderOffsetMinutes = useSettingsStore((s) => s.reminderOffsetMinutes);
+  const quietHoursStart = useSettingsStore((s) => s.quietHoursStart);
+  const quietHoursEnd = useSettingsStore((s) => s.quietHoursEnd);
+  const quietHoursByDay = useSettingsStore((s) => s.quietHoursByDay);
+  const muteUntil = useSettingsStore((s) => s.muteUntil);
+  const allDayReminderTime = useSettingsStore((s) => s.allDayReminderTime);
   const responseListenerRef = useRef<EventSubscription | null>(null);
 
+  const quietHours = useMemo(
+    () => getQuietHours({ quietHoursStart, quietHoursEnd, quietHoursByDay, muteUntil }),
+    [quietHoursStart, quietHoursEnd, quietHoursByDay, muteUntil],
+  );
+
   useEffect(() => {
     // Set up how notifications are displayed in the foreground
     setupNotificationHandler();
+    registerNotificationCategories().catch(console.error);
+  }, []);
 
-    // Request permissions on mount
+  useEffect(() => {
+    // Wait for the persisted preference before asking for permission
+    if (!isReady || !useSettingsStore.getState().notificationsEnabled) return;
     requestNotificationPermissions().then((granted) => {
       if (!granted) {
-        setEnabled(false);
+        useSettingsStore.getState().updateSetting('notificationsEnabled', false);
       }
     });
+  }, [isReady]);
+
+  useEffect(() => {
+    // Responses need hydrated stores to resolve their task or block
+    if (!isReady) return;
+
+    // The app may have been launched by tapping a notification
+    const launchResponse = Notifications.getLastNotificationResponse();
+    if (launchResponse) {
+      Notifications.clearLastNotificationResponse();
+      handleNotificationResponse(launchResponse);
+    }
 
     // Listen for user interactions with notifications (tap, action)
     responseListenerRef.current = Notifications.addNotificationResponseReceivedListener(
       (response) => {
-        const data = response.notification.request.content.data;
-        // Navigation or other handling can be wired here later
-        // For now, just log the notification interaction
-        if (__DEV__) {
-          console.log('Notification tapped:', data);
-        }
+        Notifications.clearLastNotificationResponse();
+        handleNotificationResponse(response);
       },
     );
 
@@ -45,5 +183,16 @@ export function useNotifications() {
         responseListenerRef.current.remove();
       }
     };
-  }, [setEnabled]);
+  }, [isReady]);
+
+  useEffect(() => {
+    const db = getDatabase();
+    if (!isReady || !db) return;
+    reconcileStoredNotifications(db, {
+      enabled: notificationsEnabled,
+      quietHours,
+      allDayReminderTime,
+      blockNudgeOffsetMinutes: reminderOffsetMinutes,
+    }).catch(console.error);
+  }, [isReady, notificationsEnabled, quietHours, allDayReminderTime, reminderOffsetMinutes]);
 }
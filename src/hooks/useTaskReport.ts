@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { loadTasksInRange, loadOccurrencesInRange } from '../db';
+import { buildTaskReport } from '../services';
+import type { ReportFilter, ReportFormat } from '../services';
+import { buildOccurrenceId } from '../utils';
+import { useWriteQueueStore } from '../store';
+import type { TaskOccurrence } from '../types';
+import { getDatabase } from './useDatabase';
+
+interface UseTaskReportResult {
+  busy: boolean;
+  buildReport: (filter: ReportFilter, reportFormat: ReportFormat) => Promise<string>;
+}
+
+/**
+ * Build CSV or Markdown reports of task history. Reads the report's range
+ * from the database rather than the store, so reports can reach dates that
+ * are not loaded.
+ */
+export function useTaskReport(): UseTaskReportResult {
+  const [busy, setBusy] = useState(false);
+
+  const buildReport = useCallback(async (filter: ReportFilter, reportFormat: ReportFormat) => {
+    const db = getDatabase();
+    if (!db) throw new Error('Database is not ready yet.');
+
+    setBusy(true);
+    try {
+      // Let queued edits land first so the report sees them
+      await useWriteQueueStore.getState().flush();
+      const [tasks, occurrenceRows] = await Promise.all([
+        loadTasksInRange(db, filter),
+        loadOccurrencesInRange(db, filter),
+      ]);
+      const occurrences: Record<string, TaskOccurrence> = {};
+      for (const occurrence of occurrenceRows) {
+        occurrences[buildOccurrenceId(occurrence.taskId, occurrence.date)] = occurrence;
+      }
+      return buildTaskReport(tasks, occurrences, filter, reportFormat);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { busy, buildReport };
+}
@@ -0,0 +1,37 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+
+export type RootTabParamList = {
+  Today: { focusTaskId?: string; focusBlockId?: string } | undefined;
+  Tasks: undefined;
+  Settings: undefined;
+};
+
+/**
+ * Ref to the root NavigationContainer, for navigating from outside the
+ * component tree (e.g. when a notification is tapped).
+ */
+export const navigationRef = createNavigationContainerRef<RootTabParamList>();
+
+let pendingNavigation: (() => void) | null = null;
+
+/**
+ * Run a navigation now, or once the container is ready if the app is still
+ * starting up (e.g. launched by tapping a notification).
+ */
+export function navigateWhenReady(navigate: () => void): void {
+  if (navigationRef.isReady()) {
+    navigate();
+  } else {
+    pendingNavigation = navigate;
+  }
+}
+
+/**
+ * Flush a navigation queued before the container was ready.
+ * Pass as the NavigationContainer's onReady.
+ */
+export function flushPendingNavigation(): void {
+  const navigate = pendingNavigation;
+  pendingNavigation = null;
+  navigate?.();
+}
@@ -1,26 +1,69 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { View, Text, Pressable, StyleSheet } from 'react-native';
+import React, { useCallback, useEffect, useState, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, Alert, Share } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { parseISO, startOfDay, endOfDay, startOfWeek, endOfWeek, format } from 'date-fns';
+import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import {
+  parseISO,
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  format,
+} from 'date-fns';
 import { Dimensions } from '../constants';
-import { TimelineView, TemplateSheet } from '../components/timeline';
+import { TimelineView, TemplateSheet, DayWindowBar } from '../components/timeline';
 import { WeeklyCalendar, DaySummaryStats, MonthCalendar, WeekView } from '../components/common';
+import { TaskForm } from '../components/task';
 import { useCalendar } from '../hooks/useCalendar';
-import { useCalendarStore, useTaskStore, useSettingsStore } from '../store';
+import {
+  useCalendarStore,
+  useTaskStore,
+  useSettingsStore,
+  useTimeBlockStore,
+  useHistoryStore,
+  useDayPlanStore,
+} from '../store';
+import { buildICalendar, planDay } from '../services';
+import type { ICalExportRange, ScheduleProposal } from '../services';
 import { useTheme } from '../theme/ThemeContext';
+import { getTasksForDate, formatDate, getDayHours, coversDate } from '../utils';
 import type { ThemeColors } from '../constants/colors';
+import type { RootTabParamList } from '../navigation/navigationRef';
 
 type ViewMode = 'day' | 'week' | 'month';
 
-export default function DayTimelineScreen() {
+type Props = BottomTabScreenProps<RootTabParamList, 'Today'>;
+
+export default function DayTimelineScreen({ route, navigation }: Props) {
   const colors = useTheme();
   const styles = useStyles(colors);
   const insets = useSafeAreaInsets();
   const selectedDate = useTaskStore((s) => s.selectedDate);
+  const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
+  const addTask = useTaskStore((s) => s.addTask);
+  const updateTask = useTaskStore((s) => s.updateTask);
+  const applyDayPlan = useTaskStore((s) => s.applyDayPlan);
+  const deleteTask = useTaskStore((s) => s.deleteTask);
+  const updateTaskInSeries = useTaskStore((s) => s.updateTaskInSeries);
+  const deleteTaskInSeries = useTaskStore((s) => s.deleteTaskInSeries);
   const setCalendarEvents = useCalendarStore((s) => s.setCalendarEvents);
   const setReminders = useCalendarStore((s) => s.setReminders);
   const calendarSyncEnabled = useSettingsStore((s) => s.calendarSyncEnabled);
+  const defaultTaskDurationMinutes = useSettingsStore((s) => s.defaultTaskDurationMinutes);
+  const timeBlocks = useTimeBlockStore((s) => s.timeBlocks);
   const calendarEnabled = useCalendarStore((s) => s.calendarEnabled);
+  const calendarEvents = useCalendarStore((s) => s.calendarEvents);
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
+  const dayEndHour = useSettingsStore((s) => s.dayEndHour);
+  const dayPlan = useDayPlanStore((s) => s.dayPlans[selectedDate]);
+  const record = useHistoryStore((s) => s.record);
+  const canUndo = useHistoryStore((s) => s.past.length > 0);
+  const canRedo = useHistoryStore((s) => s.future.length > 0);
+  const undo = useHistoryStore((s) => s.undo);
+  const redo = useHistoryStore((s) => s.redo);
   const {
     events,
     reminders,
@@ -33,6 +76,88 @@ export default function DayTimelineScreen() {
   } = useCalendar();
   const [templateSheetVisible, setTemplateSheetVisible] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('day');
+  const [proposal, setProposal] = useState<ScheduleProposal | null>(null);
+  // A proposal only previews on the day it was made for
+  const visibleProposal = proposal?.date === selectedDate && viewMode === 'day' ? proposal : null;
+
+  // Deep links from notifications open a task or focus a block on the day view
+  const focusTaskId = route.params?.focusTaskId;
+  const focusBlockId = route.params?.focusBlockId;
+  if (focusBlockId && viewMode !== 'day') {
+    setViewMode('day');
+  }
+
+  const focusedTask = useMemo(() => {
+    if (!focusTaskId) return null;
+    return getTasksForDate(tasks, occurrences, selectedDate).find((t) => t.id === focusTaskId) ?? null;
+  }, [focusTaskId, tasks, occurrences, selectedDate]);
+
+  const shareCalendar = useCallback(
+    async (range: ICalExportRange) => {
+      const ics = buildICalendar(tasks, occurrences, timeBlocks, range, defaultTaskDurationMinutes);
+      try {
+        await Share.share({ title: 'DayDeck calendar', message: ics });
+      } catch (err) {
+        Alert.alert('Export Failed', err instanceof Error ? err.message : String(err));
+      }
+    },
+    [tasks, occurrences, timeBlocks, defaultTaskDurationMinutes],
+  );
+
+  const handleExportCalendar = useCallback(() => {
+    const parsed = parseISO(selectedDate);
+    Alert.alert('Export Calendar', 'Share tasks and time blocks as an .ics calendar.', [
+      { text: 'This day', onPress: () => shareCalendar({ startDate: selectedDate, endDate: selectedDate }) },
+      {
+        text: 'This week',
+        onPress: () =>
+          shareCalendar({
+            startDate: formatDate(startOfWeek(parsed, { weekStartsOn: 0 })),
+            endDate: formatDate(endOfWeek(parsed, { weekStartsOn: 0 })),
+          }),
+      },
+      {
+        text: 'This month',
+        onPress: () =>
+          shareCalendar({ startDate: formatDate(startOfMonth(parsed)), endDate: formatDate(endOfMonth(parsed)) }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [selectedDate, shareCalendar]);
+
+  const handlePlanDay = useCallback(() => {
+    const { startHour, endHour } = getDayHours(dayPlan, dayStartHour, dayEndHour);
+    const next = planDay(
+      getTasksForDate(tasks, occurrences, selectedDate),
+      timeBlocks.filter((b) => coversDate(b.startTime, b.endTime, selectedDate)),
+      calendarEnabled
+        ? calendarEvents.filter((e) => coversDate(e.startTime, e.endTime, selectedDate))
+        : [],
+      { date: selectedDate, startHour, endHour },
+    );
+    if (next.blocks.length === 0 && next.deferred.length === 0) {
+      Alert.alert('Nothing to Plan', 'Tasks with an estimate and no time of day are planned here.');
+      return;
+    }
+    setViewMode('day');
+    setProposal(next);
+  }, [
+    dayPlan,
+    dayStartHour,
+    dayEndHour,
+    tasks,
+    occurrences,
+    selectedDate,
+    timeBlocks,
+    calendarEnabled,
+    calendarEvents,
+  ]);
+
+  const handleApplyProposal = useCallback(() => {
+    if (!visibleProposal) return;
+    record('Day planned', () => applyDayPlan(visibleProposal.blocks), { notify: true });
+    setProposal(null);
+  }, [visibleProposal, record, applyDayPlan]);
 
   const dayName = format(parseISO(selectedDate), 'EEEE');
   const dateLabel = format(parseISO(selectedDate), 'MMMM d, yyyy');
@@ -81,18 +206,72 @@ export default function DayTimelineScreen() {
               {dateLabel}
             </Text>
           </View>
-          <Pressable
-            onPress={() => setTemplateSheetVisible(true)}
-            style={({ pressed }) => [
-              styles.templateButton,
-              pressed && { backgroundColor: colors.primary + '25' },
-            ]}
-            accessibilityRole="button"
-            accessibilityLabel="Open templates"
-          >
-            <Text style={styles.templateButtonIcon}>{'\u{1F4CB}'}</Text>
-            <Text style={styles.templateButtonText}>Templates</Text>
-          </Pressable>
+          <View style={styles.headerActions}>
+            <Pressable
+              onPress={undo}
+              disabled={!canUndo}
+              style={({ pressed }) => [
+                styles.templateButton,
+                pressed && { backgroundColor: colors.primary + '25' },
+                !canUndo && styles.historyButtonDisabled,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Undo"
+              accessibilityState={{ disabled: !canUndo }}
+            >
+              <Text style={styles.templateButtonText}>{'\u21B6'}</Text>
+            </Pressable>
+            <Pressable
+              onPress={redo}
+              disabled={!canRedo}
+              style={({ pressed }) => [
+                styles.templateButton,
+                pressed && { backgroundColor: colors.primary + '25' },
+                !canRedo && styles.historyButtonDisabled,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Redo"
+              accessibilityState={{ disabled: !canRedo }}
+            >
+              <Text style={styles.templateButtonText}>{'\u21B7'}</Text>
+            </Pressable>
+            <Pressable
+              onPress={handlePlanDay}
+              style={({ pressed }) => [
+                styles.templateButton,
+                pressed && { backgroundColor: colors.primary + '25' },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Plan my day"
+            >
+              <Text style={styles.templateButtonIcon}>{'\u2728'}</Text>
+              <Text style={styles.templateButtonText}>Plan</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleExportCalendar}
+              style={({ pressed }) => [
+                styles.templateButton,
+                pressed && { backgroundColor: colors.primary + '25' },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Export calendar"
+            >
+              <Text style={styles.templateButtonIcon}>{'\u{1F4E4}'}</Text>
+              <Text style={styles.templateButtonText}>Export</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setTemplateSheetVisible(true)}
+              style={({ pressed }) => [
+                styles.templateButton,
+                pressed && { backgroundColor: colors.primary + '25' },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Open templates"
+            >
+              <Text style={styles.templateButtonIcon}>{'\u{1F4CB}'}</Text>
+              <Text style={styles.templateButtonText}>Templates</Text>
+            </Pressable>
+          </View>
         </View>
         {!hasCalendarPermission && calendarSyncEnabled && (
           <Pressable
@@ -173,7 +352,14 @@ export default function DayTimelineScreen() {
         <>
           <WeeklyCalendar />
           <DaySummaryStats />
-          <TimelineView />
+          <DayWindowBar />
+          <TimelineView
+            focusBlockId={focusBlockId}
+            onFocusHandled={() => navigation.setParams({ focusBlockId: undefined })}
+            proposal={visibleProposal}
+            onApplyProposal={handleApplyProposal}
+            onDiscardProposal={() => setProposal(null)}
+          />
         </>
       ) : viewMode === 'week' ? (
         <WeekView />
@@ -185,6 +371,18 @@ export default function DayTimelineScreen() {
         visible={templateSheetVisible}
         onClose={() => setTemplateSheetVisible(false)}
       />
+
+      <TaskForm
+        visible={focusedTask !== null}
+        onClose={() => navigation.setParams({ focusTaskId: undefined })}
+        onSubmit={addTask}
+        onUpdate={updateTask}
+        onDelete={deleteTask}
+        onUpdateSeries={updateTaskInSeries}
+        onDeleteSeries={deleteTaskInSeries}
+        editingTask={focusedTask}
+        selectedDate={selectedDate}
+      />
     </View>
   );
 }
@@ -210,6 +408,10 @@ function useStyles(colors: ThemeColors) {
     headerLeft: {
       flex: 1,
     },
+    headerActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
     dayName: {
       fontSize: 14,
       fontWeight: '600',
@@ -240,6 +442,9 @@ function useStyles(colors: ThemeColors) {
       fontWeight: '700',
       color: colors.primary,
     },
+    historyButtonDisabled: {
+      opacity: 0.4,
+    },
     calendarPrompt: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,162 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Text, Pressable, ScrollView, Alert, StyleSheet } from 'react-native';
+import { Dimensions } from '../constants';
+import { useTheme } from '../theme/ThemeContext';
+import type { ThemeColors } from '../constants/colors';
+import { DatabaseUpgradeError } from '../db/upgrade';
+
+interface RecoveryScreenProps {
+  error: Error;
+  onRetry: () => void;
+  onReset: () => Promise<void>;
+}
+
+function describeError(error: Error): string {
+  if (!(error instanceof DatabaseUpgradeError)) {
+    return 'DayDeck could not open its database.';
+  }
+  return error.restored
+    ? 'Updating your data to this version of DayDeck failed. Your data was put back exactly as it was before the update, so nothing has been lost.'
+    : 'Updating your data to this version of DayDeck failed, and the copy taken before the update could not be put back.';
+}
+
+/**
+ * Shown instead of the app when the database fails to open or upgrade,
+ * with a way to try again or, as a last resort, to start from scratch.
+ */
+export default function RecoveryScreen({ error, onRetry, onReset }: RecoveryScreenProps) {
+  const colors = useTheme();
+  const styles = useStyles(colors);
+  const [resetting, setResetting] = useState(false);
+
+  const confirmReset = useCallback(() => {
+    Alert.alert(
+      'Erase All Data',
+      'Every task, time block, template and setting will be permanently deleted. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Erase',
+          style: 'destructive',
+          onPress: () => {
+            setResetting(true);
+            onReset()
+              .catch((err: unknown) =>
+                Alert.alert('Erase Failed', err instanceof Error ? err.message : String(err)),
+              )
+              .finally(() => setResetting(false));
+          },
+        },
+      ],
+    );
+  }, [onReset]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} accessibilityRole="alert">
+      <Text style={styles.icon}>{'\u{1F6E0}\uFE0F'}</Text>
+      <Text style={styles.title} accessibilityRole="header">
+        Your data couldn&apos;t be loaded
+      </Text>
+      <Text style={styles.message}>{describeError(error)}</Text>
+      <Text style={styles.message}>
+        Try again, or update DayDeck if a newer version is available.
+      </Text>
+      <Text style={styles.errorDetail} numberOfLines={8} selectable>
+        {error.message}
+      </Text>
+
+      <Pressable
+        onPress={onRetry}
+        disabled={resetting}
+        style={({ pressed }) => [styles.primaryButton, pressed && styles.primaryButtonPressed]}
+        accessibilityRole="button"
+        accessibilityLabel="Try again"
+      >
+        <Text style={styles.primaryButtonText}>Try Again</Text>
+      </Pressable>
+      <Pressable
+        onPress={confirmReset}
+        disabled={resetting}
+        style={({ pressed }) => [styles.secondaryButton, pressed && styles.secondaryButtonPressed]}
+        accessibilityRole="button"
+        accessibilityLabel="Erase all data and start over"
+      >
+        <Text style={styles.secondaryButtonText}>Erase Data and Start Over</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+function useStyles(colors: ThemeColors) {
+  return useMemo(() => StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      flexGrow: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: Dimensions.screenPadding * 2,
+    },
+    icon: {
+      fontSize: 48,
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: Dimensions.fontXXL,
+      fontWeight: '700',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: 12,
+    },
+    message: {
+      fontSize: Dimensions.fontMD,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 22,
+      marginBottom: 12,
+    },
+    errorDetail: {
+      fontSize: Dimensions.fontXS,
+      color: colors.error,
+      backgroundColor: colors.surfaceSecondary,
+      padding: Dimensions.cardPadding,
+      borderRadius: Dimensions.radiusSmall,
+      marginTop: 4,
+      marginBottom: 24,
+      alignSelf: 'stretch',
+      fontFamily: 'monospace',
+    },
+    primaryButton: {
+      alignSelf: 'stretch',
+      alignItems: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: Dimensions.radiusMedium,
+      paddingVertical: 14,
+      marginBottom: 10,
+    },
+    primaryButtonPressed: {
+      backgroundColor: colors.primaryDark,
+    },
+    primaryButtonText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '600',
+      color: colors.surface,
+    },
+    secondaryButton: {
+      alignSelf: 'stretch',
+      alignItems: 'center',
+      borderRadius: Dimensions.radiusMedium,
+      paddingVertical: 14,
+    },
+    secondaryButtonPressed: {
+      backgroundColor: colors.surfaceTertiary,
+    },
+    secondaryButtonText: {
+      fontSize: Dimensions.fontMD,
+      fontWeight: '600',
+      color: colors.error,
+    },
+  }), [colors]);
+}
@@ -8,13 +8,19 @@ import {
   StyleSheet,
   Alert,
   Platform,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { addDays, addMinutes, format, isAfter, parseISO, set as setDate } from 'date-fns';
 import { Dimensions } from '../constants';
-import { useSettingsStore } from '../store';
+import { useSettingsStore, useIntegrityStore } from '../store';
+import { requestNotificationPermissions } from '../services';
+import { useBackup } from '../hooks';
+import { RestoreBackupSheet, ICalImportSheet, TrashSheet, IntegritySheet } from '../components/common';
 import { useTheme } from '../theme/ThemeContext';
 import type { CarryOverBehavior, ThemeSetting } from '../store/useSettingsStore';
 import type { ThemeColors } from '../constants/colors';
+import type { QuietWindow, OverlapPolicy } from '../types';
 
 // ---------------------------------------------------------------------------
 // Data
@@ -32,8 +38,27 @@ const CARRY_OVER_OPTIONS: { value: CarryOverBehavior; label: string; desc: strin
   { value: 'never', label: 'Never', desc: 'Incomplete tasks stay' },
 ];
 
+const OVERLAP_OPTIONS: { value: OverlapPolicy; label: string; desc: string }[] = [
+  { value: 'allow', label: 'Overlap', desc: 'Blocks may overlap' },
+  { value: 'push', label: 'Push', desc: 'Later blocks move down to make room' },
+  { value: 'swap', label: 'Swap', desc: 'A block dropped on another trades places with it' },
+  { value: 'reject', label: 'Refuse', desc: 'Moves onto another block are undone' },
+];
+
 const DURATION_PRESETS = [15, 30, 45, 60] as const;
 
+// Nights before a day off; a quiet window belongs to the day it starts on
+const WEEKEND_NIGHTS = [5, 6];
+
+const MUTE_PRESETS: { label: string; minutes: number | null }[] = [
+  { label: '1 hour', minutes: 60 },
+  { label: '3 hours', minutes: 180 },
+  { label: 'Until morning', minutes: null },
+];
+
+// How long deleted items stay in the trash, in days
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
 // ---------------------------------------------------------------------------
 // Main screen
 // ---------------------------------------------------------------------------
@@ -45,13 +70,25 @@ export default function SettingsScreen() {
   const defaultTaskDurationMinutes = useSettingsStore((s) => s.defaultTaskDurationMinutes);
   const quietHoursStart = useSettingsStore((s) => s.quietHoursStart);
   const quietHoursEnd = useSettingsStore((s) => s.quietHoursEnd);
+  const quietHoursByDay = useSettingsStore((s) => s.quietHoursByDay);
+  const muteUntil = useSettingsStore((s) => s.muteUntil);
   const carryOverBehavior = useSettingsStore((s) => s.carryOverBehavior);
+  const overlapPolicy = useSettingsStore((s) => s.overlapPolicy);
   const reminderOffsetMinutes = useSettingsStore((s) => s.reminderOffsetMinutes);
+  const allDayReminderTime = useSettingsStore((s) => s.allDayReminderTime);
   const theme = useSettingsStore((s) => s.theme);
   const updateSetting = useSettingsStore((s) => s.updateSetting);
 
   const calendarSyncEnabled = useSettingsStore((s) => s.calendarSyncEnabled);
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const notificationsEnabled = useSettingsStore((s) => s.notificationsEnabled);
+  const trashRetentionDays = useSettingsStore((s) => s.trashRetentionDays);
+
+  const { busy: backupBusy, exportBackup, importBackup } = useBackup();
+  const [showRestore, setShowRestore] = useState(false);
+  const [showCalendarImport, setShowCalendarImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showIntegrity, setShowIntegrity] = useState(false);
+  const integrityIssueCount = useIntegrityStore((s) => s.issues.length);
 
   const s = useStyles(colors);
 
@@ -83,6 +120,65 @@ export default function SettingsScreen() {
     [],
   );
 
+  const handleToggleNotifications = useCallback(
+    async (enabled: boolean) => {
+      if (enabled && !(await requestNotificationPermissions())) {
+        Alert.alert(
+          'Notifications Blocked',
+          'Allow notifications for DayDeck in your device settings to get reminders.',
+        );
+        return;
+      }
+      updateSetting('notificationsEnabled', enabled);
+    },
+    [updateSetting],
+  );
+
+  const weekendQuietHours = quietHoursByDay[WEEKEND_NIGHTS[0]] ?? null;
+
+  const setWeekendQuietHours = useCallback(
+    (window: QuietWindow | null) => {
+      const next = { ...quietHoursByDay };
+      for (const day of WEEKEND_NIGHTS) {
+        if (window) {
+          next[day] = window;
+        } else {
+          delete next[day];
+        }
+      }
+      updateSetting('quietHoursByDay', next);
+    },
+    [quietHoursByDay, updateSetting],
+  );
+
+  const isMuted = muteUntil !== null && isAfter(parseISO(muteUntil), new Date());
+
+  const handleMute = useCallback(
+    (minutes: number | null) => {
+      const now = new Date();
+      let until: Date;
+      if (minutes !== null) {
+        until = addMinutes(now, minutes);
+      } else {
+        // Until the current or next quiet window ends
+        const [hour, minute] = quietHoursEnd.split(':').map(Number);
+        const morning = setDate(now, { hours: hour, minutes: minute, seconds: 0, milliseconds: 0 });
+        until = isAfter(morning, now) ? morning : addDays(morning, 1);
+      }
+      updateSetting('muteUntil', until.toISOString());
+    },
+    [quietHoursEnd, updateSetting],
+  );
+
+  const handleExportBackup = useCallback(async () => {
+    try {
+      const json = await exportBackup();
+      await Share.share({ title: 'DayDeck backup', message: json });
+    } catch (err) {
+      Alert.alert('Export Failed', err instanceof Error ? err.message : String(err));
+    }
+  }, [exportBackup]);
+
   const handleReset = useCallback(() => {
     Alert.alert(
       'Reset All Settings',
@@ -98,16 +194,24 @@ export default function SettingsScreen() {
             updateSetting('defaultTaskDurationMinutes', 30);
             updateSetting('quietHoursStart', '22:00');
             updateSetting('quietHoursEnd', '07:00');
+            updateSetting('quietHoursByDay', {});
+            updateSetting('muteUntil', null);
             updateSetting('carryOverBehavior', 'auto');
             updateSetting('reminderOffsetMinutes', 15);
+            updateSetting('allDayReminderTime', '09:00');
             updateSetting('theme', 'system');
             updateSetting('calendarSyncEnabled', false);
+            updateSetting('notificationsEnabled', true);
+            updateSetting('trashRetentionDays', 30);
+            updateSetting('overlapPolicy', 'push');
           },
         },
       ],
     );
   }, [updateSetting]);
 
+  const retentionIndex = TRASH_RETENTION_OPTIONS.indexOf(trashRetentionDays);
+
   // --- Timeline preview ---
 
   const totalHours = 24;
@@ -303,9 +407,51 @@ export default function SettingsScreen() {
           )}
           <Divider colors={colors} />
 
+          <SettingLabel icon={'\u2195\uFE0F'} label="Overlapping blocks" colors={colors} />
+          <View style={styles.segmentWrap}>
+            <View
+              style={[styles.segmentControl, { backgroundColor: colors.surfaceSecondary }]}
+              accessibilityRole="radiogroup"
+              accessibilityLabel="Overlapping blocks"
+            >
+              {OVERLAP_OPTIONS.map((opt) => (
+                <Pressable
+                  key={opt.value}
+                  onPress={() => updateSetting('overlapPolicy', opt.value)}
+                  style={[
+                    styles.segmentBtn,
+                    overlapPolicy === opt.value && [
+                      styles.segmentBtnActive,
+                      { backgroundColor: colors.primary },
+                    ],
+                  ]}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: overlapPolicy === opt.value }}
+                  accessibilityLabel={`Overlapping blocks: ${opt.label} - ${opt.desc}`}
+                >
+                  <Text
+                    style={[
+                      styles.segmentLabel,
+                      { color: colors.text },
+                      overlapPolicy === opt.value && styles.segmentLabelActive,
+                    ]}
+                  >
+                    {opt.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+          {OVERLAP_OPTIONS.find((o) => o.value === overlapPolicy) && (
+            <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+              {OVERLAP_OPTIONS.find((o) => o.value === overlapPolicy)!.desc}
+            </Text>
+          )}
+          <Divider colors={colors} />
+
           <SettingRowStepper
             icon={'\uD83D\uDD14'}
-            label="Reminder offset"
+            label="Block reminder"
             value={`${reminderOffsetMinutes} min before`}
             onDecrement={() => {
               if (reminderOffsetMinutes > 0)
@@ -315,7 +461,21 @@ export default function SettingsScreen() {
               if (reminderOffsetMinutes < 120)
                 updateSetting('reminderOffsetMinutes', reminderOffsetMinutes + 5);
             }}
-            accessibilityLabel={`Reminder offset: ${reminderOffsetMinutes} minutes before`}
+            accessibilityLabel={`Time block reminder: ${reminderOffsetMinutes} minutes before start`}
+            colors={colors}
+          />
+          <Divider colors={colors} />
+          <SettingRowStepper
+            icon={'\u23F0'}
+            label="All-day reminder time"
+            value={formatQuietTime(allDayReminderTime)}
+            onDecrement={() =>
+              updateSetting('allDayReminderTime', adjustQuietTime(allDayReminderTime, -1))
+            }
+            onIncrement={() =>
+              updateSetting('allDayReminderTime', adjustQuietTime(allDayReminderTime, 1))
+            }
+            accessibilityLabel={`Reminders for tasks without a time fire at ${formatQuietTime(allDayReminderTime)}`}
             colors={colors}
           />
         </View>
@@ -330,7 +490,7 @@ export default function SettingsScreen() {
             </View>
             <Switch
               value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              onValueChange={handleToggleNotifications}
               trackColor={{ false: colors.surfaceTertiary, true: colors.primary + '60' }}
               thumbColor={notificationsEnabled ? colors.primary : colors.textTertiary}
               ios_backgroundColor={colors.surfaceTertiary}
@@ -366,6 +526,99 @@ export default function SettingsScreen() {
                 accessibilityLabel={`Quiet hours end: ${formatQuietTime(quietHoursEnd)}`}
                 colors={colors}
               />
+              <Divider colors={colors} />
+              <View style={styles.switchRow}>
+                <View style={styles.switchLeft}>
+                  <Text style={styles.rowIcon}>{'\uD83C\uDF89'}</Text>
+                  <Text style={[styles.rowLabel, { color: colors.text }]}>Different on weekends</Text>
+                </View>
+                <Switch
+                  value={weekendQuietHours !== null}
+                  onValueChange={(v) =>
+                    setWeekendQuietHours(v ? { start: quietHoursStart, end: quietHoursEnd } : null)
+                  }
+                  trackColor={{ false: colors.surfaceTertiary, true: colors.primary + '60' }}
+                  thumbColor={weekendQuietHours ? colors.primary : colors.textTertiary}
+                  ios_backgroundColor={colors.surfaceTertiary}
+                />
+              </View>
+              {weekendQuietHours && (
+                <>
+                  <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                    Applies to Friday and Saturday nights
+                  </Text>
+                  <SettingRowStepper
+                    icon={'\uD83C\uDF1C'}
+                    label="Weekend start"
+                    value={formatQuietTime(weekendQuietHours.start)}
+                    onDecrement={() =>
+                      setWeekendQuietHours({
+                        ...weekendQuietHours,
+                        start: adjustQuietTime(weekendQuietHours.start, -1),
+                      })
+                    }
+                    onIncrement={() =>
+                      setWeekendQuietHours({
+                        ...weekendQuietHours,
+                        start: adjustQuietTime(weekendQuietHours.start, 1),
+                      })
+                    }
+                    accessibilityLabel={`Weekend quiet hours start: ${formatQuietTime(weekendQuietHours.start)}`}
+                    colors={colors}
+                  />
+                  <Divider colors={colors} />
+                  <SettingRowStepper
+                    icon={'\uD83C\uDF1E'}
+                    label="Weekend end"
+                    value={formatQuietTime(weekendQuietHours.end)}
+                    onDecrement={() =>
+                      setWeekendQuietHours({
+                        ...weekendQuietHours,
+                        end: adjustQuietTime(weekendQuietHours.end, -1),
+                      })
+                    }
+                    onIncrement={() =>
+                      setWeekendQuietHours({
+                        ...weekendQuietHours,
+                        end: adjustQuietTime(weekendQuietHours.end, 1),
+                      })
+                    }
+                    accessibilityLabel={`Weekend quiet hours end: ${formatQuietTime(weekendQuietHours.end)}`}
+                    colors={colors}
+                  />
+                </>
+              )}
+              <Divider colors={colors} />
+              <SettingLabel icon={'\uD83D\uDD15'} label="Do not disturb" colors={colors} />
+              <View style={styles.presetRow}>
+                {isMuted ? (
+                  <Pressable
+                    onPress={() => updateSetting('muteUntil', null)}
+                    style={[styles.presetBtn, { backgroundColor: colors.primary }]}
+                    accessibilityRole="button"
+                    accessibilityLabel="Turn off do not disturb"
+                  >
+                    <Text style={[styles.presetText, styles.presetTextActive]}>Turn off</Text>
+                  </Pressable>
+                ) : (
+                  MUTE_PRESETS.map((preset) => (
+                    <Pressable
+                      key={preset.label}
+                      onPress={() => handleMute(preset.minutes)}
+                      style={[styles.presetBtn, { backgroundColor: colors.surfaceSecondary }]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Do not disturb for ${preset.label}`}
+                    >
+                      <Text style={[styles.presetText, { color: colors.text }]}>{preset.label}</Text>
+                    </Pressable>
+                  ))
+                )}
+              </View>
+              {isMuted && muteUntil && (
+                <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                  Notifications are held until {format(parseISO(muteUntil), 'EEE h:mm a')}
+                </Text>
+              )}
             </>
           )}
         </View>
@@ -394,6 +647,100 @@ export default function SettingsScreen() {
               </Text>
             </>
           )}
+          <Divider colors={colors} />
+          <Pressable
+            onPress={() => setShowCalendarImport(true)}
+            style={({ pressed }) => [styles.resetBtn, pressed && { opacity: 0.7 }]}
+            accessibilityRole="button"
+            accessibilityLabel="Import calendar file"
+          >
+            <Text style={styles.rowIcon}>{'\uD83D\uDCE5'}</Text>
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Import calendar (.ics)</Text>
+          </Pressable>
+        </View>
+
+        {/* ---- Backup ---- */}
+        <SectionHeader icon={'\uD83D\uDCBE'} title="Backup" colors={colors} />
+        <View style={s.card}>
+          <Pressable
+            onPress={handleExportBackup}
+            disabled={backupBusy}
+            style={({ pressed }) => [styles.resetBtn, pressed && { opacity: 0.7 }]}
+            accessibilityRole="button"
+            accessibilityLabel="Export backup"
+          >
+            <Text style={styles.rowIcon}>{'\uD83D\uDCE4'}</Text>
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Export backup</Text>
+          </Pressable>
+          <Divider colors={colors} />
+          <Pressable
+            onPress={() => setShowRestore(true)}
+            disabled={backupBusy}
+            style={({ pressed }) => [styles.resetBtn, pressed && { opacity: 0.7 }]}
+            accessibilityRole="button"
+            accessibilityLabel="Restore from backup"
+          >
+            <Text style={styles.rowIcon}>{'\uD83D\uDCE5'}</Text>
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Restore from backup</Text>
+          </Pressable>
+          <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+            Backups include tasks, time blocks, templates, day plans and settings.
+          </Text>
+        </View>
+
+        {/* ---- Trash ---- */}
+        <SectionHeader icon={'\uD83D\uDDD1\uFE0F'} title="Trash" colors={colors} />
+        <View style={s.card}>
+          <Pressable
+            onPress={() => setShowTrash(true)}
+            style={({ pressed }) => [styles.resetBtn, pressed && { opacity: 0.7 }]}
+            accessibilityRole="button"
+            accessibilityLabel="Open trash"
+          >
+            <Text style={styles.rowIcon}>{'\u267B\uFE0F'}</Text>
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Recently deleted</Text>
+          </Pressable>
+          <Divider colors={colors} />
+          <SettingRowStepper
+            icon={'\u23F3'}
+            label="Keep deleted items"
+            value={`${trashRetentionDays} days`}
+            onDecrement={() => {
+              if (retentionIndex > 0)
+                updateSetting('trashRetentionDays', TRASH_RETENTION_OPTIONS[retentionIndex - 1]);
+            }}
+            onIncrement={() => {
+              if (retentionIndex < TRASH_RETENTION_OPTIONS.length - 1)
+                updateSetting('trashRetentionDays', TRASH_RETENTION_OPTIONS[retentionIndex + 1]);
+            }}
+            accessibilityLabel={`Keep deleted items for ${trashRetentionDays} days`}
+            colors={colors}
+          />
+          <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+            Deleted tasks, time blocks and templates can be restored until they are purged.
+          </Text>
+        </View>
+
+        {/* ---- Data ---- */}
+        <SectionHeader icon={'\uD83E\uDE7A'} title="Data" colors={colors} />
+        <View style={s.card}>
+          <Pressable
+            onPress={() => setShowIntegrity(true)}
+            style={({ pressed }) => [styles.aboutRow, pressed && { opacity: 0.7 }]}
+            accessibilityRole="button"
+            accessibilityLabel={`Check data integrity, ${integrityIssueCount} issues found`}
+          >
+            <Text style={styles.rowIcon}>{'\uD83D\uDD0D'}</Text>
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Check data integrity</Text>
+            <Text style={[styles.aboutValue, { color: integrityIssueCount > 0 ? colors.error : colors.textSecondary }]}>
+              {integrityIssueCount > 0
+                ? `${integrityIssueCount} issue${integrityIssueCount !== 1 ? 's' : ''}`
+                : 'No issues'}
+            </Text>
+          </Pressable>
+          <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+            Looks for broken links between tasks, blocks and day plans, and for unreadable data.
+          </Text>
         </View>
 
         {/* ---- About ---- */}
@@ -423,6 +770,19 @@ export default function SettingsScreen() {
 
         <View style={{ height: 40 }} />
       </ScrollView>
+
+      <RestoreBackupSheet
+        visible={showRestore}
+        busy={backupBusy}
+        onClose={() => setShowRestore(false)}
+        onRestore={importBackup}
+      />
+
+      <ICalImportSheet visible={showCalendarImport} onClose={() => setShowCalendarImport(false)} />
+
+      <TrashSheet visible={showTrash} onClose={() => setShowTrash(false)} />
+
+      <IntegritySheet visible={showIntegrity} onClose={() => setShowIntegrity(false)} />
     </SafeAreaView>
   );
 }
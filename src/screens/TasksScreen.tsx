@@ -3,11 +3,11 @@ import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { format, parseISO } from 'date-fns';
 import { Dimensions } from '../constants';
-import { useTaskStore } from '../store';
+import { useTaskStore, useDayPlanStore, useHistoryStore } from '../store';
 import type { Task, TaskStatus, Subtask } from '../types';
-import { TaskList, TaskForm } from '../components/task';
+import { TaskList, TaskForm, ReportSheet } from '../components/task';
 import { DaySwitcher } from '../components/common';
-import { todayISO } from '../utils';
+import { todayISO, getTasksForDate, orderTasksForDay, moveTaskInOrder } from '../utils';
 import { useTheme } from '../theme/ThemeContext';
 import type { ThemeColors } from '../constants/colors';
 
@@ -24,24 +24,31 @@ export default function TasksScreen() {
   const colors = useTheme();
   const styles = useStyles(colors);
   const tasks = useTaskStore((s) => s.tasks);
+  const occurrences = useTaskStore((s) => s.occurrences);
   const selectedDate = useTaskStore((s) => s.selectedDate);
   const addTask = useTaskStore((s) => s.addTask);
   const updateTask = useTaskStore((s) => s.updateTask);
   const deleteTask = useTaskStore((s) => s.deleteTask);
-  const deleteFutureRecurring = useTaskStore((s) => s.deleteFutureRecurring);
+  const updateTaskInSeries = useTaskStore((s) => s.updateTaskInSeries);
+  const deleteTaskInSeries = useTaskStore((s) => s.deleteTaskInSeries);
   const setTaskStatus = useTaskStore((s) => s.setTaskStatus);
   const toggleSubtask = useTaskStore((s) => s.toggleSubtask);
   const addSubtask = useTaskStore((s) => s.addSubtask);
   const removeSubtask = useTaskStore((s) => s.removeSubtask);
+  const dayTaskIds = useDayPlanStore((s) => s.dayPlans[selectedDate]?.taskIds);
+  const setTaskOrder = useDayPlanStore((s) => s.setTaskOrder);
+  const record = useHistoryStore((s) => s.record);
 
   const [formVisible, setFormVisible] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [activeFilter, setActiveFilter] = useState<FilterOption>('all');
   const [fabPressed, setFabPressed] = useState(false);
+  const [reportVisible, setReportVisible] = useState(false);
 
+  // Manual order is kept per day in the day plan
   const dateTasks = useMemo(
-    () => tasks.filter((t) => t.scheduledDate === selectedDate),
-    [tasks, selectedDate],
+    () => orderTasksForDay(getTasksForDate(tasks, occurrences, selectedDate), dayTaskIds ?? []),
+    [tasks, occurrences, selectedDate, dayTaskIds],
   );
 
   // Stats
@@ -91,18 +98,19 @@ export default function TasksScreen() {
 
   const handleToggleStatus = useCallback(
     (taskId: string) => {
-      const task = tasks.find((t) => t.id === taskId);
+      const task = dateTasks.find((t) => t.id === taskId);
       if (!task) return;
-      setTaskStatus(taskId, task.status === 'done' ? 'todo' : 'done');
+      const status = task.status === 'done' ? 'todo' : 'done';
+      record(status === 'done' ? 'Task completed' : 'Task reopened', () => setTaskStatus(taskId, status));
     },
-    [tasks, setTaskStatus],
+    [dateTasks, setTaskStatus, record],
   );
 
   const handleDelete = useCallback(
     (taskId: string) => {
-      deleteTask(taskId);
+      record('Task deleted', () => deleteTask(taskId), { notify: true });
     },
-    [deleteTask],
+    [deleteTask, record],
   );
 
   const handleEdit = useCallback((task: Task) => {
@@ -122,6 +130,14 @@ export default function TasksScreen() {
     [addTask],
   );
 
+  const handleMoveTask = useCallback(
+    (taskId: string, direction: -1 | 1) => {
+      const taskIds = moveTaskInOrder(dateTasks, taskId, direction);
+      if (taskIds) setTaskOrder(selectedDate, taskIds);
+    },
+    [dateTasks, selectedDate, setTaskOrder],
+  );
+
   const handleAddSubtask = useCallback(
     (taskId: string, subtask: Subtask) => {
       addSubtask(taskId, subtask);
@@ -142,6 +158,14 @@ export default function TasksScreen() {
               {dateDisplay.dateStr}
               {dateDisplay.isToday ? ' \u2022 Today' : ''}
             </Text>
+            <Pressable
+              onPress={() => setReportVisible(true)}
+              style={({ pressed }) => [styles.reportButton, pressed && { opacity: 0.7 }]}
+              accessibilityRole="button"
+              accessibilityLabel="Export task report"
+            >
+              <Text style={styles.reportButtonText}>{'\u{1F4CA}'} Report</Text>
+            </Pressable>
           </View>
 
           {/* Progress ring area */}
@@ -240,6 +264,7 @@ export default function TasksScreen() {
         onAddSubtask={handleAddSubtask}
         onDelete={handleDelete}
         onEdit={handleEdit}
+        onMoveTask={handleMoveTask}
       />
 
       {/* FAB */}
@@ -264,6 +289,8 @@ export default function TasksScreen() {
         </Text>
       </Pressable>
 
+      <ReportSheet visible={reportVisible} onClose={() => setReportVisible(false)} />
+
       {/* Task form modal */}
       <TaskForm
         visible={formVisible}
@@ -271,7 +298,8 @@ export default function TasksScreen() {
         onSubmit={handleAddTask}
         onUpdate={updateTask}
         onDelete={deleteTask}
-        onDeleteFutureRecurring={deleteFutureRecurring}
+        onUpdateSeries={updateTaskInSeries}
+        onDeleteSeries={deleteTaskInSeries}
         editingTask={editingTask}
         selectedDate={selectedDate}
       />
@@ -311,6 +339,19 @@ function useStyles(colors: ThemeColors) {
       color: colors.textSecondary,
       marginTop: 2,
     },
+    reportButton: {
+      alignSelf: 'flex-start',
+      backgroundColor: colors.primary + '12',
+      paddingHorizontal: 10,
+      paddingVertical: 5,
+      borderRadius: 12,
+      marginTop: 8,
+    },
+    reportButtonText: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.primary,
+    },
     progressArea: {
       alignItems: 'center',
     },
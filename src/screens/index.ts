@@ -1,3 +1,4 @@
 export { default as DayTimelineScreen } from './DayTimelineScreen';
 export { default as TasksScreen } from './TasksScreen';
 export { default as SettingsScreen } from './SettingsScreen';
+export { default as RecoveryScreen } from './RecoveryScreen';
@@ -0,0 +1,196 @@
+import type { BackupData, TrashedRows } from '../db/backupDb';
+import { CURRENT_VERSION } from '../db/schema';
+import type { Task, TaskOccurrence } from '../types';
+
+export const BACKUP_FORMAT = 'daydeck-backup';
+
+/**
+ * A portable JSON archive of the whole database. `version` is the schema
+ * version the data was exported from, so older archives can be migrated.
+ */
+export interface BackupDocument extends BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+type RawDocument = Record<string, unknown> & { tasks?: Record<string, unknown>[] };
+
+/**
+ * Upgrades applied to archives exported before a schema version, mirroring
+ * the SQL migrations in schema.ts. Each entry brings a document from
+ * version - 1 up to that version.
+ */
+const BACKUP_MIGRATIONS: Record<number, (doc: RawDocument) => void> = {
+  2: (doc) => {
+    doc.settings = doc.settings ?? {};
+  },
+  3: (doc) => {
+    for (const task of doc.tasks ?? []) task.carriedOverFrom = task.carriedOverFrom ?? null;
+  },
+  4: (doc) => {
+    doc.templates = doc.templates ?? [];
+  },
+  5: (doc) => {
+    for (const task of doc.tasks ?? []) task.scheduledTime = task.scheduledTime ?? null;
+  },
+  6: (doc) => {
+    // Recurring tasks carried their completion on the row; move it onto the
+    // first occurrence so the master stays series-wide
+    const occurrences: TaskOccurrence[] = [];
+    for (const task of doc.tasks ?? []) {
+      if (task.recurrence && task.status !== 'todo') {
+        occurrences.push({
+          taskId: task.id as string,
+          date: task.scheduledDate as string,
+          status: task.status as TaskOccurrence['status'],
+          completedAt: (task.completedAt as string | null) ?? null,
+          skipped: false,
+        });
+        task.status = 'todo';
+        task.completedAt = null;
+      }
+    }
+    doc.occurrences = occurrences;
+  },
+  7: (doc) => {
+    for (const task of doc.tasks ?? []) task.seriesId = task.recurrence ? task.id : null;
+  },
+};
+
+/**
+ * Wrap a database snapshot in a versioned backup document.
+ */
+export function createBackupDocument(data: BackupData, exportedAt: Date = new Date()): BackupDocument {
+  return {
+    format: BACKUP_FORMAT,
+    version: CURRENT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    ...data,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireArray(doc: RawDocument, key: string): Record<string, unknown>[] {
+  const value = doc[key];
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    throw new Error(`Backup is missing its ${key} list.`);
+  }
+  return value;
+}
+
+function requireStrings(rows: Record<string, unknown>[], kind: string, keys: string[]): void {
+  rows.forEach((row, index) => {
+    for (const key of keys) {
+      if (typeof row[key] !== 'string') {
+        throw new Error(`Backup ${kind} #${index + 1} has no valid ${key}.`);
+      }
+    }
+  });
+}
+
+/**
+ * Parse, validate and migrate a backup file's contents. Throws an Error
+ * with a user-facing message if the document can't be restored.
+ */
+export function parseBackupDocument(json: string): BackupDocument {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(json);
+  } catch {
+    throw new Error('Backup is not valid JSON.');
+  }
+  if (!isRecord(doc) || doc.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a DayDeck backup.');
+  }
+
+  const version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Backup has no valid version.');
+  }
+  if (version > CURRENT_VERSION) {
+    throw new Error('Backup was made by a newer version of DayDeck. Update the app to restore it.');
+  }
+
+  const raw = doc as RawDocument;
+  requireArray(raw, 'tasks');
+  for (let v = version + 1; v <= CURRENT_VERSION; v++) {
+    BACKUP_MIGRATIONS[v]?.(raw);
+  }
+
+  const tasks = requireArray(raw, 'tasks');
+  requireStrings(tasks, 'task', ['id', 'title', 'status', 'scheduledDate', 'createdAt', 'updatedAt']);
+  tasks.forEach((task, index) => {
+    if (!Array.isArray(task.subtasks) || !Array.isArray(task.notifications)) {
+      throw new Error(`Backup task #${index + 1} has no valid subtasks or reminders.`);
+    }
+  });
+  requireStrings(requireArray(raw, 'occurrences'), 'occurrence', ['taskId', 'date', 'status']);
+  requireStrings(requireArray(raw, 'timeBlocks'), 'time block', ['id', 'title', 'startTime', 'endTime']);
+  requireStrings(requireArray(raw, 'templates'), 'template', ['id', 'name', 'updatedAt']);
+  requireStrings(requireArray(raw, 'dayPlans'), 'day plan', ['date']);
+
+  const settings = raw.settings;
+  if (!isRecord(settings) || !Object.values(settings).every((v) => typeof v === 'string')) {
+    throw new Error('Backup has no valid settings.');
+  }
+
+  return { ...(raw as unknown as BackupDocument), version: CURRENT_VERSION };
+}
+
+function isNewer(
+  incoming: { updatedAt: string },
+  local: { updatedAt: string } | undefined,
+  deletedAt: string | undefined,
+): boolean {
+  const localTime = local?.updatedAt ?? deletedAt;
+  return !localTime || new Date(incoming.updatedAt).getTime() > new Date(localTime).getTime();
+}
+
+/**
+ * Compute the rows to write when merging a backup into existing data.
+ * Tasks and templates are matched by id and the newer `updatedAt` wins; a
+ * trashed one stays trashed unless the backup's copy changed after it was
+ * deleted. A task's occurrence states travel with it. Time blocks, day
+ * plans and settings have no timestamp, so only ones missing locally (and
+ * from the trash) are added.
+ */
+export function mergeBackupData(
+  local: BackupData,
+  incoming: BackupData,
+  trashed: TrashedRows,
+): BackupData {
+  const localTasks = new Map(local.tasks.map((t) => [t.id, t]));
+  const tasks: Task[] = incoming.tasks.filter((t) =>
+    isNewer(t, localTasks.get(t.id), trashed.tasks[t.id]),
+  );
+  const winningTaskIds = new Set(tasks.map((t) => t.id));
+
+  const localTemplates = new Map(local.templates.map((t) => [t.id, t]));
+  const localBlockIds = new Set(local.timeBlocks.map((b) => b.id));
+  const localPlanDates = new Set(local.dayPlans.map((p) => p.date));
+
+  const settings: Record<string, string> = {};
+  for (const [key, value] of Object.entries(incoming.settings)) {
+    if (!(key in local.settings)) settings[key] = value;
+  }
+
+  return {
+    tasks,
+    occurrences: incoming.occurrences.filter((o) => winningTaskIds.has(o.taskId)),
+    timeBlocks: incoming.timeBlocks.filter((b) => {
+      if (localBlockIds.has(b.id)) return false;
+      // A task's block follows the task into or out of the trash
+      if (b.taskId && b.taskId in trashed.tasks) return winningTaskIds.has(b.taskId);
+      return !(b.id in trashed.timeBlocks);
+    }),
+    templates: incoming.templates.filter((t) =>
+      isNewer(t, localTemplates.get(t.id), trashed.templates[t.id]),
+    ),
+    dayPlans: incoming.dayPlans.filter((p) => !localPlanDates.has(p.date)),
+    settings,
+  };
+}
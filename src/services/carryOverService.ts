@@ -14,11 +14,13 @@ export interface CarryOverResult {
  * Identify tasks that are eligible for carry-over:
  * - scheduled before `today`
  * - status is 'todo' or 'in_progress' (not done or cancelled)
+ * - not a recurring series (moving a master would shift the whole series)
  */
 export function getCarryOverCandidates(tasks: Task[], today: string): Task[] {
   return tasks.filter(
     (t) =>
       t.scheduledDate < today &&
+      !t.recurrence &&
       (t.status === 'todo' || t.status === 'in_progress'),
   );
 }
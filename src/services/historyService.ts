@@ -0,0 +1,75 @@
+import type { Task, TaskOccurrence, TimeBlock, Template } from '../types';
+
+/**
+ * The parts of the task, time block and template stores that undo/redo covers.
+ */
+export interface HistoryState {
+  tasks: Task[];
+  occurrences: Record<string, TaskOccurrence>; // keyed by occurrence id
+  timeBlocks: TimeBlock[];
+  templates: Template[];
+}
+
+/**
+ * The state of every entity a change touched, keyed by id. `null` means the
+ * entity did not exist (or had been deleted) at that point.
+ */
+export interface HistorySnapshot {
+  tasks: Record<string, Task | null>;
+  occurrences: Record<string, TaskOccurrence | null>;
+  timeBlocks: Record<string, TimeBlock | null>;
+  templates: Record<string, Template | null>;
+}
+
+export interface HistoryChange {
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+function indexById<T extends { id: string }>(items: T[]): Record<string, T> {
+  return Object.fromEntries(items.map((item) => [item.id, item]));
+}
+
+function diffRecords<T>(
+  before: Record<string, T>,
+  after: Record<string, T>,
+): { before: Record<string, T | null>; after: Record<string, T | null>; changed: boolean } {
+  const result = { before: {} as Record<string, T | null>, after: {} as Record<string, T | null>, changed: false };
+  for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    // Store updates are immutable, so an untouched entity keeps its identity
+    if (before[id] === after[id]) continue;
+    result.before[id] = before[id] ?? null;
+    result.after[id] = after[id] ?? null;
+    result.changed = true;
+  }
+  return result;
+}
+
+/**
+ * Work out which entities changed between two store states, and what each
+ * looked like before and after. Returns null when nothing changed.
+ */
+export function diffHistoryStates(before: HistoryState, after: HistoryState): HistoryChange | null {
+  const tasks = diffRecords(indexById(before.tasks), indexById(after.tasks));
+  const occurrences = diffRecords(before.occurrences, after.occurrences);
+  const timeBlocks = diffRecords(indexById(before.timeBlocks), indexById(after.timeBlocks));
+  const templates = diffRecords(indexById(before.templates), indexById(after.templates));
+
+  if (!tasks.changed && !occurrences.changed && !timeBlocks.changed && !templates.changed) {
+    return null;
+  }
+  return {
+    before: {
+      tasks: tasks.before,
+      occurrences: occurrences.before,
+      timeBlocks: timeBlocks.before,
+      templates: templates.before,
+    },
+    after: {
+      tasks: tasks.after,
+      occurrences: occurrences.after,
+      timeBlocks: timeBlocks.after,
+      templates: templates.after,
+    },
+  };
+}
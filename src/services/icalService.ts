@@ -0,0 +1,622 @@
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import type {
+  Priority,
+  Recurrence,
+  Task,
+  TaskOccurrence,
+  TaskNotification,
+  TaskStatus,
+  TimeBlock,
+} from '../types';
+import {
+  formatDate,
+  formatRRule,
+  generateId,
+  generateOccurrences,
+  parseRRule,
+  previewOccurrences,
+} from '../utils';
+
+const PRODUCT_ID = '-//DayDeck//DayDeck Planner//EN';
+const UID_DOMAIN = 'daydeck';
+
+/** Content lines longer than this many octets are folded (RFC 5545 §3.1). */
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalExportRange {
+  startDate: string; // ISO date "YYYY-MM-DD", inclusive
+  endDate: string; // ISO date "YYYY-MM-DD", inclusive
+}
+
+const VTODO_STATUS: Record<TaskStatus, string> = {
+  todo: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+const PRIORITY_VALUES: Record<Priority, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+// ── Value formatting ────────────────────────────────────────────────────
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line into 75-octet chunks, continuation lines starting
+ * with a space. Never splits a multi-byte character.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDateValue(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/** A floating (wall-clock) date-time, so recurring tasks keep their time across DST. */
+function formatLocal(date: Date): string {
+  return format(date, "yyyyMMdd'T'HHmmss");
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+}
+
+function taskStart(task: Task): Date {
+  return parseISO(`${task.scheduledDate}T${task.scheduledTime}`);
+}
+
+// ── Components ──────────────────────────────────────────────────────────
+
+function alarmLines(notifications: TaskNotification[], title: string, related: 'START' | 'END'): string[] {
+  return notifications
+    .filter((n) => n.enabled)
+    .flatMap((n) => [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(title)}`,
+      `TRIGGER${related === 'END' ? ';RELATED=END' : ''}:${n.offsetMinutes > 0 ? '-' : ''}${formatDuration(n.offsetMinutes)}`,
+      'END:VALARM',
+    ]);
+}
+
+/**
+ * RRULE and EXDATE lines for a recurring task. Skipped occurrences become
+ * exception dates. For timed tasks, UNTIL and EXDATE are written as
+ * date-times because RFC 5545 requires them to match DTSTART's value type.
+ */
+function recurrenceLines(task: Task, skippedDates: string[]): string[] {
+  if (!task.recurrence) return [];
+  const exceptionDates = [...new Set([...(task.recurrence.exceptionDates ?? []), ...skippedDates])].sort();
+  const lines = formatRRule({ ...task.recurrence, exceptionDates }).split('\n');
+  if (!task.scheduledTime) return lines;
+
+  const time = format(taskStart(task), "'T'HHmmss");
+  return lines.map((line) => {
+    if (line.startsWith('EXDATE')) {
+      const dates = line.slice(line.indexOf(':') + 1).split(',');
+      return `EXDATE:${dates.map((d) => d + time).join(',')}`;
+    }
+    return line.replace(/UNTIL=(\d{8})(?=;|$)/, `UNTIL=$1${time}`);
+  });
+}
+
+function taskLines(task: Task, skippedDates: string[], defaultDurationMinutes: number, stamp: string): string[] {
+  const common = [
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatUtc(parseISO(task.updatedAt))}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+    `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+  ];
+
+  // Timed tasks occupy the calendar like events; all-day tasks are to-dos due that day
+  if (task.scheduledTime) {
+    return [
+      'BEGIN:VEVENT',
+      ...common,
+      `DTSTART:${formatLocal(taskStart(task))}`,
+      `DURATION:${formatDuration(task.estimatedMinutes ?? defaultDurationMinutes)}`,
+      ...(task.status === 'cancelled' ? ['STATUS:CANCELLED'] : []),
+      ...recurrenceLines(task, skippedDates),
+      ...alarmLines(task.notifications, task.title, 'START'),
+      'END:VEVENT',
+    ];
+  }
+
+  return [
+    'BEGIN:VTODO',
+    ...common,
+    `DTSTART;VALUE=DATE:${formatDateValue(task.scheduledDate)}`,
+    `DUE;VALUE=DATE:${formatDateValue(task.scheduledDate)}`,
+    // A recurring master's status is series-wide; per-date states live on occurrences
+    `STATUS:${task.recurrence ? VTODO_STATUS.todo : VTODO_STATUS[task.status]}`,
+    ...(!task.recurrence && task.completedAt ? [`COMPLETED:${formatUtc(parseISO(task.completedAt))}`] : []),
+    ...recurrenceLines(task, skippedDates),
+    ...alarmLines(task.notifications, task.title, 'END'),
+    'END:VTODO',
+  ];
+}
+
+function blockLines(block: TimeBlock, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${block.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(parseISO(block.startTime))}`,
+    `DTEND:${formatUtc(parseISO(block.endTime))}`,
+    `SUMMARY:${escapeText(block.title)}`,
+    `CATEGORIES:${block.type.toUpperCase()}`,
+    ...(block.taskId ? [`RELATED-TO:${block.taskId}@${UID_DOMAIN}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+// ── Export ──────────────────────────────────────────────────────────────
+
+function isTaskInRange(task: Task, range: ICalExportRange): boolean {
+  if (task.recurrence) {
+    return generateOccurrences(task, range.startDate, range.endDate).length > 0;
+  }
+  return task.scheduledDate >= range.startDate && task.scheduledDate <= range.endDate;
+}
+
+/**
+ * Build an RFC 5545 calendar of the tasks and time blocks in a date range.
+ *
+ * - Time blocks become VEVENTs in UTC. Blocks linked to an exported timed
+ *   task are left out so the task isn't on the calendar twice.
+ * - Timed tasks become VEVENTs lasting `estimatedMinutes` (or the default
+ *   duration); all-day tasks become VTODOs due on their date.
+ * - Recurring tasks are exported once with their RRULE if any occurrence
+ *   falls in the range; skipped occurrences become EXDATEs.
+ * - Enabled reminders become VALARMs.
+ */
+export function buildICalendar(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  timeBlocks: TimeBlock[],
+  range: ICalExportRange,
+  defaultDurationMinutes: number,
+  now: Date = new Date(),
+): string {
+  const stamp = formatUtc(now);
+
+  const skippedByTask = new Map<string, string[]>();
+  for (const { taskId, date, skipped } of Object.values(occurrences)) {
+    if (skipped) skippedByTask.set(taskId, [...(skippedByTask.get(taskId) ?? []), date]);
+  }
+
+  const exportedTasks = tasks.filter((t) => isTaskInRange(t, range));
+  const timedTaskIds = new Set(exportedTasks.filter((t) => t.scheduledTime).map((t) => t.id));
+  const exportedBlocks = timeBlocks.filter((b) => {
+    const date = format(parseISO(b.startTime), 'yyyy-MM-dd');
+    return date >= range.startDate && date <= range.endDate && !(b.taskId && timedTaskIds.has(b.taskId));
+  });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...exportedTasks.flatMap((t) =>
+      taskLines(t, skippedByTask.get(t.id) ?? [], defaultDurationMinutes, stamp),
+    ),
+    ...exportedBlocks.flatMap((b) => blockLines(b, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ── Import ──────────────────────────────────────────────────────────────
+
+/** Color of imported event blocks (the timeBlockEvent theme color). */
+const IMPORTED_BLOCK_COLOR = '#60A5FA';
+
+/** How far ahead a recurring event imported as time blocks is expanded. */
+const BLOCK_EXPANSION_LIMIT = 60;
+
+/**
+ * An event or to-do read from an .ics file, resolved to the device's local
+ * time zone.
+ */
+export interface ICalItem {
+  uid: string;
+  kind: 'event' | 'todo';
+  title: string;
+  description: string;
+  date: string; // ISO date "YYYY-MM-DD" of the start (or due date)
+  time: string | null; // "HH:mm", null for all-day items
+  durationMinutes: number | null; // null for all-day items without a length
+  recurrence: Recurrence | null;
+  /** The item has an RRULE we can't represent; only its first date is imported */
+  unsupportedRecurrence: boolean;
+  reminderOffsets: number[]; // minutes before the start
+  priority: Priority;
+  status: TaskStatus;
+}
+
+export type ICalImportTarget = 'task' | 'block' | 'skip';
+
+export interface ICalImportCandidate {
+  item: ICalItem;
+  /** Id the imported task or block gets, derived from the UID */
+  id: string;
+  /** Something with this UID has already been imported (or was exported from here) */
+  duplicate: boolean;
+  target: ICalImportTarget;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RawComponent {
+  name: string;
+  properties: ContentLine[];
+  children: RawComponent[];
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): RawComponent[] {
+  // Unfold continuation lines before splitting
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const root: RawComponent = { name: '', properties: [], children: [] };
+  const stack = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const current = stack[stack.length - 1];
+
+    if (content.name === 'BEGIN') {
+      const child: RawComponent = { name: content.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (content.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(content);
+    }
+  }
+  return root.children;
+}
+
+/**
+ * UTC offset of a time zone at an instant, in milliseconds. Throws a
+ * RangeError for zone names Intl doesn't know.
+ */
+function getZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallTime - instant;
+}
+
+/**
+ * Resolve a DATE or DATE-TIME value to a local Date. UTC values ("...Z")
+ * and values with a TZID are converted; floating values are read as local
+ * time, as are values in a zone Intl doesn't know.
+ */
+function parseDateValue(line: ContentLine): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, sec, utc] = match;
+  const fields = [Number(y), Number(mo) - 1, Number(d), Number(h ?? 0), Number(mi ?? 0), Number(sec ?? 0)] as const;
+
+  if (h === undefined || line.params.VALUE === 'DATE') {
+    return { date: new Date(fields[0], fields[1], fields[2]), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+  if (line.params.TZID) {
+    try {
+      const wallTime = Date.UTC(...fields);
+      // Re-read the offset at the corrected instant so DST transitions land right
+      const guess = wallTime - getZoneOffset(wallTime, line.params.TZID);
+      return { date: new Date(wallTime - getZoneOffset(guess, line.params.TZID)), allDay: false };
+    } catch {
+      // Unknown zone: fall through to local time
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+}
+
+/**
+ * Parse an RFC 5545 duration ("PT1H30M", "-P1D") into minutes.
+ */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * 24 * 60 +
+    Number(days ?? 0) * 24 * 60 +
+    Number(hours ?? 0) * 60 +
+    Number(minutes ?? 0) +
+    Math.round(Number(seconds ?? 0) / 60);
+  return sign === '-' ? -total : total;
+}
+
+function parsePriority(value: string | undefined): Priority {
+  const priority = Number(value);
+  if (!priority) return 'medium';
+  if (priority <= 2) return 'urgent';
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+}
+
+function parseStatus(value: string | undefined): TaskStatus {
+  switch (value?.toUpperCase()) {
+    case 'COMPLETED':
+      return 'done';
+    case 'IN-PROCESS':
+      return 'in_progress';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'todo';
+  }
+}
+
+function parseItem(component: RawComponent): ICalItem | null {
+  const kind = component.name === 'VEVENT' ? 'event' : 'todo';
+  const props = new Map<string, ContentLine>();
+  const exceptionDates: string[] = [];
+  let rrule: string | null = null;
+
+  for (const line of component.properties) {
+    if (line.name === 'EXDATE') {
+      for (const value of line.value.split(',')) {
+        const parsed = parseDateValue({ ...line, value });
+        if (parsed) exceptionDates.push(formatDate(parsed.date));
+      }
+    } else if (line.name === 'RRULE') {
+      rrule = line.value;
+    } else if (!props.has(line.name)) {
+      props.set(line.name, line);
+    }
+  }
+
+  const startLine = props.get('DTSTART') ?? (kind === 'todo' ? props.get('DUE') : undefined);
+  const start = startLine ? parseDateValue(startLine) : null;
+  if (!start) return null;
+
+  let durationMinutes: number | null = null;
+  const endLine = props.get(kind === 'event' ? 'DTEND' : 'DUE');
+  const end = endLine && endLine !== startLine ? parseDateValue(endLine) : null;
+  if (end) {
+    durationMinutes = Math.round((end.date.getTime() - start.date.getTime()) / 60000);
+  } else {
+    const duration = props.get('DURATION');
+    if (duration) durationMinutes = parseDuration(duration.value);
+  }
+  if (start.allDay) durationMinutes = null;
+
+  let recurrence: Recurrence | null = null;
+  if (rrule) {
+    const exdate = exceptionDates.length > 0 ? `\nEXDATE;VALUE=DATE:${exceptionDates.map(formatDateValue).join(',')}` : '';
+    recurrence = parseRRule(`RRULE:${rrule}${exdate}`);
+  }
+
+  const reminderOffsets = component.children
+    .filter((child) => child.name === 'VALARM')
+    .map((alarm) => alarm.properties.find((p) => p.name === 'TRIGGER'))
+    .map((trigger) => (trigger && trigger.params.VALUE !== 'DATE-TIME' ? parseDuration(trigger.value) : null))
+    // Only reminders before the start map onto TaskNotification offsets
+    .filter((offset): offset is number => offset !== null && offset <= 0)
+    .map((offset) => -offset);
+
+  return {
+    uid: props.get('UID')?.value ?? '',
+    kind,
+    title: unescapeText(props.get('SUMMARY')?.value ?? '').trim() || 'Untitled',
+    description: unescapeText(props.get('DESCRIPTION')?.value ?? ''),
+    date: formatDate(start.date),
+    time: start.allDay ? null : format(start.date, 'HH:mm'),
+    durationMinutes: durationMinutes !== null && durationMinutes > 0 ? durationMinutes : null,
+    recurrence,
+    unsupportedRecurrence: rrule !== null && recurrence === null,
+    reminderOffsets: [...new Set(reminderOffsets)],
+    priority: parsePriority(props.get('PRIORITY')?.value),
+    status: parseStatus(props.get('STATUS')?.value),
+  };
+}
+
+/**
+ * Parse the events and to-dos of an .ics file. Items without a start (or
+ * due) date are dropped. Throws if the text isn't an iCalendar file.
+ */
+export function parseICalendar(text: string): ICalItem[] {
+  const calendars = parseComponents(text).filter((c) => c.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Error('This is not an iCalendar (.ics) file.');
+  }
+  return calendars
+    .flatMap((calendar) => calendar.children)
+    .filter((c) => c.name === 'VEVENT' || c.name === 'VTODO')
+    .map(parseItem)
+    .filter((item): item is ICalItem => item !== null);
+}
+
+/** 32-bit FNV-1a hash, enough to give each foreign UID a stable id. */
+function hashUid(uid: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < uid.length; i++) {
+    hash ^= uid.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * The id an imported item is stored under. Items exported from DayDeck get
+ * their original id back; other UIDs map to a stable hash, so importing
+ * the same file twice finds the earlier copy.
+ */
+export function getImportId(uid: string): string {
+  const suffix = `@${UID_DOMAIN}`;
+  if (uid.endsWith(suffix)) return uid.slice(0, -suffix.length);
+  return `ical-${hashUid(uid)}-${uid.length}`;
+}
+
+/**
+ * Pair each parsed item with its import id, flag the ones already present
+ * among the stored task and block ids and pick a default target: events
+ * become time blocks unless they repeat (blocks can't), to-dos become
+ * tasks, and duplicates are skipped.
+ */
+export function planICalImport(
+  items: ICalItem[],
+  taskIds: string[],
+  blockIds: string[],
+): ICalImportCandidate[] {
+  const existingIds = new Set([...taskIds, ...blockIds]);
+  const seen = new Set<string>();
+
+  return items.map((item) => {
+    const id = item.uid ? getImportId(item.uid) : generateId();
+    const duplicate =
+      existingIds.has(id) || seen.has(id) || blockIds.some((blockId) => blockId.startsWith(`${id}:`));
+    seen.add(id);
+
+    let target: ICalImportTarget = item.kind === 'event' && !item.recurrence ? 'block' : 'task';
+    if (duplicate) target = 'skip';
+    return { item, id, duplicate, target };
+  });
+}
+
+/**
+ * Build the task an item imports as.
+ */
+export function buildImportedTask(candidate: ICalImportCandidate, now: Date = new Date()): Task {
+  const { item, id } = candidate;
+  const timestamp = now.toISOString();
+  return {
+    id,
+    title: item.title,
+    description: item.description,
+    status: item.recurrence ? 'todo' : item.status,
+    priority: item.priority,
+    scheduledDate: item.date,
+    scheduledTime: item.time,
+    estimatedMinutes: item.durationMinutes,
+    subtasks: [],
+    recurrence: item.recurrence,
+    notifications: item.reminderOffsets.map((offsetMinutes) => ({ id: generateId(), offsetMinutes, enabled: true })),
+    sortOrder: 0,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    completedAt: !item.recurrence && item.status === 'done' ? timestamp : null,
+    carriedOverFrom: null,
+    seriesId: item.recurrence ? id : null,
+  };
+}
+
+/**
+ * Build the time blocks an item imports as: one block, or one per date of
+ * a recurring item (up to BLOCK_EXPANSION_LIMIT). All-day items fill the
+ * whole day; timed items without a length get the default duration.
+ */
+export function buildImportedBlocks(candidate: ICalImportCandidate, defaultDurationMinutes: number): TimeBlock[] {
+  const { item, id } = candidate;
+  const dates = item.recurrence ? previewOccurrences(item.recurrence, item.date, BLOCK_EXPANSION_LIMIT) : [item.date];
+
+  return dates.map((date) => {
+    const start = item.time ? parseISO(`${date}T${item.time}`) : parseISO(date);
+    const end = item.time ? addMinutes(start, item.durationMinutes ?? defaultDurationMinutes) : addDays(start, 1);
+    return {
+      id: item.recurrence ? `${id}:${date}` : id,
+      taskId: null,
+      title: item.title,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      color: IMPORTED_BLOCK_COLOR,
+      type: 'event',
+    };
+  });
+}
@@ -1,5 +1,7 @@
 export {
   isInQuietHours,
+  isInQuietSchedule,
+  deferPastQuietSchedule,
   requestNotificationPermissions,
   setupNotificationHandler,
   scheduleTaskNotifications,
@@ -7,8 +9,16 @@ export {
   scheduleBlockNudge,
   cancelBlockNudge,
   cancelAllNotifications,
-  rescheduleAllTaskNotifications,
+  planTaskNotifications,
+  planBlockNudge,
+  reconcileNotifications,
+  registerNotificationCategories,
+  planSnooze,
+  snoozeNotification,
+  NotificationActions,
+  SNOOZE_MINUTES,
 } from './notificationService';
+export type { PlannedNotification, NotificationSyncSettings } from './notificationService';
 export {
   getCarryOverCandidates,
   carryOverTasks,
@@ -16,3 +26,45 @@ export {
   clearCarryOverBadge,
 } from './carryOverService';
 export type { CarryOverResult } from './carryOverService';
+export { planSeriesUpdate, planSeriesDelete, isSeriesTask } from './seriesService';
+export type { SeriesChange } from './seriesService';
+export {
+  BACKUP_FORMAT,
+  createBackupDocument,
+  parseBackupDocument,
+  mergeBackupData,
+} from './backupService';
+export type { BackupDocument } from './backupService';
+export {
+  buildICalendar,
+  parseICalendar,
+  planICalImport,
+  getImportId,
+  buildImportedTask,
+  buildImportedBlocks,
+} from './icalService';
+export type {
+  ICalExportRange,
+  ICalItem,
+  ICalImportTarget,
+  ICalImportCandidate,
+} from './icalService';
+export {
+  selectReportTasks,
+  formatTasksCsv,
+  formatTasksMarkdown,
+  buildTaskReport,
+} from './reportService';
+export type { ReportFormat, ReportFilter } from './reportService';
+export { diffHistoryStates } from './historyService';
+export type { HistoryState, HistorySnapshot, HistoryChange } from './historyService';
+export { checkIntegrity, isBlockingIntegrityIssue, describeIntegrityIssue } from './integrityService';
+export { findFreeIntervals, isSchedulable, planDay } from './schedulerService';
+export type {
+  TimeInterval,
+  SchedulerOptions,
+  ProposedBlock,
+  ScheduleProposal,
+} from './schedulerService';
+export { resolveBlockChange } from './overlapService';
+export type { BlockShift, OverlapResolution } from './overlapService';
@@ -0,0 +1,172 @@
+import type { IntegrityRows } from '../db/integrityDb';
+import type { IntegrityIssue } from '../types';
+import { parseOccurrenceId } from '../utils';
+
+type JsonCheck = (value: unknown) => boolean;
+
+const isArray: JsonCheck = (value) => Array.isArray(value);
+
+const isRecurrence: JsonCheck = (value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { frequency?: unknown }).frequency === 'string' &&
+  typeof (value as { interval?: unknown }).interval === 'number';
+
+function parsesAs(json: string, check: JsonCheck): boolean {
+  try {
+    return check(JSON.parse(json));
+  } catch {
+    return false;
+  }
+}
+
+function parseIds(json: string): string[] | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    return Array.isArray(value) && value.every((id) => typeof id === 'string') ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the problems in the stored data that the app assumes cannot happen:
+ * JSON columns that do not parse, blocks linked to tasks that are gone or in
+ * the trash, tasks with more than one linked block, and day plans that refer
+ * to missing tasks or blocks. Each issue carries its own repair.
+ */
+export function checkIntegrity(rows: IntegrityRows): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  for (const task of rows.tasks) {
+    if (task.recurrence_json && !parsesAs(task.recurrence_json, isRecurrence)) {
+      issues.push({
+        kind: 'invalidJson',
+        table: 'tasks',
+        column: 'recurrence_json',
+        rowId: task.id,
+        label: task.title,
+        fallback: null,
+      });
+    }
+    if (task.notifications_json && !parsesAs(task.notifications_json, isArray)) {
+      issues.push({
+        kind: 'invalidJson',
+        table: 'tasks',
+        column: 'notifications_json',
+        rowId: task.id,
+        label: task.title,
+        fallback: '[]',
+      });
+    }
+  }
+
+  for (const template of rows.templates) {
+    if (!parsesAs(template.blocks_json, isArray)) {
+      issues.push({
+        kind: 'invalidJson',
+        table: 'templates',
+        column: 'blocks_json',
+        rowId: template.id,
+        label: template.name,
+        fallback: '[]',
+      });
+    }
+  }
+
+  const tasksById = new Map(rows.tasks.map((t) => [t.id, t]));
+  // Blocks come ordered by start, so the first live block of a task is the one the app keeps
+  const linkedTaskIds = new Set<string>();
+  for (const block of rows.timeBlocks) {
+    if (!block.task_id) continue;
+    const task = tasksById.get(block.task_id);
+    if (!task) {
+      issues.push({ kind: 'orphanedBlock', blockId: block.id, label: block.title });
+    } else if (block.deleted_at) {
+      continue;
+    } else if (task.deleted_at) {
+      issues.push({ kind: 'blockOfDeletedTask', blockId: block.id, label: block.title });
+    } else if (linkedTaskIds.has(task.id)) {
+      issues.push({ kind: 'duplicateLinkedBlock', blockId: block.id, label: block.title });
+    } else {
+      linkedTaskIds.add(task.id);
+    }
+  }
+
+  const blockIds = new Set(rows.timeBlocks.map((b) => b.id));
+  for (const plan of rows.dayPlans) {
+    const taskIds = parseIds(plan.task_ids_json);
+    const timeBlockIds = parseIds(plan.time_block_ids_json);
+    if (!taskIds || !timeBlockIds) {
+      for (const [column, ids] of [
+        ['task_ids_json', taskIds],
+        ['time_block_ids_json', timeBlockIds],
+      ] as const) {
+        if (ids) continue;
+        issues.push({
+          kind: 'invalidJson',
+          table: 'day_plans',
+          column,
+          rowId: plan.date,
+          label: plan.date,
+          fallback: '[]',
+        });
+      }
+      continue;
+    }
+
+    // Ordered ids may name a single occurrence of a recurring task
+    const keptTaskIds = taskIds.filter((id) => tasksById.has(parseOccurrenceId(id)?.taskId ?? id));
+    const keptBlockIds = timeBlockIds.filter((id) => blockIds.has(id));
+    const missing = taskIds.length - keptTaskIds.length + timeBlockIds.length - keptBlockIds.length;
+    if (missing > 0) {
+      issues.push({
+        kind: 'danglingDayPlanRefs',
+        date: plan.date,
+        taskIds: keptTaskIds,
+        timeBlockIds: keptBlockIds,
+        missing,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether an issue stops its rows from loading at all, so it has to be
+ * repaired before the stores are hydrated.
+ */
+export function isBlockingIntegrityIssue(issue: IntegrityIssue): boolean {
+  // Template blocks already fall back to an empty list when they do not parse
+  return issue.kind === 'invalidJson' && issue.table !== 'templates';
+}
+
+/**
+ * A one-line description of an issue and what repairing it does.
+ */
+export function describeIntegrityIssue(issue: IntegrityIssue): string {
+  switch (issue.kind) {
+    case 'invalidJson': {
+      if (issue.table === 'day_plans') {
+        const list = issue.column === 'task_ids_json' ? 'task' : 'block';
+        return `The plan for ${issue.label} has an unreadable ${list} order; it will be reset.`;
+      }
+      return issue.column === 'recurrence_json'
+        ? `"${issue.label}" has an unreadable repeat rule; it will no longer repeat.`
+        : issue.column === 'notifications_json'
+          ? `"${issue.label}" has unreadable reminders; they will be cleared.`
+          : `Template "${issue.label}" has unreadable blocks; they will be cleared.`;
+    }
+    case 'orphanedBlock':
+      return `"${issue.label}" is linked to a task that no longer exists; it will be unlinked.`;
+    case 'blockOfDeletedTask':
+      return `"${issue.label}" is still on the timeline while its task is deleted; it will be deleted too.`;
+    case 'duplicateLinkedBlock':
+      return `"${issue.label}" is a second block for the same task; it will be deleted.`;
+    case 'danglingDayPlanRefs':
+      return `The plan for ${issue.date} refers to ${issue.missing} missing item${
+        issue.missing !== 1 ? 's' : ''
+      }; they will be removed.`;
+  }
+}
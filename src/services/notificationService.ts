@@ -1,6 +1,37 @@
 import * as Notifications from 'expo-notifications';
-import { parseISO, subMinutes, isAfter, isBefore, set as setDate } from 'date-fns';
-import type { Task, TimeBlock, TaskNotification } from '../types';
+import { parseISO, subMinutes, addMinutes, addDays, isAfter, set as setDate } from 'date-fns';
+import type { Task, TimeBlock, TaskOccurrence, QuietWindow, QuietHoursSchedule } from '../types';
+import { formatDate, expandTasksInRange } from '../utils';
+
+/**
+ * How far ahead reminders are scheduled for recurring tasks. The window is
+ * rolled forward by the startup reconciliation.
+ */
+const RECURRING_REMINDER_DAYS = 14;
+
+/**
+ * Action identifiers for the buttons shown on task reminders and block nudges.
+ */
+export const NotificationActions = {
+  markDone: 'mark-done',
+  snooze: 'snooze',
+  start: 'start',
+} as const;
+
+export const SNOOZE_MINUTES = 10;
+
+const SNOOZE_SUFFIX = '-snooze';
+
+/**
+ * A notification we want the OS to have scheduled.
+ */
+export interface PlannedNotification {
+  identifier: string;
+  fireDate: Date;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
 
 /**
  * Parse a "HH:mm" time string into { hour, minute }.
@@ -36,6 +67,89 @@ export function isInQuietHours(
   return dateMinutes >= startMinutes || dateMinutes < endMinutes;
 }
 
+/**
+ * Move a fire date that falls within quiet hours to the moment they end,
+ * so the reminder is delivered late instead of being dropped.
+ */
+export function deferPastQuietHours(
+  date: Date,
+  quietStart: string,
+  quietEnd: string,
+): Date {
+  if (!isInQuietHours(date, quietStart, quietEnd)) return date;
+
+  const end = parseTimeString(quietEnd);
+  const sameDayEnd = setDate(date, { hours: end.hour, minutes: end.minute, seconds: 0, milliseconds: 0 });
+  return isAfter(sameDayEnd, date) ? sameDayEnd : addDays(sameDayEnd, 1);
+}
+
+function toMinutes(time: string): number {
+  const { hour, minute } = parseTimeString(time);
+  return hour * 60 + minute;
+}
+
+function atTime(day: Date, time: string): Date {
+  const { hour, minute } = parseTimeString(time);
+  return setDate(day, { hours: hour, minutes: minute, seconds: 0, milliseconds: 0 });
+}
+
+function getQuietWindow(schedule: QuietHoursSchedule, weekday: number): QuietWindow {
+  return schedule.overrides?.[weekday] ?? { start: schedule.start, end: schedule.end };
+}
+
+/**
+ * End of the quiet window containing `date`, or null outside quiet hours.
+ * Both the window starting that day and the previous day's window (if it
+ * spans midnight) can cover an early-morning date.
+ */
+function getQuietWindowEnd(date: Date, schedule: QuietHoursSchedule): Date | null {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  const today = getQuietWindow(schedule, date.getDay());
+  const start = toMinutes(today.start);
+  const end = toMinutes(today.end);
+  if (start <= end) {
+    if (minutes >= start && minutes < end) return atTime(date, today.end);
+  } else if (minutes >= start) {
+    return atTime(addDays(date, 1), today.end);
+  }
+
+  const yesterday = getQuietWindow(schedule, (date.getDay() + 6) % 7);
+  if (toMinutes(yesterday.start) > toMinutes(yesterday.end) && minutes < toMinutes(yesterday.end)) {
+    return atTime(date, yesterday.end);
+  }
+  return null;
+}
+
+function getMuteEnd(date: Date, schedule: QuietHoursSchedule): Date | null {
+  if (!schedule.muteUntil) return null;
+  const until = parseISO(schedule.muteUntil);
+  return isAfter(until, date) ? until : null;
+}
+
+/**
+ * Check if a given Date falls within the quiet window for its day, or
+ * before a "do not disturb until" override ends.
+ */
+export function isInQuietSchedule(date: Date, schedule: QuietHoursSchedule): boolean {
+  return getMuteEnd(date, schedule) !== null || getQuietWindowEnd(date, schedule) !== null;
+}
+
+/**
+ * Move a fire date that falls within quiet hours or a mute to the moment
+ * they end. A mute can end inside a quiet window (and a window can run into
+ * the next day's), so this repeats until the date is clear.
+ */
+export function deferPastQuietSchedule(date: Date, schedule: QuietHoursSchedule): Date {
+  let current = date;
+  for (let i = 0; i < 8; i++) {
+    const next = getMuteEnd(current, schedule) ?? getQuietWindowEnd(current, schedule);
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
 /**
  * Request notification permissions from the user.
  * Returns true if granted.
@@ -62,12 +176,41 @@ export function setupNotificationHandler(): void {
   });
 }
 
+/**
+ * Register the action buttons for each notification type. The category
+ * identifier matches the `type` in the notification data. Actions open the
+ * app so the response listener is guaranteed to run.
+ */
+export async function registerNotificationCategories(): Promise<void> {
+  const snooze = {
+    identifier: NotificationActions.snooze,
+    buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+    options: { opensAppToForeground: true },
+  };
+  const start = {
+    identifier: NotificationActions.start,
+    buttonTitle: 'Start now',
+    options: { opensAppToForeground: true },
+  };
+
+  await Notifications.setNotificationCategoryAsync('task-reminder', [
+    {
+      identifier: NotificationActions.markDone,
+      buttonTitle: 'Mark done',
+      options: { opensAppToForeground: true },
+    },
+    snooze,
+    start,
+  ]);
+  await Notifications.setNotificationCategoryAsync('block-nudge', [snooze, start]);
+}
+
 /**
  * Build a stable notification identifier for a task notification.
- * This allows us to cancel/replace specific notifications.
+ * Occurrences of a recurring task get one identifier per date.
  */
-function buildTaskNotificationId(taskId: string, notificationId: string): string {
-  return `task-${taskId}-${notificationId}`;
+function buildTaskNotificationId(taskId: string, notificationId: string, date?: string): string {
+  return date ? `task-${taskId}-${notificationId}-${date}` : `task-${taskId}-${notificationId}`;
 }
 
 /**
@@ -78,112 +221,234 @@ function buildBlockNotificationId(blockId: string): string {
 }
 
 /**
- * Schedule all enabled notifications for a task, respecting quiet hours.
- * Cancels any previously scheduled notifications for this task first.
+ * Compute the reminders to schedule for a stored task. Offsets count back from
+ * the task's scheduledTime, or from `allDayReminderTime` for tasks without a
+ * time; reminders landing in quiet hours or a mute are deferred to their end.
+ * Recurring masters get reminders for each open occurrence in the next
+ * RECURRING_REMINDER_DAYS days; finished tasks and occurrences get none.
  */
-export async function scheduleTaskNotifications(
+export function planTaskNotifications(
   task: Task,
-  quietStart: string,
-  quietEnd: string,
-  notificationsEnabled: boolean,
-): Promise<void> {
-  // Always cancel existing notifications for this task first
-  await cancelTaskNotifications(task.id, task.notifications);
-
-  if (!notificationsEnabled) return;
-  if (task.status === 'done' || task.status === 'cancelled') return;
-  if (!task.scheduledDate) return;
+  occurrences: Record<string, TaskOccurrence>,
+  quietHours: QuietHoursSchedule,
+  allDayReminderTime: string,
+  now: Date = new Date(),
+): PlannedNotification[] {
+  const reminders = task.notifications.filter((n) => n.enabled);
+  if (reminders.length === 0) return [];
 
-  for (const notification of task.notifications) {
-    if (!notification.enabled) continue;
+  const targets = task.recurrence
+    ? expandTasksInRange(
+        [task],
+        occurrences,
+        formatDate(now),
+        formatDate(addDays(now, RECURRING_REMINDER_DAYS)),
+      )
+    : [task];
 
-    const taskDate = parseISO(task.scheduledDate + 'T00:00:00');
-    const fireDate = subMinutes(taskDate, notification.offsetMinutes);
-    const now = new Date();
+  const planned: PlannedNotification[] = [];
+  for (const target of targets) {
+    if (target.status === 'done' || target.status === 'cancelled') continue;
+    if (!target.scheduledDate) continue;
 
-    // Don't schedule notifications in the past
-    if (!isAfter(fireDate, now)) continue;
+    const anchorTime = target.scheduledTime ?? allDayReminderTime;
+    const anchor = parseISO(`${target.scheduledDate}T${anchorTime}:00`);
 
-    // Don't schedule during quiet hours
-    if (isInQuietHours(fireDate, quietStart, quietEnd)) continue;
+    for (const notification of reminders) {
+      const fireDate = deferPastQuietSchedule(
+        subMinutes(anchor, notification.offsetMinutes),
+        quietHours,
+      );
 
-    const identifier = buildTaskNotificationId(task.id, notification.id);
+      // Don't schedule notifications in the past
+      if (!isAfter(fireDate, now)) continue;
 
-    await Notifications.scheduleNotificationAsync({
-      identifier,
-      content: {
+      planned.push({
+        identifier: buildTaskNotificationId(
+          task.id,
+          notification.id,
+          task.recurrence ? target.scheduledDate : undefined,
+        ),
+        fireDate,
         title: 'Task Reminder',
         body: task.title,
-        data: { type: 'task-reminder', taskId: task.id },
-        sound: true,
-      },
-      trigger: {
-        type: Notifications.SchedulableTriggerInputTypes.DATE,
-        date: fireDate,
-      },
-    });
-  }
-}
-
-/**
- * Cancel all scheduled notifications for a specific task.
- */
-export async function cancelTaskNotifications(
-  taskId: string,
-  notifications: TaskNotification[],
-): Promise<void> {
-  for (const notification of notifications) {
-    const identifier = buildTaskNotificationId(taskId, notification.id);
-    await Notifications.cancelScheduledNotificationAsync(identifier);
+        data: { type: 'task-reminder', taskId: task.id, date: target.scheduledDate },
+      });
+    }
   }
+  return planned;
 }
 
 /**
- * Schedule a start-of-block nudge notification for a time block.
- * Fires at the block's start time (or offset before it).
+ * Compute the start-of-block nudge for a time block, or null if it would fire
+ * in the past, during quiet hours or while muted. Blocks linked to a task are covered by
+ * the task's own reminders and get no nudge.
  */
-export async function scheduleBlockNudge(
+export function planBlockNudge(
   block: TimeBlock,
   offsetMinutes: number,
-  quietStart: string,
-  quietEnd: string,
-  notificationsEnabled: boolean,
-): Promise<void> {
-  // Cancel any existing nudge for this block
-  await cancelBlockNudge(block.id);
-
-  if (!notificationsEnabled) return;
+  quietHours: QuietHoursSchedule,
+  now: Date = new Date(),
+): PlannedNotification | null {
+  if (block.taskId) return null;
 
   const startTime = parseISO(block.startTime);
   const fireDate = subMinutes(startTime, offsetMinutes);
-  const now = new Date();
 
-  if (!isAfter(fireDate, now)) return;
-  if (isInQuietHours(fireDate, quietStart, quietEnd)) return;
+  if (!isAfter(fireDate, now)) return null;
+  if (isInQuietSchedule(fireDate, quietHours)) return null;
 
-  const identifier = buildBlockNotificationId(block.id);
+  return {
+    identifier: buildBlockNotificationId(block.id),
+    fireDate,
+    title: 'Time Block Starting',
+    body: block.title,
+    data: { type: 'block-nudge', blockId: block.id },
+  };
+}
 
+/**
+ * Re-plan a delivered notification to fire again `minutes` from now. The copy
+ * keeps its data, so cancelling the task or block also cancels the snooze,
+ * and is marked `snoozed` so reconciliation leaves it alone.
+ */
+export function planSnooze(
+  notification: Pick<PlannedNotification, 'identifier' | 'title' | 'body' | 'data'>,
+  minutes: number = SNOOZE_MINUTES,
+  now: Date = new Date(),
+): PlannedNotification {
+  const baseId = notification.identifier.endsWith(SNOOZE_SUFFIX)
+    ? notification.identifier.slice(0, -SNOOZE_SUFFIX.length)
+    : notification.identifier;
+  return {
+    identifier: `${baseId}${SNOOZE_SUFFIX}`,
+    fireDate: addMinutes(now, minutes),
+    title: notification.title,
+    body: notification.body,
+    data: { ...notification.data, snoozed: 'true' },
+  };
+}
+
+async function schedulePlanned(planned: PlannedNotification): Promise<void> {
   await Notifications.scheduleNotificationAsync({
-    identifier,
+    identifier: planned.identifier,
     content: {
-      title: 'Time Block Starting',
-      body: block.title,
-      data: { type: 'block-nudge', blockId: block.id },
+      title: planned.title,
+      body: planned.body,
+      // fireAt lets reconciliation spot reminders whose time has moved
+      data: { ...planned.data, fireAt: planned.fireDate.toISOString() },
       sound: true,
+      categoryIdentifier: planned.data.type,
     },
     trigger: {
       type: Notifications.SchedulableTriggerInputTypes.DATE,
-      date: fireDate,
+      date: planned.fireDate,
     },
   });
 }
 
+// Per-task/block chains so a cancel never races a schedule for the same item
+const pendingSyncs = new Map<string, Promise<void>>();
+
+function enqueueSync(key: string, work: () => Promise<void>): Promise<void> {
+  const previous = pendingSyncs.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(work);
+  pendingSyncs.set(key, next);
+  next.finally(() => {
+    if (pendingSyncs.get(key) === next) pendingSyncs.delete(key);
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Schedule all enabled notifications for a task, respecting quiet hours.
+ * Cancels any previously scheduled notifications for this task first.
+ */
+export function scheduleTaskNotifications(
+  task: Task,
+  occurrences: Record<string, TaskOccurrence>,
+  quietHours: QuietHoursSchedule,
+  allDayReminderTime: string,
+  notificationsEnabled: boolean,
+): Promise<void> {
+  return enqueueSync(`task-${task.id}`, async () => {
+    await cancelScheduledForTask(task.id);
+    if (!notificationsEnabled) return;
+
+    const planned = planTaskNotifications(task, occurrences, quietHours, allDayReminderTime);
+    for (const notification of planned) {
+      await schedulePlanned(notification);
+    }
+  });
+}
+
+async function cancelScheduledForTask(taskId: string): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  for (const request of scheduled) {
+    if (request.content.data?.taskId === taskId) {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+}
+
 /**
- * Cancel a scheduled block nudge notification.
+ * Cancel all scheduled notifications for a specific task,
+ * including those of every occurrence of a recurring task.
  */
-export async function cancelBlockNudge(blockId: string): Promise<void> {
-  const identifier = buildBlockNotificationId(blockId);
-  await Notifications.cancelScheduledNotificationAsync(identifier);
+export function cancelTaskNotifications(taskId: string): Promise<void> {
+  return enqueueSync(`task-${taskId}`, () => cancelScheduledForTask(taskId));
+}
+
+/**
+ * Schedule a start-of-block nudge notification for a time block.
+ * Fires at the block's start time (or offset before it).
+ */
+export function scheduleBlockNudge(
+  block: TimeBlock,
+  offsetMinutes: number,
+  quietHours: QuietHoursSchedule,
+  notificationsEnabled: boolean,
+): Promise<void> {
+  return enqueueSync(`block-${block.id}`, async () => {
+    // Cancel any existing nudge for this block
+    await Notifications.cancelScheduledNotificationAsync(buildBlockNotificationId(block.id));
+    if (!notificationsEnabled) return;
+
+    const planned = planBlockNudge(block, offsetMinutes, quietHours);
+    if (planned) await schedulePlanned(planned);
+  });
+}
+
+/**
+ * Cancel a scheduled block nudge notification, including a snoozed copy.
+ */
+export function cancelBlockNudge(blockId: string): Promise<void> {
+  return enqueueSync(`block-${blockId}`, async () => {
+    const identifier = buildBlockNotificationId(blockId);
+    await Notifications.cancelScheduledNotificationAsync(identifier);
+    await Notifications.cancelScheduledNotificationAsync(`${identifier}${SNOOZE_SUFFIX}`);
+  });
+}
+
+/**
+ * Schedule a delivered notification to fire again after SNOOZE_MINUTES.
+ */
+export function snoozeNotification(
+  request: Notifications.NotificationRequest,
+  minutes: number = SNOOZE_MINUTES,
+): Promise<void> {
+  const data = (request.content.data ?? {}) as Record<string, string>;
+  const key = data.taskId ? `task-${data.taskId}` : `block-${data.blockId}`;
+  const planned = planSnooze(
+    {
+      identifier: request.identifier,
+      title: request.content.title ?? '',
+      body: request.content.body ?? '',
+      data,
+    },
+    minutes,
+  );
+  return enqueueSync(key, () => schedulePlanned(planned));
 }
 
 /**
@@ -193,23 +458,55 @@ export async function cancelAllNotifications(): Promise<void> {
   await Notifications.cancelAllScheduledNotificationsAsync();
 }
 
+export interface NotificationSyncSettings {
+  enabled: boolean;
+  quietHours: QuietHoursSchedule;
+  allDayReminderTime: string;
+  blockNudgeOffsetMinutes: number;
+}
+
 /**
- * Re-schedule all task notifications (e.g. after quiet hours change).
- * Call this when notification settings change.
+ * Bring the OS schedule in line with the stored tasks and time blocks:
+ * cancels orphaned identifiers (deleted or finished items, stale occurrences)
+ * and reminders whose fire time moved, and schedules anything missing. Run on startup and when settings change.
  */
-export async function rescheduleAllTaskNotifications(
+export async function reconcileNotifications(
   tasks: Task[],
-  quietStart: string,
-  quietEnd: string,
-  notificationsEnabled: boolean,
+  occurrences: Record<string, TaskOccurrence>,
+  timeBlocks: TimeBlock[],
+  settings: NotificationSyncSettings,
 ): Promise<void> {
-  await cancelAllNotifications();
-
-  if (!notificationsEnabled) return;
+  if (!settings.enabled) {
+    await cancelAllNotifications();
+    return;
+  }
 
+  const { quietHours, allDayReminderTime, blockNudgeOffsetMinutes } = settings;
+  const desired = new Map<string, PlannedNotification>();
   for (const task of tasks) {
-    if (task.notifications.length > 0) {
-      await scheduleTaskNotifications(task, quietStart, quietEnd, notificationsEnabled);
+    const planned = planTaskNotifications(task, occurrences, quietHours, allDayReminderTime);
+    for (const notification of planned) desired.set(notification.identifier, notification);
+  }
+  for (const block of timeBlocks) {
+    const planned = planBlockNudge(block, blockNudgeOffsetMinutes, quietHours);
+    if (planned) desired.set(planned.identifier, planned);
+  }
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  const scheduledIds = new Set<string>();
+  for (const request of scheduled) {
+    const planned = desired.get(request.identifier);
+    if (planned && request.content.data?.fireAt === planned.fireDate.toISOString()) {
+      scheduledIds.add(request.identifier);
+    } else if (request.content.data?.snoozed) {
+      // Snoozed copies are one-offs the user asked for; they expire on their own
+      continue;
+    } else {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
     }
   }
+
+  for (const planned of desired.values()) {
+    if (!scheduledIds.has(planned.identifier)) await schedulePlanned(planned);
+  }
 }
@@ -0,0 +1,177 @@
+import type { TimeBlock, OverlapPolicy } from '../types';
+import { areSameDay } from '../utils';
+
+/**
+ * New times for one block as part of resolving a change.
+ */
+export interface BlockShift {
+  id: string;
+  title: string;
+  startTime: string; // ISO datetime string
+  endTime: string; // ISO datetime string
+}
+
+/**
+ * The outcome of moving or resizing a block under an overlap policy: either
+ * every block whose times change (the changed block first), or why the
+ * change is refused and which blocks are in the way.
+ */
+export type OverlapResolution =
+  | { ok: true; shifts: BlockShift[] }
+  | { ok: false; reason: string; blockIds: string[] };
+
+interface Slot {
+  block: TimeBlock;
+  start: number;
+  end: number;
+}
+
+function toSlot(block: TimeBlock): Slot {
+  return {
+    block,
+    start: new Date(block.startTime).getTime(),
+    end: new Date(block.endTime).getTime(),
+  };
+}
+
+function toShift(slot: Slot): BlockShift {
+  return {
+    id: slot.block.id,
+    title: slot.block.title,
+    startTime: new Date(slot.start).toISOString(),
+    endTime: new Date(slot.end).toISOString(),
+  };
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+function refuse(reason: string, blocks: TimeBlock[]): OverlapResolution {
+  return { ok: false, reason, blockIds: blocks.map((b) => b.id) };
+}
+
+/**
+ * Push every block that overlaps the changed block, or a block pushed
+ * before it, to the first free time after it. Pinned blocks stay put and
+ * pushed blocks skip past them; nothing is pushed past midnight.
+ */
+function pushFollowing(changed: Slot, others: Slot[]): OverlapResolution {
+  const dayEnd = new Date(changed.start);
+  dayEnd.setHours(24, 0, 0, 0);
+
+  const pinned = others.filter((s) => s.block.pinned);
+  const occupied = [changed, ...pinned];
+  const shifts = [toShift(changed)];
+
+  const movable = others.filter((s) => !s.block.pinned).sort((a, b) => a.start - b.start);
+  for (const slot of movable) {
+    const duration = slot.end - slot.start;
+    let start = slot.start;
+    let hit = occupied.find((o) => overlaps(o, { start, end: start + duration }));
+    while (hit) {
+      start = hit.end;
+      hit = occupied.find((o) => overlaps(o, { start, end: start + duration }));
+    }
+    const placed = { block: slot.block, start, end: start + duration };
+    if (placed.start !== slot.start) {
+      if (placed.end > dayEnd.getTime()) {
+        return refuse(`There is no room to push "${slot.block.title}" later in the day.`, [
+          slot.block,
+        ]);
+      }
+      shifts.push(toShift(placed));
+    }
+    occupied.push(placed);
+  }
+  return { ok: true, shifts };
+}
+
+/**
+ * Trade places with the one block the changed block was dropped on: each
+ * takes the other's slot, keeping its own duration, so the outer edges of
+ * the two slots stay where they were.
+ */
+function swapWith(
+  changed: Slot,
+  original: Slot,
+  target: Slot,
+  others: Slot[],
+): OverlapResolution {
+  const movedDuration = changed.end - changed.start;
+  const targetDuration = target.end - target.start;
+
+  let moved: Slot;
+  let swapped: Slot;
+  if (original.start < target.start) {
+    const start = original.start;
+    swapped = { block: target.block, start, end: start + targetDuration };
+    moved = { block: changed.block, start: target.end - movedDuration, end: target.end };
+  } else {
+    moved = { block: changed.block, start: target.start, end: target.start + movedDuration };
+    swapped = { block: target.block, start: original.end - targetDuration, end: original.end };
+  }
+
+  const rest = others.filter((s) => s.block.id !== target.block.id);
+  const inTheWay = rest.filter((s) => overlaps(s, moved) || overlaps(s, swapped));
+  if (overlaps(moved, swapped) || inTheWay.length > 0) {
+    return refuse(`There is no room to swap with "${target.block.title}".`, [
+      target.block,
+      ...inTheWay.map((s) => s.block),
+    ]);
+  }
+  return { ok: true, shifts: [toShift(moved), toShift(swapped)] };
+}
+
+/**
+ * Work out what moving or resizing a block to `startTime`-`endTime` does to
+ * the other blocks of the day it lands on, under `policy`. Only that day's
+ * blocks are considered. Pinned blocks are never moved, and cannot be moved
+ * or resized themselves until they are unpinned.
+ */
+export function resolveBlockChange(
+  blocks: TimeBlock[],
+  id: string,
+  startTime: string,
+  endTime: string,
+  policy: OverlapPolicy,
+): OverlapResolution {
+  const block = blocks.find((b) => b.id === id);
+  if (!block) return refuse('The block no longer exists.', []);
+  if (block.pinned) return refuse(`"${block.title}" is pinned. Unpin it to move it.`, [block]);
+
+  const original = toSlot(block);
+  const changed = toSlot({ ...block, startTime, endTime });
+  const others = blocks
+    .filter((b) => b.id !== id && areSameDay(b.startTime, startTime))
+    .map(toSlot);
+  const hits = others.filter((s) => overlaps(s, changed));
+
+  if (policy === 'allow' || hits.length === 0) return { ok: true, shifts: [toShift(changed)] };
+
+  const pinnedHit = hits.find((s) => s.block.pinned);
+  if (pinnedHit && policy !== 'reject') {
+    return refuse(`"${pinnedHit.block.title}" is pinned and cannot make room.`, [pinnedHit.block]);
+  }
+
+  switch (policy) {
+    case 'push':
+      return pushFollowing(changed, others);
+    case 'swap':
+      // A resize has no slot to give back, so only a move can swap
+      if (hits.length === 1 && changed.start !== original.start) {
+        return swapWith(changed, original, hits[0], others);
+      }
+      return refuse(
+        hits.length > 1
+          ? 'Drop the block onto a single block to swap them.'
+          : `"${block.title}" would overlap "${hits[0].block.title}".`,
+        hits.map((s) => s.block),
+      );
+    case 'reject':
+      return refuse(
+        `"${block.title}" would overlap ${hits.map((s) => `"${s.block.title}"`).join(', ')}.`,
+        hits.map((s) => s.block),
+      );
+  }
+}
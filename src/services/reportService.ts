@@ -0,0 +1,137 @@
+import { format, parseISO } from 'date-fns';
+import type { Priority, Task, TaskOccurrence, TaskStatus } from '../types';
+import { expandTasksInRange } from '../utils';
+
+export type ReportFormat = 'csv' | 'markdown';
+
+export interface ReportFilter {
+  startDate: string; // ISO date "YYYY-MM-DD", inclusive
+  endDate: string; // ISO date "YYYY-MM-DD", inclusive
+  /** Only include these statuses; empty includes every status */
+  statuses: TaskStatus[];
+  /** Only include these priorities; empty includes every priority */
+  priorities: Priority[];
+}
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  done: 'Done',
+  cancelled: 'Cancelled',
+};
+
+const CSV_COLUMNS = [
+  'Date',
+  'Time',
+  'Title',
+  'Status',
+  'Priority',
+  'Estimated Minutes',
+  'Completed At',
+  'Carried Over From',
+  'Subtasks Done',
+  'Subtasks Total',
+] as const;
+
+/**
+ * Select the tasks a report covers: every task (and occurrence of a
+ * recurring task) scheduled in the range that matches the status and
+ * priority filters, ordered by date and time.
+ */
+export function selectReportTasks(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  filter: ReportFilter,
+): Task[] {
+  return expandTasksInRange(tasks, occurrences, filter.startDate, filter.endDate)
+    .filter((t) => filter.statuses.length === 0 || filter.statuses.includes(t.status))
+    .filter((t) => filter.priorities.length === 0 || filter.priorities.includes(t.priority))
+    .sort(
+      (a, b) =>
+        a.scheduledDate.localeCompare(b.scheduledDate) ||
+        (a.scheduledTime ?? '').localeCompare(b.scheduledTime ?? '') ||
+        a.sortOrder - b.sortOrder,
+    );
+}
+
+function countDoneSubtasks(task: Task): number {
+  return task.subtasks.filter((s) => s.completed).length;
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format tasks as RFC 4180 CSV with a header row.
+ */
+export function formatTasksCsv(tasks: Task[]): string {
+  const rows = tasks.map((t) => [
+    t.scheduledDate,
+    t.scheduledTime,
+    t.title,
+    STATUS_LABELS[t.status],
+    t.priority,
+    t.estimatedMinutes,
+    t.completedAt,
+    t.carriedOverFrom,
+    countDoneSubtasks(t),
+    t.subtasks.length,
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatMarkdownItem(task: Task): string {
+  const checkbox = task.status === 'done' ? '[x]' : '[ ]';
+  // Keep Markdown syntax in titles from rendering
+  const title = task.title.replace(/([\\`*_[\]])/g, '\\$1');
+
+  const details: string[] = [task.priority];
+  if (task.scheduledTime) details.push(task.scheduledTime);
+  if (task.status === 'in_progress') details.push('in progress');
+  if (task.estimatedMinutes) details.push(`${task.estimatedMinutes} min`);
+  if (task.subtasks.length > 0) details.push(`subtasks ${countDoneSubtasks(task)}/${task.subtasks.length}`);
+  if (task.carriedOverFrom) details.push(`carried over from ${task.carriedOverFrom}`);
+  if (task.completedAt) details.push(`completed ${format(parseISO(task.completedAt), 'yyyy-MM-dd HH:mm')}`);
+
+  return `- ${checkbox} ${task.status === 'cancelled' ? `~~${title}~~` : title} (${details.join(', ')})`;
+}
+
+/**
+ * Format tasks as a Markdown checklist grouped under a heading per day,
+ * with a summary line of how many were completed.
+ */
+export function formatTasksMarkdown(tasks: Task[], filter: ReportFilter): string {
+  const done = tasks.filter((t) => t.status === 'done').length;
+  const lines = [
+    `# Tasks ${filter.startDate} to ${filter.endDate}`,
+    '',
+    `${done} of ${tasks.length} completed.`,
+  ];
+
+  let currentDate: string | null = null;
+  for (const task of tasks) {
+    if (task.scheduledDate !== currentDate) {
+      currentDate = task.scheduledDate;
+      lines.push('', `## ${format(parseISO(currentDate), 'EEEE, MMMM d')}`, '');
+    }
+    lines.push(formatMarkdownItem(task));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Build a report of the tasks matching a filter in the given format.
+ */
+export function buildTaskReport(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  filter: ReportFilter,
+  reportFormat: ReportFormat,
+): string {
+  const selected = selectReportTasks(tasks, occurrences, filter);
+  return reportFormat === 'csv' ? formatTasksCsv(selected) : formatTasksMarkdown(selected, filter);
+}
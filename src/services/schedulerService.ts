@@ -0,0 +1,190 @@
+import type { Task, Priority, TimeBlock, CalendarEvent } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export interface TimeInterval {
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+export interface SchedulerOptions {
+  date: string; // ISO date "YYYY-MM-DD" being planned
+  startHour: number; // first hour of the day's window
+  endHour: number; // hour the day's window ends, up to 24
+  /** Nothing is placed before this moment; defaults to the current time */
+  now?: Date;
+  /** Free time and split parts shorter than this are not used; default 15 */
+  minChunkMinutes?: number;
+}
+
+/**
+ * A block of time the scheduler proposes for a task. A task too long for
+ * any single gap is split, and each part is proposed separately.
+ */
+export interface ProposedBlock {
+  taskId: string;
+  title: string;
+  startTime: string; // ISO datetime string
+  endTime: string; // ISO datetime string
+  part: number; // 1-based
+  parts: number;
+}
+
+export interface ScheduleProposal {
+  date: string;
+  blocks: ProposedBlock[];
+  /** Tasks that did not fit in the day's free time and stay unscheduled */
+  deferred: Task[];
+}
+
+/**
+ * The gaps in `window` not covered by any of the `busy` intervals, in order.
+ */
+export function findFreeIntervals(window: TimeInterval, busy: TimeInterval[]): TimeInterval[] {
+  const sorted = busy
+    .filter((b) => b.end > window.start && b.start < window.end)
+    .sort((a, b) => a.start - b.start);
+
+  const free: TimeInterval[] = [];
+  let cursor = window.start;
+  for (const interval of sorted) {
+    if (interval.start > cursor) free.push({ start: cursor, end: interval.start });
+    cursor = Math.max(cursor, interval.end);
+  }
+  if (cursor < window.end) free.push({ start: cursor, end: window.end });
+  return free;
+}
+
+/**
+ * Whether the scheduler may place a task: an open, one-off task with an
+ * estimate but no time of day. Recurring tasks are left alone, since giving
+ * one a time would move every occurrence of the series.
+ */
+export function isSchedulable(task: Task): boolean {
+  return (
+    (task.status === 'todo' || task.status === 'in_progress') &&
+    !task.scheduledTime &&
+    !task.recurrence &&
+    !task.masterTaskId &&
+    (task.estimatedMinutes ?? 0) > 0
+  );
+}
+
+/**
+ * Tasks in the order they are placed: highest priority first, and within a
+ * priority the longest first, since short tasks fit the gaps left behind.
+ */
+function orderForScheduling(tasks: Task[]): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      (b.estimatedMinutes ?? 0) - (a.estimatedMinutes ?? 0) ||
+      a.sortOrder - b.sortOrder,
+  );
+}
+
+function ceilToStep(time: number, stepMs: number): number {
+  return Math.ceil(time / stepMs) * stepMs;
+}
+
+/**
+ * Take `ms` from the free intervals, first fit: the earliest gap that holds
+ * the whole task, or else the earliest gaps that together hold it in parts
+ * of at least `minChunkMs`. Returns null (leaving `free` untouched) when the
+ * task does not fit at all.
+ */
+function allocate(free: TimeInterval[], ms: number, minChunkMs: number): TimeInterval[] | null {
+  const whole = free.find((gap) => gap.end - gap.start >= ms);
+  if (whole) {
+    const taken = { start: whole.start, end: whole.start + ms };
+    whole.start = taken.end;
+    return [taken];
+  }
+
+  const parts: TimeInterval[] = [];
+  let remaining = ms;
+  for (const gap of free) {
+    const available = gap.end - gap.start;
+    if (available < minChunkMs) continue;
+    // Never leave a remainder too short to be a part of its own
+    let take = Math.min(available, remaining);
+    if (remaining - take > 0 && remaining - take < minChunkMs) take = remaining - minChunkMs;
+    if (take < minChunkMs) continue;
+    parts.push({ start: gap.start, end: gap.start + take });
+    remaining -= take;
+    if (remaining === 0) break;
+  }
+  if (remaining > 0) return null;
+
+  for (const part of parts) {
+    const gap = free.find((g) => g.start === part.start);
+    if (gap) gap.start = part.end;
+  }
+  return parts;
+}
+
+/**
+ * Propose times for a day's unscheduled tasks, packing them into the free
+ * time between `startHour` and `endHour` left by the day's time blocks and
+ * timed calendar events. Tasks are placed by priority and estimate; a task that
+ * fits no single gap is split across several, and one that does not fit at
+ * all is deferred. Nothing is changed -- the proposal is for the user to
+ * review and apply.
+ */
+export function planDay(
+  tasks: Task[],
+  timeBlocks: TimeBlock[],
+  calendarEvents: CalendarEvent[],
+  options: SchedulerOptions,
+): ScheduleProposal {
+  const minChunkMs = (options.minChunkMinutes ?? 15) * MINUTE_MS;
+  const dayStart = new Date(`${options.date}T00:00:00`);
+  const windowStart = new Date(dayStart);
+  windowStart.setHours(options.startHour, 0, 0, 0);
+  const windowEnd = new Date(dayStart);
+  windowEnd.setHours(options.endHour, 0, 0, 0);
+
+  // Start from the next quarter hour; time already past cannot be planned
+  const now = ceilToStep((options.now ?? new Date()).getTime(), 15 * MINUTE_MS);
+  const window = { start: Math.max(windowStart.getTime(), now), end: windowEnd.getTime() };
+
+  const timedEvents = calendarEvents.filter((event) => !event.allDay);
+  const busy = [...timeBlocks, ...timedEvents].map((item) => ({
+    start: new Date(item.startTime).getTime(),
+    end: new Date(item.endTime).getTime(),
+  }));
+  const free =
+    window.start < window.end
+      ? findFreeIntervals(window, busy).filter((gap) => gap.end - gap.start >= minChunkMs)
+      : [];
+
+  const blocks: ProposedBlock[] = [];
+  const deferred: Task[] = [];
+  for (const task of orderForScheduling(tasks.filter(isSchedulable))) {
+    const parts = allocate(free, (task.estimatedMinutes ?? 0) * MINUTE_MS, minChunkMs);
+    if (!parts) {
+      deferred.push(task);
+      continue;
+    }
+    parts.forEach((part, index) => {
+      blocks.push({
+        taskId: task.id,
+        title: task.title,
+        startTime: new Date(part.start).toISOString(),
+        endTime: new Date(part.end).toISOString(),
+        part: index + 1,
+        parts: parts.length,
+      });
+    });
+  }
+
+  blocks.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  return { date: options.date, blocks, deferred };
+}
@@ -0,0 +1,318 @@
+import { parseISO, subDays } from 'date-fns';
+import type { Task, TaskOccurrence, SeriesEditScope, Subtask } from '../types';
+import { formatDate, generateId, generateOccurrences } from '../utils';
+
+export interface SeriesChange {
+  /** Tasks to insert or replace */
+  upserts: Task[];
+  /** Ids of stored tasks to delete */
+  deletes: string[];
+  /** Occurrence states to insert or replace */
+  occurrenceUpserts: TaskOccurrence[];
+  /** Occurrence states to drop (e.g. moved onto a split-off master) */
+  occurrenceDeletes: { taskId: string; date: string }[];
+}
+
+/**
+ * Fields that are shared by every task of a series and are copied onto
+ * sibling rows by "this and following" / "entire series" edits.
+ * Dates, recurrence and subtasks stay with the row that was edited.
+ */
+const SERIES_FIELDS: (keyof Task)[] = [
+  'title',
+  'description',
+  'priority',
+  'scheduledTime',
+  'estimatedMinutes',
+  'notifications',
+];
+
+function emptyChange(): SeriesChange {
+  return { upserts: [], deletes: [], occurrenceUpserts: [], occurrenceDeletes: [] };
+}
+
+function pickSeriesFields(updates: Partial<Task>): Partial<Task> {
+  const picked: Partial<Task> = {};
+  for (const key of SERIES_FIELDS) {
+    if (key in updates) {
+      (picked as Record<string, unknown>)[key] = updates[key];
+    }
+  }
+  return picked;
+}
+
+/**
+ * Give subtasks fresh ids owned by `parentTaskId`. Subtask ids are primary
+ * keys, so copies onto another task can never reuse the originals.
+ */
+function cloneSubtasks(subtasks: Subtask[], parentTaskId: string): Subtask[] {
+  return subtasks.map((s) => ({ ...s, id: generateId(), parentTaskId }));
+}
+
+function ownSubtasks(subtasks: Subtask[], parentTaskId: string): Subtask[] {
+  return subtasks.map((s) => ({ ...s, parentTaskId }));
+}
+
+function dayBefore(date: string): string {
+  return formatDate(subDays(parseISO(date), 1));
+}
+
+/** Whether a recurring master still produces occurrences on or after `date`. */
+function spansDate(master: Task, date: string): boolean {
+  const endDate = master.recurrence?.endDate;
+  return !endDate || endDate >= date;
+}
+
+/**
+ * How many occurrences a master produces before `date`. Excluded dates
+ * count, as they do towards COUNT.
+ */
+function countOccurrencesBefore(master: Task, date: string): number {
+  if (!master.recurrence) return 0;
+  const counted = { ...master, recurrence: { ...master.recurrence, exceptionDates: [] } };
+  return generateOccurrences(counted, master.scheduledDate, dayBefore(date)).length;
+}
+
+function stripVirtualFields(task: Task): Task {
+  const stored = { ...task };
+  delete stored.masterTaskId;
+  return stored;
+}
+
+/**
+ * All stored tasks belonging to the same series as `source`.
+ * Tasks without a series id are a series of one.
+ */
+function getSeriesRows(tasks: Task[], source: Task): Task[] {
+  if (!source.seriesId) return [source];
+  return tasks.filter((t) => t.seriesId === source.seriesId);
+}
+
+function findSource(tasks: Task[], target: Task): Task | undefined {
+  const sourceId = target.masterTaskId ?? target.id;
+  return tasks.find((t) => t.id === sourceId);
+}
+
+/**
+ * Move stored occurrence states on or after `fromDate` off a master,
+ * optionally re-keying them onto the master that continues the series.
+ */
+function moveOccurrenceStates(
+  occurrences: Record<string, TaskOccurrence>,
+  fromTaskId: string,
+  fromDate: string,
+  toTaskId: string | null,
+  change: SeriesChange,
+): void {
+  for (const occurrence of Object.values(occurrences)) {
+    if (occurrence.taskId !== fromTaskId || occurrence.date < fromDate) continue;
+    change.occurrenceDeletes.push({ taskId: occurrence.taskId, date: occurrence.date });
+    if (toTaskId) {
+      change.occurrenceUpserts.push({ ...occurrence, taskId: toTaskId });
+    }
+  }
+}
+
+/**
+ * Compute the rows to write when a task that may belong to a recurring series
+ * is edited with the given scope. `target` is the task as displayed, i.e. a
+ * virtual occurrence or a stored task.
+ *
+ * - 'this': a virtual occurrence is detached into a standalone exception and
+ *   skipped on its master; a stored task is simply updated.
+ * - 'following': masters spanning the target date are split so the edit only
+ *   affects the continuation; later masters and exceptions get the shared fields.
+ * - 'all': every row of the series gets the shared fields; the edited row also
+ *   gets its recurrence and subtasks.
+ */
+export function planSeriesUpdate(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  target: Task,
+  updates: Partial<Task>,
+  scope: SeriesEditScope,
+): SeriesChange {
+  const change = emptyChange();
+  const source = findSource(tasks, target);
+  if (!source) return change;
+
+  const now = new Date().toISOString();
+  const date = target.scheduledDate;
+  const shared = pickSeriesFields(updates);
+
+  if (scope === 'this') {
+    if (!target.masterTaskId) {
+      change.upserts.push({
+        ...source,
+        ...updates,
+        subtasks: ownSubtasks(updates.subtasks ?? source.subtasks, source.id),
+        updatedAt: now,
+      });
+      return change;
+    }
+
+    // Detach this occurrence into its own task and skip it on the master
+    const exceptionId = generateId();
+    change.upserts.push({
+      ...stripVirtualFields(target),
+      ...updates,
+      id: exceptionId,
+      recurrence: null,
+      seriesId: source.seriesId ?? source.id,
+      subtasks: cloneSubtasks(updates.subtasks ?? source.subtasks, exceptionId),
+      createdAt: now,
+      updatedAt: now,
+    });
+    change.occurrenceUpserts.push({
+      taskId: source.id,
+      date,
+      status: target.status,
+      completedAt: target.completedAt,
+      skipped: true,
+    });
+    return change;
+  }
+
+  for (const row of getSeriesRows(tasks, source)) {
+    const isSource = row.id === source.id;
+
+    if (scope === 'all') {
+      const own: Partial<Task> = isSource
+        ? {
+            ...updates,
+            // Editing an occurrence must not move the series anchor
+            scheduledDate: target.masterTaskId ? row.scheduledDate : (updates.scheduledDate ?? row.scheduledDate),
+            subtasks: ownSubtasks(updates.subtasks ?? row.subtasks, row.id),
+          }
+        : shared;
+      change.upserts.push({ ...row, ...own, updatedAt: now });
+      continue;
+    }
+
+    // scope === 'following'
+    if (!row.recurrence) {
+      if (row.scheduledDate >= date) {
+        const own = isSource
+          ? { ...updates, subtasks: ownSubtasks(updates.subtasks ?? row.subtasks, row.id) }
+          : shared;
+        change.upserts.push({ ...row, ...own, updatedAt: now });
+      }
+      continue;
+    }
+
+    if (row.scheduledDate >= date) {
+      const own = isSource
+        ? { ...updates, subtasks: ownSubtasks(updates.subtasks ?? row.subtasks, row.id) }
+        : shared;
+      change.upserts.push({ ...row, ...own, updatedAt: now });
+      continue;
+    }
+
+    if (!spansDate(row, date)) continue;
+
+    // Split: end this master the day before and continue with a new one
+    change.upserts.push({
+      ...row,
+      recurrence: { ...row.recurrence, endDate: dayBefore(date) },
+      updatedAt: now,
+    });
+
+    const continuationId = generateId();
+    const continuation: Task = {
+      ...row,
+      ...(isSource ? updates : shared),
+      id: continuationId,
+      scheduledDate: isSource ? (updates.scheduledDate ?? date) : date,
+      recurrence: isSource && 'recurrence' in updates ? (updates.recurrence ?? null) : row.recurrence,
+      seriesId: row.seriesId ?? row.id,
+      subtasks: cloneSubtasks(isSource ? (updates.subtasks ?? row.subtasks) : row.subtasks, continuationId),
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (!continuation.recurrence) {
+      // Recurrence switched off: the continuation is just this one task
+      continuation.status = target.status;
+      continuation.completedAt = target.completedAt;
+    } else if (
+      continuation.recurrence.count != null &&
+      continuation.recurrence.count === row.recurrence.count
+    ) {
+      // The continuation carries on the original's COUNT, less what it already produced
+      continuation.recurrence = {
+        ...continuation.recurrence,
+        count: continuation.recurrence.count - countOccurrencesBefore(row, date),
+      };
+    }
+    change.upserts.push(continuation);
+    moveOccurrenceStates(
+      occurrences,
+      row.id,
+      date,
+      continuation.recurrence ? continuationId : null,
+      change,
+    );
+  }
+
+  return change;
+}
+
+/**
+ * Compute the rows to write when a task that may belong to a recurring series
+ * is deleted with the given scope.
+ *
+ * - 'this': a virtual occurrence is skipped; a stored task is deleted.
+ * - 'following': masters spanning the target date end the day before; later
+ *   masters and exceptions are deleted.
+ * - 'all': every row of the series is deleted.
+ */
+export function planSeriesDelete(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  target: Task,
+  scope: SeriesEditScope,
+): SeriesChange {
+  const change = emptyChange();
+  const source = findSource(tasks, target);
+  if (!source) return change;
+
+  const date = target.scheduledDate;
+
+  if (scope === 'this') {
+    if (target.masterTaskId) {
+      change.occurrenceUpserts.push({
+        taskId: source.id,
+        date,
+        status: target.status,
+        completedAt: target.completedAt,
+        skipped: true,
+      });
+    } else {
+      change.deletes.push(source.id);
+    }
+    return change;
+  }
+
+  for (const row of getSeriesRows(tasks, source)) {
+    if (scope === 'all' || row.scheduledDate >= date) {
+      change.deletes.push(row.id);
+      continue;
+    }
+    if (row.recurrence && spansDate(row, date)) {
+      change.upserts.push({
+        ...row,
+        recurrence: { ...row.recurrence, endDate: dayBefore(date) },
+        updatedAt: new Date().toISOString(),
+      });
+      moveOccurrenceStates(occurrences, row.id, date, null, change);
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Whether edits to this task should offer series scopes.
+ */
+export function isSeriesTask(task: Task): boolean {
+  return task.recurrence != null || task.seriesId != null;
+}
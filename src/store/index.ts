@@ -1,7 +1,12 @@
 export { useTaskStore } from './useTaskStore';
 export { useTimeBlockStore } from './useTimeBlockStore';
-export { useNotificationStore } from './useNotificationStore';
-export { useSettingsStore } from './useSettingsStore';
+export { useSettingsStore, getQuietHours } from './useSettingsStore';
 export { useCalendarStore } from './useCalendarStore';
 export { useTemplateStore } from './useTemplateStore';
+export { useDayPlanStore } from './useDayPlanStore';
+export { useTrashStore, getTrashItemId } from './useTrashStore';
+export { useHistoryStore } from './useHistoryStore';
+export { useWriteQueueStore, queueWrite } from './useWriteQueueStore';
+export { useIntegrityStore } from './useIntegrityStore';
+export type { HistoryEntry, HistoryNotice } from './useHistoryStore';
 export type { CarryOverBehavior, EditableSettings, ThemeSetting } from './useSettingsStore';
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { DayPlan } from '../types';
+import { loadAllDayPlans, saveDayPlan } from '../db';
+import { queueWrite } from './useWriteQueueStore';
+
+function persistDayPlan(plan: DayPlan) {
+  queueWrite(`dayPlan:${plan.date}`, (txn) => saveDayPlan(txn, plan));
+}
+
+function createDayPlan(date: string): DayPlan {
+  return { date, wakeTime: null, sleepTime: null, taskIds: [], timeBlockIds: [] };
+}
+
+interface DayPlanStoreState {
+  dayPlans: Record<string, DayPlan>;
+  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  setDayWindow: (date: string, wakeTime: string | null, sleepTime: string | null) => void;
+  setTaskOrder: (date: string, taskIds: string[]) => void;
+}
+
+export const useDayPlanStore = create<DayPlanStoreState>((set, get) => {
+  function updatePlan(date: string, updates: Partial<DayPlan>) {
+    const plan = { ...(get().dayPlans[date] ?? createDayPlan(date)), ...updates };
+    set((state) => ({ dayPlans: { ...state.dayPlans, [date]: plan } }));
+    persistDayPlan(plan);
+  }
+
+  return {
+    dayPlans: {},
+
+    hydrateFromDb: async (db) => {
+      const dayPlans = await loadAllDayPlans(db);
+      set({ dayPlans });
+    },
+
+    // Pass nulls to fall back to the configured day start/end again
+    setDayWindow: (date, wakeTime, sleepTime) => updatePlan(date, { wakeTime, sleepTime }),
+
+    setTaskOrder: (date, taskIds) => updatePlan(date, { taskIds }),
+  };
+});
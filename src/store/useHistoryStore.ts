@@ -0,0 +1,151 @@
+import { create } from 'zustand';
+import { diffHistoryStates } from '../services/historyService';
+import type { HistoryState, HistorySnapshot } from '../services/historyService';
+import { useTaskStore } from './useTaskStore';
+import { useTimeBlockStore } from './useTimeBlockStore';
+import { useTemplateStore } from './useTemplateStore';
+
+const MAX_HISTORY = 50;
+
+export interface HistoryEntry {
+  /** What the change did, shown in the undo toast, e.g. "Task deleted" */
+  label: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface HistoryNotice {
+  message: string;
+  /** The action the toast offers */
+  action: 'undo' | 'redo';
+}
+
+// Set while a change is being recorded so nested records fold into the outer one
+let _recording = false;
+
+function captureState(): HistoryState {
+  const { tasks, occurrences } = useTaskStore.getState();
+  return {
+    tasks,
+    occurrences,
+    timeBlocks: useTimeBlockStore.getState().timeBlocks,
+    templates: useTemplateStore.getState().templates,
+  };
+}
+
+/**
+ * Bring the stores (and, through their actions, SQLite) to the state a
+ * snapshot describes. Blocks go first so a restored task finds its linked
+ * block instead of creating a second one.
+ */
+function applySnapshot(snapshot: HistorySnapshot): void {
+  const blockStore = useTimeBlockStore.getState();
+  for (const [id, block] of Object.entries(snapshot.timeBlocks)) {
+    const exists = useTimeBlockStore.getState().timeBlocks.some((b) => b.id === id);
+    if (!block) {
+      if (exists) blockStore.deleteTimeBlock(id);
+    } else if (exists) {
+      blockStore.updateTimeBlock(id, block);
+    } else {
+      blockStore.restoreTimeBlock(block);
+    }
+  }
+
+  const taskStore = useTaskStore.getState();
+  for (const [id, task] of Object.entries(snapshot.tasks)) {
+    const exists = useTaskStore.getState().tasks.some((t) => t.id === id);
+    if (!task) {
+      if (exists) taskStore.deleteTask(id);
+    } else if (exists) {
+      taskStore.updateTask(id, task);
+    } else {
+      taskStore.restoreTask(task);
+    }
+  }
+  for (const [id, occurrence] of Object.entries(snapshot.occurrences)) {
+    taskStore.restoreOccurrence(id, occurrence);
+  }
+
+  const templateStore = useTemplateStore.getState();
+  for (const [id, template] of Object.entries(snapshot.templates)) {
+    const exists = useTemplateStore.getState().templates.some((t) => t.id === id);
+    if (!template) {
+      if (exists) templateStore.deleteTemplate(id);
+    } else if (exists) {
+      templateStore.updateTemplate(id, template);
+    } else {
+      templateStore.restoreTemplate(template);
+    }
+  }
+}
+
+interface HistoryStoreState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  /** The toast to show after an undoable or undone change */
+  notice: HistoryNotice | null;
+
+  /**
+   * Run a store mutation and record what it changed as one undoable entry.
+   * `notify` offers an undo toast, for destructive changes.
+   */
+  record: (label: string, mutate: () => void, options?: { notify?: boolean }) => void;
+  undo: () => void;
+  redo: () => void;
+  dismissNotice: () => void;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryStoreState>((set, get) => ({
+  past: [],
+  future: [],
+  notice: null,
+
+  record: (label, mutate, options) => {
+    if (_recording) {
+      mutate();
+      return;
+    }
+    const before = captureState();
+    _recording = true;
+    try {
+      mutate();
+    } finally {
+      _recording = false;
+    }
+    const change = diffHistoryStates(before, captureState());
+    if (!change) return;
+
+    set((state) => ({
+      past: [...state.past, { label, ...change }].slice(-MAX_HISTORY),
+      future: [],
+      notice: options?.notify ? { message: label, action: 'undo' } : state.notice,
+    }));
+  },
+
+  undo: () => {
+    const entry = get().past[get().past.length - 1];
+    if (!entry) return;
+    applySnapshot(entry.before);
+    set((state) => ({
+      past: state.past.slice(0, -1),
+      future: [...state.future, entry],
+      notice: { message: `Undone: ${entry.label}`, action: 'redo' },
+    }));
+  },
+
+  redo: () => {
+    const entry = get().future[get().future.length - 1];
+    if (!entry) return;
+    applySnapshot(entry.after);
+    set((state) => ({
+      past: [...state.past, entry],
+      future: state.future.slice(0, -1),
+      notice: { message: entry.label, action: 'undo' },
+    }));
+  },
+
+  dismissNotice: () => set({ notice: null }),
+
+  clear: () => set({ past: [], future: [], notice: null }),
+}));
@@ -0,0 +1,87 @@
+import { create } from 'zustand';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type { IntegrityIssue } from '../types';
+import { readIntegrityRows, repairIntegrityIssues } from '../db';
+import { checkIntegrity, isBlockingIntegrityIssue } from '../services/integrityService';
+import { useTaskStore } from './useTaskStore';
+import { useTimeBlockStore } from './useTimeBlockStore';
+import { useTemplateStore } from './useTemplateStore';
+import { useDayPlanStore } from './useDayPlanStore';
+import { useTrashStore } from './useTrashStore';
+import { useHistoryStore } from './useHistoryStore';
+import { useWriteQueueStore } from './useWriteQueueStore';
+
+let _db: SQLiteDatabase | null = null;
+
+interface IntegrityStoreState {
+  /** Issues found by the last check */
+  issues: IntegrityIssue[];
+  checkedAt: string | null;
+  checking: boolean;
+
+  /** Check the database on startup, repairing at once anything that would stop it from loading */
+  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  check: () => Promise<void>;
+  /** Repair every issue found, then reload the stores whose rows changed */
+  repairAll: () => Promise<void>;
+}
+
+async function runCheck(db: SQLiteDatabase): Promise<IntegrityIssue[]> {
+  // Queued writes have to land first, or the check would see stale rows
+  await useWriteQueueStore.getState().flush();
+  return checkIntegrity(await readIntegrityRows(db));
+}
+
+export const useIntegrityStore = create<IntegrityStoreState>((set, get) => ({
+  issues: [],
+  checkedAt: null,
+  checking: false,
+
+  hydrateFromDb: async (db) => {
+    _db = db;
+    let issues = await runCheck(db);
+    const blocking = issues.filter(isBlockingIntegrityIssue);
+    if (blocking.length > 0) {
+      await useWriteQueueStore.getState().enqueue('integrity', (txn) => repairIntegrityIssues(txn, blocking));
+      issues = issues.filter((issue) => !isBlockingIntegrityIssue(issue));
+    }
+    set({ issues, checkedAt: new Date().toISOString() });
+  },
+
+  check: async () => {
+    const db = _db;
+    if (!db) return;
+    set({ checking: true });
+    try {
+      set({ issues: await runCheck(db), checkedAt: new Date().toISOString() });
+    } finally {
+      set({ checking: false });
+    }
+  },
+
+  repairAll: async () => {
+    const db = _db;
+    const { issues } = get();
+    if (!db || issues.length === 0) return;
+    set({ checking: true });
+    try {
+      await useWriteQueueStore.getState().enqueue('integrity', (txn) => repairIntegrityIssues(txn, issues));
+
+      const { loadedRange } = useTaskStore.getState();
+      const blockRange = useTimeBlockStore.getState().loadedRange;
+      await Promise.all([
+        loadedRange ? useTaskStore.getState().hydrateFromDb(db, loadedRange) : undefined,
+        blockRange ? useTimeBlockStore.getState().hydrateFromDb(db, blockRange) : undefined,
+        useTemplateStore.getState().hydrateFromDb(db),
+        useDayPlanStore.getState().hydrateFromDb(db),
+        useTrashStore.getState().hydrateFromDb(db),
+      ]);
+      // Undoing past a repair would bring the broken rows back
+      useHistoryStore.getState().clear();
+
+      set({ issues: await runCheck(db), checkedAt: new Date().toISOString() });
+    } finally {
+      set({ checking: false });
+    }
+  },
+}));
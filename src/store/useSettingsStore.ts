@@ -2,6 +2,8 @@ import { create } from 'zustand';
 import type { SQLiteDatabase } from 'expo-sqlite';
 import { Defaults } from '../constants';
 import { loadSettings, saveSetting } from '../db';
+import { queueWrite } from './useWriteQueueStore';
+import type { QuietWindow, QuietHoursSchedule, OverlapPolicy } from '../types';
 
 export type CarryOverBehavior = 'auto' | 'ask' | 'never';
 export type ThemeSetting = 'light' | 'dark' | 'system';
@@ -12,10 +14,16 @@ export interface SettingsState {
   defaultTaskDurationMinutes: number;
   quietHoursStart: string; // "HH:mm"
   quietHoursEnd: string; // "HH:mm"
+  quietHoursByDay: Partial<Record<number, QuietWindow>>; // weekday (0 = Sunday) overrides
+  muteUntil: string | null; // ISO datetime, "do not disturb until"
   carryOverBehavior: CarryOverBehavior;
-  reminderOffsetMinutes: number;
+  reminderOffsetMinutes: number; // how long before a time block starts its nudge fires
+  allDayReminderTime: string; // "HH:mm", anchor for reminders of tasks without a time
   theme: ThemeSetting;
   calendarSyncEnabled: boolean;
+  notificationsEnabled: boolean;
+  trashRetentionDays: number; // deleted items are purged from the trash after this many days
+  overlapPolicy: OverlapPolicy; // what happens when a block is dragged onto another
 
   isHydrated: boolean;
   hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
@@ -29,24 +37,34 @@ export interface EditableSettings {
   defaultTaskDurationMinutes: number;
   quietHoursStart: string;
   quietHoursEnd: string;
+  quietHoursByDay: Partial<Record<number, QuietWindow>>;
+  muteUntil: string | null;
   carryOverBehavior: CarryOverBehavior;
   reminderOffsetMinutes: number;
+  allDayReminderTime: string;
   theme: ThemeSetting;
   calendarSyncEnabled: boolean;
+  notificationsEnabled: boolean;
+  trashRetentionDays: number;
+  overlapPolicy: OverlapPolicy;
 }
 
-let _db: SQLiteDatabase | null = null;
-
 const SETTING_KEYS: (keyof EditableSettings)[] = [
   'dayStartHour',
   'dayEndHour',
   'defaultTaskDurationMinutes',
   'quietHoursStart',
   'quietHoursEnd',
+  'quietHoursByDay',
+  'muteUntil',
   'carryOverBehavior',
   'reminderOffsetMinutes',
+  'allDayReminderTime',
   'theme',
   'calendarSyncEnabled',
+  'notificationsEnabled',
+  'trashRetentionDays',
+  'overlapPolicy',
 ];
 
 function parseSettingValue(key: keyof EditableSettings, raw: string): EditableSettings[keyof EditableSettings] {
@@ -55,34 +73,72 @@ function parseSettingValue(key: keyof EditableSettings, raw: string): EditableSe
     case 'dayEndHour':
     case 'defaultTaskDurationMinutes':
     case 'reminderOffsetMinutes':
+    case 'trashRetentionDays':
       return parseInt(raw, 10);
     case 'quietHoursStart':
     case 'quietHoursEnd':
+    case 'allDayReminderTime':
     case 'carryOverBehavior':
     case 'theme':
+    case 'overlapPolicy':
       return raw;
     case 'calendarSyncEnabled':
+    case 'notificationsEnabled':
       return raw === 'true';
+    case 'muteUntil':
+      return raw || null;
+    case 'quietHoursByDay':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return {};
+      }
     default:
       return raw;
   }
 }
 
-export const useSettingsStore = create<SettingsState>((set, get) => ({
+function serializeSettingValue(value: EditableSettings[keyof EditableSettings]): string {
+  if (value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The quiet-hour windows and mute override, in the shape the notification
+ * service plans against.
+ */
+export function getQuietHours(
+  settings: Pick<EditableSettings, 'quietHoursStart' | 'quietHoursEnd' | 'quietHoursByDay' | 'muteUntil'>,
+): QuietHoursSchedule {
+  return {
+    start: settings.quietHoursStart,
+    end: settings.quietHoursEnd,
+    overrides: settings.quietHoursByDay,
+    muteUntil: settings.muteUntil,
+  };
+}
+
+export const useSettingsStore = create<SettingsState>((set) => ({
   dayStartHour: Defaults.dayStartHour,
   dayEndHour: Defaults.dayEndHour,
   defaultTaskDurationMinutes: Defaults.defaultTaskDurationMinutes,
   quietHoursStart: Defaults.quietHoursStart,
   quietHoursEnd: Defaults.quietHoursEnd,
+  quietHoursByDay: {},
+  muteUntil: null,
   carryOverBehavior: Defaults.carryOverBehavior,
   reminderOffsetMinutes: Defaults.reminderOffsetMinutes,
+  allDayReminderTime: Defaults.allDayReminderTime,
   theme: 'system',
   calendarSyncEnabled: Defaults.calendarSyncEnabled,
+  notificationsEnabled: Defaults.notificationsEnabled,
+  trashRetentionDays: Defaults.trashRetentionDays,
+  overlapPolicy: Defaults.overlapPolicy,
 
   isHydrated: false,
 
   hydrateFromDb: async (db) => {
-    _db = db;
     try {
       const raw = await loadSettings(db);
       const updates: Partial<EditableSettings> = {};
@@ -99,8 +155,7 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
 
   updateSetting: (key, value) => {
     set({ [key]: value } as Partial<SettingsState>);
-    if (_db) {
-      saveSetting(_db, key, String(value)).catch(console.error);
-    }
+    const serialized = serializeSettingValue(value);
+    queueWrite(`setting:${key}`, (txn) => saveSetting(txn, key, serialized));
   },
 }));
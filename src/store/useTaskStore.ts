@@ -1,144 +1,508 @@
 import { create } from 'zustand';
 import type { SQLiteDatabase } from 'expo-sqlite';
-import type { Task, Subtask, TaskStatus, TimeBlock } from '../types';
-import { todayISO, generateId } from '../utils';
-import { loadAllTasks, saveTask, deleteTaskFromDb } from '../db';
-import { useTimeBlockStore } from './useTimeBlockStore';
+import type { Task, Subtask, TaskStatus, TaskOccurrence, TimeBlock, SeriesEditScope } from '../types';
+import { Config } from '../constants';
+import {
+  todayISO,
+  generateId,
+  buildOccurrenceId,
+  parseOccurrenceId,
+  getRangeAround,
+  getUnloadedRanges,
+  extendRange,
+  getBlockTimesForTask,
+  getTaskUpdatesForBlock,
+  buildTaskPartBlockId,
+  parseTaskPartBlockId,
+  minutesBetween,
+  formatTime,
+} from '../utils';
+import type { DateRange } from '../utils';
+import {
+  loadTasksInRange,
+  loadTasksInSeries,
+  loadOpenTasksBefore,
+  saveTask,
+  deleteTaskFromDb,
+  loadAllOccurrences,
+  loadOccurrencesInRange,
+  loadOccurrencesInSeries,
+  saveOccurrence,
+  deleteOccurrence,
+} from '../db';
+import { planSeriesUpdate, planSeriesDelete } from '../services/seriesService';
+import type { SeriesChange } from '../services/seriesService';
+import type { ProposedBlock } from '../services/schedulerService';
+import { scheduleTaskNotifications, cancelTaskNotifications } from '../services/notificationService';
+import { useTimeBlockStore, setLinkedBlockListener } from './useTimeBlockStore';
+import { useSettingsStore, getQuietHours } from './useSettingsStore';
+import { queueWrite, useWriteQueueStore } from './useWriteQueueStore';
 
 let _db: SQLiteDatabase | null = null;
 
-function persistTask(task: Task): Promise<void> {
-  if (_db) return saveTask(_db, task);
-  return Promise.resolve();
+// Set while this store writes a task's linked block, so the change is not echoed back
+let _syncingBlocks = false;
+
+function withoutBlockEcho(write: () => void): void {
+  const outer = _syncingBlocks;
+  _syncingBlocks = true;
+  try {
+    write();
+  } finally {
+    _syncingBlocks = outer;
+  }
+}
+
+function persistTask(task: Task): void {
+  queueWrite(`task:${task.id}`, (txn) => saveTask(txn, task));
+}
+
+function removeTask(id: string): void {
+  queueWrite(`task:${id}`, (txn) => deleteTaskFromDb(txn, id));
+}
+
+function persistOccurrence(occurrence: TaskOccurrence): void {
+  const id = buildOccurrenceId(occurrence.taskId, occurrence.date);
+  queueWrite(`occurrence:${id}`, (txn) => saveOccurrence(txn, occurrence));
+}
+
+function removeOccurrence(taskId: string, date: string): void {
+  const id = buildOccurrenceId(taskId, date);
+  queueWrite(`occurrence:${id}`, (txn) => deleteOccurrence(txn, taskId, date));
+}
+
+function indexOccurrences(rows: TaskOccurrence[]): Record<string, TaskOccurrence> {
+  const occurrences: Record<string, TaskOccurrence> = {};
+  for (const occurrence of rows) {
+    occurrences[buildOccurrenceId(occurrence.taskId, occurrence.date)] = occurrence;
+  }
+  return occurrences;
+}
+
+/**
+ * Map a task id that may refer to a virtual occurrence onto the stored master.
+ */
+function resolveTaskId(id: string): string {
+  return parseOccurrenceId(id)?.taskId ?? id;
+}
+
+const TASK_BLOCK_COLOR = '#818CF8'; // timeBlockTask color
+
+/** The blocks holding the later parts of a task the day planner split */
+function getPartBlocks(taskId: string): TimeBlock[] {
+  return useTimeBlockStore
+    .getState()
+    .timeBlocks.filter((b) => parseTaskPartBlockId(b.id)?.taskId === taskId);
+}
+
+function getPartsMinutes(parts: TimeBlock[]): number {
+  return parts.reduce((sum, b) => sum + minutesBetween(b.startTime, b.endTime), 0);
+}
+
+/** Remove a task's linked block and any part blocks along with it */
+function deleteBlocksForTask(taskId: string): void {
+  const tbStore = useTimeBlockStore.getState();
+  const blocks = tbStore.timeBlocks.filter(
+    (b) => b.taskId === taskId || parseTaskPartBlockId(b.id)?.taskId === taskId,
+  );
+  withoutBlockEcho(() => {
+    for (const block of blocks) tbStore.deleteTimeBlock(block.id);
+  });
 }
 
 /**
  * Sync a TimeBlock on the timeline for a task with a scheduledTime.
- * Creates, updates, or deletes the linked TimeBlock as needed.
- * MUST be called after persistTask has completed to avoid DB lock.
+ * Creates, updates, or deletes the linked TimeBlock as needed. A task split
+ * by the day planner keeps its later parts only while it keeps the start
+ * it was planned at; its linked block holds what the parts leave of the
+ * estimate.
  */
 function syncTimeBlockForTask(task: Task): void {
   const tbStore = useTimeBlockStore.getState();
   const existingBlock = tbStore.timeBlocks.find((b) => b.taskId === task.id);
+  let parts = getPartBlocks(task.id);
+  if (parts.length > 0) {
+    const planned = getBlockTimesForTask(task);
+    const estimate = task.estimatedMinutes ?? Config.defaultTaskDuration;
+    if (
+      !planned ||
+      (existingBlock && existingBlock.startTime !== planned.startTime) ||
+      getPartsMinutes(parts) >= estimate
+    ) {
+      const stale = parts;
+      withoutBlockEcho(() => {
+        for (const part of stale) tbStore.deleteTimeBlock(part.id);
+      });
+      parts = [];
+    }
+  }
+  const times = getBlockTimesForTask(task, getPartsMinutes(parts));
+
+  withoutBlockEcho(() => {
+    if (!times) {
+      // No time set — remove linked block if it exists
+      if (existingBlock) {
+        tbStore.deleteTimeBlock(existingBlock.id);
+      }
+      return;
+    }
 
-  if (!task.scheduledTime) {
-    // No time set — remove linked block if it exists
     if (existingBlock) {
-      tbStore.deleteTimeBlock(existingBlock.id);
+      // Update the existing block, unless it already matches
+      if (
+        existingBlock.title === task.title &&
+        existingBlock.startTime === times.startTime &&
+        existingBlock.endTime === times.endTime
+      ) {
+        return;
+      }
+      tbStore.updateTimeBlock(existingBlock.id, { title: task.title, ...times });
+    } else {
+      // Create a new TimeBlock linked to the task
+      const newBlock: TimeBlock = {
+        id: generateId(),
+        taskId: task.id,
+        title: task.title,
+        ...times,
+        color: TASK_BLOCK_COLOR,
+        type: 'task',
+      };
+      tbStore.addTimeBlock(newBlock);
     }
+  });
+}
+
+/**
+ * The other half of the link: when a task's block is moved, resized or
+ * renamed on the timeline the task follows it, and when the block is
+ * deleted the task loses its time of day.
+ */
+function syncTaskFromBlock(block: TimeBlock, deleted: boolean): void {
+  if (_syncingBlocks || !block.taskId) return;
+  const { tasks, updateTask } = useTaskStore.getState();
+  const task = tasks.find((t) => t.id === block.taskId);
+  if (!task) return;
+
+  if (deleted) {
+    if (task.scheduledTime) updateTask(task.id, { scheduledTime: null });
     return;
   }
+  const updates = getTaskUpdatesForBlock(task, block, getPartsMinutes(getPartBlocks(task.id)));
+  if (updates) updateTask(task.id, updates);
+}
 
-  // Build start/end ISO datetime strings from scheduledDate + scheduledTime
-  const durationMinutes = task.estimatedMinutes ?? 30;
-  const startDate = new Date(`${task.scheduledDate}T${task.scheduledTime}:00`);
-  const endDate = new Date(startDate.getTime() + durationMinutes * 60 * 1000);
+/**
+ * Re-schedule the OS reminders of a stored task from its current state
+ * (and, for a recurring task, the state of its occurrences).
+ */
+function syncTaskNotifications(task: Task): void {
+  const settings = useSettingsStore.getState();
+  const { occurrences } = useTaskStore.getState();
+  scheduleTaskNotifications(
+    task,
+    occurrences,
+    getQuietHours(settings),
+    settings.allDayReminderTime,
+    settings.notificationsEnabled,
+  ).catch(console.error);
+}
 
-  const blockColor = '#818CF8'; // timeBlockTask color
+function syncNotificationsForTaskId(taskId: string): void {
+  const task = useTaskStore.getState().tasks.find((t) => t.id === taskId);
+  if (task) syncTaskNotifications(task);
+}
 
-  if (existingBlock) {
-    // Update the existing block
-    tbStore.updateTimeBlock(existingBlock.id, {
-      title: task.title,
-      startTime: startDate.toISOString(),
-      endTime: endDate.toISOString(),
-    });
-  } else {
-    // Create a new TimeBlock linked to the task
-    const newBlock: TimeBlock = {
-      id: generateId(),
-      taskId: task.id,
-      title: task.title,
-      startTime: startDate.toISOString(),
-      endTime: endDate.toISOString(),
-      color: blockColor,
-      type: 'task',
-    };
-    tbStore.addTimeBlock(newBlock);
+/**
+ * Apply a planned series change to the store and persist it.
+ * Deleted tasks lose their linked TimeBlocks; upserted tasks are re-synced.
+ */
+function applySeriesChange(change: SeriesChange): void {
+  const deleteIds = new Set(change.deletes);
+  const upsertsById = new Map(change.upserts.map((t) => [t.id, t]));
+
+  useTaskStore.setState((state) => {
+    const occurrences = { ...state.occurrences };
+    for (const { taskId, date } of change.occurrenceDeletes) {
+      delete occurrences[buildOccurrenceId(taskId, date)];
+    }
+    for (const occurrence of change.occurrenceUpserts) {
+      occurrences[buildOccurrenceId(occurrence.taskId, occurrence.date)] = occurrence;
+    }
+    for (const key of Object.keys(occurrences)) {
+      if (deleteIds.has(occurrences[key].taskId)) delete occurrences[key];
+    }
+
+    const existingIds = new Set(state.tasks.map((t) => t.id));
+    const tasks = state.tasks
+      .filter((t) => !deleteIds.has(t.id))
+      .map((t) => upsertsById.get(t.id) ?? t);
+    for (const task of change.upserts) {
+      if (!existingIds.has(task.id)) tasks.push(task);
+    }
+    return { tasks, occurrences };
+  });
+
+  for (const id of change.deletes) {
+    deleteBlocksForTask(id);
+    cancelTaskNotifications(id).catch(console.error);
+  }
+  for (const task of change.upserts) syncTaskNotifications(task);
+  const upsertIds = new Set(change.upserts.map((t) => t.id));
+  for (const occurrence of change.occurrenceUpserts) {
+    if (!upsertIds.has(occurrence.taskId)) syncNotificationsForTaskId(occurrence.taskId);
+  }
+
+  for (const id of change.deletes) removeTask(id);
+  for (const { taskId, date } of change.occurrenceDeletes) removeOccurrence(taskId, date);
+  for (const task of change.upserts) {
+    persistTask(task);
+    syncTimeBlockForTask(task);
   }
+  for (const occurrence of change.occurrenceUpserts) persistOccurrence(occurrence);
 }
 
 interface TaskStoreState {
   tasks: Task[];
+  occurrences: Record<string, TaskOccurrence>; // keyed by occurrence id
   selectedDate: string;
+  /** The dates whose tasks and occurrences are in memory; null before hydration */
+  loadedRange: DateRange | null;
 
-  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  /** Load the tasks and occurrences of a date range, replacing what is in memory */
+  hydrateFromDb: (db: SQLiteDatabase, range: DateRange) => Promise<void>;
+  /** Select a date, paging in the tasks and time blocks around it */
   setSelectedDate: (date: string) => void;
+  /** Page in the tasks and occurrences of a range that is not loaded yet */
+  loadRange: (range: DateRange) => Promise<void>;
   addTask: (task: Task) => void;
   updateTask: (id: string, updates: Partial<Task>) => void;
   deleteTask: (id: string) => void;
-  deleteFutureRecurring: (task: Task) => void;
+  /** Put a deleted task back as given, along with its stored occurrence state */
+  restoreTask: (task: Task) => void;
+  /** Put an occurrence's state back as it was; null removes it */
+  restoreOccurrence: (id: string, occurrence: TaskOccurrence | null) => void;
+  /**
+   * Page in every row and occurrence state of a task's series, wherever they
+   * fall in time. Run it before a series edit or delete, which plan against
+   * memory.
+   */
+  loadSeries: (task: Task) => Promise<void>;
+  /** Edit a task of a recurring series, applying the change to the given scope */
+  updateTaskInSeries: (task: Task, updates: Partial<Task>, scope: SeriesEditScope) => void;
+  /** Delete a task of a recurring series, applying the deletion to the given scope */
+  deleteTaskInSeries: (task: Task, scope: SeriesEditScope) => void;
   setTaskStatus: (id: string, status: TaskStatus) => void;
   toggleSubtask: (taskId: string, subtaskId: string) => void;
   addSubtask: (taskId: string, subtask: Subtask) => void;
   removeSubtask: (taskId: string, subtaskId: string) => void;
+  /** Schedule tasks at the times of an accepted day plan */
+  applyDayPlan: (blocks: ProposedBlock[]) => void;
 }
 
 export const useTaskStore = create<TaskStoreState>((set, get) => ({
   tasks: [],
+  occurrences: {},
   selectedDate: todayISO(),
+  loadedRange: null,
 
-  hydrateFromDb: async (db) => {
+  hydrateFromDb: async (db, range) => {
     _db = db;
-    const tasks = await loadAllTasks(db);
-    set({ tasks });
+    const [tasks, openTasks, occurrenceRows] = await Promise.all([
+      loadTasksInRange(db, range),
+      // Unfinished tasks from before the window are still carry-over candidates
+      loadOpenTasksBefore(db, range.startDate),
+      loadOccurrencesInRange(db, range),
+    ]);
+    set({ tasks: [...openTasks, ...tasks], occurrences: indexOccurrences(occurrenceRows), loadedRange: range });
+  },
+
+  setSelectedDate: (date) => {
+    set({ selectedDate: date });
+    const range = getRangeAround(date, Config.loadWindowDays);
+    get().loadRange(range).catch(console.error);
+    useTimeBlockStore.getState().loadRange(range).catch(console.error);
   },
 
-  setSelectedDate: (date) => set({ selectedDate: date }),
+  loadRange: async (range) => {
+    const db = _db;
+    const missing = getUnloadedRanges(get().loadedRange, range);
+    if (!db || missing.length === 0) return;
+
+    const pages = await Promise.all(
+      missing.map((r) => Promise.all([loadTasksInRange(db, r), loadOccurrencesInRange(db, r)])),
+    );
+    set((state) => {
+      // Rows already in memory may hold edits not yet written, so they win over the page
+      const tasks = [...state.tasks];
+      const knownIds = new Set(tasks.map((t) => t.id));
+      const occurrences = { ...state.occurrences };
+      for (const [pageTasks, pageOccurrences] of pages) {
+        for (const task of pageTasks) {
+          if (knownIds.has(task.id)) continue;
+          knownIds.add(task.id);
+          tasks.push(task);
+        }
+        for (const [id, occurrence] of Object.entries(indexOccurrences(pageOccurrences))) {
+          if (!(id in occurrences)) occurrences[id] = occurrence;
+        }
+      }
+      return { tasks, occurrences, loadedRange: extendRange(state.loadedRange, range) };
+    });
+  },
 
   addTask: (task) => {
     set((state) => ({ tasks: [...state.tasks, task] }));
-    // Serialize: save task first, then sync time block after DB lock is released
-    persistTask(task)
-      .then(() => syncTimeBlockForTask(task))
-      .catch(console.error);
+    persistTask(task);
+    syncTimeBlockForTask(task);
+    syncTaskNotifications(task);
   },
 
-  updateTask: (id, updates) => {
+  updateTask: (rawId, updates) => {
+    // Editing an occurrence edits its series; keep the series anchored to its start date
+    const occurrenceRef = parseOccurrenceId(rawId);
+    const id = resolveTaskId(rawId);
+    if (occurrenceRef && updates.scheduledDate === occurrenceRef.date) {
+      updates = { ...updates };
+      delete updates.scheduledDate;
+    }
     set((state) => ({
-      tasks: state.tasks.map((t) =>
-        t.id === id ? { ...t, ...updates, updatedAt: new Date().toISOString() } : t,
-      ),
+      tasks: state.tasks.map((t) => {
+        if (t.id !== id) return t;
+        const next = { ...t, ...updates, updatedAt: new Date().toISOString() };
+        // A task that starts recurring becomes the root of a new series
+        if (next.recurrence && !next.seriesId) next.seriesId = next.id;
+        return next;
+      }),
     }));
     const updated = get().tasks.find((t) => t.id === id);
     if (updated) {
-      // Serialize: save task first, then sync time block after DB lock is released
-      persistTask(updated)
-        .then(() => syncTimeBlockForTask(updated))
-        .catch(console.error);
+      persistTask(updated);
+      syncTimeBlockForTask(updated);
+      syncTaskNotifications(updated);
     }
   },
 
   deleteTask: (id) => {
-    // Remove any linked TimeBlock before deleting the task
-    const tbStore = useTimeBlockStore.getState();
-    const linkedBlock = tbStore.timeBlocks.find((b) => b.taskId === id);
-    if (linkedBlock) {
-      tbStore.deleteTimeBlock(linkedBlock.id);
+    // Deleting a single occurrence skips it; the rest of the series is kept
+    const occurrenceRef = parseOccurrenceId(id);
+    if (occurrenceRef) {
+      const existing = get().occurrences[id];
+      const occurrence: TaskOccurrence = {
+        taskId: occurrenceRef.taskId,
+        date: occurrenceRef.date,
+        status: existing?.status ?? 'todo',
+        completedAt: existing?.completedAt ?? null,
+        skipped: true,
+      };
+      set((state) => ({ occurrences: { ...state.occurrences, [id]: occurrence } }));
+      persistOccurrence(occurrence);
+      syncNotificationsForTaskId(occurrence.taskId);
+      return;
     }
-    set((state) => ({ tasks: state.tasks.filter((t) => t.id !== id) }));
-    if (_db) deleteTaskFromDb(_db, id).catch(console.error);
+
+    // Remove any linked TimeBlock before deleting the task
+    deleteBlocksForTask(id);
+    set((state) => ({
+      tasks: state.tasks.filter((t) => t.id !== id),
+      occurrences: Object.fromEntries(
+        Object.entries(state.occurrences).filter(([, o]) => o.taskId !== id),
+      ),
+    }));
+    removeTask(id);
+    cancelTaskNotifications(id).catch(console.error);
   },
 
-  deleteFutureRecurring: (task) => {
-    const recurrenceKey = JSON.stringify(task.recurrence);
-    const toDelete = get().tasks.filter(
-      (t) =>
-        t.title === task.title &&
-        JSON.stringify(t.recurrence) === recurrenceKey &&
-        t.scheduledDate >= task.scheduledDate,
-    );
-    const tbStore = useTimeBlockStore.getState();
-    for (const t of toDelete) {
-      const linkedBlock = tbStore.timeBlocks.find((b) => b.taskId === t.id);
-      if (linkedBlock) tbStore.deleteTimeBlock(linkedBlock.id);
-      if (_db) deleteTaskFromDb(_db, t.id).catch(console.error);
+  restoreTask: (task) => {
+    set((state) => ({ tasks: [...state.tasks.filter((t) => t.id !== task.id), task] }));
+    // Saving a row takes it back out of the trash
+    persistTask(task);
+    syncTimeBlockForTask(task);
+    const db = _db;
+    if (!db) return;
+    // Occurrence state is kept in the trash; read it back before re-scheduling reminders
+    loadAllOccurrences(db)
+      .then((rows) => {
+        const restored: Record<string, TaskOccurrence> = {};
+        for (const occurrence of rows) {
+          if (occurrence.taskId === task.id) {
+            restored[buildOccurrenceId(occurrence.taskId, occurrence.date)] = occurrence;
+          }
+        }
+        set((state) => ({ occurrences: { ...state.occurrences, ...restored } }));
+        syncTaskNotifications(task);
+      })
+      .catch(console.error);
+  },
+
+  restoreOccurrence: (id, occurrence) => {
+    const occurrenceRef = parseOccurrenceId(id);
+    if (!occurrenceRef) return;
+    set((state) => {
+      const occurrences = { ...state.occurrences };
+      if (occurrence) {
+        occurrences[id] = occurrence;
+      } else {
+        delete occurrences[id];
+      }
+      return { occurrences };
+    });
+    if (occurrence) {
+      persistOccurrence(occurrence);
+    } else {
+      removeOccurrence(occurrenceRef.taskId, occurrenceRef.date);
     }
-    const deleteIds = new Set(toDelete.map((t) => t.id));
-    set((state) => ({ tasks: state.tasks.filter((t) => !deleteIds.has(t.id)) }));
+    syncNotificationsForTaskId(occurrenceRef.taskId);
+  },
+
+  loadSeries: async (task) => {
+    const db = _db;
+    const sourceId = task.masterTaskId ?? task.id;
+    const seriesId = get().tasks.find((t) => t.id === sourceId)?.seriesId;
+    if (!db || !seriesId) return;
+
+    // Let queued writes land first, so rows deleted in memory stay deleted
+    await useWriteQueueStore.getState().flush();
+    const [seriesTasks, seriesOccurrences] = await Promise.all([
+      loadTasksInSeries(db, seriesId),
+      loadOccurrencesInSeries(db, seriesId),
+    ]);
+    set((state) => {
+      // Rows in memory may hold edits made since, so they win over the database
+      const knownIds = new Set(state.tasks.map((t) => t.id));
+      return {
+        tasks: [...state.tasks, ...seriesTasks.filter((t) => !knownIds.has(t.id))],
+        occurrences: { ...indexOccurrences(seriesOccurrences), ...state.occurrences },
+      };
+    });
+  },
+
+  updateTaskInSeries: (task, updates, scope) => {
+    const { tasks, occurrences } = get();
+    applySeriesChange(planSeriesUpdate(tasks, occurrences, task, updates, scope));
+  },
+
+  deleteTaskInSeries: (task, scope) => {
+    const { tasks, occurrences } = get();
+    applySeriesChange(planSeriesDelete(tasks, occurrences, task, scope));
   },
 
   setTaskStatus: (id, status) => {
+    // Occurrences track their own status so completing one leaves the others open
+    const occurrenceRef = parseOccurrenceId(id);
+    if (occurrenceRef) {
+      const occurrence: TaskOccurrence = {
+        taskId: occurrenceRef.taskId,
+        date: occurrenceRef.date,
+        status,
+        completedAt: status === 'done' ? new Date().toISOString() : null,
+        skipped: false,
+      };
+      set((state) => ({ occurrences: { ...state.occurrences, [id]: occurrence } }));
+      persistOccurrence(occurrence);
+      syncNotificationsForTaskId(occurrence.taskId);
+      return;
+    }
+
     set((state) => ({
       tasks: state.tasks.map((t) =>
         t.id === id
@@ -152,10 +516,14 @@ export const useTaskStore = create<TaskStoreState>((set, get) => ({
       ),
     }));
     const updated = get().tasks.find((t) => t.id === id);
-    if (updated) persistTask(updated).catch(console.error);
+    if (updated) {
+      persistTask(updated);
+      syncTaskNotifications(updated);
+    }
   },
 
-  toggleSubtask: (taskId, subtaskId) => {
+  toggleSubtask: (rawTaskId, subtaskId) => {
+    const taskId = resolveTaskId(rawTaskId);
     set((state) => ({
       tasks: state.tasks.map((t) =>
         t.id === taskId
@@ -170,10 +538,11 @@ export const useTaskStore = create<TaskStoreState>((set, get) => ({
       ),
     }));
     const updated = get().tasks.find((t) => t.id === taskId);
-    if (updated) persistTask(updated).catch(console.error);
+    if (updated) persistTask(updated);
   },
 
-  addSubtask: (taskId, subtask) => {
+  addSubtask: (rawTaskId, subtask) => {
+    const taskId = resolveTaskId(rawTaskId);
     set((state) => ({
       tasks: state.tasks.map((t) =>
         t.id === taskId
@@ -182,10 +551,11 @@ export const useTaskStore = create<TaskStoreState>((set, get) => ({
       ),
     }));
     const updated = get().tasks.find((t) => t.id === taskId);
-    if (updated) persistTask(updated).catch(console.error);
+    if (updated) persistTask(updated);
   },
 
-  removeSubtask: (taskId, subtaskId) => {
+  removeSubtask: (rawTaskId, subtaskId) => {
+    const taskId = resolveTaskId(rawTaskId);
     set((state) => ({
       tasks: state.tasks.map((t) =>
         t.id === taskId
@@ -198,6 +568,30 @@ export const useTaskStore = create<TaskStoreState>((set, get) => ({
       ),
     }));
     const updated = get().tasks.find((t) => t.id === taskId);
-    if (updated) persistTask(updated).catch(console.error);
+    if (updated) persistTask(updated);
+  },
+
+  applyDayPlan: (blocks) => {
+    // Place the later parts first, so the linked block is sized to what they leave
+    for (const block of blocks) {
+      if (block.part === 1) continue;
+      useTimeBlockStore.getState().addTimeBlock({
+        id: buildTaskPartBlockId(block.taskId, block.part),
+        taskId: null,
+        title: `${block.title} (${block.part}/${block.parts})`,
+        startTime: block.startTime,
+        endTime: block.endTime,
+        color: TASK_BLOCK_COLOR,
+        type: 'task',
+      });
+    }
+    for (const block of blocks) {
+      // Giving the task a time creates its linked block
+      if (block.part === 1) {
+        get().updateTask(block.taskId, { scheduledTime: formatTime(block.startTime) });
+      }
+    }
   },
 }));
+
+setLinkedBlockListener(syncTaskFromBlock);
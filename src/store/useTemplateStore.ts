@@ -1,13 +1,17 @@
 import { create } from 'zustand';
 import type { SQLiteDatabase } from 'expo-sqlite';
 import type { Template } from '../types';
-import { loadAllTemplates, saveTemplate, deleteTemplateFromDb } from '../db';
+import {
+  loadAllTemplates,
+  loadDeletedTemplates,
+  saveTemplate,
+  deleteTemplateFromDb,
+} from '../db';
 import { generateId } from '../utils';
-
-let _db: SQLiteDatabase | null = null;
+import { useWriteQueueStore, queueWrite } from './useWriteQueueStore';
 
 function persistTemplate(template: Template) {
-  if (_db) saveTemplate(_db, template).catch(console.error);
+  queueWrite(`template:${template.id}`, (txn) => saveTemplate(txn, template));
 }
 
 const DEFAULT_TEMPLATES: Omit<Template, 'id' | 'createdAt' | 'updatedAt'>[] = [
@@ -58,6 +62,8 @@ interface TemplateStoreState {
   addTemplate: (template: Template) => void;
   updateTemplate: (id: string, updates: Partial<Template>) => void;
   deleteTemplate: (id: string) => void;
+  /** Put a deleted template back as given */
+  restoreTemplate: (template: Template) => void;
 }
 
 export const useTemplateStore = create<TemplateStoreState>((set, get) => ({
@@ -65,11 +71,10 @@ export const useTemplateStore = create<TemplateStoreState>((set, get) => ({
   hydrated: false,
 
   hydrateFromDb: async (db) => {
-    _db = db;
     let templates = await loadAllTemplates(db);
 
-    // Seed default templates if none exist
-    if (templates.length === 0) {
+    // Seed default templates on first run; an emptied list with templates in the trash stays empty
+    if (templates.length === 0 && (await loadDeletedTemplates(db)).length === 0) {
       const now = new Date().toISOString();
       const defaults: Template[] = DEFAULT_TEMPLATES.map((t) => ({
         ...t,
@@ -77,9 +82,8 @@ export const useTemplateStore = create<TemplateStoreState>((set, get) => ({
         createdAt: now,
         updatedAt: now,
       }));
-      for (const tmpl of defaults) {
-        await saveTemplate(db, tmpl);
-      }
+      const { enqueue } = useWriteQueueStore.getState();
+      await Promise.all(defaults.map((tmpl) => enqueue(`template:${tmpl.id}`, (txn) => saveTemplate(txn, tmpl))));
       templates = defaults;
     }
 
@@ -103,6 +107,12 @@ export const useTemplateStore = create<TemplateStoreState>((set, get) => ({
 
   deleteTemplate: (id) => {
     set((state) => ({ templates: state.templates.filter((t) => t.id !== id) }));
-    if (_db) deleteTemplateFromDb(_db, id).catch(console.error);
+    queueWrite(`template:${id}`, (txn) => deleteTemplateFromDb(txn, id));
+  },
+
+  restoreTemplate: (template) => {
+    set((state) => ({ templates: [...state.templates.filter((t) => t.id !== template.id), template] }));
+    // Saving a row takes it back out of the trash
+    persistTemplate(template);
   },
 }));
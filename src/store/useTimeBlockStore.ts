@@ -1,35 +1,114 @@
 import { create } from 'zustand';
 import type { SQLiteDatabase } from 'expo-sqlite';
 import type { TimeBlock } from '../types';
-import { loadAllTimeBlocks, saveTimeBlock, deleteTimeBlockFromDb } from '../db';
+import {
+  loadTimeBlocksInRange,
+  loadLinkedTimeBlocksForRange,
+  saveTimeBlock,
+  deleteTimeBlockFromDb,
+} from '../db';
+import { getUnloadedRanges, extendRange } from '../utils';
+import type { DateRange } from '../utils';
+import { scheduleBlockNudge, cancelBlockNudge } from '../services/notificationService';
+import { resolveBlockChange } from '../services/overlapService';
+import type { OverlapResolution } from '../services/overlapService';
+import { useSettingsStore, getQuietHours } from './useSettingsStore';
+import { queueWrite } from './useWriteQueueStore';
 
 let _db: SQLiteDatabase | null = null;
 
+/**
+ * Told when a block linked to a task is saved or deleted, so the task can
+ * follow it. Set by the task store, which owns the link.
+ */
+export type LinkedBlockListener = (block: TimeBlock, deleted: boolean) => void;
+
+let _linkedBlockListener: LinkedBlockListener | null = null;
+
+export function setLinkedBlockListener(listener: LinkedBlockListener | null): void {
+  _linkedBlockListener = listener;
+}
+
 function persistBlock(block: TimeBlock) {
-  if (_db) saveTimeBlock(_db, block).catch(console.error);
+  queueWrite(`block:${block.id}`, (txn) => saveTimeBlock(txn, block));
+  syncBlockNudge(block);
+  if (block.taskId) _linkedBlockListener?.(block, false);
+}
+
+/**
+ * The blocks a date range needs: those overlapping it, plus the linked
+ * blocks of the tasks the task store loads for it from outside it, so an
+ * edit to such a task finds its block instead of creating a second one.
+ */
+async function loadBlocksForRange(db: SQLiteDatabase, range: DateRange): Promise<TimeBlock[]> {
+  const [inRange, linked] = await Promise.all([
+    loadTimeBlocksInRange(db, range),
+    loadLinkedTimeBlocksForRange(db, range),
+  ]);
+  const ids = new Set(inRange.map((b) => b.id));
+  return [...inRange, ...linked.filter((b) => !ids.has(b.id))];
+}
+
+/**
+ * Re-schedule the start-of-block nudge for a block after it changed.
+ */
+function syncBlockNudge(block: TimeBlock) {
+  const settings = useSettingsStore.getState();
+  scheduleBlockNudge(
+    block,
+    settings.reminderOffsetMinutes,
+    getQuietHours(settings),
+    settings.notificationsEnabled,
+  ).catch(console.error);
 }
 
 interface TimeBlockStoreState {
   timeBlocks: TimeBlock[];
-  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  /** The dates whose blocks are in memory; null before hydration */
+  loadedRange: DateRange | null;
+  /** Load the blocks of a date range, replacing what is in memory */
+  hydrateFromDb: (db: SQLiteDatabase, range: DateRange) => Promise<void>;
+  /** Page in the blocks of a range that is not loaded yet */
+  loadRange: (range: DateRange) => Promise<void>;
   addTimeBlock: (block: TimeBlock) => void;
   updateTimeBlock: (id: string, updates: Partial<TimeBlock>) => void;
   deleteTimeBlock: (id: string) => void;
-  moveTimeBlock: (id: string, newStartTime: string, newEndTime: string) => void;
-  reorderBlocks: () => void;
-}
-
-function blocksOverlap(a: TimeBlock, b: TimeBlock): boolean {
-  return a.startTime < b.endTime && a.endTime > b.startTime;
+  /** Put a deleted time block back as given */
+  restoreTimeBlock: (block: TimeBlock) => void;
+  /**
+   * What moving or resizing a block would do under the overlap policy,
+   * without changing anything: the blocks it would shift, or why it is refused
+   */
+  previewBlockChange: (id: string, newStartTime: string, newEndTime: string) => OverlapResolution;
+  /** Move or resize a block, shifting others as the overlap policy says; no-op if refused */
+  moveTimeBlock: (id: string, newStartTime: string, newEndTime: string) => OverlapResolution;
 }
 
 export const useTimeBlockStore = create<TimeBlockStoreState>((set, get) => ({
   timeBlocks: [],
+  loadedRange: null,
 
-  hydrateFromDb: async (db) => {
+  hydrateFromDb: async (db, range) => {
     _db = db;
-    const timeBlocks = await loadAllTimeBlocks(db);
-    set({ timeBlocks });
+    const timeBlocks = await loadBlocksForRange(db, range);
+    set({ timeBlocks, loadedRange: range });
+  },
+
+  loadRange: async (range) => {
+    const db = _db;
+    const missing = getUnloadedRanges(get().loadedRange, range);
+    if (!db || missing.length === 0) return;
+
+    const pages = await Promise.all(missing.map((r) => loadBlocksForRange(db, r)));
+    set((state) => {
+      // Blocks already in memory may hold edits not yet written, so they win over the page
+      const knownIds = new Set(state.timeBlocks.map((b) => b.id));
+      const added = pages.flat().filter((b) => !knownIds.has(b.id));
+      return {
+        timeBlocks: [...state.timeBlocks, ...added],
+        loadedRange: extendRange(state.loadedRange, range),
+      };
+    });
   },
 
   addTimeBlock: (block) => {
@@ -48,52 +127,47 @@ export const useTimeBlockStore = create<TimeBlockStoreState>((set, get) => ({
   },
 
   deleteTimeBlock: (id) => {
+    const block = get().timeBlocks.find((b) => b.id === id);
     set((state) => ({ timeBlocks: state.timeBlocks.filter((b) => b.id !== id) }));
-    if (_db) deleteTimeBlockFromDb(_db, id).catch(console.error);
+    queueWrite(`block:${id}`, (txn) => deleteTimeBlockFromDb(txn, id));
+    cancelBlockNudge(id).catch(console.error);
+    if (block?.taskId) _linkedBlockListener?.(block, true);
+  },
+
+  restoreTimeBlock: (block) => {
+    set((state) => ({ timeBlocks: [...state.timeBlocks.filter((b) => b.id !== block.id), block] }));
+    // Saving a row takes it back out of the trash
+    persistBlock(block);
   },
 
+  previewBlockChange: (id, newStartTime, newEndTime) =>
+    resolveBlockChange(
+      get().timeBlocks,
+      id,
+      newStartTime,
+      newEndTime,
+      useSettingsStore.getState().overlapPolicy,
+    ),
+
   moveTimeBlock: (id, newStartTime, newEndTime) => {
+    const resolution = get().previewBlockChange(id, newStartTime, newEndTime);
+    if (!resolution.ok) return resolution;
+
+    const shifts = new Map(resolution.shifts.map((shift) => [shift.id, shift]));
+    const changed: TimeBlock[] = [];
     set((state) => ({
-      timeBlocks: state.timeBlocks.map((b) =>
-        b.id === id ? { ...b, startTime: newStartTime, endTime: newEndTime } : b
-      ),
+      timeBlocks: state.timeBlocks.map((b) => {
+        const shift = shifts.get(b.id);
+        if (!shift) return b;
+        const block = { ...b, startTime: shift.startTime, endTime: shift.endTime };
+        changed.push(block);
+        return block;
+      }),
     }));
-    // Resolve overlaps after the move
-    get().reorderBlocks();
-    // Persist the moved block
-    const moved = get().timeBlocks.find((b) => b.id === id);
-    if (moved) persistBlock(moved);
+    // Persist after the set, as a linked task may update in turn
+    for (const block of changed) {
+      persistBlock(block);
+    }
+    return resolution;
   },
-
-  reorderBlocks: () =>
-    set((state) => {
-      const sorted = [...state.timeBlocks].sort(
-        (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
-      );
-
-      const changed: TimeBlock[] = [];
-
-      for (let i = 1; i < sorted.length; i++) {
-        const prev = sorted[i - 1];
-        const curr = sorted[i];
-        if (blocksOverlap(prev, curr)) {
-          const prevEnd = new Date(prev.endTime);
-          const currDuration = new Date(curr.endTime).getTime() - new Date(curr.startTime).getTime();
-          const newBlock = {
-            ...curr,
-            startTime: prevEnd.toISOString(),
-            endTime: new Date(prevEnd.getTime() + currDuration).toISOString(),
-          };
-          sorted[i] = newBlock;
-          changed.push(newBlock);
-        }
-      }
-
-      // Persist all blocks that were shifted
-      for (const block of changed) {
-        persistBlock(block);
-      }
-
-      return { timeBlocks: sorted };
-    }),
 }));
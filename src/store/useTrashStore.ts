@@ -0,0 +1,118 @@
+import { create } from 'zustand';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { subDays } from 'date-fns';
+import type { Task, TrashItem } from '../types';
+import {
+  loadTrash,
+  loadDeletedTimeBlocksOfTask,
+  purgeTrash,
+  purgeTaskFromDb,
+  purgeTimeBlockFromDb,
+  purgeTemplateFromDb,
+} from '../db';
+import { useTaskStore } from './useTaskStore';
+import { useTimeBlockStore } from './useTimeBlockStore';
+import { useTemplateStore } from './useTemplateStore';
+import { useWriteQueueStore, queueWrite } from './useWriteQueueStore';
+
+let _db: SQLiteDatabase | null = null;
+
+/**
+ * The id of the task, block or template a trash entry holds.
+ */
+export function getTrashItemId(item: TrashItem): string {
+  switch (item.kind) {
+    case 'task':
+      return item.task.id;
+    case 'timeBlock':
+      return item.block.id;
+    case 'template':
+      return item.template.id;
+  }
+}
+
+/**
+ * Restore a task along with its blocks from the trash, so it gets its own
+ * linked block back rather than a new one, and its day-plan parts with it.
+ */
+async function restoreTaskWithBlocks(task: Task): Promise<void> {
+  const db = _db;
+  if (db) {
+    // The task's deletion may still be queued
+    await useWriteQueueStore.getState().flush();
+    const blocks = await loadDeletedTimeBlocksOfTask(db, task.id);
+    const tbStore = useTimeBlockStore.getState();
+    for (const block of blocks) tbStore.restoreTimeBlock(block);
+  }
+  useTaskStore.getState().restoreTask(task);
+}
+
+function isSameItem(a: TrashItem, b: TrashItem): boolean {
+  return a.kind === b.kind && getTrashItemId(a) === getTrashItemId(b);
+}
+
+interface TrashStoreState {
+  items: TrashItem[];
+  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  /** Re-read the trash, e.g. after something new was deleted */
+  refresh: () => Promise<void>;
+  restoreItem: (item: TrashItem) => void;
+  purgeItem: (item: TrashItem) => void;
+  emptyTrash: () => void;
+  /** Permanently delete everything that has been in the trash longer than the retention period */
+  purgeExpired: (retentionDays: number, now?: Date) => Promise<void>;
+}
+
+export const useTrashStore = create<TrashStoreState>((set, get) => ({
+  items: [],
+
+  hydrateFromDb: async (db) => {
+    _db = db;
+    set({ items: await loadTrash(db) });
+  },
+
+  refresh: async () => {
+    if (_db) set({ items: await loadTrash(_db) });
+  },
+
+  restoreItem: (item) => {
+    set((state) => ({ items: state.items.filter((i) => !isSameItem(i, item)) }));
+    switch (item.kind) {
+      case 'task':
+        restoreTaskWithBlocks(item.task).catch(console.error);
+        break;
+      case 'timeBlock':
+        useTimeBlockStore.getState().restoreTimeBlock(item.block);
+        break;
+      case 'template':
+        useTemplateStore.getState().restoreTemplate(item.template);
+        break;
+    }
+  },
+
+  purgeItem: (item) => {
+    set((state) => ({ items: state.items.filter((i) => !isSameItem(i, item)) }));
+    switch (item.kind) {
+      case 'task':
+        queueWrite(`task:${item.task.id}`, (txn) => purgeTaskFromDb(txn, item.task.id));
+        break;
+      case 'timeBlock':
+        queueWrite(`block:${item.block.id}`, (txn) => purgeTimeBlockFromDb(txn, item.block.id));
+        break;
+      case 'template':
+        queueWrite(`template:${item.template.id}`, (txn) => purgeTemplateFromDb(txn, item.template.id));
+        break;
+    }
+  },
+
+  emptyTrash: () => {
+    set({ items: [] });
+    queueWrite('trash', (txn) => purgeTrash(txn));
+  },
+
+  purgeExpired: async (retentionDays, now = new Date()) => {
+    const cutoff = subDays(now, retentionDays).toISOString();
+    set({ items: get().items.filter((i) => i.deletedAt >= cutoff) });
+    await useWriteQueueStore.getState().enqueue('trash', (txn) => purgeTrash(txn, cutoff));
+  },
+}));
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { createWriteQueue } from '../db';
+import type { WriteFailure, WriteOperation, WriteQueue } from '../db';
+
+let _db: SQLiteDatabase | null = null;
+let _queue: WriteQueue | null = null;
+
+interface PendingWrite {
+  key: string;
+  write: WriteOperation;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// Writes queued before the database is open, handed to the queue once it is
+let _pending: PendingWrite[] = [];
+
+interface WriteQueueStoreState {
+  /** Writes that could not be committed, oldest first */
+  failures: WriteFailure[];
+
+  hydrateFromDb: (db: SQLiteDatabase) => Promise<void>;
+  /**
+   * Queue a write; resolves once it is committed and rejects if it never is.
+   * A write queued before hydration waits for the database.
+   */
+  enqueue: (key: string, write: WriteOperation) => Promise<void>;
+  /**
+   * Resolves once every write queued so far has settled. Before hydration
+   * it resolves at once: the writes waiting for the database cannot settle yet.
+   */
+  flush: () => Promise<void>;
+  /** Queue the failed writes again */
+  retryFailed: () => void;
+  /** Give up on the failed writes; the changes stay in memory until the app restarts */
+  dismissFailures: () => void;
+}
+
+export const useWriteQueueStore = create<WriteQueueStoreState>((set, get) => ({
+  failures: [],
+
+  hydrateFromDb: async (db) => {
+    // Re-hydrating against the same database keeps whatever is still queued
+    if (_db === db) return;
+    _db = db;
+    _queue = createWriteQueue(db, {
+      onFailure: (failures) => {
+        const keys = new Set(failures.map((f) => f.key));
+        set((state) => ({ failures: [...state.failures.filter((f) => !keys.has(f.key)), ...failures] }));
+      },
+    });
+    const pending = _pending;
+    _pending = [];
+    for (const { key, write, resolve, reject } of pending) {
+      get().enqueue(key, write).then(resolve, reject);
+    }
+  },
+
+  enqueue: (key, write) => {
+    if (!_queue) {
+      let resolve!: () => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      _pending.push({ key, write, resolve, reject });
+      return promise;
+    }
+    // A newer write to the same row replaces a failed one, which would otherwise overwrite it on retry
+    if (get().failures.some((f) => f.key === key)) {
+      set((state) => ({ failures: state.failures.filter((f) => f.key !== key) }));
+    }
+    return _queue.enqueue(key, write);
+  },
+
+  flush: () => _queue?.flush() ?? Promise.resolve(),
+
+  retryFailed: () => {
+    const { failures, enqueue } = get();
+    set({ failures: [] });
+    for (const { key, write } of failures) enqueue(key, write).catch(ignoreFailure);
+  },
+
+  dismissFailures: () => set({ failures: [] }),
+}));
+
+// Failed writes are kept in the store and shown to the user, not thrown at the caller
+function ignoreFailure(): void {}
+
+/**
+ * Queue a store write without waiting for it. `key` names the row it
+ * targets, e.g. "task:<id>".
+ */
+export function queueWrite(key: string, write: WriteOperation): void {
+  useWriteQueueStore.getState().enqueue(key, write).catch(ignoreFailure);
+}
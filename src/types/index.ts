@@ -1,16 +1,24 @@
 export type {
   Priority,
   TaskStatus,
+  SeriesEditScope,
   RecurrenceFrequency,
   Recurrence,
+  NthWeekday,
   TaskNotification,
   Subtask,
   Task,
+  TaskOccurrence,
   TimeBlockType,
+  OverlapPolicy,
   TimeBlock,
   CalendarEvent,
   DeviceReminder,
   DayPlan,
+  QuietWindow,
+  QuietHoursSchedule,
   TemplateBlock,
   Template,
+  TrashItem,
+  IntegrityIssue,
 } from './models';
@@ -2,13 +2,33 @@ export type Priority = 'low' | 'medium' | 'high' | 'urgent';
 
 export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'cancelled';
 
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
 export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 
+/**
+ * A weekday with an ordinal position within the month (or year), as in the
+ * RRULE BYDAY values "2TU" (second Tuesday) or "-1FR" (last Friday).
+ */
+export interface NthWeekday {
+  weekday: number; // 0=Sun, 1=Mon, ... 6=Sat
+  ordinal: number; // 1..5 from the start, -1..-5 from the end
+}
+
+/**
+ * Recurrence rule of a task. Mirrors the RFC 5545 RRULE subset we support
+ * and round-trips through `formatRRule` / `parseRRule`.
+ */
 export interface Recurrence {
   frequency: RecurrenceFrequency;
   interval: number; // e.g. every 2 weeks
-  daysOfWeek?: number[]; // 0=Sun, 1=Mon, ... 6=Sat
-  endDate?: string; // ISO date string
+  daysOfWeek?: number[]; // 0=Sun, 1=Mon, ... 6=Sat (BYDAY without ordinal)
+  nthWeekdays?: NthWeekday[]; // BYDAY with ordinal, monthly/yearly rules only
+  daysOfMonth?: number[]; // 1..31, or -1..-31 counting from the month end (BYMONTHDAY)
+  months?: number[]; // 1=Jan ... 12=Dec (BYMONTH)
+  count?: number; // stop after this many occurrences (COUNT)
+  endDate?: string; // ISO date string, last possible occurrence (UNTIL)
+  exceptionDates?: string[]; // ISO dates excluded from the series (EXDATE)
 }
 
 export interface TaskNotification {
@@ -41,6 +61,21 @@ export interface Task {
   updatedAt: string; // ISO 8601 with timezone offset
   completedAt: string | null; // ISO 8601 with timezone offset
   carriedOverFrom: string | null; // original scheduledDate before carry-over
+  seriesId: string | null; // shared by every master and exception of a recurring series
+  masterTaskId?: string; // set only on virtual occurrences expanded from a recurring master
+}
+
+/**
+ * Per-occurrence state of a recurring task. Occurrences themselves are never
+ * stored -- they are expanded on demand from the master's recurrence -- so only
+ * dates whose state differs from the default ("todo") get a row.
+ */
+export interface TaskOccurrence {
+  taskId: string; // recurring master task
+  date: string; // ISO date "YYYY-MM-DD" of the occurrence
+  status: TaskStatus;
+  completedAt: string | null; // ISO 8601 with timezone offset
+  skipped: boolean; // removed from the series without ending it
 }
 
 export type TimeBlockType = 'task' | 'event' | 'break' | 'focus';
@@ -53,8 +88,16 @@ export interface TimeBlock {
   endTime: string; // ISO datetime string
   color: string;
   type: TimeBlockType;
+  pinned?: boolean; // never moved to make room for another block
 }
 
+/**
+ * What happens when a block is moved or resized onto another block of the
+ * same day: overlap is allowed, the blocks after it are pushed later, the
+ * two blocks swap places, or the change is refused.
+ */
+export type OverlapPolicy = 'allow' | 'push' | 'swap' | 'reject';
+
 export interface CalendarEvent {
   id: string;
   title: string;
@@ -62,6 +105,7 @@ export interface CalendarEvent {
   endTime: string; // ISO datetime string
   calendarId: string;
   color: string;
+  allDay?: boolean; // spans whole days; endTime is the midnight after the last one
 }
 
 export interface DeviceReminder {
@@ -77,12 +121,30 @@ export interface DeviceReminder {
 
 export interface DayPlan {
   date: string; // ISO date string (YYYY-MM-DD)
-  wakeTime: string; // "07:00"
-  sleepTime: string; // "23:00"
+  wakeTime: string | null; // "07:00", null = the configured day start
+  sleepTime: string | null; // "23:00", null = the configured day end
   taskIds: string[]; // ordered references, not embedded objects
   timeBlockIds: string[]; // ordered references
 }
 
+export interface QuietWindow {
+  start: string; // "HH:mm"
+  end: string; // "HH:mm", before start when the window spans midnight
+}
+
+export interface QuietHoursSchedule {
+  /** Window used on days without an override */
+  start: string;
+  end: string;
+  /**
+   * Windows for specific weekdays (0 = Sunday). A window spanning midnight
+   * belongs to the day it starts on, so Friday's window covers Friday night.
+   */
+  overrides?: Partial<Record<number, QuietWindow>>;
+  /** ISO datetime until which every notification is held back */
+  muteUntil?: string | null;
+}
+
 export interface TemplateBlock {
   title: string;
   type: TimeBlockType;
@@ -100,3 +162,35 @@ export interface Template {
   createdAt: string;
   updatedAt: string;
 }
+
+/**
+ * A deleted task, time block or template waiting in the trash to be
+ * restored or purged.
+ */
+export type TrashItem =
+  | { kind: 'task'; deletedAt: string; task: Task }
+  | { kind: 'timeBlock'; deletedAt: string; block: TimeBlock }
+  | { kind: 'template'; deletedAt: string; template: Template };
+
+/**
+ * A problem the integrity check found in the stored data, carrying what
+ * its repair writes back.
+ */
+export type IntegrityIssue =
+  // A JSON column that does not parse to the expected shape; repaired by writing `fallback`
+  | {
+      kind: 'invalidJson';
+      table: 'tasks' | 'templates' | 'day_plans';
+      column: string;
+      rowId: string;
+      label: string;
+      fallback: string | null;
+    }
+  // A block linked to a task that no longer exists; repaired by unlinking it
+  | { kind: 'orphanedBlock'; blockId: string; label: string }
+  // A block still on the timeline while its task is in the trash; repaired by trashing the block too
+  | { kind: 'blockOfDeletedTask'; blockId: string; label: string }
+  // A second block linked to the same task; repaired by trashing it and keeping the earliest
+  | { kind: 'duplicateLinkedBlock'; blockId: string; label: string }
+  // A day plan referring to tasks or blocks that no longer exist; repaired by writing the kept ids
+  | { kind: 'danglingDayPlanRefs'; date: string; taskIds: string[]; timeBlockIds: string[]; missing: number };
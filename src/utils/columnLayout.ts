@@ -0,0 +1,103 @@
+/**
+ * An item to lay out: anything with an extent along the day, in any unit
+ * (epoch ms, minutes or pixels) as long as all items use the same one.
+ */
+export interface LayoutInterval {
+  id: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Where an item sits among the items it overlaps, side by side.
+ */
+export interface ColumnSlot {
+  column: number; // 0-based, from the left
+  columns: number; // columns in its overlap cluster
+  span: number; // columns it covers, widening into free columns on its right
+  cluster: number; // index of its overlap cluster, in order of time
+}
+
+function overlaps(a: LayoutInterval, b: LayoutInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Lay overlapping items out in columns, the way calendar apps do. Items
+ * that overlap, directly or through a chain of others, form a cluster that
+ * shares the width; each item takes the leftmost column that is free when
+ * it starts, and widens into the columns to its right that stay free for
+ * its whole length. An item that overlaps nothing gets the full width.
+ */
+export function layoutColumns(items: LayoutInterval[]): Map<string, ColumnSlot> {
+  // Earliest first, and longer items first on a tie so they get the left columns
+  const sorted = [...items].sort(
+    (a, b) => a.start - b.start || b.end - a.end || a.id.localeCompare(b.id),
+  );
+
+  const slots = new Map<string, ColumnSlot>();
+  let cluster: { item: LayoutInterval; column: number }[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+  let clusterIndex = 0;
+
+  const closeCluster = () => {
+    const columns = columnEnds.length;
+    for (const { item, column } of cluster) {
+      let span = 1;
+      while (
+        column + span < columns &&
+        !cluster.some((other) => other.column === column + span && overlaps(other.item, item))
+      ) {
+        span++;
+      }
+      slots.set(item.id, { column, columns, span, cluster: clusterIndex });
+    }
+    cluster = [];
+    columnEnds = [];
+    clusterIndex++;
+  };
+
+  for (const item of sorted) {
+    if (cluster.length > 0 && item.start >= clusterEnd) closeCluster();
+
+    let column = columnEnds.findIndex((end) => end <= item.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(item.end);
+    } else {
+      columnEnds[column] = item.end;
+    }
+    cluster.push({ item, column });
+    clusterEnd = cluster.length === 1 ? item.end : Math.max(clusterEnd, item.end);
+  }
+  if (cluster.length > 0) closeCluster();
+
+  return slots;
+}
+
+/**
+ * Horizontal placement of an item, in pixels from the left of its container.
+ */
+export interface ColumnFrame {
+  left: number;
+  width: number;
+}
+
+/**
+ * The horizontal frame of a slot within a lane `laneWidth` wide starting at
+ * `laneLeft`, leaving `gap` between side-by-side items.
+ */
+export function getColumnFrame(
+  slot: ColumnSlot,
+  laneLeft: number,
+  laneWidth: number,
+  gap: number,
+): ColumnFrame {
+  const columnWidth = laneWidth / slot.columns;
+  const trailingGap = slot.column + slot.span < slot.columns ? gap : 0;
+  return {
+    left: laneLeft + slot.column * columnWidth,
+    width: slot.span * columnWidth - trailingGap,
+  };
+}
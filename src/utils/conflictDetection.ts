@@ -10,6 +10,7 @@ export interface Conflict {
 /**
  * Detects overlaps between time blocks and calendar events.
  * Two intervals [a1, a2) and [b1, b2) overlap if a1 < b2 AND b1 < a2.
+ * All-day events take up no time of day, so they never conflict.
  */
 export function detectConflicts(
   timeBlocks: TimeBlock[],
@@ -22,6 +23,7 @@ export function detectConflicts(
     const blockEnd = new Date(block.endTime).getTime();
 
     for (const event of calendarEvents) {
+      if (event.allDay) continue;
       const eventStart = new Date(event.startTime).getTime();
       const eventEnd = new Date(event.endTime).getTime();
 
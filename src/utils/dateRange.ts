@@ -0,0 +1,60 @@
+import { addDays, parseISO, startOfDay, subDays } from 'date-fns';
+import { formatDate } from './dateHelpers';
+
+export interface DateRange {
+  startDate: string; // ISO date "YYYY-MM-DD", inclusive
+  endDate: string; // ISO date "YYYY-MM-DD", inclusive
+}
+
+/**
+ * The range reaching `days` days either side of a date.
+ */
+export function getRangeAround(date: string, days: number): DateRange {
+  const parsed = parseISO(date);
+  return { startDate: formatDate(subDays(parsed, days)), endDate: formatDate(addDays(parsed, days)) };
+}
+
+/**
+ * The smallest single range covering both ranges, including any gap between them.
+ */
+export function extendRange(loaded: DateRange | null, range: DateRange): DateRange {
+  if (!loaded) return range;
+  return {
+    startDate: range.startDate < loaded.startDate ? range.startDate : loaded.startDate,
+    endDate: range.endDate > loaded.endDate ? range.endDate : loaded.endDate,
+  };
+}
+
+/**
+ * The parts of `extendRange(loaded, range)` that are not loaded yet: at most
+ * one range before what is loaded and one after. Keeping the loaded range
+ * contiguous means a jump far ahead also fills the days in between.
+ */
+export function getUnloadedRanges(loaded: DateRange | null, range: DateRange): DateRange[] {
+  if (!loaded) return [range];
+  const missing: DateRange[] = [];
+  if (range.startDate < loaded.startDate) {
+    missing.push({
+      startDate: range.startDate,
+      endDate: formatDate(subDays(parseISO(loaded.startDate), 1)),
+    });
+  }
+  if (range.endDate > loaded.endDate) {
+    missing.push({
+      startDate: formatDate(addDays(parseISO(loaded.endDate), 1)),
+      endDate: range.endDate,
+    });
+  }
+  return missing;
+}
+
+/**
+ * The ISO datetimes bounding a range of local days: from the start of its
+ * first day up to (not including) the start of the day after its last.
+ */
+export function getRangeBounds(range: DateRange): { start: string; end: string } {
+  return {
+    start: startOfDay(parseISO(range.startDate)).toISOString(),
+    end: startOfDay(addDays(parseISO(range.endDate), 1)).toISOString(),
+  };
+}
@@ -0,0 +1,71 @@
+import type { DayPlan, Task } from '../types';
+
+/**
+ * Format a whole hour as a "HH:mm" time string.
+ */
+export function hourToTime(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`;
+}
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * The hours a day's timeline covers: the day plan's wake and sleep times,
+ * falling back to the configured day start/end. A sleep time past midnight
+ * is capped at the end of the day.
+ */
+export function getDayHours(
+  plan: DayPlan | undefined,
+  defaultStartHour: number,
+  defaultEndHour: number,
+): { startHour: number; endHour: number } {
+  const wake = plan?.wakeTime ? timeToMinutes(plan.wakeTime) : defaultStartHour * 60;
+  const sleep = plan?.sleepTime ? timeToMinutes(plan.sleepTime) : defaultEndHour * 60;
+  const startHour = Math.floor(wake / 60);
+  const endHour = sleep <= wake ? 24 : Math.ceil(sleep / 60);
+  return { startHour, endHour };
+}
+
+/**
+ * Order a day's tasks by the day plan's `taskIds`. Tasks the plan doesn't
+ * mention yet (added since it was saved) follow in `sortOrder` order.
+ */
+export function orderTasksForDay(tasks: Task[], taskIds: string[]): Task[] {
+  const position = new Map(taskIds.map((id, index) => [id, index]));
+  return [...tasks].sort((a, b) => {
+    const posA = position.get(a.id);
+    const posB = position.get(b.id);
+    if (posA !== undefined && posB !== undefined) return posA - posB;
+    if (posA !== undefined) return -1;
+    if (posB !== undefined) return 1;
+    return a.sortOrder - b.sortOrder;
+  });
+}
+
+/**
+ * Move a task one place up (-1) or down (1) among the tasks that share its
+ * status, since the list shows one section per status. Returns the new
+ * order of all task ids, or null if the task can't move that way.
+ */
+export function moveTaskInOrder(
+  orderedTasks: Task[],
+  taskId: string,
+  direction: -1 | 1,
+): string[] | null {
+  const index = orderedTasks.findIndex((t) => t.id === taskId);
+  if (index === -1) return null;
+
+  const { status } = orderedTasks[index];
+  let swapIndex = index + direction;
+  while (swapIndex >= 0 && swapIndex < orderedTasks.length && orderedTasks[swapIndex].status !== status) {
+    swapIndex += direction;
+  }
+  if (swapIndex < 0 || swapIndex >= orderedTasks.length) return null;
+
+  const ids = orderedTasks.map((t) => t.id);
+  [ids[index], ids[swapIndex]] = [ids[swapIndex], ids[index]];
+  return ids;
+}
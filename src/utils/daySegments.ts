@@ -0,0 +1,73 @@
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import { formatDate } from './dateHelpers';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * The part of an item that falls on one day, as drawn on that day's
+ * timeline: clipped to the day, with a note of which ends were cut off.
+ */
+export interface DaySegment {
+  startMinutes: number; // minutes after midnight, by the clock
+  endMinutes: number; // up to 24 * 60 when the item runs to or past midnight
+  clippedStart: boolean; // the item began on an earlier day
+  clippedEnd: boolean; // the item carries on into a later day
+}
+
+function getDayBounds(date: string): { start: Date; end: Date } {
+  const start = parseISO(date);
+  return { start, end: addDays(start, 1) };
+}
+
+function minutesOfDay(d: Date): number {
+  return d.getHours() * 60 + d.getMinutes();
+}
+
+/**
+ * Whether an item from `startTime` to `endTime` covers any of `date`. The
+ * end is exclusive, so an item ending at midnight does not reach the next
+ * day; an item with no length belongs to the day it falls on.
+ */
+export function coversDate(startTime: string, endTime: string, date: string): boolean {
+  const { start, end } = getDayBounds(date);
+  const itemStart = parseISO(startTime);
+  const itemEnd = parseISO(endTime);
+  if (itemEnd <= itemStart) return itemStart >= start && itemStart < end;
+  return itemStart < end && itemEnd > start;
+}
+
+/**
+ * The segment of an item that falls on `date`, or null if it does not
+ * cover that day.
+ */
+export function getDaySegment(startTime: string, endTime: string, date: string): DaySegment | null {
+  if (!coversDate(startTime, endTime, date)) return null;
+  const { start, end } = getDayBounds(date);
+  const itemStart = parseISO(startTime);
+  const itemEnd = parseISO(endTime);
+
+  const clippedStart = itemStart < start;
+  const startMinutes = clippedStart ? 0 : minutesOfDay(itemStart);
+  const endMinutes = itemEnd >= end ? MINUTES_PER_DAY : minutesOfDay(itemEnd);
+  return {
+    startMinutes,
+    endMinutes: Math.max(startMinutes, endMinutes),
+    clippedStart,
+    clippedEnd: itemEnd > end,
+  };
+}
+
+/**
+ * Every date ("YYYY-MM-DD") an item covers, in order.
+ */
+export function getCoveredDates(startTime: string, endTime: string): string[] {
+  const itemStart = parseISO(startTime);
+  const itemEnd = parseISO(endTime);
+  // The end is exclusive: the last day covered is the one holding its final instant
+  const last = itemEnd > itemStart ? new Date(itemEnd.getTime() - 1) : itemStart;
+  const dates: string[] = [];
+  for (let day = startOfDay(itemStart); day <= last; day = addDays(day, 1)) {
+    dates.push(formatDate(day));
+  }
+  return dates;
+}
@@ -9,6 +9,33 @@ export {
   areSameDay,
 } from './dateHelpers';
 export { generateId } from './idGenerator';
-export { generateNextOccurrence, generateOccurrences } from './recurrenceEngine';
+export {
+  generateNextOccurrence,
+  generateOccurrences,
+  previewOccurrences,
+  formatRRule,
+  parseRRule,
+} from './recurrenceEngine';
 export { detectConflicts, hasConflict, getConflictingEventIds } from './conflictDetection';
 export type { Conflict } from './conflictDetection';
+export {
+  buildOccurrenceId,
+  parseOccurrenceId,
+  materializeOccurrence,
+  expandTasksInRange,
+  getTasksForDate,
+} from './taskOccurrences';
+export { hourToTime, getDayHours, orderTasksForDay, moveTaskInOrder } from './dayPlan';
+export { getRangeAround, extendRange, getUnloadedRanges, getRangeBounds } from './dateRange';
+export type { DateRange } from './dateRange';
+export {
+  getBlockTimesForTask,
+  getTaskUpdatesForBlock,
+  buildTaskPartBlockId,
+  parseTaskPartBlockId,
+  TASK_PART_SEPARATOR,
+} from './taskBlockLink';
+export { layoutColumns, getColumnFrame } from './columnLayout';
+export type { LayoutInterval, ColumnSlot, ColumnFrame } from './columnLayout';
+export { coversDate, getDaySegment, getCoveredDates } from './daySegments';
+export type { DaySegment } from './daySegments';
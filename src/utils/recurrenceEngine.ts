@@ -1,8 +1,48 @@
-import { parseISO, addDays, addWeeks, addMonths, addYears, getDay, format, isAfter, isBefore, isSameDay } from 'date-fns';
-import type { Task, Recurrence } from '../types';
+import {
+  parseISO,
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  getDay,
+  getDate,
+  getMonth,
+  getDaysInMonth,
+  format,
+  isValid,
+  startOfWeek,
+  startOfMonth,
+  startOfYear,
+  endOfMonth,
+  endOfYear,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+} from 'date-fns';
+import type { Task, Recurrence, RecurrenceFrequency, NthWeekday } from '../types';
 
 const DATE_FORMAT = 'yyyy-MM-dd';
 
+/** Weeks start on Sunday, matching the week and month calendar grids. */
+const WEEK_STARTS_ON = 0;
+
+/**
+ * Upper bound on the number of periods (days, weeks, months, years) walked
+ * while looking for occurrences, so rules that can never match (e.g. the
+ * 30th of February) terminate.
+ */
+const MAX_PERIODS = 10000;
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
 /**
  * Given a task with a recurrence rule and a reference date (the task's scheduledDate),
  * returns the next occurrence date as an ISO date string, or null if there are no more.
@@ -10,17 +50,9 @@ const DATE_FORMAT = 'yyyy-MM-dd';
 export function generateNextOccurrence(task: Task): string | null {
   if (!task.recurrence) return null;
 
-  const { recurrence } = task;
-  const currentDate = parseISO(task.scheduledDate);
-  const nextDate = advanceDate(currentDate, recurrence);
-
-  if (!nextDate) return null;
-
-  if (recurrence.endDate && isAfter(nextDate, parseISO(recurrence.endDate))) {
-    return null;
-  }
-
-  return format(nextDate, DATE_FORMAT);
+  const dayAfter = format(addDays(parseISO(task.scheduledDate), 1), DATE_FORMAT);
+  const [next] = collectOccurrences(task.recurrence, task.scheduledDate, dayAfter, null, 1);
+  return next ?? null;
 }
 
 /**
@@ -33,95 +65,418 @@ export function generateOccurrences(
   endDate: string
 ): string[] {
   if (!task.recurrence) return [];
+  return collectOccurrences(task.recurrence, task.scheduledDate, startDate, endDate, Infinity);
+}
 
-  const { recurrence } = task;
-  const rangeStart = parseISO(startDate);
-  const rangeEnd = parseISO(endDate);
-  const ruleEnd = recurrence.endDate ? parseISO(recurrence.endDate) : null;
-  const occurrences: string[] = [];
+/**
+ * Returns the first `limit` occurrence dates of a rule starting on `startDate`.
+ * Used to preview a rule before it is saved.
+ */
+export function previewOccurrences(
+  recurrence: Recurrence,
+  startDate: string,
+  limit: number
+): string[] {
+  return collectOccurrences(recurrence, startDate, startDate, null, limit);
+}
 
-  let cursor = parseISO(task.scheduledDate);
+/**
+ * Walk the rule period by period from the series start (`dtstart`) and collect
+ * occurrences in [rangeStart, rangeEnd], up to `limit` results. The series
+ * start is always the first occurrence; COUNT counts occurrences before
+ * EXDATE exclusions are applied, as in RFC 5545.
+ */
+function collectOccurrences(
+  recurrence: Recurrence,
+  dtstart: string,
+  rangeStart: string,
+  rangeEnd: string | null,
+  limit: number
+): string[] {
+  const start = parseISO(dtstart);
+  const interval = Math.max(1, recurrence.interval || 1);
+  const excluded = new Set(recurrence.exceptionDates ?? []);
+  const until = recurrence.endDate ?? null;
+  const result: string[] = [];
 
-  // If the task's original due date is before the range, advance to range start
-  while (isBefore(cursor, rangeStart) && !isSameDay(cursor, rangeStart)) {
-    const next = advanceDate(cursor, recurrence);
-    if (!next) break;
-    if (ruleEnd && isAfter(next, ruleEnd)) break;
-    cursor = next;
+  // Without COUNT, earlier periods can't affect the result, so jump close to the range
+  let period = 0;
+  if (recurrence.count == null && rangeStart > dtstart) {
+    const elapsed = periodsBetween(recurrence.frequency, start, parseISO(rangeStart));
+    period = Math.max(0, Math.floor(elapsed / interval) - 1);
   }
 
-  // Collect occurrences within range
-  while (
-    (isBefore(cursor, rangeEnd) || isSameDay(cursor, rangeEnd)) &&
-    (!ruleEnd || isBefore(cursor, ruleEnd) || isSameDay(cursor, ruleEnd))
-  ) {
-    if (isSameDay(cursor, rangeStart) || isAfter(cursor, rangeStart)) {
-      occurrences.push(format(cursor, DATE_FORMAT));
+  let emitted = 0;
+  const lastPeriod = period + MAX_PERIODS;
+  for (; period < lastPeriod; period++) {
+    const periodStart = getPeriodStart(recurrence.frequency, start, period * interval);
+    const periodStartISO = format(periodStart, DATE_FORMAT);
+    if (rangeEnd && periodStartISO > rangeEnd) break;
+    if (until && periodStartISO > until) break;
+
+    const candidates = getPeriodCandidates(recurrence, start, periodStart);
+    if (period === 0) candidates.unshift(dtstart);
+
+    for (const date of dedupeSorted(candidates)) {
+      if (date < dtstart) continue;
+      if (until && date > until) return result;
+      if (recurrence.count != null && emitted >= recurrence.count) return result;
+      emitted++;
+
+      if (excluded.has(date) || date < rangeStart) continue;
+      if (rangeEnd && date > rangeEnd) return result;
+      result.push(date);
+      if (result.length >= limit) return result;
     }
+  }
+
+  return result;
+}
 
-    const next = advanceDate(cursor, recurrence);
-    if (!next) break;
-    // Safety: prevent infinite loops if advanceDate returns same date
-    if (isSameDay(next, cursor)) break;
-    cursor = next;
+function periodsBetween(frequency: RecurrenceFrequency, from: Date, to: Date): number {
+  switch (frequency) {
+    case 'daily':
+      return differenceInCalendarDays(to, from);
+    case 'weekly':
+      return differenceInCalendarWeeks(to, from, { weekStartsOn: WEEK_STARTS_ON });
+    case 'monthly':
+      return differenceInCalendarMonths(to, from);
+    case 'yearly':
+      return differenceInCalendarYears(to, from);
   }
+}
 
-  return occurrences;
+function getPeriodStart(frequency: RecurrenceFrequency, start: Date, offset: number): Date {
+  switch (frequency) {
+    case 'daily':
+      return addDays(start, offset);
+    case 'weekly':
+      return addWeeks(startOfWeek(start, { weekStartsOn: WEEK_STARTS_ON }), offset);
+    case 'monthly':
+      return addMonths(startOfMonth(start), offset);
+    case 'yearly':
+      return addYears(startOfYear(start), offset);
+  }
 }
 
 /**
- * Advance a date by the recurrence rule. Returns the next Date or null.
+ * Candidate dates (ISO strings, unsorted) produced by one period of the rule.
  */
-function advanceDate(current: Date, recurrence: Recurrence): Date | null {
-  const { frequency, interval } = recurrence;
+function getPeriodCandidates(recurrence: Recurrence, start: Date, periodStart: Date): string[] {
+  const { daysOfWeek, daysOfMonth, months } = recurrence;
+  let dates: Date[];
 
-  switch (frequency) {
+  switch (recurrence.frequency) {
     case 'daily':
-      return addDays(current, interval);
+      dates = [periodStart];
+      if (daysOfWeek?.length) dates = dates.filter((d) => daysOfWeek.includes(getDay(d)));
+      if (daysOfMonth?.length) dates = dates.filter((d) => matchesMonthDay(d, daysOfMonth));
+      break;
 
     case 'weekly': {
-      if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-        return findNextWeekday(current, recurrence.daysOfWeek, interval);
-      }
-      return addWeeks(current, interval);
+      const weekdays = daysOfWeek?.length ? daysOfWeek : [getDay(start)];
+      dates = weekdays.map((day) => addDays(periodStart, day));
+      break;
     }
 
     case 'monthly':
-      return addMonths(current, interval);
+      dates = getMonthCandidates(recurrence, start, periodStart);
+      break;
 
     case 'yearly':
-      return addYears(current, interval);
+      dates = getYearCandidates(recurrence, start, periodStart);
+      break;
+  }
+
+  if (months?.length && recurrence.frequency !== 'yearly') {
+    dates = dates.filter((d) => months.includes(getMonth(d) + 1));
+  }
+
+  return dates.map((d) => format(d, DATE_FORMAT));
+}
+
+function hasByDay(recurrence: Recurrence): boolean {
+  return !!(recurrence.daysOfWeek?.length || recurrence.nthWeekdays?.length);
+}
+
+/**
+ * Dates within one month: BYMONTHDAY (limited by BYDAY when both are set),
+ * else BYDAY, else the day of month of the series start.
+ */
+function getMonthCandidates(recurrence: Recurrence, start: Date, monthStart: Date): Date[] {
+  const monthEnd = endOfMonth(monthStart);
+
+  if (recurrence.daysOfMonth?.length) {
+    const dates = resolveMonthDays(monthStart, recurrence.daysOfMonth);
+    if (!hasByDay(recurrence)) return dates;
+    const byDay = new Set(getByDayDates(recurrence, monthStart, monthEnd).map((d) => d.getTime()));
+    return dates.filter((d) => byDay.has(d.getTime()));
+  }
+
+  if (hasByDay(recurrence)) {
+    return getByDayDates(recurrence, monthStart, monthEnd);
+  }
+
+  // A plain monthly rule skips months that are too short, e.g. the 31st
+  return resolveMonthDays(monthStart, [getDate(start)]);
+}
+
+function getYearCandidates(recurrence: Recurrence, start: Date, yearStart: Date): Date[] {
+  if (recurrence.months?.length) {
+    return recurrence.months.flatMap((month) =>
+      getMonthCandidates(recurrence, start, addMonths(yearStart, month - 1)),
+    );
+  }
+
+  if (recurrence.daysOfMonth?.length) {
+    return Array.from({ length: 12 }, (_, i) =>
+      getMonthCandidates(recurrence, start, addMonths(yearStart, i)),
+    ).flat();
+  }
+
+  // Ordinals without BYMONTH count within the whole year ("20th Monday")
+  if (hasByDay(recurrence)) {
+    return getByDayDates(recurrence, yearStart, endOfYear(yearStart));
+  }
+
+  return getMonthCandidates(recurrence, start, addMonths(yearStart, getMonth(start)));
+}
+
+/**
+ * Resolve BYMONTHDAY values (negative counts from the end) to dates,
+ * dropping days that don't exist in this month.
+ */
+function resolveMonthDays(monthStart: Date, days: number[]): Date[] {
+  const length = getDaysInMonth(monthStart);
+  const dates: Date[] = [];
+  for (const day of days) {
+    const dayOfMonth = day > 0 ? day : length + day + 1;
+    if (dayOfMonth >= 1 && dayOfMonth <= length) {
+      dates.push(addDays(monthStart, dayOfMonth - 1));
+    }
+  }
+  return dates;
+}
+
+function matchesMonthDay(date: Date, days: number[]): boolean {
+  const length = getDaysInMonth(date);
+  const dayOfMonth = getDate(date);
+  return days.some((day) => (day > 0 ? day : length + day + 1) === dayOfMonth);
+}
+
+/**
+ * All BYDAY matches between `from` and `to` (inclusive): every listed weekday,
+ * plus the n-th (or n-th from last) occurrence of each ordinal weekday.
+ */
+function getByDayDates(recurrence: Recurrence, from: Date, to: Date): Date[] {
+  const span = differenceInCalendarDays(to, from) + 1;
+  const byWeekday: Date[][] = [[], [], [], [], [], [], []];
+  for (let i = 0; i < span; i++) {
+    const date = addDays(from, i);
+    byWeekday[getDay(date)].push(date);
+  }
+
+  const dates: Date[] = [];
+  for (const weekday of recurrence.daysOfWeek ?? []) {
+    dates.push(...byWeekday[weekday]);
+  }
+  for (const { weekday, ordinal } of recurrence.nthWeekdays ?? []) {
+    const matches = byWeekday[weekday];
+    const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+    if (match) dates.push(match);
+  }
+  return dates;
+}
+
+function dedupeSorted(dates: string[]): string[] {
+  return [...new Set(dates)].sort();
+}
+
+// ── RRULE (RFC 5545) parsing and serialization ─────────────────────────
+
+function toRRuleDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/**
+ * The local date of an RFC 5545 DATE or DATE-TIME value. A UTC date-time
+ * ("20261231T235959Z") can fall on another day here; a floating one is
+ * already local.
+ */
+function fromRRuleDate(value: string): string | null {
+  const utc = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (utc) {
+    const [year, month, day, hours, minutes, seconds] = utc.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+    return isValid(date) ? format(date, DATE_FORMAT) : null;
+  }
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  const isoDate = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValid(parseISO(isoDate)) ? isoDate : null;
+}
+
+function parseIntList(value: string): number[] | null {
+  const numbers = value.split(',').map((part) => Number(part));
+  return numbers.every((n) => Number.isInteger(n) && n !== 0) ? numbers : null;
+}
+
+function formatNthWeekday({ weekday, ordinal }: NthWeekday): string {
+  return `${ordinal}${RRULE_WEEKDAYS[weekday]}`;
+}
+
+/**
+ * Serialize a recurrence to RFC 5545 text: an `RRULE:` line, followed by an
+ * `EXDATE` line when the rule has exception dates.
+ */
+export function formatRRule(recurrence: Recurrence): string {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`];
 
-    default:
-      return null;
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+  // Weekly rules with an interval depend on where weeks start
+  if (recurrence.frequency === 'weekly' && recurrence.interval > 1) parts.push('WKST=SU');
+
+  const byDay = [
+    ...(recurrence.daysOfWeek ?? []).map((day) => RRULE_WEEKDAYS[day]),
+    ...(recurrence.nthWeekdays ?? []).map(formatNthWeekday),
+  ];
+  if (byDay.length > 0) parts.push(`BYDAY=${byDay.join(',')}`);
+  if (recurrence.daysOfMonth?.length) parts.push(`BYMONTHDAY=${recurrence.daysOfMonth.join(',')}`);
+  if (recurrence.months?.length) parts.push(`BYMONTH=${recurrence.months.join(',')}`);
+  if (recurrence.count != null) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.endDate) parts.push(`UNTIL=${toRRuleDate(recurrence.endDate)}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (recurrence.exceptionDates?.length) {
+    lines.push(`EXDATE;VALUE=DATE:${recurrence.exceptionDates.map(toRRuleDate).join(',')}`);
   }
+  return lines.join('\n');
 }
 
 /**
- * For weekly recurrence with specific days, finds the next matching weekday.
- * Days are 0=Sun..6=Sat.
- * If there are more matching days in the current week, picks the next one.
- * Otherwise, jumps ahead by `interval` weeks and picks the first matching day.
+ * Parse RFC 5545 recurrence text into a Recurrence. Accepts a bare rule
+ * ("FREQ=WEEKLY;BYDAY=MO"), an `RRULE:` line, and optional `EXDATE` lines.
+ * Returns null for rules we can't represent (e.g. FREQ=HOURLY, BYSETPOS, or
+ * a week start other than Sunday where it changes the dates).
  */
-function findNextWeekday(
-  current: Date,
-  daysOfWeek: number[],
-  interval: number
-): Date {
-  const sorted = [...daysOfWeek].sort((a, b) => a - b);
-  const currentDay = getDay(current); // 0-6
-
-  // Find next day in the same week (same interval cycle)
-  for (const day of sorted) {
-    if (day > currentDay) {
-      return addDays(current, day - currentDay);
+export function parseRRule(text: string): Recurrence | null {
+  let recurrence: Recurrence | null = null;
+  const exceptionDates: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const colon = line.indexOf(':');
+    const name = colon === -1 ? 'RRULE' : line.slice(0, colon).split(';')[0].toUpperCase();
+    const value = colon === -1 ? line : line.slice(colon + 1);
+
+    if (name === 'RRULE') {
+      recurrence = parseRuleValue(value);
+      if (!recurrence) return null;
+    } else if (name === 'EXDATE') {
+      for (const part of value.split(',')) {
+        const date = fromRRuleDate(part);
+        if (!date) return null;
+        exceptionDates.push(date);
+      }
+    }
+  }
+
+  if (!recurrence) return null;
+  if (exceptionDates.length > 0) recurrence.exceptionDates = exceptionDates;
+  return recurrence;
+}
+
+function parseRuleValue(value: string): Recurrence | null {
+  const fields = new Map<string, string>();
+  for (const part of value.split(';')) {
+    const [key, fieldValue] = part.split('=');
+    if (!key || fieldValue === undefined) return null;
+    fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+  }
+
+  const frequency = RRULE_FREQUENCIES[fields.get('FREQ') ?? ''];
+  if (!frequency) return null;
+
+  const recurrence: Recurrence = { frequency, interval: 1 };
+
+  for (const [key, fieldValue] of fields) {
+    switch (key) {
+      case 'FREQ':
+        break;
+
+      case 'WKST':
+        if (!RRULE_WEEKDAYS.includes(fieldValue)) return null;
+        break;
+
+      case 'INTERVAL': {
+        const interval = Number(fieldValue);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        recurrence.interval = interval;
+        break;
+      }
+
+      case 'BYDAY':
+        for (const entry of fieldValue.split(',')) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+          if (!match) return null;
+          const weekday = RRULE_WEEKDAYS.indexOf(match[2]);
+          if (match[1]) {
+            const ordinal = Number(match[1]);
+            if (ordinal === 0) return null;
+            recurrence.nthWeekdays = [...(recurrence.nthWeekdays ?? []), { weekday, ordinal }];
+          } else {
+            recurrence.daysOfWeek = [...(recurrence.daysOfWeek ?? []), weekday];
+          }
+        }
+        break;
+
+      case 'BYMONTHDAY': {
+        const days = parseIntList(fieldValue);
+        if (!days || days.some((d) => Math.abs(d) > 31)) return null;
+        recurrence.daysOfMonth = days;
+        break;
+      }
+
+      case 'BYMONTH': {
+        const months = parseIntList(fieldValue);
+        if (!months || months.some((m) => m < 1 || m > 12)) return null;
+        recurrence.months = months;
+        break;
+      }
+
+      case 'COUNT': {
+        const count = Number(fieldValue);
+        if (!Number.isInteger(count) || count < 1) return null;
+        recurrence.count = count;
+        break;
+      }
+
+      case 'UNTIL': {
+        const endDate = fromRRuleDate(fieldValue);
+        if (!endDate) return null;
+        recurrence.endDate = endDate;
+        break;
+      }
+
+      default:
+        // BYSETPOS, BYWEEKNO, BYHOUR, ... are not supported
+        return null;
     }
   }
 
-  // No more days this week; jump to the first matching day of the next interval week
-  const daysUntilSunday = 7 - currentDay;
-  const nextWeekStart = addDays(current, daysUntilSunday + (interval - 1) * 7);
-  // nextWeekStart is Sunday of the target week
-  const firstDay = sorted[0];
-  return addDays(nextWeekStart, firstDay);
+  // Weeks start on Sunday here; another start only matters when a week of
+  // an every-n-weeks rule holds more than one day
+  const weekStart = fields.get('WKST') ?? 'SU';
+  if (
+    weekStart !== RRULE_WEEKDAYS[WEEK_STARTS_ON] &&
+    frequency === 'weekly' &&
+    recurrence.interval > 1 &&
+    (recurrence.daysOfWeek?.length ?? 0) > 1
+  ) {
+    return null;
+  }
+
+  return recurrence;
 }
@@ -0,0 +1,73 @@
+import type { Task, TimeBlock } from '../types';
+import { Config } from '../constants';
+import { formatDate, formatTime, minutesBetween } from './dateHelpers';
+
+export const TASK_PART_SEPARATOR = '#part-';
+
+/**
+ * The id of the block holding a later part (2..n) of a task the day planner
+ * split across gaps. Only the first part is the task's linked block; the
+ * others are found through this id.
+ */
+export function buildTaskPartBlockId(taskId: string, part: number): string {
+  return `${taskId}${TASK_PART_SEPARATOR}${part}`;
+}
+
+/**
+ * Split the id of a task's part block back into the task id and part
+ * number. Returns null for any other block.
+ */
+export function parseTaskPartBlockId(id: string): { taskId: string; part: number } | null {
+  const index = id.lastIndexOf(TASK_PART_SEPARATOR);
+  if (index === -1) return null;
+  const part = Number(id.slice(index + TASK_PART_SEPARATOR.length));
+  if (!Number.isInteger(part)) return null;
+  return { taskId: id.slice(0, index), part };
+}
+
+/**
+ * Where a task with a time of day sits on the timeline: from its scheduled
+ * date and time, for its estimate (or the default duration) less the
+ * minutes held by the task's other parts.
+ */
+export function getBlockTimesForTask(
+  task: Task,
+  otherPartsMinutes = 0,
+): { startTime: string; endTime: string } | null {
+  if (!task.scheduledTime) return null;
+  const durationMinutes = (task.estimatedMinutes ?? Config.defaultTaskDuration) - otherPartsMinutes;
+  const start = new Date(`${task.scheduledDate}T${task.scheduledTime}:00`);
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+}
+
+/**
+ * The changes that bring a task in line with its linked block after the
+ * block was moved, resized or renamed, or null if it already agrees. A
+ * recurring task keeps its start date, since moving it would move the whole
+ * series; only its time of day follows the block. The estimate counts the
+ * minutes of the task's other parts as well as the block's own.
+ */
+export function getTaskUpdatesForBlock(
+  task: Task,
+  block: TimeBlock,
+  otherPartsMinutes = 0,
+): Partial<Task> | null {
+  const updates: Partial<Task> = {};
+
+  const scheduledDate = formatDate(block.startTime);
+  if (!task.recurrence && scheduledDate !== task.scheduledDate) updates.scheduledDate = scheduledDate;
+
+  const scheduledTime = formatTime(block.startTime);
+  if (scheduledTime !== task.scheduledTime) updates.scheduledTime = scheduledTime;
+
+  const blockMinutes = minutesBetween(block.startTime, block.endTime);
+  const minutes = blockMinutes + otherPartsMinutes;
+  if (blockMinutes > 0 && minutes !== (task.estimatedMinutes ?? Config.defaultTaskDuration)) {
+    updates.estimatedMinutes = minutes;
+  }
+
+  if (block.title !== task.title) updates.title = block.title;
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
@@ -0,0 +1,87 @@
+import type { Task, TaskOccurrence } from '../types';
+import { generateOccurrences } from './recurrenceEngine';
+
+const OCCURRENCE_SEPARATOR = '::';
+
+/**
+ * Build the id of a virtual occurrence of a recurring task.
+ * Doubles as the key of its stored state in the task store.
+ */
+export function buildOccurrenceId(taskId: string, date: string): string {
+  return `${taskId}${OCCURRENCE_SEPARATOR}${date}`;
+}
+
+/**
+ * Split a virtual occurrence id back into its master task id and date.
+ * Returns null for ids of regular (stored) tasks.
+ */
+export function parseOccurrenceId(id: string): { taskId: string; date: string } | null {
+  const index = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index === -1) return null;
+  return {
+    taskId: id.slice(0, index),
+    date: id.slice(index + OCCURRENCE_SEPARATOR.length),
+  };
+}
+
+/**
+ * Build the task shown for one occurrence of a recurring master,
+ * merging in any stored per-occurrence state.
+ */
+export function materializeOccurrence(
+  master: Task,
+  date: string,
+  state: TaskOccurrence | undefined,
+): Task {
+  return {
+    ...master,
+    id: buildOccurrenceId(master.id, date),
+    masterTaskId: master.id,
+    scheduledDate: date,
+    status: state?.status ?? 'todo',
+    completedAt: state?.completedAt ?? null,
+    carriedOverFrom: null,
+  };
+}
+
+/**
+ * Returns the tasks visible in [startDate, endDate] (inclusive ISO dates):
+ * one-off tasks scheduled in the range, plus a virtual occurrence for every
+ * date a recurring master falls on. Skipped occurrences are left out.
+ */
+export function expandTasksInRange(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  startDate: string,
+  endDate: string,
+): Task[] {
+  const result: Task[] = [];
+
+  for (const task of tasks) {
+    if (!task.recurrence) {
+      if (task.scheduledDate >= startDate && task.scheduledDate <= endDate) {
+        result.push(task);
+      }
+      continue;
+    }
+
+    for (const date of generateOccurrences(task, startDate, endDate)) {
+      const state = occurrences[buildOccurrenceId(task.id, date)];
+      if (state?.skipped) continue;
+      result.push(materializeOccurrence(task, date, state));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the tasks visible on a single date, including recurring occurrences.
+ */
+export function getTasksForDate(
+  tasks: Task[],
+  occurrences: Record<string, TaskOccurrence>,
+  date: string,
+): Task[] {
+  return expandTasksInRange(tasks, occurrences, date, date);
+}